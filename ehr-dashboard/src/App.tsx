@@ -1,20 +1,70 @@
 import { useState, useEffect, useCallback } from 'react';
-import type { Patient, DocumentationEntry } from '../../shared/types';
+import type { Patient, DocumentationEntry, EarlyWarningScores, HL7DeliveryRecord } from '../../shared/types';
 import { mockPatients, mockDocumentationEntries } from './data/mockPatients';
-import { toFHIRFormat, toHL7Format, toCSVFormat, downloadAsFile } from './utils/exportFormats';
+import { toFHIRFormat, toHL7Format, toCDAFormat, toCSVFormat, downloadAsFile } from '../../shared/services/exportFormats';
+import { importHL7Messages } from '../../shared/services/hl7Inbound';
+import { importFHIRBundle } from '../../shared/services/fhirInbound';
+import { formatVitalSign } from '../../shared/services/vitalSignUnits';
+import { getEarlyWarningScores } from '../../shared/services/earlyWarningScores';
+import { isAwaitingCoSignature } from '../../shared/services/signatures';
+import PatientList from './components/PatientList';
+import NoteDetail from './components/NoteDetail';
+import EarlyWarningBadge from './components/EarlyWarningBadge';
+import AmendmentHistory from './components/AmendmentHistory';
+import SignatureDetail from './components/SignatureDetail';
+import VitalTrends from './components/VitalTrends';
 import * as storageService from '../../shared/services/storageService';
 import { getCompleteDemoData } from '../../shared/mockData';
 
-type ExportFormat = 'human' | 'fhir' | 'hl7' | 'csv';
+type ExportFormat = 'human' | 'fhir' | 'hl7' | 'cda' | 'csv';
+type PatientView = 'notes' | 'trends';
+
+// Patients created or updated by imports (HL7 ADT messages, FHIR Patient resources); key predates FHIR import
+const IMPORTED_PATIENTS_KEY = 'voize_hl7_patients';
+
+// Mock patients with any imported (ADT / FHIR Patient) updates applied (matched by id)
+const loadPatients = (): Patient[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(IMPORTED_PATIENTS_KEY) || '[]') as Patient[];
+    const storedById = new Map(stored.map((patient) => [patient.id, patient]));
+    return [
+      ...mockPatients.map((patient) => storedById.get(patient.id) || patient),
+      ...stored.filter((patient) => !mockPatients.some((mock) => mock.id === patient.id)),
+    ];
+  } catch (error) {
+    console.error('❌ Failed to load HL7 patients:', error);
+    return mockPatients;
+  }
+};
+
+// Whether an entry's NEWS2 or MEWS has reached the escalation threshold
+const needsEscalation = (entry: DocumentationEntry): boolean => {
+  const scores = getEarlyWarningScores(entry);
+  return !!scores && (scores.news2.escalate || scores.mews.escalate);
+};
 
 function App() {
-  const [patients] = useState<Patient[]>(mockPatients);
+  const [patients, setPatients] = useState<Patient[]>(loadPatients);
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(patients[0]);
   const [allEntries, setAllEntries] = useState<DocumentationEntry[]>([]);
   const [selectedEntry, setSelectedEntry] = useState<DocumentationEntry | null>(null);
   const [exportFormat, setExportFormat] = useState<ExportFormat>('human');
   const [newEntryNotification, setNewEntryNotification] = useState<DocumentationEntry | null>(null);
   const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [importSummary, setImportSummary] = useState<string | null>(null);
+  const [patientView, setPatientView] = useState<PatientView>('notes');
+  const [authorFilter, setAuthorFilter] = useState<string>('all');
+  const [escalationAlerts, setEscalationAlerts] = useState<DocumentationEntry[]>([]);
+
+  // Raise an escalation alert for entries at or above the NEWS2/MEWS threshold (one per entry)
+  const addEscalationAlerts = useCallback((entries: DocumentationEntry[]) => {
+    const escalating = entries.filter(needsEscalation);
+    if (escalating.length === 0) return;
+    setEscalationAlerts((prev) => [
+      ...escalating,
+      ...prev.filter((alert) => !escalating.some((entry) => entry.id === alert.id)),
+    ]);
+  }, []);
 
   // Get current time for header
   const [currentTime, setCurrentTime] = useState(new Date());
@@ -40,48 +90,51 @@ function App() {
 
   // Load all entries from storageService on mount
   useEffect(() => {
-    console.log('🔊 EHR Dashboard: Loading entries from storageService');
-    const result = storageService.getAllEHREntries();
-
-    if (result.success && result.data && result.data.length > 0) {
-      console.log('✅ Loaded', result.data.length, 'entries from storage');
-      setAllEntries(result.data);
-    } else {
-      console.log('📦 Loading demo data from mockData service');
-      // Try to load demo data from localStorage first
-      const demoNotesJson = localStorage.getItem('voize_demo_notes');
-
-      if (demoNotesJson) {
-        try {
-          const demoNotes = JSON.parse(demoNotesJson);
-          // Convert to DocumentationEntry format
-          const convertedEntries: DocumentationEntry[] = demoNotes.map((note: any) => ({
-            id: note.id,
-            timestamp: note.timestamp,
-            nurseId: note.nurseName.toLowerCase().replace(/\s+/g, '-'),
-            nurseName: note.nurseName,
-            patientId: note.patientId,
-            patientMRN: note.patientId,
-            patientName: patients.find(p => p.mrn === note.patientId)?.name || 'Unknown',
-            workflowType: note.workflowType,
-            voiceTranscript: note.rawTranscript,
-            structuredData: note.structuredData || {},
-            status: 'sent_to_ehr',
-            sentToEHRAt: note.updatedAt,
-            transcriptConfidence: note.confidence
-          }));
-          console.log('✅ Loaded', convertedEntries.length, 'demo entries from localStorage');
-          setAllEntries(convertedEntries);
-        } catch (error) {
-          console.error('❌ Failed to parse demo notes:', error);
+    const loadEntries = async () => {
+      console.log('🔊 EHR Dashboard: Loading entries from storageService');
+      const result = await storageService.getAllEHREntries();
+
+      if (result.success && result.data && result.data.length > 0) {
+        console.log('✅ Loaded', result.data.length, 'entries from storage');
+        setAllEntries(result.data);
+      } else {
+        console.log('📦 Loading demo data from mockData service');
+        // Try to load demo data from localStorage first
+        const demoNotesJson = localStorage.getItem('voize_demo_notes');
+
+        if (demoNotesJson) {
+          try {
+            const demoNotes = JSON.parse(demoNotesJson);
+            // Convert to DocumentationEntry format
+            const convertedEntries: DocumentationEntry[] = demoNotes.map((note: any) => ({
+              id: note.id,
+              timestamp: note.timestamp,
+              nurseId: note.nurseName.toLowerCase().replace(/\s+/g, '-'),
+              nurseName: note.nurseName,
+              patientId: note.patientId,
+              patientMRN: note.patientId,
+              patientName: patients.find(p => p.mrn === note.patientId)?.name || 'Unknown',
+              workflowType: note.workflowType,
+              voiceTranscript: note.rawTranscript,
+              structuredData: note.structuredData || {},
+              status: 'sent_to_ehr',
+              sentToEHRAt: note.updatedAt,
+              transcriptConfidence: note.confidence
+            }));
+            console.log('✅ Loaded', convertedEntries.length, 'demo entries from localStorage');
+            setAllEntries(convertedEntries);
+          } catch (error) {
+            console.error('❌ Failed to parse demo notes:', error);
+            setAllEntries(mockDocumentationEntries);
+          }
+        } else {
+          // Fall back to default mock data
+          console.log('📋 Using default mock documentation entries');
           setAllEntries(mockDocumentationEntries);
         }
-      } else {
-        // Fall back to default mock data
-        console.log('📋 Using default mock documentation entries');
-        setAllEntries(mockDocumentationEntries);
       }
-    }
+    };
+    loadEntries();
   }, [patients]);
 
   useEffect(() => {
@@ -97,8 +150,16 @@ function App() {
 
       // Add to entries
       setAllEntries((prev) => {
+        const existing = prev.find((e) => e.id === newEntry.id);
+
+        // A newer version (amendment) replaces the one on screen
+        if (existing && (newEntry.version || 1) > (existing.version || 1)) {
+          console.log(`✏️ Entry updated to version ${newEntry.version}`);
+          return prev.map((e) => (e.id === newEntry.id ? newEntry : e));
+        }
+
         // Avoid duplicates
-        if (prev.some((e) => e.id === newEntry.id)) {
+        if (existing) {
           console.log('⚠️ Duplicate entry detected, skipping');
           return prev;
         }
@@ -109,6 +170,7 @@ function App() {
       // Show notification
       setNewEntryNotification(newEntry);
       setTimeout(() => setNewEntryNotification(null), 5000);
+      addEscalationAlerts([newEntry]);
     });
 
     console.log('✅ Subscription active');
@@ -117,13 +179,28 @@ function App() {
       unsubscribe();
       console.log('🔇 Unsubscribed from new entries');
     };
-  }, []);
+  }, [addEscalationAlerts]);
 
   // Get entries for selected patient
   const patientEntries = selectedPatient
     ? allEntries.filter((entry) => entry.patientId === selectedPatient.id)
     : [];
 
+  // Nurses who documented for this patient (a filtered author without entries here shows all)
+  const authors = new Map(patientEntries.map((entry) => [entry.nurseId, entry.nurseName]));
+  const activeAuthor = authors.has(authorFilter) ? authorFilter : 'all';
+  const displayedEntries =
+    activeAuthor === 'all' ? patientEntries : patientEntries.filter((entry) => entry.nurseId === activeAuthor);
+
+  // Most recent early warning scores for each patient
+  const latestScores: Record<string, EarlyWarningScores> = {};
+  [...allEntries]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .forEach((entry) => {
+      const scores = getEarlyWarningScores(entry);
+      if (scores) latestScores[entry.patientId] = scores;
+    });
+
   // Get workflow type color
   const getWorkflowColor = (workflowType: string): string => {
     const colors: Record<string, string> = {
@@ -139,6 +216,25 @@ function App() {
     return colors[workflowType] || colors['general-note'];
   };
 
+  // HL7 v2 delivery badge: ACK code once acknowledged, otherwise the queue status
+  const getHL7DeliveryLabel = (delivery: HL7DeliveryRecord): string => {
+    const ackCode = delivery.acknowledgment?.code;
+    if (delivery.status === 'queued') {
+      return ackCode ? `HL7 ${ackCode} - resend queued` : 'HL7 resend queued';
+    }
+    return ackCode ? `HL7 ${ackCode}` : `HL7 ${delivery.status}`;
+  };
+
+  const getHL7DeliveryColor = (delivery: HL7DeliveryRecord): string => {
+    const colors: Record<string, string> = {
+      acknowledged: 'bg-green-100 text-green-700',
+      queued: 'bg-yellow-100 text-yellow-800',
+      rejected: 'bg-red-100 text-red-700',
+      failed: 'bg-red-100 text-red-700',
+    };
+    return colors[delivery.status];
+  };
+
   // Format workflow type for display
   const formatWorkflowType = (type: string): string => {
     return type
@@ -147,6 +243,87 @@ function App() {
       .join(' ');
   };
 
+  // Merge imported patients and save imported entries; returns the entries saved and any save errors
+  const applyImport = async (
+    importedPatients: Patient[],
+    importedEntries: DocumentationEntry[]
+  ): Promise<{ saved: DocumentationEntry[]; errors: string[] }> => {
+    if (importedPatients.length > 0) {
+      const updatedById = new Map(importedPatients.map((patient) => [patient.id, patient]));
+      const merged = [
+        ...patients.map((patient) => updatedById.get(patient.id) || patient),
+        ...importedPatients.filter((patient) => !patients.some((p) => p.id === patient.id)),
+      ];
+      setPatients(merged);
+      setSelectedPatient((current) => (current && updatedById.get(current.id)) || current);
+
+      const stored = JSON.parse(localStorage.getItem(IMPORTED_PATIENTS_KEY) || '[]') as Patient[];
+      localStorage.setItem(
+        IMPORTED_PATIENTS_KEY,
+        JSON.stringify([...stored.filter((patient) => !updatedById.has(patient.id)), ...importedPatients])
+      );
+    }
+
+    const saved: DocumentationEntry[] = [];
+    const errors: string[] = [];
+    for (const entry of importedEntries) {
+      const saveResult = await storageService.sendToEHR(entry);
+      if (saveResult.success) {
+        saved.push(entry);
+      } else if (saveResult.error) {
+        errors.push(`${entry.id}: ${saveResult.error.message}`);
+      }
+    }
+    if (saved.length > 0) {
+      const savedIds = new Set(saved.map((entry) => entry.id));
+      setAllEntries((prev) => [...saved, ...prev.filter((entry) => !savedIds.has(entry.id))]);
+      addEscalationAlerts(saved);
+    }
+
+    return { saved, errors };
+  };
+
+  // Import an HL7 v2 file: ADT messages update patients, ORU results become entries
+  const handleImportHL7 = async (file: File) => {
+    try {
+      const result = importHL7Messages(await file.text(), patients);
+      const { saved, errors } = await applyImport(result.patients, result.entries);
+      result.errors.push(...errors);
+
+      const summary = `Imported ${result.patients.length} patient update(s) and ${saved.length} result(s) from ${file.name}`;
+      console.log(`📥 ${summary}`, result.errors);
+      setImportSummary(
+        result.errors.length > 0 ? `${summary}. ${result.errors.length} skipped: ${result.errors.join('; ')}` : summary
+      );
+    } catch (error) {
+      console.error('❌ Failed to import HL7 file:', error);
+      setImportSummary(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // Import a FHIR R4 Bundle: Patients update the patient list, Observations/MedicationAdministrations become entries
+  const handleImportFHIR = async (file: File) => {
+    try {
+      const result = importFHIRBundle(await file.text(), patients);
+      const { saved, errors } = await applyImport(result.patients, result.entries);
+
+      // Resource types we don't import are expected (e.g., our own exports' Encounters) and not listed
+      const problems = [
+        ...result.issues
+          .filter((issue) => issue.severity !== 'information')
+          .map((issue) => `${issue.severity === 'error' ? 'Skipped' : 'Warning'} ${issue.resource}: ${issue.message}`),
+        ...errors,
+      ];
+
+      const summary = `Imported ${result.patients.length} patient update(s) and ${saved.length} entr${saved.length === 1 ? 'y' : 'ies'} from ${file.name}`;
+      console.log(`📥 ${summary}`, result.issues);
+      setImportSummary(problems.length > 0 ? `${summary}. ${problems.join('; ')}` : summary);
+    } catch (error) {
+      console.error('❌ Failed to import FHIR file:', error);
+      setImportSummary(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
   // Export entry in selected format
   const handleExport = (entry: DocumentationEntry, format: ExportFormat) => {
     let content = '';
@@ -164,6 +341,11 @@ function App() {
         filename = `${entry.id}-hl7.txt`;
         mimeType = 'text/plain';
         break;
+      case 'cda':
+        content = toCDAFormat(entry, selectedPatient || undefined);
+        filename = `${entry.id}-cda.xml`;
+        mimeType = 'application/xml';
+        break;
       case 'csv':
         content = toCSVFormat(entry);
         filename = `${entry.id}-data.csv`;
@@ -230,7 +412,8 @@ function App() {
               <div className="w-3 h-3 bg-white rounded-full animate-pulse"></div>
               <span className="font-medium">
                 New documentation received for {newEntryNotification.patientName} -{' '}
-                {formatWorkflowType(newEntryNotification.workflowType)}
+                {newEntryNotification.structuredData.customForm?.templateName ||
+                  formatWorkflowType(newEntryNotification.workflowType)}
               </span>
             </div>
             <button
@@ -243,6 +426,46 @@ function App() {
         </div>
       )}
 
+      {/* HL7 / FHIR Import Summary */}
+      {importSummary && (
+        <div className="bg-blue-600 text-white px-6 py-3 shadow-lg">
+          <div className="container mx-auto flex items-center justify-between">
+            <span className="font-medium">{importSummary}</span>
+            <button onClick={() => setImportSummary(null)} className="text-white hover:text-gray-200">
+              ✕
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Early Warning Score Escalation Alerts */}
+      {escalationAlerts.map((alert) => {
+        const scores = getEarlyWarningScores(alert);
+        return (
+          <div key={alert.id} className="bg-red-600 text-white px-6 py-3 shadow-lg">
+            <div className="container mx-auto flex items-center justify-between">
+              <button
+                onClick={() => {
+                  const patient = patients.find((p) => p.id === alert.patientId);
+                  if (patient) setSelectedPatient(patient);
+                }}
+                className="font-medium text-left hover:underline"
+              >
+                ⚠ Escalate: {alert.patientName} - NEWS2 {scores?.news2.total}, MEWS {scores?.mews.total} (
+                {new Date(alert.timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}, by{' '}
+                {alert.nurseName})
+              </button>
+              <button
+                onClick={() => setEscalationAlerts((prev) => prev.filter((a) => a.id !== alert.id))}
+                className="text-white hover:text-gray-200"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
       {/* Dashboard Stats Bar */}
       <div className="bg-white border-b border-gray-200 shadow-sm">
         <div className="container mx-auto px-6 py-4">
@@ -282,45 +505,46 @@ function App() {
         {/* Patient List Panel */}
         <div className="w-80 bg-white border-r border-gray-200 overflow-y-auto">
           <div className="p-4 bg-gray-50 border-b border-gray-200">
-            <h2 className="text-lg font-semibold text-gray-800">Patient List</h2>
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-800">Patient List</h2>
+              <div className="flex gap-1">
+                <label className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-xs rounded font-medium cursor-pointer transition-colors">
+                  Import HL7
+                  <input
+                    type="file"
+                    accept=".hl7,.txt,.er7"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleImportHL7(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                <label className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-xs rounded font-medium cursor-pointer transition-colors">
+                  Import FHIR
+                  <input
+                    type="file"
+                    accept=".json,application/fhir+json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleImportFHIR(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              </div>
+            </div>
             <p className="text-sm text-gray-600">Select a patient to view documentation</p>
           </div>
-          <div className="divide-y divide-gray-200">
-            {patients.map((patient) => {
-              const unreadCount = unreadCounts[patient.id] || 0;
-              const isSelected = selectedPatient?.id === patient.id;
-
-              return (
-                <button
-                  key={patient.id}
-                  onClick={() => setSelectedPatient(patient)}
-                  className={`w-full text-left p-4 hover:bg-blue-50 transition-colors ${
-                    isSelected ? 'bg-blue-50 border-l-4 border-blue-600' : ''
-                  }`}
-                >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <h3 className="font-semibold text-gray-900">{patient.name}</h3>
-                      <p className="text-sm text-gray-600">Room {patient.room}</p>
-                      <p className="text-xs text-gray-500 mt-1">MRN: {patient.mrn}</p>
-                      {patient.primaryDiagnosis && (
-                        <p className="text-xs text-gray-600 mt-1 line-clamp-1">
-                          {patient.primaryDiagnosis}
-                        </p>
-                      )}
-                    </div>
-                    {unreadCount > 0 && (
-                      <div className="ml-2">
-                        <span className="inline-flex items-center justify-center w-6 h-6 bg-red-500 text-white text-xs font-bold rounded-full">
-                          {unreadCount}
-                        </span>
-                      </div>
-                    )}
-                  </div>
-                </button>
-              );
-            })}
-          </div>
+          <PatientList
+            patients={patients}
+            selectedPatientId={selectedPatient?.id}
+            unreadCounts={unreadCounts}
+            latestScores={latestScores}
+            onSelect={setSelectedPatient}
+          />
         </div>
 
         {/* Patient Details Panel */}
@@ -377,11 +601,43 @@ function App() {
               <div className="flex-1 overflow-y-auto p-6 bg-gray-50">
                 <div className="mb-4 flex items-center justify-between">
                   <h3 className="text-lg font-semibold text-gray-800">
-                    Recent Documentation ({patientEntries.length})
+                    {patientView === 'trends' ? 'Vital Sign Trends' : `Recent Documentation (${displayedEntries.length})`}
                   </h3>
+                  <div className="flex items-center gap-3">
+                    {patientView === 'notes' && (
+                      <select
+                        value={activeAuthor}
+                        onChange={(e) => setAuthorFilter(e.target.value)}
+                        className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg bg-white"
+                        title="Filter by author"
+                      >
+                        <option value="all">All authors</option>
+                        {[...authors].map(([nurseId, nurseName]) => (
+                          <option key={nurseId} value={nurseId}>
+                            {nurseName}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+                      {(['notes', 'trends'] as PatientView[]).map((view) => (
+                        <button
+                          key={view}
+                          onClick={() => setPatientView(view)}
+                          className={`px-4 py-1.5 text-sm font-medium transition-colors ${
+                            patientView === view ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                          }`}
+                        >
+                          {view === 'notes' ? 'Notes' : 'Trends'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                 </div>
 
-                {patientEntries.length === 0 ? (
+                {patientView === 'trends' ? (
+                  <VitalTrends entries={patientEntries} patient={selectedPatient} />
+                ) : displayedEntries.length === 0 ? (
                   <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
                     <p>No documentation entries for this patient yet.</p>
                     <p className="text-sm mt-2">
@@ -390,7 +646,7 @@ function App() {
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {patientEntries.map((entry) => (
+                    {displayedEntries.map((entry) => (
                       <div
                         key={entry.id}
                         className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden hover:shadow-lg transition-shadow"
@@ -403,7 +659,7 @@ function App() {
                                 entry.workflowType
                               )}`}
                             >
-                              {formatWorkflowType(entry.workflowType)}
+                              {entry.structuredData.customForm?.templateName || formatWorkflowType(entry.workflowType)}
                             </span>
                             <span className="text-sm text-gray-600">
                               {new Date(entry.timestamp).toLocaleString('en-US', {
@@ -423,8 +679,52 @@ function App() {
                                 <path d="M2 5a2 2 0 012-2h7a2 2 0 012 2v4a2 2 0 01-2 2H9l-3 3v-3H4a2 2 0 01-2-2V5z" />
                                 <path d="M15 7v2a4 4 0 01-4 4H9.828l-1.766 1.767c.28.149.599.233.938.233h2l3 3v-3h2a2 2 0 002-2V9a2 2 0 00-2-2h-1z" />
                               </svg>
-                              Received via Voize
+                              {entry.externalSource
+                                ? `Received via ${entry.externalSource.sendingApplication} (${entry.externalSource.format})`
+                                : 'Received via Voize'}
                             </span>
+                            {entry.amendedAt && (
+                              <span
+                                className="px-2 py-1 bg-amber-100 text-amber-800 text-xs rounded font-medium"
+                                title={`Amended ${new Date(entry.amendedAt).toLocaleString()}`}
+                              >
+                                Amended (v{entry.version})
+                              </span>
+                            )}
+                            {entry.signature && (
+                              <span
+                                className={`px-2 py-1 text-xs rounded font-medium ${
+                                  isAwaitingCoSignature(entry)
+                                    ? 'bg-amber-100 text-amber-800'
+                                    : 'bg-indigo-100 text-indigo-800'
+                                }`}
+                                title={`Signed ${new Date(entry.signature.signedAt).toLocaleString()}`}
+                              >
+                                {isAwaitingCoSignature(entry)
+                                  ? 'Awaiting RN co-signature'
+                                  : `Signed by ${entry.signature.signerName}${
+                                      entry.coSignature ? `, co-signed by ${entry.coSignature.signerName}` : ''
+                                    }`}
+                              </span>
+                            )}
+                            <EarlyWarningBadge score={getEarlyWarningScores(entry)?.news2} />
+                            <EarlyWarningBadge score={getEarlyWarningScores(entry)?.mews} />
+                            {entry.safetyOverride && (
+                              <span
+                                className="px-2 py-1 bg-red-100 text-red-800 text-xs rounded font-medium"
+                                title={entry.flags?.join('\n')}
+                              >
+                                Safety Override
+                              </span>
+                            )}
+                            {entry.hl7Delivery && (
+                              <span
+                                className={`px-2 py-1 text-xs rounded font-medium ${getHL7DeliveryColor(entry.hl7Delivery)}`}
+                                title={entry.hl7Delivery.acknowledgment?.textMessage || entry.hl7Delivery.error}
+                              >
+                                {getHL7DeliveryLabel(entry.hl7Delivery)}
+                              </span>
+                            )}
                           </div>
                           <button
                             onClick={() =>
@@ -475,7 +775,7 @@ function App() {
                                   <div className="bg-orange-50 p-2 rounded">
                                     <p className="text-xs text-gray-600">Temperature</p>
                                     <p className="font-semibold text-orange-900">
-                                      {entry.structuredData.vitalSigns.temperature}°F
+                                      {formatVitalSign(entry.structuredData.vitalSigns, 'temperature')}
                                     </p>
                                   </div>
                                 )}
@@ -503,10 +803,49 @@ function App() {
                                     </p>
                                   </div>
                                 )}
+                                {entry.structuredData.vitalSigns.weight && (
+                                  <div className="bg-gray-50 p-2 rounded">
+                                    <p className="text-xs text-gray-600">Weight</p>
+                                    <p className="font-semibold text-gray-900">
+                                      {formatVitalSign(entry.structuredData.vitalSigns, 'weight')}
+                                    </p>
+                                  </div>
+                                )}
+                                {entry.structuredData.vitalSigns.height && (
+                                  <div className="bg-gray-50 p-2 rounded">
+                                    <p className="text-xs text-gray-600">Height</p>
+                                    <p className="font-semibold text-gray-900">
+                                      {formatVitalSign(entry.structuredData.vitalSigns, 'height')}
+                                    </p>
+                                  </div>
+                                )}
+                                {entry.structuredData.vitalSigns.bloodGlucose && (
+                                  <div className="bg-indigo-50 p-2 rounded">
+                                    <p className="text-xs text-gray-600">Blood Glucose</p>
+                                    <p className="font-semibold text-indigo-900">
+                                      {formatVitalSign(entry.structuredData.vitalSigns, 'bloodGlucose')}
+                                    </p>
+                                  </div>
+                                )}
                               </div>
                             </div>
                           )}
 
+                          {/* Medication safety warnings the nurse overrode */}
+                          {entry.safetyOverride && (
+                            <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded">
+                              <h4 className="text-sm font-semibold text-red-900 mb-1">Safety Warnings Overridden:</h4>
+                              <ul className="text-sm text-red-800 list-disc list-inside">
+                                {entry.safetyOverride.warnings.map((warning, idx) => (
+                                  <li key={idx}>{warning.message}</li>
+                                ))}
+                              </ul>
+                              <p className="text-sm text-gray-700 mt-2">
+                                <span className="font-medium">Reason:</span> {entry.safetyOverride.reason}
+                              </p>
+                            </div>
+                          )}
+
                           {/* Medications */}
                           {entry.structuredData.medications &&
                             entry.structuredData.medications.length > 0 && (
@@ -519,6 +858,13 @@ function App() {
                                     <p className="font-semibold text-orange-900">
                                       {med.name} - {med.dose} ({med.route})
                                     </p>
+                                    {(med.ndc || med.rxnormCode) && (
+                                      <p className="text-xs text-gray-600 mt-1 font-mono">
+                                        {[med.ndc && `NDC ${med.ndc}`, med.rxnormCode && `RxNorm ${med.rxnormCode}`]
+                                          .filter(Boolean)
+                                          .join(' · ')}
+                                      </p>
+                                    )}
                                     {med.reason && (
                                       <p className="text-sm text-gray-700 mt-1">
                                         Reason: {med.reason}
@@ -569,6 +915,124 @@ function App() {
                             </div>
                           )}
 
+                          {/* Admission */}
+                          {entry.structuredData.admissionData && (
+                            <div className="mb-3">
+                              <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                                Admission:
+                              </h4>
+                              <div className="bg-indigo-50 p-3 rounded space-y-2">
+                                <p className="text-sm">
+                                  <span className="font-medium">Admitting Diagnosis:</span>{' '}
+                                  {entry.structuredData.admissionData.admittingDiagnosis}
+                                </p>
+                                <p className="text-sm">
+                                  <span className="font-medium">Chief Complaint:</span>{' '}
+                                  {entry.structuredData.admissionData.chiefComplaint}
+                                </p>
+                                <p className="text-sm">
+                                  <span className="font-medium">Admitted From:</span>{' '}
+                                  {formatWorkflowType(entry.structuredData.admissionData.admissionSource)}
+                                </p>
+                                <p className="text-sm text-red-800">
+                                  <span className="font-medium">Allergies:</span>{' '}
+                                  {entry.structuredData.admissionData.allergies.join(', ') || 'Not documented'}
+                                </p>
+                                {entry.structuredData.admissionData.medicalHistory.length > 0 && (
+                                  <p className="text-sm">
+                                    <span className="font-medium">Medical History:</span>{' '}
+                                    {entry.structuredData.admissionData.medicalHistory.join(', ')}
+                                  </p>
+                                )}
+                                {entry.structuredData.admissionData.currentMedications.length > 0 && (
+                                  <div className="text-sm">
+                                    <span className="font-medium">Home Medications:</span>
+                                    <ul className="list-disc list-inside mt-1">
+                                      {entry.structuredData.admissionData.currentMedications.map((med, idx) => (
+                                        <li key={idx}>
+                                          {med.name} {med.dose} {med.route}
+                                          {med.frequency && ` ${med.frequency}`}
+                                        </li>
+                                      ))}
+                                    </ul>
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Discharge */}
+                          {entry.structuredData.dischargeData && (
+                            <div className="mb-3">
+                              <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                                Discharge:
+                              </h4>
+                              <div className="bg-pink-50 p-3 rounded space-y-2">
+                                <p className="text-sm">
+                                  <span className="font-medium">Disposition:</span>{' '}
+                                  {formatWorkflowType(entry.structuredData.dischargeData.dischargeDisposition)}
+                                  {entry.structuredData.dischargeData.dischargeDestination &&
+                                    ` - ${entry.structuredData.dischargeData.dischargeDestination}`}
+                                </p>
+                                <p className="text-sm">
+                                  <span className="font-medium">Discharge Medications:</span>{' '}
+                                  {entry.structuredData.dischargeData.medications.length}
+                                  {entry.structuredData.dischargeData.medicationReconciliation && (
+                                    <>
+                                      {' '}
+                                      (
+                                      {
+                                        entry.structuredData.dischargeData.medicationReconciliation.filter(
+                                          (item) => item.status === 'discontinued'
+                                        ).length
+                                      }{' '}
+                                      home meds stopped)
+                                    </>
+                                  )}
+                                </p>
+                                {entry.structuredData.dischargeData.followUpAppointments.length > 0 && (
+                                  <p className="text-sm">
+                                    <span className="font-medium">Follow-up:</span>{' '}
+                                    {entry.structuredData.dischargeData.followUpAppointments.join('; ')}
+                                  </p>
+                                )}
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Custom form (unit-defined template) */}
+                          {entry.structuredData.customForm && (
+                            <div className="mb-3">
+                              <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                                {entry.structuredData.customForm.templateName}{' '}
+                                <span className="font-normal text-gray-500">
+                                  (form v{entry.structuredData.customForm.templateVersion})
+                                </span>
+                              </h4>
+                              <div className="bg-gray-50 p-3 rounded space-y-1">
+                                {entry.structuredData.customForm.fields.map((field) => (
+                                  <p key={field.key} className="text-sm">
+                                    <span className="font-medium">{field.label}:</span> {field.value}
+                                    {field.unit && ` ${field.unit}`}
+                                  </p>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Full note detail (printable summaries) - Only show when expanded */}
+                          {selectedEntry?.id === entry.id && (
+                            <NoteDetail entry={entry} patient={selectedPatient} />
+                          )}
+
+                          {/* Signatures - Only show when expanded */}
+                          {selectedEntry?.id === entry.id && <SignatureDetail entry={entry} />}
+
+                          {/* Version history - Only show when expanded */}
+                          {selectedEntry?.id === entry.id && (
+                            <AmendmentHistory key={`${entry.id}-v${entry.version}`} entry={entry} />
+                          )}
+
                           {/* Export Buttons - Only show when expanded */}
                           {selectedEntry?.id === entry.id && (
                             <div className="mt-4 pt-4 border-t border-gray-200">
@@ -588,6 +1052,12 @@ function App() {
                                 >
                                   Download HL7 v2
                                 </button>
+                                <button
+                                  onClick={() => handleExport(entry, 'cda')}
+                                  className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm rounded font-medium transition-colors"
+                                >
+                                  Download C-CDA
+                                </button>
                                 <button
                                   onClick={() => handleExport(entry, 'csv')}
                                   className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm rounded font-medium transition-colors"
@@ -629,6 +1099,16 @@ function App() {
                                   >
                                     HL7 v2
                                   </button>
+                                  <button
+                                    onClick={() => setExportFormat('cda')}
+                                    className={`px-3 py-1 text-sm rounded ${
+                                      exportFormat === 'cda'
+                                        ? 'bg-gray-800 text-white'
+                                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                                    }`}
+                                  >
+                                    C-CDA
+                                  </button>
                                   <button
                                     onClick={() => setExportFormat('csv')}
                                     className={`px-3 py-1 text-sm rounded ${
@@ -643,6 +1123,7 @@ function App() {
                                 <pre className="bg-gray-900 text-green-400 p-4 rounded text-xs overflow-x-auto max-h-96 overflow-y-auto font-mono">
                                   {exportFormat === 'fhir' && toFHIRFormat(entry)}
                                   {exportFormat === 'hl7' && toHL7Format(entry)}
+                                  {exportFormat === 'cda' && toCDAFormat(entry, selectedPatient)}
                                   {exportFormat === 'csv' && toCSVFormat(entry)}
                                   {exportFormat === 'human' && (
                                     <div className="text-white">
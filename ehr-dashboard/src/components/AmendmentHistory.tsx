@@ -0,0 +1,104 @@
+// Amendment history component for EHR dashboard
+// Lists an entry's versions and shows what changed in each one
+
+import { useState } from 'react';
+import type { DocumentationEntry } from '../../../shared/types';
+import { formatChangeValue } from '../../../shared/services/entryVersioning';
+
+interface AmendmentHistoryProps {
+  entry: DocumentationEntry;
+}
+
+export default function AmendmentHistory({ entry }: AmendmentHistoryProps) {
+  const versions = entry.versions || [];
+  const [selectedVersion, setSelectedVersion] = useState(versions.length);
+
+  if (versions.length < 2) {
+    return null;
+  }
+
+  const current = versions.find((v) => v.version === selectedVersion) || versions[versions.length - 1];
+  const previous = versions.find((v) => v.version === current.version - 1);
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <h4 className="text-sm font-semibold text-gray-700 mb-3">Version History:</h4>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {versions.map((version) => (
+          <button
+            key={version.version}
+            onClick={() => setSelectedVersion(version.version)}
+            className={`px-3 py-2 text-left text-xs rounded border transition-colors ${
+              version.version === current.version
+                ? 'bg-blue-50 border-blue-400'
+                : 'bg-white border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            <span className="font-semibold">v{version.version}</span>
+            {version.isAmendment && (
+              <span className="ml-2 px-1.5 py-0.5 bg-amber-100 text-amber-800 rounded">Amendment</span>
+            )}
+            <span className="block text-gray-600">
+              {new Date(version.recordedAt).toLocaleString()} · {version.authorName || version.authorId}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {current.reason && (
+        <p className="text-sm text-gray-700 mb-3">
+          <span className="font-medium">Reason:</span> {current.reason}
+        </p>
+      )}
+
+      {!previous ? (
+        <p className="text-sm text-gray-600">Original documentation.</p>
+      ) : (
+        <div className="space-y-3">
+          {current.changes.length === 0 ? (
+            <p className="text-sm text-gray-600">No structured data changes in this version.</p>
+          ) : (
+            <table className="w-full text-sm border border-gray-200">
+              <thead className="bg-gray-50 text-gray-700">
+                <tr>
+                  <th className="text-left px-3 py-2 border-b border-gray-200">Field</th>
+                  <th className="text-left px-3 py-2 border-b border-gray-200">Before (v{previous.version})</th>
+                  <th className="text-left px-3 py-2 border-b border-gray-200">After (v{current.version})</th>
+                </tr>
+              </thead>
+              <tbody>
+                {current.changes.map((change) => (
+                  <tr key={change.path} className="border-b border-gray-100">
+                    <td className="px-3 py-2 font-mono text-xs text-gray-700">{change.path}</td>
+                    <td className="px-3 py-2 bg-red-50 text-red-800 line-through">
+                      {formatChangeValue(change.before)}
+                    </td>
+                    <td className="px-3 py-2 bg-green-50 text-green-800">{formatChangeValue(change.after)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {previous.voiceTranscript !== current.voiceTranscript && (
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <p className="text-xs font-medium text-gray-600 mb-1">Transcript (v{previous.version})</p>
+                <p className="p-2 bg-red-50 border border-red-200 rounded italic text-gray-800">
+                  "{previous.voiceTranscript}"
+                </p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-gray-600 mb-1">Transcript (v{current.version})</p>
+                <p className="p-2 bg-green-50 border border-green-200 rounded italic text-gray-800">
+                  "{current.voiceTranscript}"
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+// Early warning score badge for EHR dashboard
+// Shows a NEWS2 or MEWS total colored by risk
+
+import type { EarlyWarningRisk, EarlyWarningScore } from '../../../shared/types';
+import { EARLY_WARNING_RISK_LABELS } from '../../../shared/services/earlyWarningScores';
+
+interface EarlyWarningBadgeProps {
+  /** Nothing is shown for entries without scores */
+  score?: EarlyWarningScore;
+}
+
+const riskColors: Record<EarlyWarningRisk, string> = {
+  low: 'bg-green-100 text-green-800 border-green-300',
+  'low-medium': 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  medium: 'bg-orange-100 text-orange-800 border-orange-300',
+  high: 'bg-red-600 text-white border-red-700',
+};
+
+export default function EarlyWarningBadge({ score }: EarlyWarningBadgeProps) {
+  if (!score) {
+    return null;
+  }
+
+  const missing = score.missing.length > 0 ? ` - ${score.missing.length} parameter(s) not recorded` : '';
+
+  return (
+    <span
+      className={`px-2 py-1 text-xs rounded border font-semibold whitespace-nowrap ${riskColors[score.risk]}`}
+      title={`${score.type} ${score.total}: ${EARLY_WARNING_RISK_LABELS[score.risk]} risk${missing}`}
+    >
+      {score.type} {score.total}
+      {score.escalate && ' ⚠'}
+    </span>
+  );
+}
@@ -1,10 +1,251 @@
 // Note detail component for EHR dashboard
 // Shows full details of a selected nursing note
 
-export default function NoteDetail() {
+import type {
+  DocumentationEntry,
+  EarlyWarningScore,
+  EarlyWarningScores,
+  Medication,
+  MedicationReconciliationItem,
+  MedicationReconciliationStatus,
+  Patient,
+  StructuredData,
+} from '../../../shared/types';
+import {
+  EARLY_WARNING_PARAMETER_LABELS,
+  EARLY_WARNING_RISK_LABELS,
+  getEarlyWarningScores,
+} from '../../../shared/services/earlyWarningScores';
+import EarlyWarningBadge from './EarlyWarningBadge';
+
+interface NoteDetailProps {
+  entry: DocumentationEntry;
+  patient: Patient | null;
+}
+
+const dispositionLabels: Record<string, string> = {
+  home: 'Home / Self Care',
+  'home-health': 'Home with Home Health',
+  snf: 'Skilled Nursing Facility',
+  rehab: 'Inpatient Rehabilitation',
+  hospice: 'Hospice',
+  'transfer-hospital': 'Transfer to Another Hospital',
+  ama: 'Left Against Medical Advice',
+};
+
+// Patient-facing headings for each reconciliation group (inpatient-only meds are not shown)
+const medicationGroups: { status: MedicationReconciliationStatus; title: string }[] = [
+  { status: 'new', title: 'NEW medications - start taking' },
+  { status: 'changed', title: 'CHANGED medications - take the new dose' },
+  { status: 'continued', title: 'Continue taking as before' },
+  { status: 'discontinued', title: 'STOP taking these medications' },
+];
+
+const formatMedication = (med?: Medication): string =>
+  med ? [med.name, med.dose, med.route, med.frequency].filter(Boolean).join(' ') : '';
+
+const formatScoreValue = (value: EarlyWarningScore['breakdown'][number]['value']): string => {
+  if (typeof value === 'boolean') return value ? 'Oxygen' : 'Room air';
+  return String(value);
+};
+
+export default function NoteDetail({ entry, patient }: NoteDetailProps) {
+  const discharge = entry.structuredData.dischargeData;
+  const earlyWarningScores = getEarlyWarningScores(entry);
+
+  return (
+    <>
+      {earlyWarningScores && <EarlyWarningScoreDetail scores={earlyWarningScores} />}
+      {discharge && <DischargeSummary entry={entry} patient={patient} discharge={discharge} />}
+    </>
+  );
+}
+
+// NEWS2 and MEWS with the points each parameter contributed
+function EarlyWarningScoreDetail({ scores }: { scores: EarlyWarningScores }) {
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <h4 className="text-sm font-semibold text-gray-700 mb-3">Early Warning Scores:</h4>
+      <div className="grid grid-cols-2 gap-4">
+        {[scores.news2, scores.mews].map((score) => (
+          <div key={score.type} className="border border-gray-200 rounded p-3">
+            <div className="flex items-center justify-between mb-2">
+              <EarlyWarningBadge score={score} />
+              <span className={`text-xs font-medium ${score.escalate ? 'text-red-700' : 'text-gray-600'}`}>
+                {EARLY_WARNING_RISK_LABELS[score.risk]} risk{score.escalate && ' - escalate'}
+              </span>
+            </div>
+            <table className="w-full text-sm">
+              <tbody>
+                {score.breakdown.map((item) => (
+                  <tr key={item.parameter} className="border-t border-gray-100">
+                    <td className="py-1 text-gray-600">{EARLY_WARNING_PARAMETER_LABELS[item.parameter]}</td>
+                    <td className="py-1">{formatScoreValue(item.value)}</td>
+                    <td className={`py-1 text-right font-semibold ${item.points >= 3 ? 'text-red-700' : ''}`}>
+                      {item.points}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {score.missing.length > 0 && (
+              <p className="text-xs text-gray-500 mt-2">
+                Not recorded (scored 0):{' '}
+                {score.missing.map((parameter) => EARLY_WARNING_PARAMETER_LABELS[parameter]).join(', ')}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Calculated {new Date(scores.calculatedAt).toLocaleString()}
+      </p>
+    </div>
+  );
+}
+
+function DischargeSummary({
+  entry,
+  patient,
+  discharge,
+}: NoteDetailProps & { discharge: NonNullable<StructuredData['dischargeData']> }) {
+  // Fall back to the plain discharge medication list for entries without reconciliation
+  const reconciliation: MedicationReconciliationItem[] =
+    discharge.medicationReconciliation ||
+    discharge.medications.map((med) => ({
+      medicationName: med.name,
+      status: 'continued',
+      dischargeMedication: med,
+      givenDuringStay: false,
+    }));
+
+  const educationItems =
+    discharge.educationItems ||
+    discharge.patientEducation.map((topic) => ({ topic, teachBack: 'not-assessed' as const }));
+
   return (
-    <div>
-      <p>Note Detail Component - To be implemented</p>
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <div className="flex items-center justify-between mb-3 no-print">
+        <h4 className="text-sm font-semibold text-gray-700">Patient Discharge Summary:</h4>
+        <button
+          onClick={() => window.print()}
+          className="px-4 py-2 bg-gray-800 hover:bg-gray-900 text-white text-sm rounded font-medium transition-colors"
+        >
+          Print Summary
+        </button>
+      </div>
+
+      <div className="print-area bg-white border border-gray-300 rounded p-6 text-gray-900">
+        <div className="border-b border-gray-300 pb-3 mb-4">
+          <h2 className="text-xl font-bold">Memorial General Hospital</h2>
+          <p className="text-sm text-gray-600">Discharge Instructions and Medication List</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 text-sm mb-4">
+          <p>
+            <span className="font-medium">Patient:</span> {entry.patientName}
+          </p>
+          <p>
+            <span className="font-medium">MRN:</span> {entry.patientMRN}
+          </p>
+          {patient && (
+            <p>
+              <span className="font-medium">Date of Birth:</span>{' '}
+              {new Date(patient.dateOfBirth).toLocaleDateString()}
+            </p>
+          )}
+          <p>
+            <span className="font-medium">Discharge Date:</span>{' '}
+            {new Date(entry.timestamp).toLocaleDateString()}
+          </p>
+          <p>
+            <span className="font-medium">Discharged To:</span>{' '}
+            {dispositionLabels[discharge.dischargeDisposition] || discharge.dischargeDisposition}
+            {discharge.dischargeDestination && ` - ${discharge.dischargeDestination}`}
+          </p>
+          {patient?.allergies && patient.allergies.length > 0 && (
+            <p>
+              <span className="font-medium">Allergies:</span> {patient.allergies.join(', ')}
+            </p>
+          )}
+        </div>
+
+        <section className="mb-4">
+          <h3 className="font-semibold border-b border-gray-200 mb-2">Your Medications</h3>
+          {reconciliation.length === 0 ? (
+            <p className="text-sm text-gray-600">No medication changes documented.</p>
+          ) : (
+            medicationGroups.map(({ status, title }) => {
+              const items = reconciliation.filter((item) => item.status === status);
+              if (items.length === 0) return null;
+              return (
+                <div key={status} className="mb-2">
+                  <p className="text-sm font-medium">{title}</p>
+                  <ul className="list-disc list-inside text-sm">
+                    {items.map((item, idx) => (
+                      <li key={idx}>
+                        {formatMedication(item.dischargeMedication || item.homeMedication) ||
+                          item.medicationName}
+                        {status === 'changed' && item.homeMedication && (
+                          <span className="text-gray-600">
+                            {' '}
+                            (was {formatMedication(item.homeMedication)})
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })
+          )}
+        </section>
+
+        {discharge.followUpAppointments.length > 0 && (
+          <section className="mb-4">
+            <h3 className="font-semibold border-b border-gray-200 mb-2">Follow-up Appointments</h3>
+            <ul className="list-disc list-inside text-sm">
+              {discharge.followUpAppointments.map((appointment, idx) => (
+                <li key={idx}>{appointment}</li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <section className="mb-4">
+          <h3 className="font-semibold border-b border-gray-200 mb-2">Discharge Instructions</h3>
+          <p className="text-sm whitespace-pre-wrap">{discharge.dischargeInstructions}</p>
+        </section>
+
+        {educationItems.length > 0 && (
+          <section className="mb-4">
+            <h3 className="font-semibold border-b border-gray-200 mb-2">What We Reviewed With You</h3>
+            <ul className="text-sm space-y-1">
+              {educationItems.map((item) => (
+                <li key={item.topic}>
+                  {item.teachBack === 'verbalized' || item.teachBack === 'demonstrated' ? '☑' : '☐'}{' '}
+                  {item.topic}
+                  <span className="text-gray-500 no-print">
+                    {' '}
+                    ({item.teachBack.replace('-', ' ')})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <div className="mt-6 pt-3 border-t border-gray-300 grid grid-cols-2 gap-6 text-sm">
+          <div>
+            <p className="border-b border-gray-400 h-6"></p>
+            <p className="text-gray-600 mt-1">Patient / Caregiver Signature</p>
+          </div>
+          <div>
+            <p className="border-b border-gray-400 h-6">{entry.nurseName}</p>
+            <p className="text-gray-600 mt-1">Discharging Nurse</p>
+          </div>
+        </div>
+      </div>
     </div>
-  )
+  );
 }
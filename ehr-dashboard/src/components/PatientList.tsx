@@ -1,10 +1,69 @@
 // Patient list component for EHR dashboard
 // Shows all patients with documentation
 
-export default function PatientList() {
+import type { EarlyWarningScores, Patient } from '../../../shared/types';
+import EarlyWarningBadge from './EarlyWarningBadge';
+
+interface PatientListProps {
+  patients: Patient[];
+  selectedPatientId?: string;
+  unreadCounts: Record<string, number>;
+  /** Most recent early warning scores per patient id */
+  latestScores: Record<string, EarlyWarningScores>;
+  onSelect: (patient: Patient) => void;
+}
+
+export default function PatientList({
+  patients,
+  selectedPatientId,
+  unreadCounts,
+  latestScores,
+  onSelect,
+}: PatientListProps) {
   return (
-    <div>
-      <p>Patient List Component - To be implemented</p>
+    <div className="divide-y divide-gray-200">
+      {patients.map((patient) => {
+        const unreadCount = unreadCounts[patient.id] || 0;
+        const isSelected = selectedPatientId === patient.id;
+
+        return (
+          <button
+            key={patient.id}
+            onClick={() => onSelect(patient)}
+            className={`w-full text-left p-4 hover:bg-blue-50 transition-colors ${
+              isSelected ? 'bg-blue-50 border-l-4 border-blue-600' : ''
+            }`}
+          >
+            <div className="flex items-start justify-between">
+              <div className="flex-1">
+                <h3 className="font-semibold text-gray-900">{patient.name}</h3>
+                <p className="text-sm text-gray-600">
+                  Room {patient.room}
+                  {patient.dischargeDate && (
+                    <span className="ml-2 px-2 py-0.5 bg-gray-200 text-gray-700 text-xs rounded">
+                      Discharged
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">MRN: {patient.mrn}</p>
+                {patient.primaryDiagnosis && (
+                  <p className="text-xs text-gray-600 mt-1 line-clamp-1">
+                    {patient.primaryDiagnosis}
+                  </p>
+                )}
+              </div>
+              <div className="ml-2 flex flex-col items-end gap-1">
+                {unreadCount > 0 && (
+                  <span className="inline-flex items-center justify-center w-6 h-6 bg-red-500 text-white text-xs font-bold rounded-full">
+                    {unreadCount}
+                  </span>
+                )}
+                <EarlyWarningBadge score={latestScores[patient.id]?.news2} />
+              </div>
+            </div>
+          </button>
+        );
+      })}
     </div>
-  )
+  );
 }
@@ -0,0 +1,65 @@
+// Signature detail component for EHR dashboard
+// Shows who signed (and co-signed) an entry and whether the signatures still match its content
+
+import { useEffect, useState } from 'react';
+import type { DocumentationEntry, EntrySignature } from '../../../shared/types';
+import { isAwaitingCoSignature, isSignatureValid } from '../../../shared/services/signatures';
+
+interface SignatureDetailProps {
+  entry: DocumentationEntry;
+}
+
+function SignatureLine({ label, signature }: { label: string; signature: EntrySignature }) {
+  return (
+    <div className="text-sm">
+      <p>
+        <span className="font-medium">{label}:</span> {signature.signerName}
+        {signature.signerCredentials && `, ${signature.signerCredentials}`} -{' '}
+        {new Date(signature.signedAt).toLocaleString()}
+      </p>
+      <p className="text-xs text-gray-600 italic">"{signature.attestation}"</p>
+    </div>
+  );
+}
+
+export default function SignatureDetail({ entry }: SignatureDetailProps) {
+  const [verified, setVerified] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    isSignatureValid(entry).then((valid) => {
+      if (!cancelled) setVerified(valid);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [entry]);
+
+  if (!entry.signature) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <div className="flex items-center gap-2 mb-2">
+        <h4 className="text-sm font-semibold text-gray-700">Electronic Signature:</h4>
+        {verified === true && (
+          <span className="px-2 py-0.5 bg-green-100 text-green-800 text-xs rounded font-medium">Verified</span>
+        )}
+        {verified === false && (
+          <span className="px-2 py-0.5 bg-red-100 text-red-800 text-xs rounded font-medium">
+            Content changed after signing
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <SignatureLine label="Signed by" signature={entry.signature} />
+        {entry.coSignature && <SignatureLine label="Co-signed by" signature={entry.coSignature} />}
+        {isAwaitingCoSignature(entry) && (
+          <p className="text-sm text-amber-800">Awaiting RN co-signature</p>
+        )}
+      </div>
+    </div>
+  );
+}
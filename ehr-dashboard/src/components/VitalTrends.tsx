@@ -0,0 +1,208 @@
+// Vital sign trends component for EHR dashboard
+// Charts a patient's vital signs over time with normal ranges shaded
+
+import { useEffect, useState } from 'react';
+import type {
+  DocumentationEntry,
+  Patient,
+  VitalNormalRange,
+  VitalTrendSeries,
+  VitalTrendWindow,
+} from '../../../shared/types';
+import {
+  buildVitalTrends,
+  getTrendWindowStart,
+  VITAL_TREND_WINDOW_LABELS,
+} from '../../../shared/services/vitalTrends';
+
+interface VitalTrendsProps {
+  entries: DocumentationEntry[];
+  patient: Patient | null;
+}
+
+// Chart size in SVG units (the chart scales to its container)
+const WIDTH = 360;
+const HEIGHT = 160;
+const PADDING = { top: 10, right: 10, bottom: 22, left: 36 };
+
+const formatTime = (time: number): string =>
+  new Date(time).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatPointValue = (series: VitalTrendSeries, value: number, secondaryValue?: number): string =>
+  secondaryValue !== undefined ? `${value}/${secondaryValue} ${series.unit}` : `${value} ${series.unit}`;
+
+interface TrendChartProps {
+  series: VitalTrendSeries;
+  start: number;
+  end: number;
+}
+
+function TrendChart({ series, start, end }: TrendChartProps) {
+  const { points } = series;
+  const latest = points[points.length - 1];
+
+  // Y axis covers the normal ranges and every value, with a little headroom
+  const ranges = [series.normalRange, series.secondaryNormalRange].filter(
+    (range): range is VitalNormalRange => !!range
+  );
+  const values = [
+    ...ranges.flatMap((range) => [range.min, range.max]),
+    ...points.flatMap((point) => [point.value, point.secondaryValue ?? point.value]),
+  ];
+  const span = Math.max(...values) - Math.min(...values) || 1;
+  const yMin = Math.min(...values) - span * 0.1;
+  const yMax = Math.max(...values) + span * 0.1;
+
+  // Guards against a zero-length window
+  const timeSpan = end - start || 60 * 60 * 1000;
+  const x = (time: number) =>
+    PADDING.left + ((time - start) / timeSpan) * (WIDTH - PADDING.left - PADDING.right);
+  const y = (value: number) =>
+    PADDING.top + ((yMax - value) / (yMax - yMin)) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+  const line = (getValue: (point: VitalTrendSeries['points'][number]) => number | undefined) =>
+    points
+      .filter((point) => getValue(point) !== undefined)
+      .map((point) => `${x(Date.parse(point.timestamp))},${y(getValue(point)!)}`)
+      .join(' ');
+
+  return (
+    <div className="bg-white rounded-lg shadow border border-gray-200 p-3">
+      <div className="flex items-baseline justify-between mb-1">
+        <h4 className="text-sm font-semibold text-gray-700">{series.label}</h4>
+        {latest && (
+          <span className={`text-sm font-semibold ${latest.outOfRange ? 'text-red-700' : 'text-gray-900'}`}>
+            {formatPointValue(series, latest.value, latest.secondaryValue)}
+          </span>
+        )}
+      </div>
+
+      {points.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">No measurements in this window</p>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${series.label} trend`}>
+          {/* Normal range bands */}
+          {ranges.map((range, idx) => (
+            <g key={idx}>
+              <rect
+                x={PADDING.left}
+                y={y(range.max)}
+                width={WIDTH - PADDING.left - PADDING.right}
+                height={y(range.min) - y(range.max)}
+                className={idx === 0 ? 'fill-green-100' : 'fill-teal-50'}
+              />
+              <text x={PADDING.left - 4} y={y(range.max) + 3} textAnchor="end" className="fill-gray-500 text-[9px]">
+                {range.max}
+              </text>
+              <text x={PADDING.left - 4} y={y(range.min) + 3} textAnchor="end" className="fill-gray-500 text-[9px]">
+                {range.min}
+              </text>
+            </g>
+          ))}
+
+          {/* Axes */}
+          <line
+            x1={PADDING.left}
+            y1={HEIGHT - PADDING.bottom}
+            x2={WIDTH - PADDING.right}
+            y2={HEIGHT - PADDING.bottom}
+            className="stroke-gray-300"
+          />
+          <text x={PADDING.left} y={HEIGHT - 6} className="fill-gray-500 text-[9px]">
+            {formatTime(start)}
+          </text>
+          <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" className="fill-gray-500 text-[9px]">
+            {formatTime(end)}
+          </text>
+
+          {/* Values (diastolic dashed for blood pressure) */}
+          <polyline points={line((point) => point.value)} fill="none" strokeWidth={1.5} className="stroke-blue-600" />
+          {series.secondaryNormalRange && (
+            <polyline
+              points={line((point) => point.secondaryValue)}
+              fill="none"
+              strokeWidth={1.5}
+              strokeDasharray="4 3"
+              className="stroke-blue-400"
+            />
+          )}
+
+          {points.map((point) =>
+            [point.value, point.secondaryValue]
+              .filter((value): value is number => value !== undefined)
+              .map((value, idx) => (
+                <circle
+                  key={`${point.entryId}-${idx}`}
+                  cx={x(Date.parse(point.timestamp))}
+                  cy={y(value)}
+                  r={point.outOfRange ? 4 : 3}
+                  className={point.outOfRange ? 'fill-red-600 stroke-white' : 'fill-blue-600 stroke-white'}
+                >
+                  <title>
+                    {formatTime(Date.parse(point.timestamp))}: {formatPointValue(series, point.value, point.secondaryValue)}
+                    {point.outOfRange && ' (out of range)'}
+                  </title>
+                </circle>
+              ))
+          )}
+        </svg>
+      )}
+    </div>
+  );
+}
+
+export default function VitalTrends({ entries, patient }: VitalTrendsProps) {
+  const [trendWindow, setTrendWindow] = useState<VitalTrendWindow>('admission');
+
+  // Window end, moved forward every minute so the windows keep sliding
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const windowStart = getTrendWindowStart(trendWindow, patient, new Date(now));
+  const trends = buildVitalTrends(entries, windowStart);
+
+  // Without a known admission date the chart starts at the first measurement; entries received
+  // since `now` last ticked extend the end
+  const times = trends.flatMap((series) => series.points.map((point) => Date.parse(point.timestamp)));
+  const start = windowStart ? windowStart.getTime() : times.length > 0 ? Math.min(...times) : now;
+  const end = Math.max(now, ...times);
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-4">
+        <span className="text-sm text-gray-600">Show:</span>
+        {(Object.keys(VITAL_TREND_WINDOW_LABELS) as VitalTrendWindow[]).map((option) => (
+          <button
+            key={option}
+            onClick={() => {
+              setTrendWindow(option);
+              setNow(Date.now());
+            }}
+            className={`px-3 py-1 text-xs rounded font-medium transition-colors ${
+              trendWindow === option ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            {VITAL_TREND_WINDOW_LABELS[option]}
+          </button>
+        ))}
+        <span className="ml-auto flex items-center gap-3 text-xs text-gray-500">
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 bg-green-100 border border-green-300"></span> Normal range
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-2.5 h-2.5 rounded-full bg-red-600"></span> Out of range
+          </span>
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {trends.map((series) => (
+          <TrendChart key={series.metric} series={series} start={start} end={end} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+/**
+ * FHIR transaction and batch Bundle processing
+ *
+ * Transactions are all-or-nothing: every entry is validated and every
+ * urn:uuid reference resolved before anything is written. Batches process
+ * each entry independently and report per-entry outcomes.
+ */
+
+import type { FHIRBundle, FHIRBundleEntry } from '../../../shared/types';
+import { FHIRError, toOperationOutcome, type FHIRStore, type StoredResource } from './fhirStore';
+import { validateReferences, validateResource } from './fhirValidation';
+
+/**
+ * A validated entry with its final id, ready to be written
+ */
+interface PlannedWrite {
+  resource: StoredResource;
+  id: string;
+}
+
+/**
+ * Replaces references found in the map (urn:uuid fullUrls) with Type/id references
+ */
+function resolveReferences(value: unknown, resolved: Map<string, string>): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => resolveReferences(item, resolved));
+    return;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    Object.keys(record).forEach((key) => {
+      const field = record[key];
+      if (key === 'reference' && typeof field === 'string' && resolved.has(field)) {
+        record[key] = resolved.get(field);
+      } else {
+        resolveReferences(field, resolved);
+      }
+    });
+  }
+}
+
+/**
+ * Validates entries, assigns ids and resolves intra-bundle references without writing anything
+ * @throws FHIRError for the first invalid entry
+ */
+function planWrites(store: FHIRStore, entries: FHIRBundleEntry<unknown>[], firstIndex = 0): PlannedWrite[] {
+  const resolved = new Map<string, string>();
+
+  const plans = entries.map((entry, index) => {
+    const where = `Bundle.entry[${firstIndex + index}]`;
+    if (!entry.request) {
+      throw new FHIRError(400, 'required', `${where} is missing request`);
+    }
+
+    let resource: StoredResource;
+    try {
+      resource = validateResource(entry.resource);
+    } catch (error) {
+      if (error instanceof FHIRError) {
+        throw new FHIRError(error.status, error.issueCode, `${where}: ${error.message}`);
+      }
+      throw error;
+    }
+
+    // Copy so the request body is never mutated
+    resource = JSON.parse(JSON.stringify(resource)) as StoredResource;
+
+    const [urlType, urlId] = entry.request.url.split('?')[0].split('/');
+    if (urlType !== resource.resourceType) {
+      throw new FHIRError(400, 'invalid', `${where}: request url ${entry.request.url} does not match ${resource.resourceType}`);
+    }
+
+    let id: string;
+    if (entry.request.method === 'POST') {
+      id = store.allocateId(resource.resourceType);
+    } else if (entry.request.method === 'PUT' && urlId) {
+      id = urlId;
+    } else {
+      throw new FHIRError(
+        400,
+        'not-supported',
+        `${where}: ${entry.request.method} ${entry.request.url} is not supported in bundles`
+      );
+    }
+
+    if (entry.fullUrl) {
+      resolved.set(entry.fullUrl, `${resource.resourceType}/${id}`);
+    }
+    return { resource, id };
+  });
+
+  const planned = new Set(plans.map((plan) => `${plan.resource.resourceType}/${plan.id}`));
+  plans.forEach((plan) => {
+    resolveReferences(plan.resource, resolved);
+    validateReferences(plan.resource, (type, id) => planned.has(`${type}/${id}`) || store.exists(type, id));
+  });
+
+  return plans;
+}
+
+/**
+ * Writes planned resources and builds the response entries
+ */
+function commitWrites(store: FHIRStore, plans: PlannedWrite[]): FHIRBundleEntry<StoredResource>[] {
+  return plans.map((plan) => {
+    const { resource, created } = store.save(plan.resource, plan.id);
+    const versionId = resource.meta?.versionId;
+    return {
+      fullUrl: `${resource.resourceType}/${resource.id}`,
+      resource,
+      response: {
+        status: created ? '201 Created' : '200 OK',
+        location: `${resource.resourceType}/${resource.id}/_history/${versionId}`,
+        etag: `W/"${versionId}"`,
+        lastModified: resource.meta?.lastUpdated,
+      },
+    };
+  });
+}
+
+/**
+ * Processes a transaction or batch Bundle
+ * @throws FHIRError if the bundle is malformed or (for transactions) any entry fails
+ */
+export function processBundle(store: FHIRStore, body: unknown): FHIRBundle<StoredResource> {
+  const bundle = body as FHIRBundle<unknown> | null;
+  if (!bundle || bundle.resourceType !== 'Bundle') {
+    throw new FHIRError(400, 'invalid', 'POST to the base URL must contain a Bundle');
+  }
+  if (bundle.type !== 'transaction' && bundle.type !== 'batch') {
+    throw new FHIRError(400, 'invalid', `Bundle type must be transaction or batch, got ${bundle.type}`);
+  }
+
+  const entries = bundle.entry || [];
+
+  if (bundle.type === 'transaction') {
+    return {
+      resourceType: 'Bundle',
+      type: 'transaction-response',
+      timestamp: new Date().toISOString(),
+      entry: commitWrites(store, planWrites(store, entries)),
+    };
+  }
+
+  // Batch: each entry succeeds or fails on its own
+  return {
+    resourceType: 'Bundle',
+    type: 'batch-response',
+    timestamp: new Date().toISOString(),
+    entry: entries.map((entry, index) => {
+      try {
+        return commitWrites(store, planWrites(store, [entry], index))[0];
+      } catch (error) {
+        if (!(error instanceof FHIRError)) throw error;
+        return {
+          response: {
+            status: String(error.status),
+            outcome: toOperationOutcome('error', error.issueCode, error.message),
+          },
+        };
+      }
+    }),
+  };
+}
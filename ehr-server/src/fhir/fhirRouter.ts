@@ -0,0 +1,153 @@
+/**
+ * FHIR R4 REST routes
+ *
+ * Implements the subset of the RESTful API the nurse app needs:
+ *   GET  /fhir/metadata            CapabilityStatement
+ *   POST /fhir                     transaction / batch Bundle
+ *   POST /fhir/:type               create
+ *   PUT  /fhir/:type/:id           update or create with client id
+ *   GET  /fhir/:type/:id           read
+ *   GET  /fhir/:type?patient=:id   search by patient (subject)
+ *
+ * Errors are returned as OperationOutcome resources.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { processBundle } from './fhirBundle';
+import {
+  FHIRError,
+  SUPPORTED_RESOURCE_TYPES,
+  isSupportedResourceType,
+  toOperationOutcome,
+  type FHIRStore,
+} from './fhirStore';
+import { validateReferences, validateResource } from './fhirValidation';
+import { MAX_BODY_BYTES, readRequestBody } from '../http';
+
+export const FHIR_BASE_PATH = '/fhir';
+
+// ============================================================================
+// HTTP HELPERS
+// ============================================================================
+
+function sendJSON(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, {
+    'Content-Type': 'application/fhir+json; charset=utf-8',
+    ...headers,
+  });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+async function readJSONBody(req: IncomingMessage): Promise<unknown> {
+  const body = await readRequestBody(req);
+  if (body === null) {
+    throw new FHIRError(413, 'too-costly', `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+  }
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new FHIRError(400, 'structure', 'Request body is not valid JSON');
+  }
+}
+
+function capabilityStatement() {
+  return {
+    resourceType: 'CapabilityStatement',
+    status: 'active',
+    date: new Date().toISOString(),
+    kind: 'instance',
+    software: { name: 'Voize local EHR server' },
+    fhirVersion: '4.0.1',
+    format: ['application/fhir+json'],
+    rest: [
+      {
+        mode: 'server',
+        resource: SUPPORTED_RESOURCE_TYPES.map((type) => ({
+          type,
+          interaction: [{ code: 'read' }, { code: 'create' }, { code: 'update' }, { code: 'search-type' }],
+          searchParam: type === 'Patient' ? [] : [{ name: 'patient', type: 'reference' }],
+        })),
+        interaction: [{ code: 'transaction' }, { code: 'batch' }],
+      },
+    ],
+  };
+}
+
+// ============================================================================
+// ROUTER
+// ============================================================================
+
+/**
+ * Handles a request under FHIR_BASE_PATH
+ */
+export async function handleFHIRRequest(store: FHIRStore, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const [type, id, ...rest] = url.pathname.slice(FHIR_BASE_PATH.length).split('/').filter(Boolean);
+  const method = req.method || 'GET';
+
+  try {
+    if (!type) {
+      if (method !== 'POST') {
+        throw new FHIRError(405, 'not-supported', `${method} is not supported on the base URL`);
+      }
+      const response = processBundle(store, await readJSONBody(req));
+      console.log(`📥 ${response.type}: ${response.entry?.length || 0} entries (${store.count()} resources stored)`);
+      sendJSON(res, 200, response);
+      return;
+    }
+
+    if (type === 'metadata' && method === 'GET') {
+      sendJSON(res, 200, capabilityStatement());
+      return;
+    }
+
+    if (!isSupportedResourceType(type) || rest.length > 0) {
+      throw new FHIRError(404, 'not-found', `Unknown resource path ${url.pathname}`);
+    }
+
+    if (method === 'GET' && id) {
+      const resource = store.read(type, id);
+      if (!resource) {
+        throw new FHIRError(404, 'not-found', `${type}/${id} not found`);
+      }
+      sendJSON(res, 200, resource, { ETag: `W/"${resource.meta?.versionId}"` });
+      return;
+    }
+
+    if (method === 'GET') {
+      const matches = store.search(type, url.searchParams.get('patient') || url.searchParams.get('subject') || undefined);
+      sendJSON(res, 200, {
+        resourceType: 'Bundle',
+        type: 'searchset',
+        total: matches.length,
+        entry: matches.map((resource) => ({ fullUrl: `${type}/${resource.id}`, resource })),
+      });
+      return;
+    }
+
+    if ((method === 'POST' && !id) || (method === 'PUT' && id)) {
+      const resource = validateResource(await readJSONBody(req), type);
+      validateReferences(resource, (refType, refId) => store.exists(refType, refId));
+
+      const { resource: saved, created } = store.save(resource, id || store.allocateId(type));
+      const location = `${type}/${saved.id}/_history/${saved.meta?.versionId}`;
+      sendJSON(res, created ? 201 : 200, saved, {
+        Location: `${FHIR_BASE_PATH}/${location}`,
+        ETag: `W/"${saved.meta?.versionId}"`,
+      });
+      return;
+    }
+
+    throw new FHIRError(405, 'not-supported', `${method} ${url.pathname} is not supported`);
+  } catch (error) {
+    if (error instanceof FHIRError) {
+      console.warn(`⚠️ ${method} ${url.pathname} -> ${error.status}: ${error.message}`);
+      sendJSON(res, error.status, toOperationOutcome('error', error.issueCode, error.message));
+      return;
+    }
+
+    console.error(`❌ ${method} ${url.pathname} failed:`, error);
+    sendJSON(res, 500, toOperationOutcome('fatal', 'exception', 'Internal server error'));
+  }
+}
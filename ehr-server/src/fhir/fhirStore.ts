@@ -0,0 +1,152 @@
+/**
+ * In-memory FHIR resource store
+ *
+ * Resources are kept per type with a version counter and lastUpdated
+ * timestamp, like a real FHIR server would set in meta. Nothing is persisted;
+ * restarting the server starts with an empty store.
+ */
+
+import type { FHIROperationOutcome } from '../../../shared/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Any FHIR resource as stored by the server (fields beyond resourceType/id/meta are opaque)
+ */
+export interface StoredResource {
+  resourceType: string;
+  id?: string;
+  meta?: {
+    versionId?: string;
+    lastUpdated?: string;
+  };
+  [field: string]: unknown;
+}
+
+/**
+ * Resource types this server accepts
+ */
+export const SUPPORTED_RESOURCE_TYPES = [
+  'Patient',
+  'Observation',
+  'MedicationAdministration',
+  'DocumentReference',
+  'Encounter',
+  'Condition',
+  'AllergyIntolerance',
+  'MedicationStatement',
+  'Composition',
+] as const;
+
+/**
+ * Error carrying an HTTP status and FHIR issue code, returned to clients as an OperationOutcome
+ */
+export class FHIRError extends Error {
+  readonly status: number;
+  readonly issueCode: string;
+
+  constructor(status: number, issueCode: string, message: string) {
+    super(message);
+    this.name = 'FHIRError';
+    this.status = status;
+    this.issueCode = issueCode;
+  }
+}
+
+export function toOperationOutcome(
+  severity: FHIROperationOutcome['issue'][number]['severity'],
+  code: string,
+  diagnostics: string
+): FHIROperationOutcome {
+  return {
+    resourceType: 'OperationOutcome',
+    issue: [{ severity, code, diagnostics }],
+  };
+}
+
+export function isSupportedResourceType(type: string): boolean {
+  return (SUPPORTED_RESOURCE_TYPES as readonly string[]).includes(type);
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export class FHIRStore {
+  private resources = new Map<string, Map<string, StoredResource>>();
+  private nextIds = new Map<string, number>();
+
+  private bucket(type: string): Map<string, StoredResource> {
+    let bucket = this.resources.get(type);
+    if (!bucket) {
+      bucket = new Map();
+      this.resources.set(type, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Reserves a new server id for a resource type (used before a transaction commits)
+   */
+  allocateId(type: string): string {
+    const next = this.nextIds.get(type) ?? 1;
+    this.nextIds.set(type, next + 1);
+    return String(next);
+  }
+
+  exists(type: string, id: string): boolean {
+    return this.bucket(type).has(id);
+  }
+
+  read(type: string, id: string): StoredResource | null {
+    return this.bucket(type).get(id) || null;
+  }
+
+  /**
+   * Creates or replaces a resource under the given id, bumping versionId
+   * @returns The stored resource and whether it was newly created
+   */
+  save(resource: StoredResource, id: string): { resource: StoredResource; created: boolean } {
+    const bucket = this.bucket(resource.resourceType);
+    const previous = bucket.get(id);
+    const version = previous ? Number(previous.meta?.versionId || 0) + 1 : 1;
+
+    const stored: StoredResource = {
+      ...resource,
+      id,
+      meta: {
+        ...resource.meta,
+        versionId: String(version),
+        lastUpdated: new Date().toISOString(),
+      },
+    };
+    bucket.set(id, stored);
+
+    return { resource: stored, created: !previous };
+  }
+
+  /**
+   * Resources of one type whose subject/patient reference points at the patient (all resources if omitted)
+   */
+  search(type: string, patientId?: string): StoredResource[] {
+    const all = Array.from(this.bucket(type).values());
+    if (!patientId) return all;
+
+    const patientRef = patientId.startsWith('Patient/') ? patientId : `Patient/${patientId}`;
+    return all.filter((resource) => {
+      if (type === 'Patient') return `Patient/${resource.id}` === patientRef;
+      const subject = (resource.subject || resource.patient) as { reference?: string } | undefined;
+      return subject?.reference === patientRef;
+    });
+  }
+
+  count(): number {
+    let total = 0;
+    this.resources.forEach((bucket) => {
+      total += bucket.size;
+    });
+    return total;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Minimal FHIR R4 resource validation
+ *
+ * Checks the cardinality-1 fields of each supported resource type and that
+ * references to supported types resolve, which is enough to catch malformed
+ * exports without a full StructureDefinition validator.
+ */
+
+import { FHIRError, isSupportedResourceType, type StoredResource } from './fhirStore';
+
+/**
+ * Required (1..1 or 1..*) fields per resource type; "[x]" fields accept any suffix
+ */
+const REQUIRED_FIELDS: Record<string, string[]> = {
+  Patient: [],
+  Observation: ['status', 'code'],
+  MedicationAdministration: ['status', 'medication[x]', 'subject', 'effective[x]'],
+  DocumentReference: ['status', 'content'],
+  Encounter: ['status', 'class'],
+  Condition: ['subject'],
+  AllergyIntolerance: ['patient'],
+  MedicationStatement: ['status', 'medication[x]', 'subject'],
+  Composition: ['status', 'type', 'date', 'author', 'title'],
+};
+
+function hasField(resource: StoredResource, field: string): boolean {
+  if (field.endsWith('[x]')) {
+    const prefix = field.slice(0, -3);
+    return Object.keys(resource).some((key) => key.startsWith(prefix) && resource[key] !== undefined);
+  }
+
+  const value = resource[field];
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== '';
+}
+
+/**
+ * Collects every Reference.reference string in a resource
+ */
+export function collectReferences(value: unknown, references: string[] = []): string[] {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectReferences(item, references));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([key, field]) => {
+      if (key === 'reference' && typeof field === 'string') {
+        references.push(field);
+      } else {
+        collectReferences(field, references);
+      }
+    });
+  }
+  return references;
+}
+
+/**
+ * Validates resource type and required fields
+ * @throws FHIRError (400/422) describing the first problem found
+ */
+export function validateResource(resource: unknown, expectedType?: string): StoredResource {
+  if (!resource || typeof resource !== 'object' || Array.isArray(resource)) {
+    throw new FHIRError(400, 'structure', 'Resource must be a JSON object');
+  }
+
+  const candidate = resource as StoredResource;
+  if (typeof candidate.resourceType !== 'string') {
+    throw new FHIRError(400, 'required', 'Resource is missing resourceType');
+  }
+  if (!isSupportedResourceType(candidate.resourceType)) {
+    throw new FHIRError(400, 'not-supported', `Resource type ${candidate.resourceType} is not supported`);
+  }
+  if (expectedType && candidate.resourceType !== expectedType) {
+    throw new FHIRError(
+      400,
+      'invalid',
+      `Resource type ${candidate.resourceType} does not match endpoint ${expectedType}`
+    );
+  }
+
+  const missing = REQUIRED_FIELDS[candidate.resourceType].filter((field) => !hasField(candidate, field));
+  if (missing.length > 0) {
+    throw new FHIRError(
+      422,
+      'required',
+      `${candidate.resourceType} is missing required field(s): ${missing.join(', ')}`
+    );
+  }
+
+  return candidate;
+}
+
+/**
+ * Checks that references to supported resource types point at existing resources
+ * (other types, e.g. Practitioner, are not hosted here and are left unresolved)
+ */
+export function validateReferences(resource: StoredResource, resolves: (type: string, id: string) => boolean): void {
+  collectReferences(resource).forEach((reference) => {
+    if (reference.startsWith('urn:uuid:')) {
+      throw new FHIRError(422, 'not-found', `Unresolved reference ${reference} in ${resource.resourceType}`);
+    }
+
+    const [type, id] = reference.split('/');
+    if (id && isSupportedResourceType(type) && !resolves(type, id)) {
+      throw new FHIRError(422, 'not-found', `Reference ${reference} in ${resource.resourceType} does not exist`);
+    }
+  });
+}
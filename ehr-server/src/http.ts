@@ -0,0 +1,24 @@
+/**
+ * Small HTTP helpers shared by the FHIR and HL7 routes
+ */
+
+import type { IncomingMessage } from 'node:http';
+
+export const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Reads the request body as UTF-8 text
+ * @returns The body, or null if it exceeds MAX_BODY_BYTES
+ */
+export async function readRequestBody(req: IncomingMessage): Promise<string | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      return null;
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
@@ -0,0 +1,67 @@
+/**
+ * Local EHR server
+ *
+ * Stand-in for a hospital EHR integration endpoint during development:
+ * - FHIR R4 REST API (in-memory) that the nurse app's sendToEHR transport POSTs transaction Bundles to
+ * - MLLP listener that receives HL7 v2 messages and answers with ACKs
+ * - HTTP relay the nurse app uses to send HL7 v2 messages over MLLP
+ *
+ * Environment:
+ *   FHIR_PORT        - HTTP port for FHIR and the HL7 relay (default 8080)
+ *   MLLP_PORT        - MLLP listener port (default 2575)
+ *   MLLP_TARGET_HOST - where the relay delivers messages (default: this server's listener)
+ *   MLLP_TARGET_PORT
+ */
+
+import { createServer } from 'node:http';
+import { FHIRStore, toOperationOutcome } from './fhir/fhirStore';
+import { FHIR_BASE_PATH, handleFHIRRequest } from './fhir/fhirRouter';
+import { createMLLPServer, type ReceivedHL7Message } from './mllp/mllpServer';
+import { HL7_BASE_PATH, handleHL7Request } from './mllp/hl7Router';
+
+const FHIR_PORT = Number(process.env.FHIR_PORT) || 8080;
+const MLLP_PORT = Number(process.env.MLLP_PORT) || 2575;
+const MLLP_TARGET = {
+  host: process.env.MLLP_TARGET_HOST || 'localhost',
+  port: Number(process.env.MLLP_TARGET_PORT) || MLLP_PORT,
+};
+
+const store = new FHIRStore();
+const receivedHL7Messages: ReceivedHL7Message[] = [];
+
+const server = createServer((req, res) => {
+  // The nurse app runs on a different origin (Vite dev server)
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
+  res.setHeader('Access-Control-Expose-Headers', 'Location, ETag');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const path = (req.url || '/').split('?')[0];
+  if (path === FHIR_BASE_PATH || path.startsWith(`${FHIR_BASE_PATH}/`)) {
+    void handleFHIRRequest(store, req, res);
+    return;
+  }
+
+  if (path.startsWith(`${HL7_BASE_PATH}/`)) {
+    void handleHL7Request(MLLP_TARGET, receivedHL7Messages, req, res);
+    return;
+  }
+
+  res.writeHead(404, { 'Content-Type': 'application/fhir+json; charset=utf-8' });
+  res.end(JSON.stringify(toOperationOutcome('error', 'not-found', `No route for ${path}`)));
+});
+
+server.listen(FHIR_PORT, () => {
+  console.log(`🏥 FHIR R4 server listening on http://localhost:${FHIR_PORT}${FHIR_BASE_PATH}`);
+  console.log(`📮 HL7 relay on http://localhost:${FHIR_PORT}${HL7_BASE_PATH}/mllp -> ${MLLP_TARGET.host}:${MLLP_TARGET.port}`);
+});
+
+createMLLPServer(receivedHL7Messages).listen(MLLP_PORT, () => {
+  console.log(`📡 MLLP listener on port ${MLLP_PORT}`);
+});
@@ -0,0 +1,61 @@
+/**
+ * HL7 v2 HTTP routes
+ *
+ * Browsers cannot open TCP sockets, so the nurse app hands messages to this
+ * relay, which delivers them over MLLP and returns the receiver's ACK:
+ *   POST /hl7/mllp       body: ER7 message text -> 200 with the raw ACK, 502 if delivery failed
+ *   GET  /hl7/messages   messages received by the local MLLP listener (JSON)
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { MAX_BODY_BYTES, readRequestBody } from '../http';
+import { sendMLLPMessage, type MLLPDestination } from './mllpClient';
+import type { ReceivedHL7Message } from './mllpServer';
+
+export const HL7_BASE_PATH = '/hl7';
+
+function sendText(res: ServerResponse, status: number, body: string, contentType = 'text/plain'): void {
+  res.writeHead(status, { 'Content-Type': `${contentType}; charset=utf-8` });
+  res.end(body);
+}
+
+/**
+ * Handles a request under HL7_BASE_PATH
+ */
+export async function handleHL7Request(
+  destination: MLLPDestination,
+  received: ReceivedHL7Message[],
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  const path = (req.url || '/').split('?')[0].slice(HL7_BASE_PATH.length);
+
+  if (req.method === 'GET' && path === '/messages') {
+    sendText(res, 200, JSON.stringify(received, null, 2), 'application/json');
+    return;
+  }
+
+  if (req.method !== 'POST' || path !== '/mllp') {
+    sendText(res, 404, `No route for ${req.method} ${req.url}`);
+    return;
+  }
+
+  const message = await readRequestBody(req);
+  if (message === null) {
+    sendText(res, 413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    return;
+  }
+  if (!message.trim()) {
+    sendText(res, 400, 'Request body must be an HL7 v2 message');
+    return;
+  }
+
+  try {
+    const ack = await sendMLLPMessage(destination, message);
+    sendText(res, 200, ack, 'x-application/hl7-v2+er7');
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.warn(`⚠️ MLLP delivery to ${destination.host}:${destination.port} failed: ${reason}`);
+    sendText(res, 502, reason);
+  }
+}
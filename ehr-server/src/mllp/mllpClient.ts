@@ -0,0 +1,59 @@
+/**
+ * MLLP sender
+ *
+ * Opens a TCP connection, sends one framed HL7 v2 message and resolves with
+ * the raw ACK once its frame arrives. The connection is closed afterwards
+ * (one message per connection keeps resend handling simple).
+ */
+
+import { connect } from 'node:net';
+import { MLLPFrameDecoder, frameMLLPMessage } from '../../../shared/services/hl7Message';
+
+export interface MLLPDestination {
+  host: string;
+  port: number;
+}
+
+/**
+ * Sends a message and waits for the ACK
+ * @throws Error on connection failure, early close or timeout
+ */
+export function sendMLLPMessage(destination: MLLPDestination, message: string, timeoutMs = 10000): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const decoder = new MLLPFrameDecoder();
+    const socket = connect(destination.port, destination.host);
+    let settled = false;
+
+    const finish = (error: Error | null, ack?: string) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(ack as string);
+      }
+    };
+
+    socket.setEncoding('utf8');
+    socket.setTimeout(timeoutMs, () => {
+      finish(new Error(`No ACK from ${destination.host}:${destination.port} within ${timeoutMs}ms`));
+    });
+
+    socket.on('connect', () => {
+      socket.write(frameMLLPMessage(message));
+    });
+
+    socket.on('data', (chunk: string) => {
+      const [ack] = decoder.push(chunk);
+      if (ack !== undefined) {
+        finish(null, ack);
+      }
+    });
+
+    socket.on('error', (error) => finish(error));
+    socket.on('close', () => {
+      finish(new Error(`Connection to ${destination.host}:${destination.port} closed before an ACK was received`));
+    });
+  });
+}
@@ -0,0 +1,123 @@
+/**
+ * MLLP listener
+ *
+ * Accepts HL7 v2 messages over TCP using the Minimal Lower Layer Protocol
+ * (<VT> message <FS><CR>) and answers each one with an original-mode ACK:
+ *   AA - message accepted and logged
+ *   AE - message parsed but missing required content (sender may resend after fixing)
+ *   AR - message could not be parsed or its type is not supported
+ */
+
+import { createServer, type Server } from 'node:net';
+import type { HL7AcknowledgmentCode, HL7Message } from '../../../shared/types';
+import {
+  MLLPFrameDecoder,
+  buildACK,
+  findSegment,
+  frameMLLPMessage,
+  parseHL7Message,
+} from '../../../shared/services/hl7Message';
+
+/**
+ * Message types this listener accepts
+ */
+export const SUPPORTED_MESSAGE_TYPES = ['ORU^R01', 'ADT^A01', 'ADT^A03', 'ADT^A08'];
+
+/**
+ * A message received by the listener, with the ACK code it was answered with
+ */
+export interface ReceivedHL7Message {
+  receivedAt: string;
+  remoteAddress: string;
+  acknowledgmentCode: HL7AcknowledgmentCode;
+  message?: HL7Message;
+  error?: string;
+  rawMessage: string;
+}
+
+/**
+ * Decides the acknowledgment for a received message
+ */
+function acknowledge(rawMessage: string): {
+  code: HL7AcknowledgmentCode;
+  message?: HL7Message;
+  error?: string;
+} {
+  let message: HL7Message;
+  try {
+    message = parseHL7Message(rawMessage);
+  } catch (error) {
+    return { code: 'AR', error: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (!SUPPORTED_MESSAGE_TYPES.includes(message.messageType)) {
+    return { code: 'AR', message, error: `Unsupported message type ${message.messageType}` };
+  }
+  if (!message.messageControlId) {
+    return { code: 'AE', message, error: 'MSH-10 (message control ID) is required' };
+  }
+  if (!findSegment(message, 'PID')) {
+    return { code: 'AE', message, error: 'PID segment is required' };
+  }
+  if (message.messageType === 'ORU^R01' && !findSegment(message, 'OBR')) {
+    return { code: 'AE', message, error: 'ORU^R01 must contain an OBR segment' };
+  }
+
+  return { code: 'AA', message };
+}
+
+/**
+ * Builds a minimal ACK when the incoming message could not be parsed at all
+ */
+function rejectUnparsable(error: string): string {
+  return buildACK(
+    {
+      messageType: 'ACK',
+      messageControlId: '',
+      sendingApplication: '',
+      sendingFacility: '',
+      receivingApplication: 'EHR_SYSTEM',
+      receivingFacility: 'MEMORIAL_GENERAL',
+      messageDateTime: '',
+      segments: [],
+    },
+    'AR',
+    error
+  );
+}
+
+/**
+ * Creates an MLLP listener that logs each received message (newest last) to `received`
+ */
+export function createMLLPServer(received: ReceivedHL7Message[]): Server {
+  return createServer((socket) => {
+    const remoteAddress = `${socket.remoteAddress}:${socket.remotePort}`;
+    const decoder = new MLLPFrameDecoder();
+    socket.setEncoding('utf8');
+
+    socket.on('data', (chunk: string) => {
+      decoder.push(chunk).forEach((rawMessage) => {
+        const { code, message, error } = acknowledge(rawMessage);
+        received.push({
+          receivedAt: new Date().toISOString(),
+          remoteAddress,
+          acknowledgmentCode: code,
+          message,
+          error,
+          rawMessage,
+        });
+
+        console.log(
+          `📨 MLLP ${message?.messageType || 'unparsable message'} ${message?.messageControlId || ''} from ${remoteAddress} -> ${code}${error ? ` (${error})` : ''}`
+        );
+
+        const ack = message ? buildACK(message, code, error) : rejectUnparsable(error || 'Unparsable message');
+        socket.write(frameMLLPMessage(ack));
+      });
+    });
+
+    socket.on('error', (error) => {
+      console.warn(`⚠️ MLLP connection ${remoteAddress} error:`, error.message);
+    });
+  });
+}
@@ -1,25 +1,55 @@
 import { useState } from 'react'
 import { AppProvider } from './contexts/AppContext'
+import { useSession } from './hooks/useSession'
+import { LoginScreen } from './components/LoginScreen'
 import { AppHeader } from './components/AppHeader'
 import { WorkflowSidebar } from './components/WorkflowSidebar'
 import { MainWorkspace } from './components/MainWorkspace'
 import { RecentEntriesPanel } from './components/RecentEntriesPanel'
+import { EntryReviewDialog } from './components/EntryReviewDialog'
 import { VoiceRecordingDemo } from './components/VoiceRecordingDemo'
 import { MicrophoneTest } from './components/MicrophoneTest'
 import ParserDemo from './components/ParserDemo'
+import { TemplateBuilder } from './components/TemplateBuilder'
 import type { WorkflowType } from './components/WorkflowSelector'
+import type { CustomWorkflowTemplate, DocumentationEntry } from '../../shared/types'
+import { isCustomWorkflowType, loadCustomTemplates } from '../../shared/services/customWorkflowTemplates'
 
 type ViewMode = 'main' | 'demo' | 'diagnostics' | 'parser'
 
 function App() {
   const [viewMode, setViewMode] = useState<ViewMode>('main')
   const [selectedWorkflow, setSelectedWorkflow] = useState<WorkflowType | null>(null)
+  const [reviewedEntry, setReviewedEntry] = useState<DocumentationEntry | null>(null)
+  const [customTemplates, setCustomTemplates] = useState<CustomWorkflowTemplate[]>(
+    () => loadCustomTemplates().data || []
+  )
+  const [isBuildingTemplates, setIsBuildingTemplates] = useState(false)
+  const { currentNurse, isLocked } = useSession()
+
+  // Switching nurses starts from workflow selection (the workspace is remounted below)
+  const [workflowNurseId, setWorkflowNurseId] = useState(currentNurse?.id)
+  if (workflowNurseId !== currentNurse?.id) {
+    setWorkflowNurseId(currentNurse?.id)
+    setSelectedWorkflow(null)
+    setReviewedEntry(null)
+    setIsBuildingTemplates(false)
+  }
 
   const handleWorkflowComplete = () => {
     // Reset to workflow selection
     setSelectedWorkflow(null)
   }
 
+  const handleTemplatesChange = () => {
+    const templates = loadCustomTemplates().data || []
+    setCustomTemplates(templates)
+    // A deleted form can't stay open
+    if (selectedWorkflow && isCustomWorkflowType(selectedWorkflow) && !templates.some((t) => t.type === selectedWorkflow)) {
+      setSelectedWorkflow(null)
+    }
+  }
+
   // Demo/Diagnostics View
   if (viewMode !== 'main') {
     return (
@@ -86,10 +116,14 @@ function App() {
     )
   }
 
-  // Main Application View
+  if (!currentNurse) {
+    return <LoginScreen />
+  }
+
+  // Main Application View (work in progress belongs to the logged-in nurse)
   return (
-    <AppProvider>
-      <div className="min-h-screen bg-gray-50 flex flex-col">
+    <AppProvider currentNurse={currentNurse}>
+      <div key={currentNurse.id} className="min-h-screen bg-gray-50 flex flex-col">
         {/* Header */}
         <AppHeader />
 
@@ -119,27 +153,43 @@ function App() {
         </div>
 
         {/* Main Content Area */}
-        <div className="flex-1 flex overflow-hidden">
-          {/* Left Sidebar - Workflow Selection */}
-          <WorkflowSidebar
-            selectedWorkflow={selectedWorkflow}
-            onSelectWorkflow={setSelectedWorkflow}
+        {isBuildingTemplates ? (
+          <TemplateBuilder
+            templates={customTemplates}
+            onTemplatesChange={handleTemplatesChange}
+            onClose={() => setIsBuildingTemplates(false)}
           />
-
-          {/* Main Workspace */}
-          <div className="flex-1 flex flex-col overflow-hidden">
-            <MainWorkspace
+        ) : (
+          <div className="flex-1 flex overflow-hidden">
+            {/* Left Sidebar - Workflow Selection */}
+            <WorkflowSidebar
               selectedWorkflow={selectedWorkflow}
-              onWorkflowComplete={handleWorkflowComplete}
+              onSelectWorkflow={setSelectedWorkflow}
+              customTemplates={customTemplates}
+              onManageTemplates={currentNurse.chargeNurse ? () => setIsBuildingTemplates(true) : undefined}
             />
-          </div>
 
-          {/* Right Panel - Recent Entries */}
-          <div className="w-96 bg-gray-50 border-l border-gray-200 overflow-y-auto p-4">
-            <RecentEntriesPanel />
+            {/* Main Workspace */}
+            <div className="flex-1 flex flex-col overflow-hidden">
+              <MainWorkspace
+                selectedWorkflow={selectedWorkflow}
+                onWorkflowComplete={handleWorkflowComplete}
+              />
+            </div>
+
+            {/* Right Panel - Recent Entries */}
+            <div className="w-96 bg-gray-50 border-l border-gray-200 overflow-y-auto p-4">
+              <RecentEntriesPanel onViewEntry={setReviewedEntry} />
+            </div>
           </div>
-        </div>
+        )}
       </div>
+
+      {reviewedEntry && (
+        <EntryReviewDialog entry={reviewedEntry} onClose={() => setReviewedEntry(null)} />
+      )}
+
+      {isLocked && <LoginScreen />}
     </AppProvider>
   )
 }
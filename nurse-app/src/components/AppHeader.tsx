@@ -1,14 +1,16 @@
 /**
  * App Header Component
- * Displays nurse info, current time, shift info, and quick stats
+ * Displays nurse info (with lock / log out), current time, shift info, and quick stats
  */
 
 import React, { useState, useEffect } from 'react';
 import { useApp } from '../contexts/AppContext';
+import { useSession } from '../hooks/useSession';
 import { DemoControls } from './DemoControls';
 
 export const AppHeader: React.FC = () => {
   const { currentNurse, entriesCompletedToday, timeSavedEstimate } = useApp();
+  const { lock, logout, autoLockMinutes } = useSession();
   const [currentTime, setCurrentTime] = useState(new Date());
 
   // Update time every minute
@@ -72,6 +74,22 @@ export const AppHeader: React.FC = () => {
                   {currentNurse.credentials} • {currentNurse.department}
                 </div>
               </div>
+              <div className="flex flex-col gap-1">
+                <button
+                  onClick={lock}
+                  className="px-2 py-0.5 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded border border-gray-300 transition-colors"
+                  title={`Lock now or switch user (locks automatically after ${autoLockMinutes} minutes without activity)`}
+                >
+                  Lock / Switch
+                </button>
+                <button
+                  onClick={logout}
+                  className="px-2 py-0.5 text-xs bg-white hover:bg-gray-100 text-gray-600 rounded border border-gray-300 transition-colors"
+                  title="End your session on this device"
+                >
+                  Log Out
+                </button>
+              </div>
             </div>
 
             {/* Shift Info */}
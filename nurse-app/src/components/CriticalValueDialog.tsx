@@ -0,0 +1,53 @@
+/**
+ * Critical Value Dialog
+ * Asks the nurse to confirm critical values before the entry is saved
+ */
+
+import React from 'react';
+import type { ClinicalRangeFinding } from '../../../shared/types';
+
+interface CriticalValueDialogProps {
+  findings: ClinicalRangeFinding[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export const CriticalValueDialog: React.FC<CriticalValueDialogProps> = ({ findings, onConfirm, onCancel }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="w-full max-w-lg bg-white rounded-lg shadow-2xl overflow-hidden">
+        <div className="px-4 py-3 text-white bg-red-600">
+          <h3 className="font-semibold text-lg">Critical Values</h3>
+          <p className="text-xs opacity-90 mt-1">
+            Re-check these values. Confirmed critical values are flagged on the entry.
+          </p>
+        </div>
+
+        <ul className="p-4 space-y-2 max-h-72 overflow-y-auto">
+          {findings.map((finding) => (
+            <li key={finding.field} className="p-3 rounded border text-sm bg-red-50 border-red-200 text-red-900">
+              {finding.message}
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex justify-end gap-2 px-4 py-3 bg-gray-50 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 rounded-lg"
+          >
+            Back to Form
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            className="px-4 py-2 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg"
+          >
+            Confirm and Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
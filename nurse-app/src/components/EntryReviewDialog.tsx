@@ -0,0 +1,172 @@
+/**
+ * Entry Review Dialog
+ * Shows a saved entry with its dictation audio: clicking a transcript phrase or a
+ * structured field plays the audio from where it was spoken
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { TranscriptViewer, type TranscriptPlaybackHandle } from '../workflows/WorkflowBase';
+import { getAudio } from '../../../shared/services/audioStorage';
+import { findFieldByPath } from '../../../shared/services/workflowSchemas';
+import type { AudioRecording, DocumentationEntry, WorkflowType } from '../../../shared/types';
+
+interface EntryReviewDialogProps {
+  entry: DocumentationEntry;
+  onClose: () => void;
+}
+
+interface FieldValue {
+  label: string;
+  value: string;
+}
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9./]+/g, ' ').trim();
+
+const toLabel = (key: string) =>
+  key.replace(/([A-Z])/g, ' $1').replace(/^./, (c) => c.toUpperCase());
+
+/**
+ * Structured data as a flat list of labelled values (labels come from the workflow schema where there is one)
+ */
+function flattenFields(data: unknown, workflowType: WorkflowType, label = '', path = ''): FieldValue[] {
+  if (data === null || data === undefined || data === '') return [];
+  if (typeof data === 'string' || typeof data === 'number') {
+    return [{ label, value: String(data) }];
+  }
+  if (Array.isArray(data)) {
+    return data.flatMap((item, i) =>
+      flattenFields(item, workflowType, data.length > 1 ? `${label} ${i + 1}` : label, path)
+    );
+  }
+  if (typeof data === 'object') {
+    return Object.entries(data as Record<string, unknown>).flatMap(([key, value]) => {
+      const fieldPath = path ? `${path}.${key}` : key;
+      const fieldLabel = findFieldByPath(workflowType, fieldPath)?.label || toLabel(key);
+      return flattenFields(value, workflowType, label ? `${label} › ${fieldLabel}` : fieldLabel, fieldPath);
+    });
+  }
+  return [];
+}
+
+/**
+ * Where in the audio a value was dictated (null if it can't be found in the transcript)
+ */
+function findSpokenAt(recording: AudioRecording, value: string): number | null {
+  const target = normalize(value);
+  if (!target) return null;
+
+  // Whole words only, so "2" is not found inside "120/80"
+  const targetTokens = target.split(' ');
+  const firstToken = targetTokens[0];
+  for (const segment of recording.segments) {
+    const tokens = normalize(segment.text).split(' ');
+    const found = tokens.some((_, i) => targetTokens.every((token, j) => tokens[i + j] === token));
+    if (!found) continue;
+
+    const word = segment.words?.find((w) => normalize(w.word) === firstToken);
+    return word ? word.startMs : segment.startMs;
+  }
+  return null;
+}
+
+export const EntryReviewDialog: React.FC<EntryReviewDialogProps> = ({ entry, onClose }) => {
+  const recording = entry.audioRecording;
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [audioMissing, setAudioMissing] = useState(false);
+  const playbackRef = useRef<TranscriptPlaybackHandle>(null);
+
+  // Load the audio from device storage
+  useEffect(() => {
+    if (!recording) return;
+
+    let url: string | null = null;
+    let cancelled = false;
+    getAudio(entry.id).then((result) => {
+      if (cancelled) return;
+      if (result.success && result.data) {
+        url = URL.createObjectURL(result.data.blob);
+        setAudioUrl(url);
+      } else {
+        setAudioMissing(true);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [entry.id, recording]);
+
+  // Custom forms carry the labels they were documented with
+  const customForm = entry.structuredData.customForm;
+  const fields = customForm
+    ? customForm.fields.map((field) => ({
+        label: field.unit ? `${field.label} (${field.unit})` : field.label,
+        value: String(field.value),
+      }))
+    : flattenFields(entry.structuredData, entry.workflowType);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="w-full max-w-2xl max-h-[90vh] bg-white rounded-lg shadow-2xl overflow-hidden flex flex-col">
+        <div className="px-4 py-3 text-white bg-blue-700 flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-lg">{entry.patientName}</h3>
+            <p className="text-xs opacity-90 mt-1">
+              {new Date(entry.timestamp).toLocaleString()} • {entry.nurseName}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-white/80 hover:text-white text-xl" title="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto">
+          {audioMissing && (
+            <p className="mb-3 p-2 text-xs bg-gray-50 border border-gray-200 rounded text-gray-600">
+              Audio for this entry is no longer available (recordings are deleted after the retention period).
+            </p>
+          )}
+
+          <TranscriptViewer
+            transcript={entry.voiceTranscript}
+            isRecording={false}
+            audioUrl={audioUrl || undefined}
+            segments={recording?.segments}
+            playbackRef={playbackRef}
+          />
+
+          {fields.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-800 mb-2">Documented Fields</h4>
+              <dl className="divide-y divide-gray-100 border border-gray-200 rounded">
+                {fields.map((field, i) => {
+                  const spokenAt = audioUrl && recording ? findSpokenAt(recording, field.value) : null;
+                  return (
+                    <div key={i} className="flex gap-3 px-3 py-1.5 text-sm">
+                      <dt className="w-1/3 text-gray-500">{field.label}</dt>
+                      <dd className="flex-1 text-gray-900">
+                        {spokenAt !== null ? (
+                          <button
+                            onClick={() => playbackRef.current?.seekTo(spokenAt)}
+                            className="text-left text-blue-700 hover:underline"
+                            title="Play from where this was dictated"
+                          >
+                            ▶ {field.value}
+                          </button>
+                        ) : (
+                          field.value
+                        )}
+                      </dd>
+                    </div>
+                  );
+                })}
+              </dl>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+/**
+ * Login Screen Component
+ * Nurse login, unlock after auto-lock, and fast switching between signed-in nurses
+ */
+
+import React, { useState } from 'react';
+import { useSession } from '../hooks/useSession';
+
+const getInitials = (name: string) =>
+  name
+    .split(' ')
+    .map((n) => n[0])
+    .join('');
+
+export const LoginScreen: React.FC = () => {
+  const { nurses, currentNurse, signedInNurses, isLocked, login, logout } = useSession();
+  const [nurseId, setNurseId] = useState(currentNurse?.id || signedInNurses[0]?.id || '');
+  const [credential, setCredential] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoggingIn, setIsLoggingIn] = useState(false);
+
+  const otherNurses = nurses.filter((nurse) => !signedInNurses.some((signedIn) => signedIn.id === nurse.id));
+
+  const selectNurse = (id: string) => {
+    setNurseId(id);
+    setCredential('');
+    setError(null);
+  };
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!nurseId || !credential) return;
+
+    setIsLoggingIn(true);
+    const loginError = await login(nurseId, credential);
+    setIsLoggingIn(false);
+    if (loginError) {
+      setError(loginError);
+      setCredential('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-gray-900/80 backdrop-blur-sm p-4">
+      <form onSubmit={handleLogin} className="w-full max-w-md bg-white rounded-lg shadow-2xl overflow-hidden">
+        <div className="px-6 py-4 bg-blue-600 text-white">
+          <h2 className="text-xl font-bold">{isLocked ? 'Device Locked' : 'Voize US - Nurse Login'}</h2>
+          <p className="text-sm opacity-90 mt-1">
+            {isLocked
+              ? `${currentNurse?.name}'s session is locked. Unlock it, or switch to another nurse.`
+              : 'Log in with your PIN or passphrase.'}
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {/* Signed-in nurses (fast user switching) */}
+          {signedInNurses.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Signed in on this device</p>
+              <div className="flex flex-wrap gap-2">
+                {signedInNurses.map((nurse) => (
+                  <button
+                    key={nurse.id}
+                    type="button"
+                    onClick={() => selectNurse(nurse.id)}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm transition-colors ${
+                      nurseId === nurse.id
+                        ? 'bg-blue-50 border-blue-500 text-blue-800'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="w-7 h-7 bg-blue-100 text-blue-700 rounded-full flex items-center justify-center text-xs font-semibold">
+                      {getInitials(nurse.name)}
+                    </span>
+                    {nurse.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {otherNurses.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {signedInNurses.length > 0 ? 'Another nurse' : 'Nurse'}
+              </label>
+              <select
+                value={otherNurses.some((nurse) => nurse.id === nurseId) ? nurseId : ''}
+                onChange={(e) => selectNurse(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Select your name</option>
+                {otherNurses.map((nurse) => (
+                  <option key={nurse.id} value={nurse.id}>
+                    {nurse.name} ({nurse.credentials || nurse.role})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">PIN or passphrase</label>
+            <input
+              type="password"
+              autoComplete="off"
+              autoFocus
+              value={credential}
+              onChange={(e) => setCredential(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 px-6 py-3 bg-gray-50 border-t border-gray-200">
+          {isLocked && currentNurse ? (
+            <button
+              type="button"
+              onClick={logout}
+              className="text-sm text-gray-600 hover:text-gray-900"
+              title={`End ${currentNurse.name}'s session (unsaved work is discarded)`}
+            >
+              Log out {currentNurse.name}
+            </button>
+          ) : (
+            <span />
+          )}
+          <button
+            type="submit"
+            disabled={!nurseId || !credential || isLoggingIn}
+            className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoggingIn ? 'Checking...' : isLocked && nurseId === currentNurse?.id ? 'Unlock' : 'Log In'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -3,17 +3,49 @@
  * Displays selected workflow with integrated voice recording controls
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useApp } from '../contexts/AppContext';
 import { useVoiceRecording } from '../hooks/useVoiceRecording';
+import type { SpeechEngineId } from '../services/speechEngine';
+import { getVoiceCommands, type VoiceCommand, type VoiceCommandField } from '../services/voiceCommands';
+import { getExpectedFieldNames } from '../services/fieldLabelMatcher';
+import { speak } from '../services/speechOutput';
+import { VoiceFieldContext, type VoiceFieldRegistration } from '../workflows/voiceFieldContext';
 import type { WorkflowType } from './WorkflowSelector';
 import { PatientAssessment } from '../workflows/PatientAssessment';
 import { VitalSigns } from '../workflows/VitalSigns';
 import { MedicationAdministration } from '../workflows/MedicationAdministration';
 import { WoundCare } from '../workflows/WoundCare';
 import { ShiftHandoff } from '../workflows/ShiftHandoff';
+import { Admission } from '../workflows/Admission';
+import { Discharge } from '../workflows/Discharge';
+import { CustomWorkflow } from '../workflows/CustomWorkflow';
 import { PatientSelector } from './PatientSelector';
-import type { DocumentationEntry } from '../../../shared/types';
+import { MedicationSafetyDialog } from './MedicationSafetyDialog';
+import { CriticalValueDialog } from './CriticalValueDialog';
+import { SignatureDialog } from './SignatureDialog';
+import { VoiceCommandHelp } from './VoiceCommandHelp';
+import type { ClinicalRangeFinding, DocumentationEntry, MedicationSafetyWarning } from '../../../shared/types';
+import * as storageService from '../../../shared/services/storageService';
+import { getAdministeredMedications } from '../../../shared/services/exportFormats';
+import { checkMedicationSafety, formatSafetyFlag } from '../../../shared/services/medicationSafety';
+import { checkClinicalValues, formatCriticalValueFlag } from '../../../shared/services/clinicalRanges';
+import { requiresCoSignature, signEntry, SIGNATURE_ATTESTATION } from '../../../shared/services/signatures';
+import { saveAudio } from '../../../shared/services/audioStorage';
+import { getCustomTemplate } from '../../../shared/services/customWorkflowTemplates';
+
+/**
+ * Registered form fields in the order they appear on screen
+ */
+function sortFieldsByPosition(fields: Map<string, VoiceFieldRegistration>): [string, VoiceFieldRegistration][] {
+  return [...fields.entries()].sort(([, a], [, b]) =>
+    a.element.compareDocumentPosition(b.element) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+  );
+}
+
+// A recorded 0 (pain 0/10, 0 mL) is read back like any other value
+const hasValue = (value: unknown) =>
+  value !== undefined && value !== null && value !== '' && !Number.isNaN(value);
 
 interface MainWorkspaceProps {
   selectedWorkflow: WorkflowType | null;
@@ -24,7 +56,7 @@ export const MainWorkspace: React.FC<MainWorkspaceProps> = ({
   selectedWorkflow,
   onWorkflowComplete,
 }) => {
-  const { currentNurse, selectedPatient, addEntry } = useApp();
+  const { currentNurse, selectedPatient, addEntry, entries } = useApp();
   const [editableTranscript, setEditableTranscript] = useState('');
   const [isEditingTranscript, setIsEditingTranscript] = useState(false);
 
@@ -34,12 +66,26 @@ export const MainWorkspace: React.FC<MainWorkspaceProps> = ({
     'vital-signs': '',
     'medication-administration': '',
     'wound-care': '',
-    'shift-handoff': ''
+    'shift-handoff': '',
+    'admission': '',
+    'discharge': ''
   });
 
   // Track which workflow is currently active
   const [activeWorkflow, setActiveWorkflow] = useState<WorkflowType | null>(null);
 
+  // Form fields voice commands can move to (registered by FormField)
+  const voiceFieldsRef = useRef(new Map<string, VoiceFieldRegistration>());
+  const [voiceTarget, setVoiceTarget] = useState<{ workflowKey: number; fieldKey: string } | null>(null);
+  const [commandHelpFields, setCommandHelpFields] = useState<string[] | null>(null);
+  const [commandFeedback, setCommandFeedback] = useState<string | null>(null);
+  const formContainerRef = useRef<HTMLDivElement>(null);
+  const isDraftSubmitRef = useRef(false);
+
+  // Commands arrive through a stable callback; the handler below sees the latest state
+  const voiceCommandHandlerRef = useRef<(command: VoiceCommand) => void>(() => {});
+  const handleVoiceCommand = useCallback((command: VoiceCommand) => voiceCommandHandlerRef.current(command), []);
+
   const {
     isRecording,
     isPaused,
@@ -50,11 +96,18 @@ export const MainWorkspace: React.FC<MainWorkspaceProps> = ({
     pauseRecording,
     resumeRecording,
     clearTranscript,
+    takeAudioRecording,
     error,
+    speechEngine,
+    speechEngines,
+    preferredSpeechEngine,
+    setPreferredSpeechEngine,
+    setVoiceCommands,
   } = useVoiceRecording({
     continuous: true,
     interimResults: true,
     enableMedicalProcessing: true,
+    onVoiceCommand: handleVoiceCommand,
   });
 
   // Update editable transcript when voice transcript changes
@@ -77,6 +130,58 @@ export const MainWorkspace: React.FC<MainWorkspaceProps> = ({
   // Key to force remount workflow components when needed
   const [workflowKey, setWorkflowKey] = useState(0);
 
+  // The voice target belongs to the form it was set in
+  const activeField = voiceTarget?.workflowKey === workflowKey ? voiceTarget.fieldKey : null;
+
+  const registerField = useCallback((key: string, field: VoiceFieldRegistration) => {
+    voiceFieldsRef.current.set(key, field);
+    return () => {
+      if (voiceFieldsRef.current.get(key) === field) {
+        voiceFieldsRef.current.delete(key);
+      }
+    };
+  }, []);
+
+  const voiceFieldContext = useMemo(() => ({ activeField, registerField }), [activeField, registerField]);
+
+  // Listen for the workflow's spoken commands
+  useEffect(() => {
+    if (!selectedWorkflow) return;
+
+    const spokenLabels = getExpectedFieldNames(selectedWorkflow);
+    setVoiceCommands(getVoiceCommands(selectedWorkflow), (): VoiceCommandField[] =>
+      sortFieldsByPosition(voiceFieldsRef.current).map(([key, field]) => ({
+        key,
+        label: field.label,
+        aliases: spokenLabels[key],
+        marker: spokenLabels[key]?.[0],
+      }))
+    );
+    return () => setVoiceCommands([]);
+  }, [selectedWorkflow, setVoiceCommands]);
+
+  // Command confirmations fade out
+  useEffect(() => {
+    if (!commandFeedback) return;
+    const timer = window.setTimeout(() => setCommandFeedback(null), 3000);
+    return () => clearTimeout(timer);
+  }, [commandFeedback]);
+
+  // Medication entry held back until the nurse overrides its safety warnings
+  const [safetyReview, setSafetyReview] = useState<{
+    entry: DocumentationEntry;
+    warnings: MedicationSafetyWarning[];
+  } | null>(null);
+
+  // Entry held back until the nurse confirms its critical values
+  const [criticalReview, setCriticalReview] = useState<{
+    entry: DocumentationEntry;
+    findings: ClinicalRangeFinding[];
+  } | null>(null);
+
+  // Entry that passed its checks, waiting for the nurse's signature
+  const [signatureReview, setSignatureReview] = useState<DocumentationEntry | null>(null);
+
   // Handle workflow switching - always start fresh
   useEffect(() => {
     if (selectedWorkflow !== activeWorkflow) {
@@ -99,7 +204,90 @@ export const MainWorkspace: React.FC<MainWorkspaceProps> = ({
     }
   }, [selectedWorkflow, activeWorkflow, clearTranscript]);
 
-  const handleWorkflowSubmit = (data: any) => {
+  const saveEntry = async (entry: DocumentationEntry) => {
+    // Stop recording and keep the dictation audio with the entry (before the transcript is cleared)
+    stopRecording();
+    const audio = await takeAudioRecording();
+    const entryToSave = audio ? { ...entry, audioRecording: audio.recording } : entry;
+
+    // Add to state
+    addEntry(entryToSave);
+
+    if (audio) {
+      saveAudio(entryToSave.id, audio.blob, audio.recording.recordedAt).then((result) => {
+        if (!result.success && result.error) {
+          console.error('Failed to save audio:', result.error.message);
+        }
+      });
+    }
+
+    // Clear transcript
+    clearTranscript();
+    setEditableTranscript('');
+    setIsEditingTranscript(false);
+
+    // Notify parent
+    onWorkflowComplete();
+  };
+
+  const handleSign = async (pin: string): Promise<string | null> => {
+    if (!signatureReview) return null;
+
+    const signed = await signEntry(signatureReview, currentNurse, pin);
+    if (!signed.success || !signed.data) {
+      return signed.error?.message || 'Failed to sign entry';
+    }
+
+    setSignatureReview(null);
+    await saveEntry(signed.data);
+    return null;
+  };
+
+  const handleSignLater = () => {
+    if (!signatureReview) return;
+
+    const entry = signatureReview;
+    setSignatureReview(null);
+    saveEntry(entry);
+  };
+
+  const checkMedicationsAndSave = async (entry: DocumentationEntry) => {
+    // Cross-check medications against allergies, the formulary and earlier doses
+    if (entry.workflowType === 'medication-administration') {
+      const stored = await storageService.getEntriesByPatient(entry.patientId);
+      if (!stored.success) {
+        console.error('Failed to read prior entries for safety checks:', stored.error?.message);
+      }
+      const priorEntries = stored.success && stored.data
+        ? stored.data
+        : entries.filter((e) => e.patientId === entry.patientId);
+
+      const warnings = checkMedicationSafety(getAdministeredMedications(entry), {
+        patient: selectedPatient,
+        priorEntries,
+      });
+      if (warnings.length > 0) {
+        setSafetyReview({ entry, warnings });
+        return;
+      }
+    }
+
+    requestSignature(entry);
+  };
+
+  // Drafts are saved unsigned; other entries are signed first
+  const requestSignature = (entry: DocumentationEntry) => {
+    if (entry.status === 'draft') {
+      saveEntry(entry);
+    } else {
+      setSignatureReview(entry);
+    }
+  };
+
+  const handleWorkflowSubmit = async (data: any) => {
+    // Read before awaiting: only set while "save draft" submits the form
+    const isDraft = isDraftSubmitRef.current;
+
     // Ensure patient is selected
     if (!selectedPatient) {
       alert('Please select a patient before submitting.');
@@ -118,23 +306,145 @@ export const MainWorkspace: React.FC<MainWorkspaceProps> = ({
       workflowType: selectedWorkflow!,
       voiceTranscript: editableTranscript,
       structuredData: data.structuredData || data,
-      status: 'completed',
+      status: isDraft ? 'draft' : 'completed',
       lastModified: new Date().toISOString(),
     };
 
-    // Add to state
-    addEntry(entry);
+    // Critical vital signs are confirmed before anything else
+    const findings = checkClinicalValues(entry.structuredData.vitalSigns || {}).filter(
+      (finding) => finding.level === 'critical'
+    );
+    if (findings.length > 0) {
+      setCriticalReview({ entry, findings });
+      return;
+    }
 
-    // Clear transcript and stop recording
-    stopRecording();
-    clearTranscript();
-    setEditableTranscript('');
-    setIsEditingTranscript(false);
+    await checkMedicationsAndSave(entry);
+  };
 
-    // Notify parent
-    onWorkflowComplete();
+  const handleCriticalConfirm = async () => {
+    if (!criticalReview) return;
+
+    const { entry, findings } = criticalReview;
+    setCriticalReview(null);
+    await checkMedicationsAndSave({
+      ...entry,
+      flags: [...(entry.flags || []), ...findings.map((finding) => formatCriticalValueFlag(finding, currentNurse.name))],
+    });
+  };
+
+  const handleSafetyOverride = (reason: string) => {
+    if (!safetyReview) return;
+
+    const { entry, warnings } = safetyReview;
+    setSafetyReview(null);
+    requestSignature({
+      ...entry,
+      flags: [...(entry.flags || []), ...warnings.map(formatSafetyFlag)],
+      safetyOverride: {
+        reason,
+        overriddenBy: currentNurse.id,
+        overriddenAt: new Date().toISOString(),
+        warnings,
+      },
+    });
+  };
+
+  const moveToField = (key: string) => {
+    const field = voiceFieldsRef.current.get(key);
+    if (!field) return;
+
+    setVoiceTarget({ workflowKey, fieldKey: key });
+    field.element.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    field.element.querySelector<HTMLElement>('input, select, textarea')?.focus();
+    setCommandFeedback(`Moved to ${field.label}`);
+  };
+
+  const submitForm = (asDraft: boolean) => {
+    const form = formContainerRef.current?.querySelector('form');
+    if (!form) return;
+
+    // The form validates and calls onSubmit synchronously
+    isDraftSubmitRef.current = asDraft;
+    form.requestSubmit();
+    isDraftSubmitRef.current = false;
   };
 
+  const readBack = async () => {
+    const filled = sortFieldsByPosition(voiceFieldsRef.current).filter(([, field]) => hasValue(field.getValue()));
+    const text = filled.length > 0
+      ? filled.map(([, field]) => `${field.label}: ${field.getValue()}.`).join(' ')
+      : editableTranscript || currentTranscript || 'Nothing has been documented yet.';
+
+    // Don't transcribe our own voice
+    const wasRecording = isRecording;
+    if (wasRecording) pauseRecording();
+    await speak(text);
+    if (wasRecording) resumeRecording();
+  };
+
+  const openCommandHelp = () => {
+    setCommandHelpFields(sortFieldsByPosition(voiceFieldsRef.current).map(([, field]) => field.label));
+  };
+
+  const applyVoiceCommand = (command: VoiceCommand) => {
+    const fields = sortFieldsByPosition(voiceFieldsRef.current);
+    const position = fields.findIndex(([key]) => key === activeField);
+
+    switch (command.id) {
+      case 'scratch-that':
+        setCommandFeedback('Removed the last phrase');
+        break;
+      case 'undo':
+        setCommandFeedback('Undone');
+        break;
+      case 'redo':
+        setCommandFeedback('Redone');
+        break;
+      case 'next-field':
+      case 'previous-field': {
+        const next = command.id === 'next-field'
+          ? fields[Math.min(position + 1, fields.length - 1)]
+          : fields[Math.max(position - 1, 0)];
+        if (next) moveToField(next[0]);
+        break;
+      }
+      case 'go-to-field':
+        if (command.fieldKey) moveToField(command.fieldKey);
+        break;
+      case 'clear-field': {
+        const key = command.fieldKey || activeField;
+        const field = key ? voiceFieldsRef.current.get(key) : undefined;
+        if (field) {
+          field.clear();
+          setCommandFeedback(`Cleared ${field.label}`);
+        } else {
+          setCommandFeedback('Say "go to" a field first, or "clear field" and its name');
+        }
+        break;
+      }
+      case 'submit':
+        submitForm(false);
+        break;
+      case 'save-draft':
+        submitForm(true);
+        break;
+      case 'read-back':
+        readBack();
+        break;
+      case 'show-help':
+        openCommandHelp();
+        break;
+      case 'hide-help':
+        setCommandHelpFields(null);
+        break;
+    }
+  };
+
+  useEffect(() => {
+    voiceCommandHandlerRef.current = applyVoiceCommand;
+  });
+
   const handleWorkflowCancel = () => {
     if (isRecording) {
       stopRecording();
@@ -198,8 +508,14 @@ export const MainWorkspace: React.FC<MainWorkspaceProps> = ({
         return <WoundCare key={workflowKey} {...commonProps} />;
       case 'shift-handoff':
         return <ShiftHandoff key={workflowKey} {...commonProps} />;
-      default:
-        return null;
+      case 'admission':
+        return <Admission key={workflowKey} {...commonProps} />;
+      case 'discharge':
+        return <Discharge key={workflowKey} {...commonProps} />;
+      default: {
+        const template = getCustomTemplate(selectedWorkflow);
+        return template ? <CustomWorkflow key={workflowKey} template={template} {...commonProps} /> : null;
+      }
     }
   };
 
@@ -266,9 +582,36 @@ export const MainWorkspace: React.FC<MainWorkspaceProps> = ({
                   <span className="animate-spin">⟳</span> Processing...
                 </span>
               )}
+              {speechEngine && (isRecording || isPaused) && (
+                <span
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium border ${
+                    speechEngine.sendsAudioOffDevice
+                      ? 'bg-amber-50 text-amber-800 border-amber-300'
+                      : 'bg-green-50 text-green-800 border-green-300'
+                  }`}
+                  title={speechEngine.sendsAudioOffDevice ? 'Audio is sent to the browser vendor for recognition' : 'Audio stays on this device'}
+                >
+                  {speechEngine.name}
+                </span>
+              )}
             </div>
 
             <div className="flex items-center gap-2">
+              {speechEngines.length > 1 && !isRecording && !isPaused && (
+                <select
+                  value={preferredSpeechEngine || ''}
+                  onChange={(e) => setPreferredSpeechEngine((e.target.value || null) as SpeechEngineId | null)}
+                  className="px-2 py-2 text-sm border border-gray-300 rounded-lg bg-white"
+                  title="Speech engine (falls back to the others if it is unavailable)"
+                >
+                  <option value="">Automatic</option>
+                  {speechEngines.map((engine) => (
+                    <option key={engine.id} value={engine.id}>
+                      {engine.name}
+                    </option>
+                  ))}
+                </select>
+              )}
               {!isRecording && !isPaused && (
                 <button
                   onClick={startRecording}
@@ -319,6 +662,14 @@ export const MainWorkspace: React.FC<MainWorkspaceProps> = ({
                 </>
               )}
 
+              <button
+                onClick={() => (commandHelpFields ? setCommandHelpFields(null) : openCommandHelp())}
+                className="px-3 py-2 text-sm bg-purple-50 hover:bg-purple-100 text-purple-700 border border-purple-200 rounded-lg font-medium transition-colors"
+                title='Spoken commands, e.g. "scratch that" or "next field"'
+              >
+                Voice Commands
+              </button>
+
               {(currentTranscript || editableTranscript) && (
                 <button
                   onClick={handleClearAll}
@@ -330,6 +681,10 @@ export const MainWorkspace: React.FC<MainWorkspaceProps> = ({
             </div>
           </div>
 
+          {commandFeedback && (
+            <div className="mb-3 text-sm text-purple-800">🎙 {commandFeedback}</div>
+          )}
+
           {/* Error Display */}
           {error && (
             <div className="mb-4 p-3 bg-red-50 border border-red-300 rounded-lg">
@@ -379,9 +734,48 @@ export const MainWorkspace: React.FC<MainWorkspaceProps> = ({
       </div>
 
       {/* Workflow Form */}
-      <div className="flex-1 overflow-y-auto p-6">
-        {renderWorkflowForm()}
+      <div ref={formContainerRef} className="flex-1 overflow-y-auto p-6">
+        <VoiceFieldContext.Provider value={voiceFieldContext}>
+          {renderWorkflowForm()}
+        </VoiceFieldContext.Provider>
       </div>
+
+      {commandHelpFields && selectedWorkflow && (
+        <VoiceCommandHelp
+          commands={getVoiceCommands(selectedWorkflow)}
+          fieldNames={commandHelpFields}
+          onClose={() => setCommandHelpFields(null)}
+        />
+      )}
+
+      {criticalReview && (
+        <CriticalValueDialog
+          findings={criticalReview.findings}
+          onConfirm={handleCriticalConfirm}
+          onCancel={() => setCriticalReview(null)}
+        />
+      )}
+
+      {safetyReview && (
+        <MedicationSafetyDialog
+          warnings={safetyReview.warnings}
+          onOverride={handleSafetyOverride}
+          onCancel={() => setSafetyReview(null)}
+        />
+      )}
+
+      {signatureReview && (
+        <SignatureDialog
+          title="Sign Entry"
+          attestation={SIGNATURE_ATTESTATION}
+          signer={currentNurse}
+          note={requiresCoSignature(currentNurse) ? 'An RN must co-sign this entry before it is sent to the EHR.' : undefined}
+          submitLabel="Sign and Save"
+          onSign={handleSign}
+          onSkip={handleSignLater}
+          onCancel={() => setSignatureReview(null)}
+        />
+      )}
     </div>
   );
 };
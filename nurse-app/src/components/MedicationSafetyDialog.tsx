@@ -0,0 +1,91 @@
+/**
+ * Medication Safety Dialog
+ * Shows safety warnings for a medication entry; saving requires an override reason
+ */
+
+import React, { useState } from 'react';
+import type { MedicationSafetyWarning } from '../../../shared/types';
+
+interface MedicationSafetyDialogProps {
+  warnings: MedicationSafetyWarning[];
+  onOverride: (reason: string) => void;
+  onCancel: () => void;
+}
+
+const RULE_LABELS: Record<MedicationSafetyWarning['rule'], string> = {
+  allergy: 'Allergy',
+  'dose-range': 'Dose',
+  route: 'Route',
+  duplicate: 'Duplicate',
+};
+
+export const MedicationSafetyDialog: React.FC<MedicationSafetyDialogProps> = ({
+  warnings,
+  onOverride,
+  onCancel,
+}) => {
+  const [reason, setReason] = useState('');
+  const hasHighSeverity = warnings.some((warning) => warning.severity === 'high');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="w-full max-w-lg bg-white rounded-lg shadow-2xl overflow-hidden">
+        <div className={`px-4 py-3 text-white ${hasHighSeverity ? 'bg-red-600' : 'bg-amber-500'}`}>
+          <h3 className="font-semibold text-lg">Medication Safety Check</h3>
+          <p className="text-xs opacity-90 mt-1">
+            Review before saving. An override reason is recorded with the entry.
+          </p>
+        </div>
+
+        <ul className="p-4 space-y-2 max-h-72 overflow-y-auto">
+          {warnings.map((warning, i) => (
+            <li
+              key={i}
+              className={`p-3 rounded border text-sm ${
+                warning.severity === 'high'
+                  ? 'bg-red-50 border-red-200 text-red-900'
+                  : 'bg-amber-50 border-amber-200 text-amber-900'
+              }`}
+            >
+              <span className="mr-2 px-1.5 py-0.5 text-xs font-semibold rounded bg-white border border-current">
+                {RULE_LABELS[warning.rule]}
+              </span>
+              {warning.message}
+            </li>
+          ))}
+        </ul>
+
+        <div className="px-4 pb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Override reason <span className="text-red-500">*</span>
+          </label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            placeholder="e.g., Prescriber aware, order confirmed with Dr. Lee"
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 bg-gray-50 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 rounded-lg"
+          >
+            Back to Form
+          </button>
+          <button
+            type="button"
+            onClick={() => onOverride(reason.trim())}
+            disabled={reason.trim().length === 0}
+            className="px-4 py-2 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Override and Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -6,6 +6,7 @@
 import { useState } from 'react';
 import { parseTranscript } from '../services/parseService';
 import type { WorkflowType } from '../../../shared/types';
+import { formatVitalSign } from '../../../shared/services/vitalSignUnits';
 
 // Example transcripts for testing
 const EXAMPLE_TRANSCRIPTS: Record<WorkflowType, string[]> = {
@@ -24,8 +25,13 @@ const EXAMPLE_TRANSCRIPTS: Record<WorkflowType, string[]> = {
     'Patient confused, bedbound, requires assistance with all activities of daily living',
     'Alert patient, oriented to person place and time, walking independently',
   ],
-  'wound-care': [],
-  'shift-handoff': [],
+  'wound-care': [
+    'Stage 2 pressure injury on the sacrum, 3 by 2 by 0.5 cm, 80 percent granulation 20 percent slough, moderate serosanguineous drainage, no odor, no erythema, applied foam dressing',
+    'Surgical incision right lower abdomen four by one centimeters, scant purulent drainage with foul odor, redness and induration noted',
+  ],
+  'shift-handoff': [
+    'Situation: CHF exacerbation, short of breath overnight. Background: admitted yesterday, history of COPD. Assessment: crackles bilateral bases, BP 138/82. Recommendation: continue IV Lasix, recheck BMP at 0600. Access: 20 gauge left forearm. Diet: cardiac diet.',
+  ],
   'admission': [],
   'discharge': [],
   'general-note': [],
@@ -263,6 +269,38 @@ export default function ParserDemo() {
                         <div className="text-2xl font-bold text-orange-900">
                           {parseResult.structuredData.vitalSigns.temperature}°F
                         </div>
+                        {parseResult.structuredData.vitalSigns.measuredAs?.temperature?.unit === 'Cel' && (
+                          <div className="text-xs text-orange-500 mt-1">
+                            spoken as {formatVitalSign(parseResult.structuredData.vitalSigns, 'temperature')}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {parseResult.structuredData.vitalSigns.weight && (
+                      <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                        <div className="text-sm text-gray-600 mb-1">Weight</div>
+                        <div className="text-2xl font-bold text-gray-900">
+                          {formatVitalSign(parseResult.structuredData.vitalSigns, 'weight')}
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">{parseResult.structuredData.vitalSigns.weight} lb</div>
+                      </div>
+                    )}
+                    {parseResult.structuredData.vitalSigns.height && (
+                      <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                        <div className="text-sm text-gray-600 mb-1">Height</div>
+                        <div className="text-2xl font-bold text-gray-900">
+                          {formatVitalSign(parseResult.structuredData.vitalSigns, 'height')}
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">{parseResult.structuredData.vitalSigns.height} in</div>
+                      </div>
+                    )}
+                    {parseResult.structuredData.vitalSigns.bloodGlucose && (
+                      <div className="bg-indigo-50 rounded-lg p-4 border border-indigo-200">
+                        <div className="text-sm text-indigo-600 mb-1">Blood Glucose</div>
+                        <div className="text-2xl font-bold text-indigo-900">
+                          {formatVitalSign(parseResult.structuredData.vitalSigns, 'bloodGlucose')}
+                        </div>
+                        <div className="text-xs text-indigo-500 mt-1">{parseResult.structuredData.vitalSigns.bloodGlucose} mg/dL</div>
                       </div>
                     )}
                     {parseResult.structuredData.vitalSigns.oxygenSaturation && (
@@ -310,6 +348,14 @@ export default function ParserDemo() {
                             <div className="text-sm text-purple-700 mt-1">
                               {med.dose} {med.route && `• ${med.route}`} {med.timeAdministered && `• ${new Date(med.timeAdministered).toLocaleTimeString()}`}
                             </div>
+                            {med.ndc && (
+                              <div className="text-xs text-purple-600 mt-1 font-mono">NDC {med.ndc}</div>
+                            )}
+                            {parseResult.suggestions?.[`medications[${index}].name`] && (
+                              <div className="text-xs text-yellow-800 mt-1">
+                                Did you mean: {parseResult.suggestions[`medications[${index}].name`].join(', ')}?
+                              </div>
+                            )}
                           </div>
                           {!med.route && (
                             <span className="text-xs bg-yellow-100 text-yellow-700 px-2 py-1 rounded">
@@ -365,6 +411,8 @@ export default function ParserDemo() {
               <ul className="list-disc list-inside space-y-1 text-gray-600 ml-2">
                 <li>"BP one twenty over eighty" → 120/80</li>
                 <li>"temp ninety eight point six" → 98.6°F</li>
+                <li>"temp 37.2 celsius" → 99°F (kept as 37.2°C)</li>
+                <li>"weight 70 kg" / "height 5 foot 10" / "glucose 6.5 mmol"</li>
                 <li>"pulse seventy two" → 72 bpm</li>
                 <li>"oxygen sat ninety eight percent" → 98%</li>
               </ul>
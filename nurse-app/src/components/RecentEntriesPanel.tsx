@@ -3,8 +3,17 @@
  * Displays recent documentation entries with quick view/edit capability
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useApp } from '../contexts/AppContext';
+import { parseTranscript } from '../services/parseService';
+import { SignatureDialog } from './SignatureDialog';
+import {
+  canCoSign,
+  CO_SIGNATURE_ATTESTATION,
+  isAwaitingCoSignature,
+  requiresCoSignature,
+  SIGNATURE_ATTESTATION,
+} from '../../../shared/services/signatures';
 import type { DocumentationEntry, DocumentationStatus } from '../../../shared/types';
 
 const getStatusColor = (status: DocumentationStatus) => {
@@ -53,12 +62,15 @@ const getWorkflowIcon = (workflowType: string) => {
     'medication-administration': '💊',
     'wound-care': '🩹',
     'shift-handoff': '🔄',
+    'admission': '🏥',
+    'discharge': '🏠',
   };
   return iconMap[workflowType] || '📄';
 };
 
-const getWorkflowName = (workflowType: string) => {
-  return workflowType
+const getWorkflowName = (entry: DocumentationEntry) => {
+  if (entry.structuredData.customForm) return entry.structuredData.customForm.templateName;
+  return entry.workflowType
     .split('-')
     .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
     .join(' ');
@@ -69,9 +81,19 @@ interface RecentEntriesPanelProps {
 }
 
 export const RecentEntriesPanel: React.FC<RecentEntriesPanelProps> = ({ onViewEntry }) => {
-  const { getRecentEntries, sendToEHR } = useApp();
+  const { getRecentEntries, sendToEHR, amendEntry, signEntry, coSignEntry, currentNurse, nurses } = useApp();
   const recentEntries = getRecentEntries(5);
 
+  // Amendment form for an entry already signed or sent to the EHR
+  const [amendingId, setAmendingId] = useState<string | null>(null);
+  const [amendTranscript, setAmendTranscript] = useState('');
+  const [amendReason, setAmendReason] = useState('');
+  const [amendPin, setAmendPin] = useState('');
+  const [amendError, setAmendError] = useState<string | null>(null);
+
+  // Entry being signed or co-signed
+  const [signing, setSigning] = useState<{ entry: DocumentationEntry; coSign: boolean } | null>(null);
+
   const formatTime = (timestamp: string) => {
     const date = new Date(timestamp);
     const now = new Date();
@@ -87,11 +109,63 @@ export const RecentEntriesPanel: React.FC<RecentEntriesPanelProps> = ({ onViewEn
   const handleSendToEHR = (entry: DocumentationEntry) => {
     if (entry.status === 'sent_to_ehr') return;
 
-    if (confirm(`Send this ${getWorkflowName(entry.workflowType)} entry to EHR?`)) {
+    if (confirm(`Send this ${getWorkflowName(entry)} entry to EHR?`)) {
       sendToEHR(entry.id);
     }
   };
 
+  const handleSign = async (pin: string, signerId: string): Promise<string | null> => {
+    if (!signing) return null;
+
+    const result = signing.coSign
+      ? await coSignEntry(signing.entry.id, signerId, pin)
+      : await signEntry(signing.entry.id, pin);
+    if (!result.success) {
+      return result.error?.message || 'Failed to sign entry';
+    }
+
+    setSigning(null);
+    return null;
+  };
+
+  const startAmendment = (entry: DocumentationEntry) => {
+    setAmendingId(entry.id);
+    setAmendTranscript(entry.voiceTranscript);
+    setAmendReason('');
+    setAmendPin('');
+    setAmendError(null);
+  };
+
+  const handleSaveAmendment = async (entry: DocumentationEntry) => {
+    if (!amendReason.trim()) {
+      setAmendError('Enter a reason for the amendment');
+      return;
+    }
+    if (!amendPin) {
+      setAmendError('Enter your PIN to sign the amendment');
+      return;
+    }
+
+    // Re-parse the corrected transcript; fields it doesn't cover (e.g., form-only data) are kept
+    const parsed = parseTranscript(amendTranscript, entry.workflowType);
+    const result = await amendEntry(
+      entry.id,
+      {
+        voiceTranscript: amendTranscript,
+        structuredData: { ...entry.structuredData, ...parsed.structuredData },
+      },
+      amendReason.trim(),
+      amendPin
+    );
+
+    if (result.success) {
+      setAmendingId(null);
+    } else {
+      setAmendPin('');
+      setAmendError(result.error?.message || 'Failed to save amendment');
+    }
+  };
+
   if (recentEntries.length === 0) {
     return (
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -133,7 +207,7 @@ export const RecentEntriesPanel: React.FC<RecentEntriesPanelProps> = ({ onViewEn
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2 mb-1">
                     <h4 className="font-semibold text-gray-900 text-sm truncate">
-                      {getWorkflowName(entry.workflowType)}
+                      {getWorkflowName(entry)}
                     </h4>
                     <span
                       className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(
@@ -143,6 +217,27 @@ export const RecentEntriesPanel: React.FC<RecentEntriesPanelProps> = ({ onViewEn
                       <span>{getStatusIcon(entry.status)}</span>
                       {getStatusLabel(entry.status)}
                     </span>
+                    {entry.amendedAt && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 border border-amber-300">
+                        Amended (v{entry.version})
+                      </span>
+                    )}
+                    {entry.signature && (
+                      <span
+                        className="px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800 border border-indigo-300"
+                        title={`Signed by ${entry.signature.signerName}${entry.coSignature ? `, co-signed by ${entry.coSignature.signerName}` : ''}`}
+                      >
+                        {isAwaitingCoSignature(entry) ? 'Awaiting co-sign' : 'Signed'}
+                      </span>
+                    )}
+                    {entry.safetyOverride && (
+                      <span
+                        className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 border border-red-300"
+                        title={entry.safetyOverride.reason}
+                      >
+                        Safety override
+                      </span>
+                    )}
                   </div>
 
                   {entry.patientName && (
@@ -178,7 +273,27 @@ export const RecentEntriesPanel: React.FC<RecentEntriesPanelProps> = ({ onViewEn
                   </button>
                 )}
 
-                {entry.status !== 'sent_to_ehr' && (
+                {!entry.signature && entry.nurseId === currentNurse.id && (
+                  <button
+                    onClick={() => setSigning({ entry, coSign: false })}
+                    className="px-2 py-1 text-xs bg-indigo-50 hover:bg-indigo-100 text-indigo-700 rounded border border-indigo-200 transition-colors"
+                    title="Sign this entry with your PIN"
+                  >
+                    Sign
+                  </button>
+                )}
+
+                {isAwaitingCoSignature(entry) && (
+                  <button
+                    onClick={() => setSigning({ entry, coSign: true })}
+                    className="px-2 py-1 text-xs bg-indigo-50 hover:bg-indigo-100 text-indigo-700 rounded border border-indigo-200 transition-colors"
+                    title="RN co-signature"
+                  >
+                    Co-sign
+                  </button>
+                )}
+
+                {entry.status !== 'sent_to_ehr' && entry.signature && !isAwaitingCoSignature(entry) && (
                   <button
                     onClick={() => handleSendToEHR(entry)}
                     className="px-2 py-1 text-xs bg-green-50 hover:bg-green-100 text-green-700 rounded border border-green-200 transition-colors"
@@ -187,11 +302,92 @@ export const RecentEntriesPanel: React.FC<RecentEntriesPanelProps> = ({ onViewEn
                     Send
                   </button>
                 )}
+
+                {(entry.status === 'sent_to_ehr' || entry.signature) && amendingId !== entry.id && (
+                  <button
+                    onClick={() => startAmendment(entry)}
+                    className="px-2 py-1 text-xs bg-amber-50 hover:bg-amber-100 text-amber-700 rounded border border-amber-200 transition-colors"
+                    title="Correct this entry (recorded as an amendment)"
+                  >
+                    Amend
+                  </button>
+                )}
               </div>
             </div>
+
+            {/* Amendment form */}
+            {amendingId === entry.id && (
+              <div className="mt-3 p-3 bg-amber-50 border border-amber-200 rounded space-y-2">
+                <p className="text-xs text-amber-800">
+                  This entry was already {entry.status === 'sent_to_ehr' ? 'sent to the EHR' : 'signed'}. Your correction is added as an amendment and signed by you; the original stays in the history.
+                  {requiresCoSignature(currentNurse) && ' An RN must co-sign it again.'}
+                </p>
+                <textarea
+                  value={amendTranscript}
+                  onChange={(e) => setAmendTranscript(e.target.value)}
+                  rows={3}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+                <input
+                  type="text"
+                  value={amendReason}
+                  onChange={(e) => setAmendReason(e.target.value)}
+                  placeholder="Reason for amendment (required)"
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={amendPin}
+                  onChange={(e) => setAmendPin(e.target.value)}
+                  placeholder="Your PIN (signs the amendment)"
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+                {amendError && <p className="text-xs text-red-600">{amendError}</p>}
+                <div className="flex gap-2 justify-end">
+                  <button
+                    onClick={() => setAmendingId(null)}
+                    className="px-3 py-1 text-xs bg-white hover:bg-gray-100 text-gray-700 rounded border border-gray-300 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => handleSaveAmendment(entry)}
+                    className="px-3 py-1 text-xs bg-amber-600 hover:bg-amber-700 text-white rounded transition-colors"
+                  >
+                    Sign Amendment
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         ))}
       </div>
+
+      {signing && (
+        <SignatureDialog
+          key={signing.entry.id}
+          title={signing.coSign ? 'Co-sign Entry' : 'Sign Entry'}
+          attestation={signing.coSign ? CO_SIGNATURE_ATTESTATION : SIGNATURE_ATTESTATION}
+          signer={signing.coSign ? undefined : currentNurse}
+          signerOptions={
+            signing.coSign
+              ? nurses.filter((nurse) => canCoSign(nurse) && nurse.id !== signing.entry.signature?.signerId)
+              : undefined
+          }
+          note={
+            signing.coSign
+              ? `Documented and signed by ${signing.entry.signature?.signerName}.`
+              : requiresCoSignature(currentNurse)
+                ? 'An RN must co-sign this entry before it is sent to the EHR.'
+                : undefined
+          }
+          submitLabel={signing.coSign ? 'Co-sign' : 'Sign'}
+          onSign={handleSign}
+          onCancel={() => setSigning(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,141 @@
+/**
+ * Signature Dialog
+ * Re-authenticates a nurse with their PIN to sign (or co-sign) an entry
+ */
+
+import React, { useState } from 'react';
+import type { Nurse } from '../../../shared/types';
+
+interface SignatureDialogProps {
+  title: string;
+  attestation: string;
+
+  /** Nurse signing, or the nurses to choose from (co-signature) */
+  signer?: Nurse;
+  signerOptions?: Nurse[];
+
+  /** Note shown under the attestation (e.g., that an RN co-signature will be needed) */
+  note?: string;
+
+  submitLabel: string;
+
+  /** Signs with the PIN; resolves to an error message when signing failed */
+  onSign: (pin: string, signerId: string) => Promise<string | null>;
+  onCancel: () => void;
+
+  /** Saves without signing (the entry can be signed later, but not sent until it is) */
+  onSkip?: () => void;
+}
+
+export const SignatureDialog: React.FC<SignatureDialogProps> = ({
+  title,
+  attestation,
+  signer,
+  signerOptions,
+  note,
+  submitLabel,
+  onSign,
+  onCancel,
+  onSkip,
+}) => {
+  const [signerId, setSignerId] = useState(signer?.id || '');
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
+
+  const handleSign = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!signerId || !pin) return;
+
+    setIsSigning(true);
+    const signError = await onSign(pin, signerId);
+    setIsSigning(false);
+    if (signError) {
+      setError(signError);
+      setPin('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <form onSubmit={handleSign} className="w-full max-w-md bg-white rounded-lg shadow-2xl overflow-hidden">
+        <div className="px-4 py-3 text-white bg-blue-700">
+          <h3 className="font-semibold text-lg">{title}</h3>
+          <p className="text-xs opacity-90 mt-1">Enter your PIN to sign.</p>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <p className="p-3 text-sm bg-gray-50 border border-gray-200 rounded italic text-gray-800">{attestation}</p>
+          {note && <p className="text-xs text-amber-800">{note}</p>}
+
+          {signerOptions ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Signing as</label>
+              <select
+                value={signerId}
+                onChange={(e) => setSignerId(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Select nurse</option>
+                {signerOptions.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name} ({option.credentials || option.role})
+                  </option>
+                ))}
+              </select>
+            </div>
+          ) : (
+            signer && (
+              <p className="text-sm text-gray-700">
+                Signing as <span className="font-medium">{signer.name}</span>
+                {signer.credentials && `, ${signer.credentials}`}
+              </p>
+            )
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              PIN <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              autoFocus
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-lg text-sm tracking-widest focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 bg-gray-50 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 rounded-lg"
+          >
+            Cancel
+          </button>
+          {onSkip && (
+            <button
+              type="button"
+              onClick={onSkip}
+              className="px-4 py-2 text-sm bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 rounded-lg"
+            >
+              Sign Later
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={!signerId || pin.length === 0 || isSigning}
+            className="px-4 py-2 text-sm bg-blue-700 hover:bg-blue-800 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSigning ? 'Signing...' : submitLabel}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,553 @@
+/**
+ * Template Builder Component
+ * Lets a charge nurse define custom documentation forms: fields, spoken labels, required
+ * fields and the prompt guide. Templates are saved on the device as versions and shared as JSON.
+ */
+
+import React, { useState } from 'react';
+import { useApp } from '../contexts/AppContext';
+import type {
+  CustomWorkflowTemplate,
+  CustomWorkflowType,
+  WorkflowFieldSchema,
+  WorkflowFieldType,
+} from '../../../shared/types';
+import {
+  createCustomWorkflowType,
+  deleteCustomTemplate,
+  exportCustomTemplate,
+  getTemplateVersions,
+  importCustomTemplate,
+  saveCustomTemplate,
+} from '../../../shared/services/customWorkflowTemplates';
+import { downloadAsFile } from '../../../shared/services/exportFormats';
+
+interface FieldDraft {
+  key: string;
+  label: string;
+  type: WorkflowFieldType;
+  unit: string;
+  required: boolean;
+  placeholder: string;
+
+  /** Comma-separated */
+  spokenLabels: string;
+  options: string;
+
+  /** The saved field, so settings the builder doesn't show (e.g., aliases) are kept */
+  saved?: WorkflowFieldSchema;
+}
+
+interface TemplateDraft {
+  type?: CustomWorkflowType;
+  name: string;
+  description: string;
+  icon: string;
+  color: string;
+
+  /** One prompt per line */
+  promptGuide: string;
+
+  fields: FieldDraft[];
+}
+
+const FIELD_TYPE_OPTIONS: { value: WorkflowFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'textarea', label: 'Long text' },
+  { value: 'number', label: 'Number' },
+  { value: 'select', label: 'Choice' },
+  { value: 'date', label: 'Date' },
+  { value: 'time', label: 'Time' },
+  { value: 'datetime-local', label: 'Date and time' },
+];
+
+const COLOR_OPTIONS = ['blue', 'red', 'green', 'orange', 'purple', 'cyan', 'teal'];
+
+const emptyField = (): FieldDraft => ({
+  key: '',
+  label: '',
+  type: 'text',
+  unit: '',
+  required: false,
+  placeholder: '',
+  spokenLabels: '',
+  options: '',
+});
+
+const emptyTemplate = (): TemplateDraft => ({
+  name: '',
+  description: '',
+  icon: '📋',
+  color: 'blue',
+  promptGuide: '',
+  fields: [emptyField()],
+});
+
+const splitList = (text: string) => text.split(',').map((item) => item.trim()).filter(Boolean);
+
+// "Fall history" → "fallHistory"
+const toFieldKey = (label: string) =>
+  label
+    .replace(/[^a-zA-Z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .map((word, i) => (i === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()))
+    .join('');
+
+function toDraft(template: CustomWorkflowTemplate): TemplateDraft {
+  return {
+    type: template.type,
+    name: template.name,
+    description: template.description,
+    icon: template.icon || '',
+    color: template.color || 'blue',
+    promptGuide: template.promptGuide.join('\n'),
+    fields: template.fields.map((field) => ({
+      key: field.key,
+      label: field.label,
+      type: field.type,
+      unit: field.unit || '',
+      required: field.required || false,
+      placeholder: field.placeholder || '',
+      spokenLabels: (field.spokenLabels || []).join(', '),
+      options: (field.options || []).map((option) => option.label).join(', '),
+      saved: field,
+    })),
+  };
+}
+
+function toField(draft: FieldDraft): WorkflowFieldSchema {
+  return {
+    ...draft.saved,
+    // Keys stay the same across versions so entries and templates line up
+    key: draft.key || toFieldKey(draft.label),
+    label: draft.label,
+    type: draft.type,
+    unit: draft.unit.trim() || undefined,
+    required: draft.required || undefined,
+    placeholder: draft.placeholder.trim() || undefined,
+    // A field is dictated by its label unless other spoken labels are given
+    spokenLabels: splitList(draft.spokenLabels.trim() || draft.label),
+    options:
+      draft.type === 'select'
+        ? splitList(draft.options).map((label) => ({ value: toFieldKey(label) || label, label }))
+        : undefined,
+  };
+}
+
+interface TemplateBuilderProps {
+  templates: CustomWorkflowTemplate[];
+  onTemplatesChange: () => void;
+  onClose: () => void;
+}
+
+export const TemplateBuilder: React.FC<TemplateBuilderProps> = ({ templates, onTemplatesChange, onClose }) => {
+  const { currentNurse } = useApp();
+  const [draft, setDraft] = useState<TemplateDraft>(emptyTemplate);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const current = templates.find((template) => template.type === draft.type);
+  const versions = draft.type ? getTemplateVersions(draft.type).data || [] : [];
+
+  const openTemplate = (template: CustomWorkflowTemplate) => {
+    setDraft(toDraft(template));
+    setError(null);
+    setNotice(null);
+  };
+
+  const updateField = (index: number, changes: Partial<FieldDraft>) => {
+    setDraft((prev) => ({
+      ...prev,
+      fields: prev.fields.map((field, i) => (i === index ? { ...field, ...changes } : field)),
+    }));
+  };
+
+  const moveField = (index: number, offset: number) => {
+    setDraft((prev) => {
+      const fields = [...prev.fields];
+      const [field] = fields.splice(index, 1);
+      fields.splice(Math.max(0, Math.min(fields.length, index + offset)), 0, field);
+      return { ...prev, fields };
+    });
+  };
+
+  const removeField = (index: number) => {
+    setDraft((prev) => ({ ...prev, fields: prev.fields.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = () => {
+    const result = saveCustomTemplate(
+      {
+        type: draft.type || createCustomWorkflowType(draft.name),
+        name: draft.name,
+        description: draft.description,
+        icon: draft.icon.trim() || undefined,
+        color: draft.color,
+        promptGuide: draft.promptGuide.split('\n'),
+        fields: draft.fields.map(toField),
+      },
+      currentNurse
+    );
+
+    if (!result.success || !result.data) {
+      setError(result.error?.message || 'Failed to save template');
+      return;
+    }
+
+    setDraft(toDraft(result.data));
+    setError(null);
+    setNotice(`Saved ${result.data.name} version ${result.data.version}`);
+    onTemplatesChange();
+  };
+
+  const handleDelete = () => {
+    if (!current || !confirm(`Delete ${current.name} and all its versions? Entries already documented are kept.`)) return;
+
+    const result = deleteCustomTemplate(current.type);
+    if (!result.success) {
+      setError(result.error?.message || 'Failed to delete template');
+      return;
+    }
+
+    setDraft(emptyTemplate());
+    setNotice(`Deleted ${current.name}`);
+    onTemplatesChange();
+  };
+
+  const handleImport = async (file: File) => {
+    const result = importCustomTemplate(await file.text(), currentNurse);
+    if (!result.success || !result.data) {
+      setError(`Could not import ${file.name}: ${result.error?.message}`);
+      return;
+    }
+
+    setDraft(toDraft(result.data));
+    setError(null);
+    setNotice(`Imported ${result.data.name} as version ${result.data.version}`);
+    onTemplatesChange();
+  };
+
+  const handleExport = (template: CustomWorkflowTemplate) => {
+    downloadAsFile(exportCustomTemplate(template), `${template.type}-v${template.version}.json`, 'application/json');
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="flex-1 flex overflow-hidden">
+      {/* Saved templates */}
+      <div className="w-64 bg-white border-r border-gray-200 flex flex-col">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-bold text-gray-900">Custom Forms</h2>
+          <p className="text-xs text-gray-600 mt-1">Documentation templates for this unit</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {templates.length === 0 && <p className="text-sm text-gray-500">No custom forms yet</p>}
+          {templates.map((template) => (
+            <button
+              key={template.type}
+              onClick={() => openTemplate(template)}
+              className={`w-full text-left p-3 rounded-lg border-2 transition-all ${
+                template.type === draft.type ? 'bg-blue-100 border-blue-500' : 'bg-white border-gray-200 hover:border-blue-300'
+              }`}
+            >
+              <div className="font-semibold text-gray-900 text-sm truncate">
+                {template.icon} {template.name}
+              </div>
+              <div className="text-xs text-gray-600">
+                Version {template.version} • {template.fields.length} field(s)
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <div className="p-3 border-t border-gray-200 space-y-2">
+          <button
+            onClick={() => {
+              setDraft(emptyTemplate());
+              setError(null);
+              setNotice(null);
+            }}
+            className="w-full px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg font-medium transition-colors"
+          >
+            + New Form
+          </button>
+          <label className="block w-full px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-800 text-sm text-center rounded-lg font-medium cursor-pointer transition-colors">
+            Import JSON
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button
+            onClick={onClose}
+            className="w-full px-3 py-2 text-gray-700 hover:text-gray-900 text-sm font-medium"
+          >
+            ← Back to Documentation
+          </button>
+        </div>
+      </div>
+
+      {/* Editor */}
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-4xl mx-auto">
+          <div className="mb-6 flex items-start justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">{current ? `Edit ${current.name}` : 'New Form'}</h2>
+              {current && (
+                <p className="text-sm text-gray-600 mt-1">
+                  Version {current.version}
+                  {current.updatedBy && ` saved by ${current.updatedBy}`} on {new Date(current.updatedAt).toLocaleString()}
+                </p>
+              )}
+            </div>
+            {current && (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleExport(current)}
+                  className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-800 text-sm rounded-lg font-medium transition-colors"
+                >
+                  Export JSON
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="px-3 py-1.5 bg-red-50 hover:bg-red-100 text-red-700 text-sm rounded-lg font-medium transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            )}
+          </div>
+
+          {error && <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>}
+          {notice && !error && (
+            <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">{notice}</div>
+          )}
+
+          <div className="mb-6 p-4 bg-white rounded-lg border border-gray-200 shadow-sm space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_6rem_8rem] gap-3">
+              <label className="block text-sm font-medium text-gray-700">
+                Name
+                <input
+                  value={draft.name}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Morse Fall Risk"
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Icon
+                <input
+                  value={draft.icon}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, icon: e.target.value }))}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Color
+                <select
+                  value={draft.color}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, color: e.target.value }))}
+                  className={`${inputClass} mt-1`}
+                >
+                  {COLOR_OPTIONS.map((color) => (
+                    <option key={color} value={color}>
+                      {color}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <label className="block text-sm font-medium text-gray-700">
+              Description
+              <input
+                value={draft.description}
+                onChange={(e) => setDraft((prev) => ({ ...prev, description: e.target.value }))}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Prompt guide (one prompt per line)
+              <textarea
+                value={draft.promptGuide}
+                onChange={(e) => setDraft((prev) => ({ ...prev, promptGuide: e.target.value }))}
+                rows={3}
+                placeholder="History of falling within 3 months"
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          </div>
+
+          <h3 className="text-lg font-semibold text-gray-800 mb-2">Fields</h3>
+          <p className="text-sm text-gray-600 mb-3">
+            Spoken labels are what the nurse says before dictating a field (e.g., "fall history"). They only
+            split dictation within this form.
+          </p>
+
+          {draft.fields.map((field, index) => (
+            <div key={index} className="mb-3 p-4 bg-white rounded-lg border border-gray-200 shadow-sm">
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_9rem_6rem] gap-3">
+                <label className="block text-sm font-medium text-gray-700">
+                  Label
+                  <input
+                    value={field.label}
+                    onChange={(e) => updateField(index, { label: e.target.value })}
+                    placeholder="e.g., Fall history"
+                    className={`${inputClass} mt-1`}
+                  />
+                </label>
+                <label className="block text-sm font-medium text-gray-700">
+                  Input
+                  <select
+                    value={field.type}
+                    onChange={(e) => updateField(index, { type: e.target.value as WorkflowFieldType })}
+                    className={`${inputClass} mt-1`}
+                  >
+                    {FIELD_TYPE_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block text-sm font-medium text-gray-700">
+                  Unit
+                  <input
+                    value={field.unit}
+                    onChange={(e) => updateField(index, { unit: e.target.value })}
+                    placeholder="mL"
+                    className={`${inputClass} mt-1`}
+                  />
+                </label>
+              </div>
+
+              <label className="block mt-3 text-sm font-medium text-gray-700">
+                Spoken labels (comma-separated)
+                <input
+                  value={field.spokenLabels}
+                  onChange={(e) => updateField(index, { spokenLabels: e.target.value })}
+                  placeholder={field.label ? field.label.toLowerCase() : 'fall history, history of falls'}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+
+              {field.type === 'select' && (
+                <label className="block mt-3 text-sm font-medium text-gray-700">
+                  Options (comma-separated)
+                  <input
+                    value={field.options}
+                    onChange={(e) => updateField(index, { options: e.target.value })}
+                    placeholder="Yes, No"
+                    className={`${inputClass} mt-1`}
+                  />
+                </label>
+              )}
+
+              {(field.type === 'text' || field.type === 'textarea' || field.type === 'number') && (
+                <label className="block mt-3 text-sm font-medium text-gray-700">
+                  Placeholder
+                  <input
+                    value={field.placeholder}
+                    onChange={(e) => updateField(index, { placeholder: e.target.value })}
+                    className={`${inputClass} mt-1`}
+                  />
+                </label>
+              )}
+
+              <div className="mt-3 flex items-center justify-between">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={field.required}
+                    onChange={(e) => updateField(index, { required: e.target.checked })}
+                  />
+                  Required
+                </label>
+                <div className="flex gap-2 text-sm">
+                  <button
+                    onClick={() => moveField(index, -1)}
+                    disabled={index === 0}
+                    className="px-2 py-1 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => moveField(index, 1)}
+                    disabled={index === draft.fields.length - 1}
+                    className="px-2 py-1 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    ↓
+                  </button>
+                  <button onClick={() => removeField(index)} className="px-2 py-1 text-red-600 hover:text-red-800">
+                    Remove
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={() => setDraft((prev) => ({ ...prev, fields: [...prev.fields, emptyField()] }))}
+            className="mb-6 px-3 py-2 border-2 border-dashed border-gray-300 hover:border-blue-400 text-gray-700 text-sm rounded-lg w-full"
+          >
+            + Add Field
+          </button>
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={handleSave}
+              className="px-6 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors"
+            >
+              {current ? `Save as Version ${current.version + 1}` : 'Save Form'}
+            </button>
+          </div>
+
+          {versions.length > 1 && (
+            <div className="mt-8">
+              <h3 className="text-lg font-semibold text-gray-800 mb-2">Version History</h3>
+              <ul className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+                {versions.map((version) => (
+                  <li key={version.version} className="px-4 py-2 flex items-center justify-between text-sm">
+                    <span>
+                      Version {version.version} • {version.fields.length} field(s) •{' '}
+                      {new Date(version.updatedAt).toLocaleString()}
+                      {version.updatedBy && ` • ${version.updatedBy}`}
+                    </span>
+                    <span className="flex gap-3">
+                      <button onClick={() => handleExport(version)} className="text-blue-600 hover:text-blue-800">
+                        Export
+                      </button>
+                      {version.version !== current?.version && (
+                        <button
+                          onClick={() => {
+                            openTemplate(version);
+                            setNotice(`Loaded version ${version.version}. Save to make it the current version.`);
+                          }}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          Restore
+                        </button>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateBuilder;
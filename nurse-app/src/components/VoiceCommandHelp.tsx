@@ -0,0 +1,55 @@
+/**
+ * Voice Command Help
+ * Lists the spoken commands available in the current workflow (stays open while dictating)
+ */
+
+import React from 'react';
+import type { VoiceCommandDefinition } from '../services/voiceCommands';
+
+interface VoiceCommandHelpProps {
+  commands: VoiceCommandDefinition[];
+
+  /** Names of the fields that can be moved to by voice */
+  fieldNames: string[];
+
+  onClose: () => void;
+}
+
+export const VoiceCommandHelp: React.FC<VoiceCommandHelpProps> = ({ commands, fieldNames, onClose }) => {
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-96 max-h-[70vh] bg-white rounded-lg shadow-2xl border border-purple-200 overflow-hidden flex flex-col">
+      <div className="px-4 py-3 bg-purple-700 text-white flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Voice Commands</h3>
+          <p className="text-xs opacity-90">Say a command at any time while recording.</p>
+        </div>
+        <button onClick={onClose} className="text-white/80 hover:text-white text-xl" title="Close">
+          ✕
+        </button>
+      </div>
+
+      <div className="p-4 overflow-y-auto text-sm">
+        <ul className="space-y-2">
+          {commands.map((command) => (
+            <li key={command.id}>
+              <div className="font-medium text-gray-900">
+                {[
+                  ...command.phrases.slice(0, 2).map((phrase) => `"${phrase}"`),
+                  ...(command.fieldPhrases || []).slice(0, 1).map((phrase) => `"${phrase} <field>"`),
+                ].join(' or ')}
+              </div>
+              <div className="text-xs text-gray-600">{command.description}</div>
+            </li>
+          ))}
+        </ul>
+
+        {fieldNames.length > 0 && (
+          <div className="mt-4 pt-3 border-t border-gray-200">
+            <div className="text-xs font-semibold text-gray-700 mb-1">Fields</div>
+            <p className="text-xs text-gray-600">{fieldNames.join(' • ')}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
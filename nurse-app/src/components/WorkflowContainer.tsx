@@ -11,6 +11,8 @@ import { VitalSigns } from '../workflows/VitalSigns';
 import { MedicationAdministration } from '../workflows/MedicationAdministration';
 import { WoundCare } from '../workflows/WoundCare';
 import { ShiftHandoff } from '../workflows/ShiftHandoff';
+import { Admission } from '../workflows/Admission';
+import { Discharge } from '../workflows/Discharge';
 
 export const WorkflowContainer: React.FC = () => {
   const [selectedWorkflow, setSelectedWorkflow] = useState<WorkflowType | null>(null);
@@ -107,6 +109,10 @@ export const WorkflowContainer: React.FC = () => {
         return <WoundCare key={workflowKey} {...commonProps} />;
       case 'shift-handoff':
         return <ShiftHandoff key={workflowKey} {...commonProps} />;
+      case 'admission':
+        return <Admission key={workflowKey} {...commonProps} />;
+      case 'discharge':
+        return <Discharge key={workflowKey} {...commonProps} />;
       default:
         return null;
     }
@@ -118,7 +124,7 @@ export const WorkflowContainer: React.FC = () => {
         <div className="bg-red-50 border border-red-300 rounded-lg p-6">
           <h2 className="text-2xl font-bold text-red-900 mb-3">Browser Not Supported</h2>
           <p className="text-red-800 mb-4">
-            Your browser does not support the Web Speech API required for voice recording.
+            Your browser does not support the Web Speech API, and no local speech engine is configured.
           </p>
           <p className="text-red-700">
             Please use a supported browser:
@@ -126,6 +132,7 @@ export const WorkflowContainer: React.FC = () => {
               <li>Google Chrome (recommended)</li>
               <li>Microsoft Edge</li>
               <li>Safari 14.1+</li>
+              <li>Any browser, with a local recognizer (VITE_LOCAL_SPEECH_URL)</li>
             </ul>
           </p>
         </div>
@@ -4,13 +4,17 @@
  */
 
 import React from 'react';
+import type { CustomWorkflowType } from '../../../shared/types';
 
 export type WorkflowType =
   | 'patient-assessment'
   | 'vital-signs'
   | 'medication-administration'
   | 'wound-care'
-  | 'shift-handoff';
+  | 'shift-handoff'
+  | 'admission'
+  | 'discharge'
+  | CustomWorkflowType;
 
 export interface WorkflowOption {
   type: WorkflowType;
@@ -56,6 +60,20 @@ const workflowOptions: WorkflowOption[] = [
     icon: '🔄',
     color: 'purple',
   },
+  {
+    type: 'admission',
+    name: 'Admission',
+    description: 'Document admission intake including diagnosis, chief complaint, allergies, home medications, and history',
+    icon: '🏥',
+    color: 'cyan',
+  },
+  {
+    type: 'discharge',
+    name: 'Discharge',
+    description: 'Document discharge disposition, medication reconciliation, follow-up, and teach-back education',
+    icon: '🏠',
+    color: 'teal',
+  },
 ];
 
 interface WorkflowSelectorProps {
@@ -95,6 +113,16 @@ export const WorkflowSelector: React.FC<WorkflowSelectorProps> = ({
         hover: 'hover:bg-purple-50',
         selected: 'bg-purple-100 border-purple-500 shadow-lg',
       },
+      cyan: {
+        default: 'bg-white border-cyan-200 hover:border-cyan-400 hover:shadow-md',
+        hover: 'hover:bg-cyan-50',
+        selected: 'bg-cyan-100 border-cyan-500 shadow-lg',
+      },
+      teal: {
+        default: 'bg-white border-teal-200 hover:border-teal-400 hover:shadow-md',
+        hover: 'hover:bg-teal-50',
+        selected: 'bg-teal-100 border-teal-500 shadow-lg',
+      },
     };
 
     const colors = colorMap[color] || colorMap.blue;
@@ -5,6 +5,7 @@
 
 import React from 'react';
 import type { WorkflowType } from './WorkflowSelector';
+import type { CustomWorkflowTemplate } from '../../../shared/types';
 
 export interface WorkflowOption {
   type: WorkflowType;
@@ -50,16 +51,38 @@ const workflowOptions: WorkflowOption[] = [
     icon: '🔄',
     color: 'purple',
   },
+  {
+    type: 'admission',
+    name: 'Admission',
+    description: 'Admission intake',
+    icon: '🏥',
+    color: 'cyan',
+  },
+  {
+    type: 'discharge',
+    name: 'Discharge',
+    description: 'Discharge & med rec',
+    icon: '🏠',
+    color: 'teal',
+  },
 ];
 
 interface WorkflowSidebarProps {
   selectedWorkflow: WorkflowType | null;
   onSelectWorkflow: (workflow: WorkflowType) => void;
+
+  /** Forms defined on this device, listed after the built-in workflows */
+  customTemplates?: CustomWorkflowTemplate[];
+
+  /** Opens the template builder (only given to charge nurses) */
+  onManageTemplates?: () => void;
 }
 
 export const WorkflowSidebar: React.FC<WorkflowSidebarProps> = ({
   selectedWorkflow,
   onSelectWorkflow,
+  customTemplates = [],
+  onManageTemplates,
 }) => {
   const getColorClasses = (color: string, isSelected: boolean) => {
     const colorMap: Record<string, { bg: string; border: string; hover: string; selected: string }> = {
@@ -93,6 +116,18 @@ export const WorkflowSidebar: React.FC<WorkflowSidebarProps> = ({
         hover: 'hover:bg-purple-100 hover:border-purple-400',
         selected: 'bg-purple-100 border-purple-500 shadow-md',
       },
+      cyan: {
+        bg: 'bg-cyan-50',
+        border: 'border-cyan-300',
+        hover: 'hover:bg-cyan-100 hover:border-cyan-400',
+        selected: 'bg-cyan-100 border-cyan-500 shadow-md',
+      },
+      teal: {
+        bg: 'bg-teal-50',
+        border: 'border-teal-300',
+        hover: 'hover:bg-teal-100 hover:border-teal-400',
+        selected: 'bg-teal-100 border-teal-500 shadow-md',
+      },
     };
 
     const colors = colorMap[color] || colorMap.blue;
@@ -111,7 +146,16 @@ export const WorkflowSidebar: React.FC<WorkflowSidebarProps> = ({
 
       {/* Workflow Options */}
       <div className="flex-1 overflow-y-auto p-3 space-y-2">
-        {workflowOptions.map((workflow) => {
+        {[
+          ...workflowOptions,
+          ...customTemplates.map((template) => ({
+            type: template.type,
+            name: template.name,
+            description: template.description || `Custom form v${template.version}`,
+            icon: template.icon || '📋',
+            color: template.color || 'blue',
+          })),
+        ].map((workflow) => {
           const isSelected = selectedWorkflow === workflow.type;
 
           return (
@@ -151,6 +195,17 @@ export const WorkflowSidebar: React.FC<WorkflowSidebarProps> = ({
         })}
       </div>
 
+      {onManageTemplates && (
+        <div className="p-3 border-t border-gray-200">
+          <button
+            onClick={onManageTemplates}
+            className="w-full px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-800 text-sm rounded-lg font-medium transition-colors"
+          >
+            Manage Custom Forms
+          </button>
+        </div>
+      )}
+
       {/* Help Section */}
       <div className="p-4 border-t border-gray-200 bg-gray-50">
         <div className="text-xs text-gray-600">
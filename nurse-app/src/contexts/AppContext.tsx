@@ -6,12 +6,19 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import type { DocumentationEntry, Nurse, Patient } from '../../../shared/types';
 import { mockPatients } from '../data/mockPatients';
+import { useSession } from '../hooks/useSession';
 import * as storageService from '../../../shared/services/storageService';
+import * as signatures from '../../../shared/services/signatures';
+import { deleteAudio } from '../../../shared/services/audioStorage';
+import { isHL7TransportEnabled } from '../../../shared/services/hl7Transport';
 
 export interface AppState {
-  // Current nurse information
+  // Logged-in nurse (entries are attributed to them)
   currentNurse: Nurse;
 
+  // Local user directory (e.g., for choosing a co-signer)
+  nurses: Nurse[];
+
   // All patients
   patients: Patient[];
 
@@ -33,6 +40,18 @@ export interface AppContextValue extends AppState {
   // Actions
   addEntry: (entry: DocumentationEntry) => void;
   updateEntry: (id: string, updates: Partial<DocumentationEntry>) => void;
+  amendEntry: (
+    id: string,
+    updates: Pick<DocumentationEntry, 'voiceTranscript' | 'structuredData'>,
+    reason: string,
+    pin: string
+  ) => Promise<storageService.StorageResult<DocumentationEntry>>;
+  signEntry: (id: string, pin: string) => Promise<storageService.StorageResult<DocumentationEntry>>;
+  coSignEntry: (
+    id: string,
+    coSignerId: string,
+    pin: string
+  ) => Promise<storageService.StorageResult<DocumentationEntry>>;
   deleteEntry: (id: string) => void;
   sendToEHR: (id: string) => void;
   selectEntry: (entry: DocumentationEntry | null) => void;
@@ -45,18 +64,19 @@ export interface AppContextValue extends AppState {
 
 const AppContext = createContext<AppContextValue | undefined>(undefined);
 
-// Mock current nurse (in production, this would come from authentication)
-const MOCK_NURSE: Nurse = {
-  id: 'nurse-001',
-  name: 'Nurse Johnson',
-  licenseNumber: 'RN-123456',
-  credentials: 'RN, BSN',
-  department: 'Medical-Surgical',
-  role: 'RN',
-};
+const entryNotFound = (id: string): storageService.StorageResult<DocumentationEntry> => ({
+  success: false,
+  error: { code: 'VALIDATION_ERROR', message: `Entry ${id} not found` },
+});
+
+interface AppProviderProps {
+  // Logged-in nurse (the provider is only rendered while someone is logged in)
+  currentNurse: Nurse;
+  children: React.ReactNode;
+}
 
-export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [currentNurse] = useState<Nurse>(MOCK_NURSE);
+export const AppProvider: React.FC<AppProviderProps> = ({ currentNurse, children }) => {
+  const { nurses } = useSession();
   const [patients] = useState<Patient[]>(mockPatients);
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(mockPatients[0]);
   const [entries, setEntries] = useState<DocumentationEntry[]>([]);
@@ -64,12 +84,30 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   // Load entries from storageService on mount
   useEffect(() => {
-    const result = storageService.getLocalEntries();
-    if (result.success && result.data) {
-      setEntries(result.data);
-    } else if (result.error) {
-      console.error('Failed to load entries:', result.error.message);
-    }
+    const loadEntries = async () => {
+      const result = await storageService.getLocalEntries();
+      if (result.success && result.data) {
+        setEntries(result.data);
+      } else if (result.error) {
+        console.error('Failed to load entries:', result.error.message);
+      }
+    };
+    loadEntries();
+  }, []);
+
+  // Resend queued HL7 v2 messages and pick up their acknowledgments
+  useEffect(() => {
+    if (!isHL7TransportEnabled()) return;
+
+    return storageService.startHL7ResendQueue((updated) => {
+      const byId = new Map(updated.map((entry) => [entry.id, entry]));
+      setEntries((prev) =>
+        prev.map((entry) => {
+          const hl7Delivery = byId.get(entry.id)?.hl7Delivery;
+          return hl7Delivery ? { ...entry, hl7Delivery } : entry;
+        })
+      );
+    });
   }, []);
 
   const addEntry = useCallback((entry: DocumentationEntry) => {
@@ -77,10 +115,11 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setEntries((prev) => [entry, ...prev]);
 
     // Save to storageService
-    const result = storageService.sendToEHR(entry);
-    if (!result.success && result.error) {
-      console.error('Failed to save entry:', result.error.message);
-    }
+    storageService.sendToEHR(entry).then((result) => {
+      if (!result.success && result.error) {
+        console.error('Failed to save entry:', result.error.message);
+      }
+    });
   }, []);
 
   const updateEntry = useCallback((id: string, updates: Partial<DocumentationEntry>) => {
@@ -99,12 +138,95 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     );
 
     // Update in storageService
-    const result = storageService.updateEntry(newEntry);
-    if (!result.success && result.error) {
-      console.error('Failed to update entry:', result.error.message);
-    }
+    storageService.updateEntry(newEntry).then((result) => {
+      if (!result.success && result.error) {
+        console.error('Failed to update entry:', result.error.message);
+      }
+
+      // Pick up the recorded version
+      const storedEntry = result.data;
+      if (storedEntry) {
+        setEntries((prev) => prev.map((entry) => (entry.id === id ? storedEntry : entry)));
+      }
+    });
   }, [entries]);
 
+  // Store a signed or co-signed entry
+  const saveSignedEntry = useCallback(
+    async (
+      signed: storageService.StorageResult<DocumentationEntry>
+    ): Promise<storageService.StorageResult<DocumentationEntry>> => {
+      if (!signed.success || !signed.data) return signed;
+
+      const result = await storageService.updateEntry(signed.data);
+      const storedEntry = result.data;
+      if (storedEntry) {
+        setEntries((prev) => prev.map((e) => (e.id === storedEntry.id ? storedEntry : e)));
+      } else if (result.error) {
+        console.error('Failed to store signature:', result.error.message);
+      }
+      return result;
+    },
+    []
+  );
+
+  // Sign an entry as the current nurse
+  const signEntry = useCallback(
+    async (id: string, pin: string): Promise<storageService.StorageResult<DocumentationEntry>> => {
+      const entry = entries.find((e) => e.id === id);
+      if (!entry) return entryNotFound(id);
+
+      return saveSignedEntry(await signatures.signEntry(entry, currentNurse, pin));
+    },
+    [entries, currentNurse, saveSignedEntry]
+  );
+
+  // Co-sign an entry documented by an LPN/LVN/CNA
+  const coSignEntry = useCallback(
+    async (id: string, coSignerId: string, pin: string): Promise<storageService.StorageResult<DocumentationEntry>> => {
+      const entry = entries.find((e) => e.id === id);
+      if (!entry) return entryNotFound(id);
+
+      const coSigner = nurses.find((nurse) => nurse.id === coSignerId);
+      if (!coSigner) {
+        return { success: false, error: { code: 'VALIDATION_ERROR', message: `Nurse ${coSignerId} not found` } };
+      }
+
+      return saveSignedEntry(await signatures.coSignEntry(entry, coSigner, pin));
+    },
+    [entries, nurses, saveSignedEntry]
+  );
+
+  // Correct an entry that was already signed or sent to the EHR (recorded as an amendment
+  // with a reason, and signed again by the current nurse)
+  const amendEntry = useCallback(
+    async (
+      id: string,
+      updates: Pick<DocumentationEntry, 'voiceTranscript' | 'structuredData'>,
+      reason: string,
+      pin: string
+    ): Promise<storageService.StorageResult<DocumentationEntry>> => {
+      const entry = entries.find((e) => e.id === id);
+      if (!entry) return entryNotFound(id);
+
+      const signed = await signatures.signEntry({ ...entry, ...updates }, currentNurse, pin);
+      if (!signed.success || !signed.data) return signed;
+
+      const result = await storageService.updateEntry(
+        signed.data,
+        { reason, author: { id: currentNurse.id, name: currentNurse.name } }
+      );
+      const storedEntry = result.data;
+      if (storedEntry) {
+        setEntries((prev) => prev.map((e) => (e.id === id ? storedEntry : e)));
+      } else if (result.error) {
+        console.error('Failed to amend entry:', result.error.message);
+      }
+      return result;
+    },
+    [entries, currentNurse]
+  );
+
   const deleteEntry = useCallback((id: string) => {
     // Remove from local state
     setEntries((prev) => prev.filter((entry) => entry.id !== id));
@@ -115,10 +237,16 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
 
     // Delete from storageService
-    const result = storageService.deleteEntry(id);
-    if (!result.success && result.error) {
-      console.error('Failed to delete entry:', result.error.message);
-    }
+    storageService.deleteEntry(id).then((result) => {
+      if (!result.success && result.error) {
+        console.error('Failed to delete entry:', result.error.message);
+      }
+    });
+    deleteAudio(id).then((result) => {
+      if (!result.success && result.error) {
+        console.error('Failed to delete audio:', result.error.message);
+      }
+    });
   }, [selectedEntry]);
 
   const sendToEHR = useCallback((id: string) => {
@@ -148,14 +276,20 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     // Send to EHR via storageService
     console.log('📤 [NURSE APP] Calling storageService.sendToEHR...');
-    const result = storageService.sendToEHR(updatedEntry);
-
-    if (result.success) {
-      console.log('✅ [NURSE APP] Sent to EHR successfully!');
-      console.log('📊 [NURSE APP] Entry data sent:', updatedEntry);
-    } else if (result.error) {
-      console.error('❌ [NURSE APP] Failed to send to EHR:', result.error.message);
-    }
+    storageService.sendToEHR(updatedEntry).then((result) => {
+      if (result.success) {
+        console.log('✅ [NURSE APP] Sent to EHR successfully!');
+        console.log('📊 [NURSE APP] Entry data sent:', result.data);
+      } else if (result.error) {
+        console.error('❌ [NURSE APP] Failed to send to EHR:', result.error.message);
+      }
+
+      // Pick up server-assigned resource ids, or the reverted status if transmission failed
+      const storedEntry = result.data || (result.success ? updatedEntry : entry);
+      setEntries((prev) =>
+        prev.map((e) => (e.id === id ? storedEntry : e))
+      );
+    });
   }, [entries]);
 
   const selectEntry = useCallback((entry: DocumentationEntry | null) => {
@@ -188,6 +322,7 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const value: AppContextValue = {
     currentNurse,
+    nurses,
     patients,
     selectedPatient,
     entries,
@@ -196,6 +331,9 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     timeSavedEstimate,
     addEntry,
     updateEntry,
+    amendEntry,
+    signEntry,
+    coSignEntry,
     deleteEntry,
     sendToEHR,
     selectEntry,
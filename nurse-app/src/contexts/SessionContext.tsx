@@ -0,0 +1,109 @@
+/**
+ * Session Context for Nurse Documentation App
+ * Nurse login against the local user directory, fast user switching on shared devices,
+ * and auto-lock after inactivity
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Nurse } from '../../../shared/types';
+import { verifySigningPin } from '../../../shared/services/signatures';
+import { useInactivityLock } from '../hooks/useInactivityLock';
+import { SessionContext, type SessionContextValue } from '../hooks/useSession';
+import { voiceService } from '../services/voiceService';
+
+// Open sessions survive a page reload (locked), but not closing the tab
+const SESSION_STORAGE_KEY = 'voize_nurse_session';
+
+const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+interface StoredSession {
+  signedInIds: string[];
+  activeId: string | null;
+}
+
+const loadStoredSession = (): StoredSession => {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(SESSION_STORAGE_KEY) || 'null') as StoredSession | null;
+    return stored || { signedInIds: [], activeId: null };
+  } catch {
+    return { signedInIds: [], activeId: null };
+  }
+};
+
+interface SessionProviderProps {
+  nurses: Nurse[];
+  autoLockMinutes?: number;
+  children: React.ReactNode;
+}
+
+export const SessionProvider: React.FC<SessionProviderProps> = ({
+  nurses,
+  autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES,
+  children,
+}) => {
+  const [session, setSession] = useState<StoredSession>(loadStoredSession);
+  // A restored session must be unlocked again
+  const [isLocked, setIsLocked] = useState(() => session.activeId !== null);
+
+  useEffect(() => {
+    sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  }, [session]);
+
+  const currentNurse = nurses.find((nurse) => nurse.id === session.activeId) || null;
+  const signedInNurses = session.signedInIds
+    .map((id) => nurses.find((nurse) => nurse.id === id))
+    .filter((nurse): nurse is Nurse => !!nurse);
+
+  // Log in, unlock or switch user - each needs the nurse's PIN or passphrase (the one they sign with)
+  const login = useCallback(
+    async (nurseId: string, credential: string): Promise<string | null> => {
+      const nurse = nurses.find((n) => n.id === nurseId);
+      if (!nurse) {
+        return `Nurse ${nurseId} is not in the user directory`;
+      }
+      if (!(await verifySigningPin(nurse.id, credential))) {
+        return 'Incorrect PIN or passphrase';
+      }
+
+      setSession((prev) => ({
+        signedInIds: prev.signedInIds.includes(nurse.id) ? prev.signedInIds : [...prev.signedInIds, nurse.id],
+        activeId: nurse.id,
+      }));
+      setIsLocked(false);
+      return null;
+    },
+    [nurses]
+  );
+
+  // Nothing is recorded behind the lock screen
+  const lock = useCallback(() => {
+    if (voiceService.isListening()) {
+      voiceService.stopRecording();
+    }
+    setIsLocked(true);
+  }, []);
+
+  // End the current nurse's session (other nurses stay signed in)
+  const logout = useCallback(() => {
+    setSession((prev) => ({
+      signedInIds: prev.signedInIds.filter((id) => id !== prev.activeId),
+      activeId: null,
+    }));
+    setIsLocked(false);
+  }, []);
+
+  useInactivityLock(!!currentNurse && !isLocked, autoLockMinutes * 60000, lock);
+
+  const value: SessionContextValue = {
+    nurses,
+    currentNurse,
+    signedInNurses,
+    isLocked,
+    autoLockMinutes,
+    login,
+    lock,
+    logout,
+  };
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+};
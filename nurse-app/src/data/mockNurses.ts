@@ -0,0 +1,51 @@
+import type { Nurse } from '../../../shared/types';
+
+/**
+ * Local user directory of nursing staff for the Nurse App
+ * In production, staff and their PINs would come from the hospital's identity system
+ */
+export const mockNurses: Nurse[] = [
+  {
+    id: 'nurse-001',
+    name: 'Nurse Johnson',
+    licenseNumber: 'RN-123456',
+    credentials: 'RN, BSN',
+    department: 'Medical-Surgical',
+    role: 'RN',
+    chargeNurse: true,
+  },
+  {
+    id: 'nurse-002',
+    name: 'Nurse Patel',
+    licenseNumber: 'RN-234567',
+    credentials: 'RN, MSN',
+    department: 'Medical-Surgical',
+    role: 'RN',
+  },
+  {
+    id: 'nurse-003',
+    name: 'Nurse Garcia',
+    licenseNumber: 'LPN-345678',
+    credentials: 'LPN',
+    department: 'Medical-Surgical',
+    role: 'LPN',
+  },
+  {
+    id: 'nurse-004',
+    name: 'Alex Kim',
+    credentials: 'CNA',
+    department: 'Medical-Surgical',
+    role: 'CNA',
+  },
+];
+
+/**
+ * Login/signing PIN hashes (hashSigningPin) for the mock staff
+ * Demo PINs: Johnson 1234, Patel 2345, Garcia 3456, Kim 4567
+ */
+export const mockSigningPinHashes: Record<string, string> = {
+  'nurse-001': 'fa1c8b54c439e1c74ad028bc6510bba5514babe8808a35bcc1762bf323e13ed5',
+  'nurse-002': 'cd348b87fc8590b79c90a1cd1c0371919aca3236ab228cf22165436223f4580c',
+  'nurse-003': '5aac14ff83579e13cbd61d9c266d715f612c474fb96fdbf10667699d8e69deed',
+  'nurse-004': '8d5b2803cf8f6167d4b603c87f08b4d6a227ffa26d66d370bf746cadc1a336ec',
+};
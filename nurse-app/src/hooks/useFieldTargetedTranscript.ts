@@ -4,15 +4,12 @@
  */
 
 import { useEffect, useState, useRef } from 'react';
-import type { WorkflowType } from '../../../shared/types';
+import type { WorkflowFieldSchema, WorkflowType } from '../../../shared/types';
+import { getWorkflowSchema } from '../../../shared/services/workflowSchemas';
 import { segmentTranscript, type SegmentationResult } from '../services/transcriptSegmenter';
 import { isTextareaField } from '../services/fieldLabelMatcher';
-import {
-  extractVitalSigns,
-  extractMedicationInfo,
-  extractAssessmentInfo,
-  extractWoundInfo,
-} from '../workflows/transcriptParser';
+import { convertTextToNumber } from '../services/parseService';
+import { extractWorkflowFields } from '../workflows/transcriptParser';
 
 interface UseFieldTargetedTranscriptOptions {
   transcript: string;
@@ -26,6 +23,28 @@ export interface FieldTargetedTranscriptResult {
   hasFieldLabels: boolean;
 }
 
+/**
+ * Dictated content as a field value: numbers and options are picked out of what was said
+ * ("score twenty five points" → 25, "fall history yes within three months" → "yes")
+ */
+function toFieldValue(field: WorkflowFieldSchema | undefined, content: string): string | number {
+  if (field?.type === 'number') {
+    const digits = content.match(/-?\d+(?:\.\d+)?/);
+    return digits ? Number(digits[0]) : convertTextToNumber(content.toLowerCase()) ?? '';
+  }
+
+  if (field?.type === 'select') {
+    const spoken = content.toLowerCase();
+    const options = [...(field.options || [])].sort((a, b) => b.label.length - a.label.length);
+    const option = options.find(
+      (o) => spoken.includes(o.label.toLowerCase()) || spoken.includes(o.value.toLowerCase())
+    );
+    return option?.value || '';
+  }
+
+  return content;
+}
+
 /**
  * Hook for field-targeted transcript processing
  * Implements hybrid NLP + field label recognition auto-fill strategy
@@ -42,10 +61,27 @@ export function useFieldTargetedTranscript({
   // Track which transcript content has been processed to enable re-entry
   const lastProcessedTranscript = useRef<string>('');
 
+  // Values this hook filled in, so they can follow the transcript when text is removed
+  // (e.g., "scratch that") as long as the nurse hasn't changed them
+  const filledValues = useRef<Record<string, unknown>>({});
+
   useEffect(() => {
+    const isUnchanged = (key: string) => currentFormData[key] === filledValues.current[key];
+
     if (!transcript || transcript.length === 0) {
       setSegmentationWarnings([]);
       setHasFieldLabels(false);
+
+      // Everything that was filled from the transcript is gone
+      const cleared: Record<string, unknown> = {};
+      for (const key of Object.keys(filledValues.current)) {
+        if (isUnchanged(key)) cleared[key] = '';
+      }
+      filledValues.current = {};
+      lastProcessedTranscript.current = '';
+      if (Object.keys(cleared).length > 0) {
+        onAutoFill(cleared, new Set());
+      }
       return;
     }
 
@@ -57,38 +93,20 @@ export function useFieldTargetedTranscript({
     const updates: Record<string, any> = {};
     const autoFilledFields = new Set<string>();
 
-    // TIER 1: Extract structured data via NLP using direct transcript parsers
-    // These return flat field keys that match the form data structure
+    const fieldsByKey = new Map(
+      (getWorkflowSchema(workflowType)?.fields || []).map((field) => [field.key, field])
+    );
+
+    // TIER 1: Values the transcript parsers pick out, for fields the schema fills by extraction
     // Always run NLP on full transcript for best extraction
     const nlpData: Record<string, any> = {};
-
-    // Extract data based on workflow type
-    if (workflowType === 'patient-assessment') {
-      // Extract vital signs (for pain level)
-      const vitals = extractVitalSigns(transcript);
-      if (vitals.painLevel !== undefined) nlpData.painLevel = vitals.painLevel;
-
-      // Extract assessment info (consciousness, mobility)
-      const assessment = extractAssessmentInfo(transcript);
-      if (assessment.levelOfConsciousness) nlpData.levelOfConsciousness = assessment.levelOfConsciousness;
-      if (assessment.mobilityStatus) nlpData.mobilityStatus = assessment.mobilityStatus;
-    } else if (workflowType === 'medication-administration') {
-      // Extract medication info
-      const medInfo = extractMedicationInfo(transcript);
-      if (medInfo.medications && medInfo.medications.length > 0) {
-        nlpData.medicationName = medInfo.medications[0];
-      }
-      if (medInfo.dosage) nlpData.dosage = medInfo.dosage;
-      if (medInfo.route) nlpData.route = medInfo.route;
-    } else if (workflowType === 'wound-care') {
-      // Extract wound info
-      const woundInfo = extractWoundInfo(transcript);
-      if (woundInfo.location) nlpData.woundLocation = woundInfo.location;
-      if (woundInfo.length) nlpData.length = woundInfo.length;
-      if (woundInfo.width) nlpData.width = woundInfo.width;
-      if (woundInfo.depth) nlpData.depth = woundInfo.depth;
+    for (const [key, value] of Object.entries(extractWorkflowFields(workflowType, transcript))) {
+      const field = fieldsByKey.get(key);
+      if (field?.autoFill !== 'extract' || value === undefined || value === '') continue;
+      // Parsers can name values a select doesn't offer (e.g., "responsive" for vital signs)
+      if (field.type === 'select' && !field.options?.some((option) => option.value === value)) continue;
+      nlpData[key] = value;
     }
-    // Note: shift-handoff relies entirely on field-targeted segmentation (SBAR labels)
 
     // TIER 2: Extract field-targeted content for textarea fields
     // Run segmentation on FULL transcript to ensure field labels that span chunks are detected
@@ -101,9 +119,15 @@ export function useFieldTargetedTranscript({
     // This allows user to override any auto-fill or correct NLP mistakes
     for (const segment of segmentationResult.segments) {
       const fieldKey = segment.fieldKey;
+      const field = fieldsByKey.get(fieldKey);
+
+      // The parsers read values like "38 celsius" or "from the ER" better than the raw text after a label
+      if (field?.autoFill === 'extract' && nlpData[fieldKey] !== undefined) continue;
 
       // Overwrite existing content if field is mentioned (enables re-entry)
-      updates[fieldKey] = segment.content;
+      const value = toFieldValue(field, segment.content);
+      if (value === '') continue;
+      updates[fieldKey] = value;
       autoFilledFields.add(fieldKey);
     }
 
@@ -122,11 +146,11 @@ export function useFieldTargetedTranscript({
       // Only fill non-textarea fields from NLP
       if (!isTextareaField(key, workflowType)) {
         if (value !== null && value !== undefined && value !== '') {
-          // Check if field is empty or has default value (0 for numbers)
+          // Check if field is empty, or still holds an earlier auto-fill
           const currentValue = currentFormData[key];
-          const isEmpty = currentValue === '' || currentValue === 0 || currentValue === undefined || currentValue === null;
+          const isEmpty = currentValue === '' || currentValue === undefined || currentValue === null;
 
-          if (isEmpty) {
+          if (isEmpty || (key in filledValues.current && isUnchanged(key) && currentValue !== value)) {
             updates[key] = value;
             autoFilledFields.add(key);
           }
@@ -138,6 +162,20 @@ export function useFieldTargetedTranscript({
     // This prevents unhelpful duplicate content across all textarea fields
     // (No fallback behavior)
 
+    // Rule 4: Clear auto-filled values whose text was removed from the transcript
+    for (const key of Object.keys(filledValues.current)) {
+      const stillDictated = updates[key] !== undefined || nlpData[key] !== undefined;
+      if (!stillDictated && isUnchanged(key)) {
+        updates[key] = '';
+      }
+      if (!stillDictated) {
+        delete filledValues.current[key];
+      }
+    }
+    for (const key of autoFilledFields) {
+      filledValues.current[key] = updates[key];
+    }
+
     // Step 4: Apply updates
     if (Object.keys(updates).length > 0) {
       onAutoFill(updates, autoFilledFields);
@@ -151,6 +189,7 @@ export function useFieldTargetedTranscript({
   // Reset processed transcript when workflow changes
   useEffect(() => {
     lastProcessedTranscript.current = '';
+    filledValues.current = {};
   }, [workflowType]);
 
   return {
@@ -0,0 +1,47 @@
+/**
+ * React Hook for Inactivity Auto-Lock
+ * Calls onLock once the user has not touched the device for the timeout
+ * (hands-free dictation counts as activity)
+ */
+
+import { useEffect, useRef } from 'react';
+import { voiceService } from '../services/voiceService';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+/**
+ * @param enabled - Whether to watch for inactivity (e.g., only while a nurse is logged in and unlocked)
+ * @param timeoutMs - Inactivity before locking
+ * @param onLock - Called when the timeout passes without activity
+ */
+export function useInactivityLock(enabled: boolean, timeoutMs: number, onLock: () => void): void {
+  const onLockRef = useRef(onLock);
+
+  useEffect(() => {
+    onLockRef.current = onLock;
+  }, [onLock]);
+
+  useEffect(() => {
+    if (!enabled || timeoutMs <= 0) return;
+
+    // A nurse dictating without touching the screen is still using the device
+    const lockIfIdle = () => {
+      if (voiceService.isListening()) {
+        resetTimer();
+      } else {
+        onLockRef.current();
+      }
+    };
+    let timer = setTimeout(lockIfIdle, timeoutMs);
+    function resetTimer() {
+      clearTimeout(timer);
+      timer = setTimeout(lockIfIdle, timeoutMs);
+    }
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, resetTimer));
+    };
+  }, [enabled, timeoutMs]);
+}
@@ -0,0 +1,92 @@
+/**
+ * Schema Form Hook
+ * Form state for a workflow built from its schema: starting values, field edits,
+ * transcript auto-fill and validation
+ */
+
+import { useState } from 'react';
+import type { WorkflowType } from '../../../shared/types';
+import { validateForm, type WorkflowField } from '../workflows/WorkflowBase';
+import { getFormFields, getInitialFormData, getValidationRules } from '../workflows/workflowForms';
+import { useFieldTargetedTranscript } from './useFieldTargetedTranscript';
+
+export type SchemaFormValues = Record<string, string | number>;
+
+export interface SchemaForm {
+  workflowType: WorkflowType;
+  formData: SchemaFormValues;
+  fields: Record<string, WorkflowField>;
+  errors: Record<string, string>;
+  segmentationWarnings: string[];
+  setField: (key: string, value: string | number) => void;
+  /**
+   * Shows the errors of the schema's validation rules; true when there are none
+   * @param keys - Only check these fields (e.g., when the rest of the form is replaced by a review table)
+   */
+  validate: (keys?: string[]) => boolean;
+}
+
+/**
+ * @param initialValues - Starting values that don't come from the schema (e.g., the selected patient's id)
+ */
+export function useSchemaForm(
+  workflowType: WorkflowType,
+  transcript: string,
+  initialValues: SchemaFormValues = {}
+): SchemaForm {
+  const [formData, setFormData] = useState<SchemaFormValues>(() => ({
+    ...getInitialFormData(workflowType),
+    ...initialValues,
+  }));
+
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [autoFilledFields, setAutoFilledFields] = useState<Set<string>>(new Set());
+
+  // Field-targeted transcript auto-fill with NLP integration
+  const { segmentationWarnings } = useFieldTargetedTranscript({
+    transcript,
+    workflowType,
+    currentFormData: formData,
+    onAutoFill: (updates, newAutoFilled) => {
+      setFormData((prev) => ({ ...prev, ...updates }));
+      setAutoFilledFields((prev) => new Set([...prev, ...newAutoFilled]));
+    }
+  });
+
+  const setField = (key: string, value: string | number) => {
+    setFormData((prev) => ({ ...prev, [key]: value }));
+    // Remove auto-filled status when user manually edits
+    if (autoFilledFields.has(key)) {
+      setAutoFilledFields((prev) => {
+        const newSet = new Set(prev);
+        newSet.delete(key);
+        return newSet;
+      });
+    }
+    // Clear error for this field
+    if (errors[key]) {
+      setErrors((prev) => {
+        const newErrors = { ...prev };
+        delete newErrors[key];
+        return newErrors;
+      });
+    }
+  };
+
+  const validate = (keys?: string[]) => {
+    const rules = getValidationRules(workflowType).filter((rule) => !keys || keys.includes(rule.field));
+    const validationErrors = validateForm(formData, rules);
+    setErrors(validationErrors);
+    return Object.keys(validationErrors).length === 0;
+  };
+
+  return {
+    workflowType,
+    formData,
+    fields: getFormFields(workflowType, autoFilledFields),
+    errors,
+    segmentationWarnings,
+    setField,
+    validate,
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * React Hook for the Nurse Session
+ * Current nurse, lock state and session actions from SessionProvider
+ */
+
+import { createContext, useContext } from 'react';
+import type { Nurse } from '../../../shared/types';
+
+export interface SessionContextValue {
+  // Local user directory
+  nurses: Nurse[];
+
+  // Nurse using the device (null until someone logs in)
+  currentNurse: Nurse | null;
+
+  // Nurses with an open session on this device, for fast switching
+  signedInNurses: Nurse[];
+
+  // Whether the device is locked (the current nurse's work is kept)
+  isLocked: boolean;
+
+  autoLockMinutes: number;
+
+  // Actions
+  login: (nurseId: string, credential: string) => Promise<string | null>;
+  lock: () => void;
+  logout: () => void;
+}
+
+export const SessionContext = createContext<SessionContextValue | undefined>(undefined);
+
+export const useSession = () => {
+  const context = useContext(SessionContext);
+  if (context === undefined) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return context;
+};
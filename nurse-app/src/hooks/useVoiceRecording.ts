@@ -1,6 +1,6 @@
 /**
  * React Hook for Voice Recording
- * Provides easy-to-use interface for voice-to-text functionality
+ * Provides easy-to-use interface for voice-to-text functionality (on whichever speech engine is available)
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
@@ -11,13 +11,17 @@ import type {
   VoiceRecognitionState,
   VoiceRecognitionError,
   VoiceRecognitionCallbacks,
+  CapturedAudio,
 } from '../services/voiceService';
+import type { SpeechEngine, SpeechEngineId } from '../services/speechEngine';
+import type { VoiceCommand, VoiceCommandDefinition, VoiceCommandField } from '../services/voiceCommands';
 
 export interface UseVoiceRecordingOptions extends VoiceServiceConfig {
   onTranscriptChange?: (transcript: string, isFinal: boolean) => void;
   onError?: (error: VoiceRecognitionError) => void;
   onStart?: () => void;
   onEnd?: () => void;
+  onVoiceCommand?: (command: VoiceCommand) => void;
   autoInitialize?: boolean;
   enableMedicalProcessing?: boolean; // Enable medical transcript post-processing
 }
@@ -29,10 +33,22 @@ export interface UseVoiceRecordingReturn extends VoiceRecognitionState {
   resumeRecording: () => void;
   clearTranscript: () => void;
   resetError: () => void;
+
+  // Finish the audio recorded with the transcript (null if none); call before clearTranscript
+  takeAudioRecording: () => Promise<CapturedAudio | null>;
+
+  // Spoken commands to take out of the dictation (an empty list turns them off)
+  setVoiceCommands: (commands: VoiceCommandDefinition[], getFields?: () => VoiceCommandField[]) => void;
+
+  // Speech engine transcribing (or last used), and the engines this browser supports
+  speechEngine: SpeechEngine | null;
+  speechEngines: SpeechEngine[];
+  preferredSpeechEngine: SpeechEngineId | null;
+  setPreferredSpeechEngine: (id: SpeechEngineId | null) => void;
 }
 
 /**
- * Custom hook for voice recording with Web Speech API
+ * Custom hook for voice recording (Web Speech API or the local engine, with fallback)
  *
  * @example
  * ```tsx
@@ -61,6 +77,7 @@ export function useVoiceRecording(
     onError,
     onStart,
     onEnd,
+    onVoiceCommand,
     autoInitialize = true,
     enableMedicalProcessing = true,
   } = options;
@@ -76,6 +93,9 @@ export function useVoiceRecording(
     isSupported: voiceService.isSupported(),
   });
 
+  const [speechEngine, setSpeechEngine] = useState<SpeechEngine | null>(voiceService.getActiveEngine());
+  const [preferredSpeechEngine, setPreferredEngineState] = useState(voiceService.getPreferredEngine());
+
   const isInitializedRef = useRef(false);
   const callbacksRef = useRef<VoiceRecognitionCallbacks>({});
 
@@ -114,8 +134,14 @@ export function useVoiceRecording(
       onProcessingEnd: () => {
         setState((prev) => ({ ...prev, isProcessing: false }));
       },
+      onEngineChange: (engine: SpeechEngine) => {
+        setSpeechEngine(engine);
+      },
+      onVoiceCommand: (command: VoiceCommand) => {
+        onVoiceCommand?.(command);
+      },
     };
-  }, [onTranscriptChange, onError, onStart, onEnd, enableMedicalProcessing]);
+  }, [onTranscriptChange, onError, onStart, onEnd, onVoiceCommand, enableMedicalProcessing]);
 
   // Initialize voice service
   useEffect(() => {
@@ -156,7 +182,7 @@ export function useVoiceRecording(
     if (!state.isSupported) {
       const error: VoiceRecognitionError = {
         type: 'not-supported',
-        message: 'Web Speech API is not supported in this browser',
+        message: 'No speech recognition engine is available in this browser',
       };
       setState((prev) => ({ ...prev, error }));
       onError?.(error);
@@ -243,6 +269,30 @@ export function useVoiceRecording(
     setState((prev) => ({ ...prev, error: null }));
   }, []);
 
+  const takeAudioRecording = useCallback(async () => {
+    const audio = await voiceService.takeAudioRecording();
+    if (!audio || !enableMedicalProcessing) return audio;
+
+    // Segments read the same as the processed transcript
+    const segments = audio.recording.segments.map((segment) => ({
+      ...segment,
+      text: fixMedicalTranscript(segment.text),
+    }));
+    return { ...audio, recording: { ...audio.recording, segments } };
+  }, [enableMedicalProcessing]);
+
+  const setVoiceCommands = useCallback(
+    (commands: VoiceCommandDefinition[], getFields?: () => VoiceCommandField[]) => {
+      voiceService.setVoiceCommands(commands, getFields);
+    },
+    []
+  );
+
+  const setPreferredSpeechEngine = useCallback((id: SpeechEngineId | null) => {
+    voiceService.setPreferredEngine(id);
+    setPreferredEngineState(id);
+  }, []);
+
   return {
     ...state,
     startRecording,
@@ -251,6 +301,12 @@ export function useVoiceRecording(
     resumeRecording,
     clearTranscript,
     resetError,
+    takeAudioRecording,
+    setVoiceCommands,
+    speechEngine,
+    speechEngines: voiceService.getSupportedEngines(),
+    preferredSpeechEngine,
+    setPreferredSpeechEngine,
   };
 }
 
@@ -2,9 +2,67 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { SessionProvider } from './contexts/SessionContext'
+import { configureFHIRTransport } from '../../shared/services/fhirTransport'
+import { configureHL7Transport } from '../../shared/services/hl7Transport'
+import { setSigningPins } from '../../shared/services/signatures'
+import { configureAudioRetention, purgeExpiredAudio } from '../../shared/services/audioStorage'
+import { mockNurses, mockSigningPinHashes } from './data/mockNurses'
+import { configureLocalSpeechEngine } from './services/localSpeechEngine'
+import { voiceService } from './services/voiceService'
+import type { SpeechEngineId } from './services/speechEngine'
+
+const AUDIO_PURGE_INTERVAL_MS = 60 * 60 * 1000
+
+// Send entries to a FHIR server when one is configured (e.g., the local ehr-server package)
+if (import.meta.env.VITE_FHIR_SERVER_URL) {
+  configureFHIRTransport({ baseUrl: import.meta.env.VITE_FHIR_SERVER_URL })
+}
+
+// Deliver HL7 v2 messages over MLLP via the ehr-server relay (e.g., http://localhost:8080/hl7/mllp)
+if (import.meta.env.VITE_HL7_RELAY_URL) {
+  configureHL7Transport({ relayUrl: import.meta.env.VITE_HL7_RELAY_URL })
+}
+
+// Transcribe on this device with a local recognizer (e.g., vosk-server at ws://localhost:2700)
+if (import.meta.env.VITE_LOCAL_SPEECH_URL) {
+  configureLocalSpeechEngine({ url: import.meta.env.VITE_LOCAL_SPEECH_URL })
+}
+
+// Speech engines to use, in fallback order (e.g., "local" to never send audio to the cloud)
+if (import.meta.env.VITE_SPEECH_ENGINES) {
+  voiceService.setEngineOrder(import.meta.env.VITE_SPEECH_ENGINES.split(',').map((id: string) => id.trim() as SpeechEngineId))
+}
+
+// Dictation audio is kept on the device for replay, then purged (default 30 days)
+if (import.meta.env.VITE_AUDIO_RETENTION_DAYS) {
+  const retention = configureAudioRetention({ retentionDays: Number(import.meta.env.VITE_AUDIO_RETENTION_DAYS) })
+  if (!retention.success) {
+    console.error('Ignoring VITE_AUDIO_RETENTION_DAYS:', retention.error?.message)
+  }
+}
+const purgeAudio = () =>
+  purgeExpiredAudio().then((result) => {
+    if (!result.success) {
+      console.error('Failed to purge expired audio:', result.error?.message)
+    } else if (result.data && result.data.length > 0) {
+      console.log(`Purged audio for ${result.data.length} entries past the retention period`)
+    }
+  })
+// Shared devices stay open for days, so purge hourly rather than only at startup
+purgeAudio()
+setInterval(purgeAudio, AUDIO_PURGE_INTERVAL_MS)
+
+// Login and signing PINs for the demo staff (in production, checked against the hospital's identity system)
+setSigningPins(mockSigningPinHashes)
+
+// Shared devices lock after this much inactivity
+const autoLockMinutes = Number(import.meta.env.VITE_AUTO_LOCK_MINUTES) || undefined
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <SessionProvider nurses={mockNurses} autoLockMinutes={autoLockMinutes}>
+      <App />
+    </SessionProvider>
   </StrictMode>,
 )
@@ -0,0 +1,125 @@
+/**
+ * Audio Capture
+ * Records the dictation with MediaRecorder alongside speech recognition, so the audio can be
+ * replayed against the transcript. The clock (elapsedMs) skips paused time, matching the
+ * recorded audio.
+ */
+
+// Deliver recorded data every second so little is lost if the tab is closed mid-recording
+const TIMESLICE_MS = 1000;
+
+export class AudioCapture {
+  private recorder: MediaRecorder | null = null;
+  private stream: MediaStream | null = null;
+  private chunks: Blob[] = [];
+  private startedAt = 0;
+  private pausedAt: number | null = null;
+  private pausedMs = 0;
+  private isDiscarded = false;
+
+  /** When recording started */
+  recordedAt = '';
+
+  static isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+  }
+
+  get isActive(): boolean {
+    return this.recorder !== null;
+  }
+
+  get mimeType(): string {
+    return this.recorder?.mimeType || 'audio/webm';
+  }
+
+  async start(): Promise<void> {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    if (this.isDiscarded) {
+      // Discarded while waiting for the microphone
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    this.stream = stream;
+    const recorder = new MediaRecorder(stream);
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.chunks.push(event.data);
+      }
+    };
+    recorder.start(TIMESLICE_MS);
+
+    this.recorder = recorder;
+    this.startedAt = performance.now();
+    this.recordedAt = new Date().toISOString();
+  }
+
+  pause(): void {
+    if (this.recorder?.state !== 'recording') return;
+    this.recorder.pause();
+    this.pausedAt = performance.now();
+  }
+
+  resume(): void {
+    if (this.recorder?.state !== 'paused') return;
+    this.recorder.resume();
+    if (this.pausedAt !== null) {
+      this.pausedMs += performance.now() - this.pausedAt;
+      this.pausedAt = null;
+    }
+  }
+
+  /**
+   * Offset into the recorded audio (paused time excluded)
+   */
+  elapsedMs(): number {
+    if (!this.recorder) return 0;
+    const now = this.pausedAt ?? performance.now();
+    return Math.round(now - this.startedAt - this.pausedMs);
+  }
+
+  /**
+   * Finish recording and return the audio
+   */
+  stop(): Promise<Blob> {
+    const recorder = this.recorder;
+    if (!recorder) {
+      return Promise.resolve(new Blob([], { type: this.mimeType }));
+    }
+
+    const mimeType = this.mimeType;
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        const blob = new Blob(this.chunks, { type: mimeType });
+        this.release();
+        resolve(blob);
+      };
+      if (recorder.state === 'inactive') {
+        recorder.onstop(new Event('stop'));
+      } else {
+        recorder.stop();
+      }
+    });
+  }
+
+  /**
+   * Drop the recording without keeping it
+   */
+  discard(): void {
+    this.isDiscarded = true;
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.ondataavailable = null;
+      this.recorder.stop();
+    }
+    this.release();
+  }
+
+  private release(): void {
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.recorder = null;
+    this.chunks = [];
+    this.pausedAt = null;
+    this.pausedMs = 0;
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import type { WorkflowType } from '../../../shared/types';
+import { getWorkflowSchema } from '../../../shared/services/workflowSchemas';
 
 export interface FieldLabelMatch {
   fieldKey: string;
@@ -18,100 +19,6 @@ export interface FieldMapping {
   medicalTerms: string[];       // Medical terminology variations
 }
 
-// Patient Assessment Field Mappings
-const PATIENT_ASSESSMENT_MAPPINGS: FieldMapping[] = [
-  {
-    fieldKey: 'skinCondition',
-    primaryLabels: ['skin condition', 'skin', 'skin integrity'],
-    aliases: ['skin cond', 'integument'],
-    medicalTerms: ['dermatological', 'epidermis', 'skin assessment']
-  },
-  {
-    fieldKey: 'observations',
-    primaryLabels: ['observations', 'general observations', 'notes', 'additional notes'],
-    aliases: ['obs', 'general obs', 'general notes'],
-    medicalTerms: ['clinical observations', 'assessment notes']
-  }
-];
-
-// Medication Administration Field Mappings
-const MEDICATION_MAPPINGS: FieldMapping[] = [
-  {
-    fieldKey: 'patientResponse',
-    primaryLabels: ['patient response', 'response', 'patient reaction'],
-    aliases: ['reaction', 'effect', 'patient effect'],
-    medicalTerms: ['therapeutic response', 'medication response']
-  },
-  {
-    fieldKey: 'adverseReaction',
-    primaryLabels: ['adverse reaction', 'adverse effects', 'side effects'],
-    aliases: ['adverse', 'side effect', 'adverse event'],
-    medicalTerms: ['adverse drug reaction', 'adr', 'medication adverse event']
-  }
-];
-
-// Wound Care Field Mappings
-const WOUND_CARE_MAPPINGS: FieldMapping[] = [
-  {
-    fieldKey: 'treatmentProvided',
-    primaryLabels: ['treatment', 'treatment provided', 'care provided'],
-    aliases: ['tx', 'treatment given', 'intervention'],
-    medicalTerms: ['wound care', 'wound treatment', 'dressing change']
-  }
-];
-
-// Shift Handoff Field Mappings (SBAR)
-const SHIFT_HANDOFF_MAPPINGS: FieldMapping[] = [
-  {
-    fieldKey: 'outgoingNurse',
-    primaryLabels: ['outgoing nurse', 'outgoing', 'outgoing nurse name'],
-    aliases: ['leaving nurse', 'off going nurse', 'off-going nurse', 'departing nurse'],
-    medicalTerms: ['nurse leaving', 'nurse going off']
-  },
-  {
-    fieldKey: 'incomingNurse',
-    primaryLabels: ['incoming nurse', 'incoming', 'incoming nurse name'],
-    aliases: ['arriving nurse', 'oncoming nurse', 'on-coming nurse', 'relieving nurse'],
-    medicalTerms: ['nurse arriving', 'nurse coming on']
-  },
-  {
-    fieldKey: 'situation',
-    primaryLabels: ['situation', 'current status', 'current situation'],
-    aliases: ['s', 'sit', 'status'],
-    medicalTerms: ['sbar s', 'sbar situation']
-  },
-  {
-    fieldKey: 'background',
-    primaryLabels: ['background', 'history', 'patient background'],
-    aliases: ['b', 'bg', 'back'],
-    medicalTerms: ['sbar b', 'sbar background', 'medical history']
-  },
-  {
-    fieldKey: 'assessment',
-    primaryLabels: ['assessment', 'findings', 'clinical findings'],
-    aliases: ['a', 'assess'],
-    medicalTerms: ['sbar a', 'sbar assessment', 'clinical assessment']
-  },
-  {
-    fieldKey: 'recommendation',
-    primaryLabels: ['recommendation', 'plan', 'recommendations'],
-    aliases: ['r', 'rec'],
-    medicalTerms: ['sbar r', 'sbar recommendation', 'care plan']
-  },
-  {
-    fieldKey: 'pendingTasks',
-    primaryLabels: ['pending tasks', 'pending', 'tasks'],
-    aliases: ['pending items', 'to-do', 'todos'],
-    medicalTerms: []
-  },
-  {
-    fieldKey: 'criticalAlerts',
-    primaryLabels: ['critical alerts', 'alerts', 'critical'],
-    aliases: ['warnings', 'critical items'],
-    medicalTerms: []
-  }
-];
-
 // Common Web Speech API misrecognitions
 const COMMON_MISRECOGNITIONS: Record<string, string> = {
   'citation': 'situation',
@@ -125,20 +32,17 @@ const COMMON_MISRECOGNITIONS: Record<string, string> = {
 
 /**
  * Get field mappings for a specific workflow type
+ * (fields filled with what is said after their label)
  */
 function getWorkflowMappings(workflowType: WorkflowType): FieldMapping[] {
-  switch (workflowType) {
-    case 'patient-assessment':
-      return PATIENT_ASSESSMENT_MAPPINGS;
-    case 'medication-administration':
-      return MEDICATION_MAPPINGS;
-    case 'wound-care':
-      return WOUND_CARE_MAPPINGS;
-    case 'shift-handoff':
-      return SHIFT_HANDOFF_MAPPINGS;
-    default:
-      return [];
-  }
+  return (getWorkflowSchema(workflowType)?.fields || [])
+    .filter((field) => field.autoFill === 'segment')
+    .map((field) => ({
+      fieldKey: field.key,
+      primaryLabels: field.spokenLabels || [],
+      aliases: [...(field.shortLabels || []), ...(field.aliases || [])],
+      medicalTerms: field.medicalTerms || [],
+    }));
 }
 
 /**
@@ -305,14 +209,16 @@ export function isTextareaField(fieldKey: string, workflowType: WorkflowType): b
 }
 
 /**
- * Get expected field names for user guidance (display purposes)
+ * Get expected field names for user guidance (display purposes and voice commands)
  */
 export function getExpectedFieldNames(workflowType: WorkflowType): Record<string, string[]> {
-  const mappings = getWorkflowMappings(workflowType);
   const result: Record<string, string[]> = {};
 
-  for (const mapping of mappings) {
-    result[mapping.fieldKey] = mapping.primaryLabels;
+  for (const field of getWorkflowSchema(workflowType)?.fields || []) {
+    const names = [...(field.spokenLabels || []), ...(field.shortLabels || [])];
+    if (names.length > 0) {
+      result[field.key] = names;
+    }
   }
 
   return result;
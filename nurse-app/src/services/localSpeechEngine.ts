@@ -0,0 +1,283 @@
+/**
+ * Local Speech Engine
+ * On-device recognition: microphone audio is streamed as 16-bit PCM over a WebSocket to a
+ * recognizer on this machine (e.g., vosk-server: `docker run -p 2700:2700 alphacep/kaldi-en`),
+ * so no audio leaves the device and recognition keeps working without Wi-Fi.
+ *
+ * Uses the Vosk WebSocket protocol: a `{"config": {...}}` message, binary audio frames, then
+ * `{"eof": 1}`; the server replies `{"partial": "..."}` while listening and `{"text": "..."}`
+ * for each finished segment, with word timings in `result` when `words` is requested.
+ * Any recognizer speaking this protocol can be used.
+ */
+
+import type { VoiceRecognitionError, VoiceServiceConfig } from './voiceService';
+import type { SpeechEngine, SpeechEngineCallbacks } from './speechEngine';
+
+// Word in a Vosk result (times in seconds from the start of the stream)
+interface VoskWord {
+  word: string;
+  start: number;
+  end: number;
+  conf?: number;
+}
+
+export interface LocalSpeechEngineConfig {
+  /** WebSocket URL of the local recognizer (e.g., ws://localhost:2700) */
+  url: string;
+
+  /** Sample rate the recognizer expects */
+  sampleRate?: number;
+
+  /** How long to wait for the recognizer to accept the connection */
+  connectTimeoutMs?: number;
+}
+
+const DEFAULT_SAMPLE_RATE = 16000;
+const DEFAULT_CONNECT_TIMEOUT_MS = 2000;
+
+// Wait this long for the final result after {"eof": 1} before closing
+const FINAL_RESULT_TIMEOUT_MS = 3000;
+
+let config: Required<LocalSpeechEngineConfig> | null = null;
+
+/**
+ * Enable the local engine (it is unsupported until configured)
+ */
+export function configureLocalSpeechEngine(localConfig: LocalSpeechEngineConfig): void {
+  config = {
+    sampleRate: DEFAULT_SAMPLE_RATE,
+    connectTimeoutMs: DEFAULT_CONNECT_TIMEOUT_MS,
+    ...localConfig,
+  };
+}
+
+export function isLocalSpeechEngineEnabled(): boolean {
+  return config !== null;
+}
+
+const engineError = (
+  type: VoiceRecognitionError['type'],
+  message: string,
+  originalError?: Error
+): VoiceRecognitionError => ({ type, message, originalError });
+
+/**
+ * Open a WebSocket, resolving once it is connected
+ */
+function connect(url: string, timeoutMs: number): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url);
+    socket.binaryType = 'arraybuffer';
+
+    const timer = window.setTimeout(() => {
+      socket.close();
+      reject(new Error(`Timed out connecting to ${url}`));
+    }, timeoutMs);
+
+    socket.onopen = () => {
+      clearTimeout(timer);
+      resolve(socket);
+    };
+    socket.onerror = () => {
+      clearTimeout(timer);
+      reject(new Error(`Could not connect to ${url}`));
+    };
+  });
+}
+
+/**
+ * Downsample to the target rate (averaging) and convert to 16-bit PCM
+ */
+function toPCM16(samples: Float32Array, inputRate: number, outputRate: number): Int16Array {
+  const ratio = inputRate / outputRate;
+  const output = new Int16Array(Math.floor(samples.length / ratio));
+
+  for (let i = 0; i < output.length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(samples.length, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      sum += samples[j];
+    }
+    const sample = Math.max(-1, Math.min(1, sum / Math.max(1, end - start)));
+    output[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return output;
+}
+
+export class LocalSpeechEngine implements SpeechEngine {
+  readonly id = 'local' as const;
+  readonly name = 'Local on-device recognition';
+  readonly sendsAudioOffDevice = false;
+
+  private callbacks: SpeechEngineCallbacks = {};
+  private socket: WebSocket | null = null;
+  private stream: MediaStream | null = null;
+  private audioContext: AudioContext | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private finalResultTimeout: number | null = null;
+  private isStopping = false;
+
+  isSupported(): boolean {
+    return (
+      config !== null &&
+      'WebSocket' in window &&
+      'AudioContext' in window &&
+      !!navigator.mediaDevices?.getUserMedia
+    );
+  }
+
+  async isAvailable(): Promise<boolean> {
+    if (!config || !this.isSupported()) return false;
+
+    try {
+      const socket = await connect(config.url, config.connectTimeoutMs);
+      socket.close();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  initialize(_config: VoiceServiceConfig, callbacks: SpeechEngineCallbacks): void {
+    if (!config) {
+      throw new Error('Local speech engine is not configured');
+    }
+    this.callbacks = callbacks;
+  }
+
+  async start(): Promise<void> {
+    if (!config) {
+      throw engineError('not-supported', 'Local speech engine is not configured');
+    }
+
+    this.isStopping = false;
+
+    try {
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+      });
+    } catch (error) {
+      const name = (error as DOMException).name;
+      throw name === 'NotAllowedError' || name === 'SecurityError'
+        ? engineError(
+            'permission-denied',
+            'Microphone permission denied. Please allow microphone access to use voice recording.',
+            error as Error
+          )
+        : engineError('audio-capture', 'No microphone was found. Please ensure a microphone is connected.', error as Error);
+    }
+
+    try {
+      this.socket = await connect(config.url, config.connectTimeoutMs);
+    } catch (error) {
+      this.releaseAudio();
+      throw engineError('network', 'The local speech recognizer is not reachable.', error as Error);
+    }
+
+    const socket = this.socket;
+    socket.send(JSON.stringify({ config: { sample_rate: config.sampleRate, words: 1 } }));
+    socket.onmessage = (event) => this.handleMessage(event);
+    socket.onclose = () => this.handleClose(socket);
+
+    // Stream microphone audio to the recognizer
+    const audioContext = new AudioContext();
+    const source = audioContext.createMediaStreamSource(this.stream);
+    const processor = audioContext.createScriptProcessor(4096, 1, 1);
+    const sampleRate = config.sampleRate;
+    processor.onaudioprocess = (event) => {
+      if (socket.readyState !== WebSocket.OPEN || this.isStopping) return;
+      socket.send(toPCM16(event.inputBuffer.getChannelData(0), audioContext.sampleRate, sampleRate).buffer);
+    };
+    source.connect(processor);
+    processor.connect(audioContext.destination);
+    this.audioContext = audioContext;
+    this.processor = processor;
+
+    this.callbacks.onStart?.();
+    this.callbacks.onSpeechStart?.();
+  }
+
+  private handleMessage(event: MessageEvent): void {
+    if (typeof event.data !== 'string') return;
+
+    let message: { text?: string; partial?: string; result?: VoskWord[] };
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+
+    if (message.text !== undefined) {
+      if (message.text.trim()) {
+        this.callbacks.onResult?.({
+          final: `${message.text.trim()} `,
+          interim: '',
+          words: message.result?.map(({ word, start, end }) => ({
+            word,
+            startMs: Math.round(start * 1000),
+            endMs: Math.round(end * 1000),
+          })),
+        });
+      }
+      if (this.isStopping) {
+        this.socket?.close();
+      }
+    } else if (message.partial) {
+      this.callbacks.onResult?.({ final: '', interim: message.partial });
+    }
+  }
+
+  private handleClose(socket: WebSocket): void {
+    if (socket !== this.socket) return;
+
+    const wasStopping = this.isStopping;
+    this.cleanup();
+
+    if (!wasStopping) {
+      this.callbacks.onError?.(engineError('network', 'The local speech recognizer disconnected.'));
+    }
+    this.callbacks.onEnd?.();
+  }
+
+  stop(): void {
+    if (!this.socket) return;
+
+    this.isStopping = true;
+    this.releaseAudio();
+    this.callbacks.onSpeechEnd?.();
+
+    // Ask for the final result; the socket is closed once it arrives
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ eof: 1 }));
+      this.finalResultTimeout = window.setTimeout(() => this.socket?.close(), FINAL_RESULT_TIMEOUT_MS);
+    } else {
+      this.socket.close();
+    }
+  }
+
+  private releaseAudio(): void {
+    this.processor?.disconnect();
+    this.processor = null;
+    this.audioContext?.close();
+    this.audioContext = null;
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+  }
+
+  private cleanup(): void {
+    this.releaseAudio();
+    if (this.finalResultTimeout) {
+      clearTimeout(this.finalResultTimeout);
+      this.finalResultTimeout = null;
+    }
+    this.socket = null;
+  }
+
+  destroy(): void {
+    const socket = this.socket;
+    this.cleanup();
+    socket?.close();
+    this.callbacks = {};
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Medication Reconciliation Service
+ * Compares discharge medications against the admission home medication list
+ * and medications administered during the stay (MAR)
+ */
+
+import { resolveFormularyDrug } from '../../../shared/services/formulary';
+import type {
+  DocumentationEntry,
+  Medication,
+  MedicationRoute,
+  MedicationReconciliationItem,
+} from '../../../shared/types';
+
+/**
+ * Flat form data stored by the Medication Administration workflow
+ */
+interface MedicationAdministrationFormData {
+  medicationName?: string;
+  dosage?: string;
+  route?: string;
+  timeAdministered?: string;
+}
+
+/**
+ * Normalize a medication name for matching
+ * Names the formulary recognizes match by drug ("Lopressor" and "metoprolol" are the same);
+ * anything else matches on the whole name, so "Insulin lispro" and "Insulin glargine" stay apart
+ */
+export function normalizeMedicationName(name: string): string {
+  const drug = resolveFormularyDrug(name).match?.drug;
+  if (drug) return drug.genericName.toLowerCase();
+  return name.toLowerCase().replace(/[^a-z0-9\s]/g, '').trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Normalize a dose string for comparison ("25mg" and "25 mg" are the same dose)
+ */
+function normalizeDose(dose: string): string {
+  return dose.toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * Home medications from the patient's most recent admission entry
+ */
+export function getAdmissionMedications(
+  entries: DocumentationEntry[],
+  patientId: string
+): Medication[] {
+  const admission = entries
+    .filter((e) => e.patientId === patientId && e.structuredData.admissionData)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+
+  return admission?.structuredData.admissionData?.currentMedications || [];
+}
+
+/**
+ * Medications administered to the patient, from Medication Administration entries
+ */
+export function getAdministeredMedications(
+  entries: DocumentationEntry[],
+  patientId: string
+): Medication[] {
+  const medications: Medication[] = [];
+
+  entries
+    .filter((e) => e.patientId === patientId && e.workflowType === 'medication-administration')
+    .forEach((entry) => {
+      if (entry.structuredData.medications) {
+        medications.push(...entry.structuredData.medications);
+        return;
+      }
+
+      // Medication Administration entries store the flat form data as structured data
+      const formData = entry.structuredData as MedicationAdministrationFormData;
+      if (formData.medicationName) {
+        medications.push({
+          name: formData.medicationName,
+          dose: formData.dosage || '',
+          route: (formData.route || 'PO') as MedicationRoute,
+          timeAdministered: formData.timeAdministered || entry.timestamp,
+        });
+      }
+    });
+
+  return medications;
+}
+
+/**
+ * Build the discharge medication reconciliation
+ * Every discharge medication appears once; home medications not continued are
+ * listed as discontinued; MAR-only medications are listed as inpatient-only
+ */
+export function reconcileMedications(
+  dischargeMedications: Medication[],
+  homeMedications: Medication[],
+  administeredMedications: Medication[]
+): MedicationReconciliationItem[] {
+  const items: MedicationReconciliationItem[] = [];
+  const administered = new Set(administeredMedications.map((m) => normalizeMedicationName(m.name)));
+  const matchedHome = new Set<string>();
+  const listed = new Set<string>();
+
+  dischargeMedications.forEach((dischargeMed) => {
+    const key = normalizeMedicationName(dischargeMed.name);
+    const homeMed = homeMedications.find((m) => normalizeMedicationName(m.name) === key);
+
+    let status: MedicationReconciliationItem['status'] = 'new';
+    if (homeMed) {
+      matchedHome.add(key);
+      const unchanged =
+        normalizeDose(homeMed.dose) === normalizeDose(dischargeMed.dose) &&
+        homeMed.route === dischargeMed.route &&
+        (homeMed.frequency || '') === (dischargeMed.frequency || '');
+      status = unchanged ? 'continued' : 'changed';
+    }
+
+    listed.add(key);
+    items.push({
+      medicationName: dischargeMed.name,
+      status,
+      homeMedication: homeMed,
+      dischargeMedication: dischargeMed,
+      givenDuringStay: administered.has(key),
+    });
+  });
+
+  homeMedications.forEach((homeMed) => {
+    const key = normalizeMedicationName(homeMed.name);
+    if (matchedHome.has(key) || listed.has(key)) return;
+
+    listed.add(key);
+    items.push({
+      medicationName: homeMed.name,
+      status: 'discontinued',
+      homeMedication: homeMed,
+      givenDuringStay: administered.has(key),
+    });
+  });
+
+  administeredMedications.forEach((med) => {
+    const key = normalizeMedicationName(med.name);
+    if (listed.has(key)) return;
+
+    listed.add(key);
+    items.push({
+      medicationName: med.name,
+      status: 'inpatient-only',
+      givenDuringStay: true,
+    });
+  });
+
+  return items;
+}
@@ -18,7 +18,18 @@ import type {
   MedicationRoute,
   Assessment,
   LevelOfConsciousness,
+  UnitConvertedVitalSign,
+  VitalSignMeasurement,
+  VitalSignUnit,
+  WoundDetails,
+  WoundStage,
+  WoundTissueType,
+  WoundType,
+  ShiftHandoff,
 } from '../../../shared/types';
+import { convertVitalSignUnits } from '../../../shared/services/vitalSignUnits';
+import { getClinicalLimits, isPlausibleValue } from '../../../shared/services/clinicalRanges';
+import { findFormularyStrength, resolveFormularyDrug } from '../../../shared/services/formulary';
 
 // ============================================================================
 // TYPES
@@ -28,6 +39,9 @@ export interface ParseResult {
   structuredData: StructuredData;
   confidence: { [field: string]: number };
   needsReview: string[];
+
+  /** Candidate values for ambiguous fields, e.g. formulary drugs for a misheard name */
+  suggestions?: { [field: string]: string[] };
 }
 
 export interface FieldExtraction {
@@ -131,46 +145,6 @@ const NUMBER_WORDS: Record<string, number> = {
   'hundred': 100, 'thousand': 1000,
 };
 
-/**
- * Common medication names and their standard forms
- */
-const MEDICATION_NAMES: Record<string, string> = {
-  'morphine': 'Morphine',
-  'tylenol': 'Acetaminophen',
-  'acetaminophen': 'Acetaminophen',
-  'advil': 'Ibuprofen',
-  'ibuprofen': 'Ibuprofen',
-  'lasix': 'Furosemide',
-  'furosemide': 'Furosemide',
-  'insulin': 'Insulin',
-  'heparin': 'Heparin',
-  'warfarin': 'Warfarin',
-  'coumadin': 'Warfarin',
-  'metoprolol': 'Metoprolol',
-  'lopressor': 'Metoprolol',
-  'lisinopril': 'Lisinopril',
-  'zestril': 'Lisinopril',
-  'atorvastatin': 'Atorvastatin',
-  'lipitor': 'Atorvastatin',
-  'metformin': 'Metformin',
-  'glucophage': 'Metformin',
-  'levothyroxine': 'Levothyroxine',
-  'synthroid': 'Levothyroxine',
-  'omeprazole': 'Omeprazole',
-  'prilosec': 'Omeprazole',
-  'albuterol': 'Albuterol',
-  'proventil': 'Albuterol',
-  'ventolin': 'Albuterol',
-  'aspirin': 'Aspirin',
-  'vancomycin': 'Vancomycin',
-  'zofran': 'Ondansetron',
-  'ondansetron': 'Ondansetron',
-  'dilaudid': 'Hydromorphone',
-  'hydromorphone': 'Hydromorphone',
-  'ativan': 'Lorazepam',
-  'lorazepam': 'Lorazepam',
-};
-
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -222,6 +196,25 @@ function convertTextToNumber(text: string): number | null {
   return result > 0 ? result : null;
 }
 
+/**
+ * Number words as a regex alternation, longest first so "fourteen" isn't read as "four"
+ */
+const NUMBER_WORD_PATTERN = Object.keys(NUMBER_WORDS)
+  .sort((a, b) => b.length - a.length)
+  .join('|');
+
+/**
+ * A number spoken as digits ("37.2") or words ("thirty seven point two")
+ */
+const SPOKEN_NUMBER = `(?:\\d+(?:\\.\\d+)?|(?:${NUMBER_WORD_PATTERN})\\b(?:[\\s-]+(?:${NUMBER_WORD_PATTERN}|point)\\b)*)`;
+
+/**
+ * Value of a SPOKEN_NUMBER match
+ */
+function parseSpokenNumber(text: string): number | null {
+  return convertTextToNumber(text.replace(/-/g, ' '));
+}
+
 /**
  * Normalize medical terminology
  */
@@ -248,10 +241,12 @@ function extractRoute(text: string): MedicationRoute | null {
     'ot': 'OT', 'otic': 'OT',
     'ng': 'NG', 'nasogastric': 'NG',
     'gt': 'GT', 'gastrostomy': 'GT',
+    'subcut': 'SQ', 'sub q': 'SQ', 'sub-q': 'SQ', 'under the tongue': 'SL', 'nebulizer': 'INH',
   };
 
+  // Whole words only, so "prn" isn't read as PR or "time" as IM
   for (const [key, route] of Object.entries(routeMap)) {
-    if (normalized.includes(key)) {
+    if (new RegExp(`\\b${key}\\b`).test(normalized)) {
       return route;
     }
   }
@@ -291,17 +286,38 @@ function extractTime(text: string): string | null {
 }
 
 /**
- * Standardize medication name
+ * Standardize medication name to its formulary generic name
  */
 function standardizeMedicationName(name: string): string {
-  const normalized = name.toLowerCase().trim();
-  return MEDICATION_NAMES[normalized] || name.charAt(0).toUpperCase() + name.slice(1).toLowerCase();
+  const { match } = resolveFormularyDrug(name);
+  return match?.drug.genericName || name.charAt(0).toUpperCase() + name.slice(1).toLowerCase();
 }
 
 // ============================================================================
 // VITAL SIGNS PARSER
 // ============================================================================
 
+/**
+ * Stores a measured value converted to VitalSigns units, keeping the measurement as spoken
+ * Returns false (and stores nothing) when the converted value is outside min-max
+ */
+function recordMeasurement(
+  data: Partial<VitalSigns>,
+  field: UnitConvertedVitalSign,
+  measurement: VitalSignMeasurement,
+  min: number,
+  max: number
+): boolean {
+  const value = convertVitalSignUnits(field, measurement.value, measurement.unit);
+  if (value < min || value > max) {
+    return false;
+  }
+
+  data[field] = value;
+  data.measuredAs = { ...data.measuredAs, [field]: measurement };
+  return true;
+}
+
 /**
  * Parse vital signs from transcript
  */
@@ -340,7 +356,13 @@ function parseVitalSigns(transcript: string): { data: Partial<VitalSigns>; confi
         diastolic = convertTextToNumber(match[3]);
       }
 
-      if (systolic && diastolic && systolic >= 60 && systolic <= 250 && diastolic >= 40 && diastolic <= 150) {
+      if (
+        systolic &&
+        diastolic &&
+        isPlausibleValue('systolic', systolic) &&
+        isPlausibleValue('diastolic', diastolic) &&
+        systolic > diastolic
+      ) {
         data.systolic = systolic;
         data.diastolic = diastolic;
         data.bloodPressure = `${systolic}/${diastolic}`;
@@ -355,31 +377,24 @@ function parseVitalSigns(transcript: string): { data: Partial<VitalSigns>; confi
   // Temperature patterns
   // "temp ninety eight point six" -> 98.6
   // "temperature 98.6" -> 98.6
-  // "temp is 37.2 degrees celsius" -> 37.2
-  const tempPatterns = [
-    /\b(?:temp|temperature)\s+(?:is\s+)?(\d+\.?\d*)\s*(?:degrees?)?\s*(f|fahrenheit|c|celsius)?\b/i,
-    /\b(?:temp|temperature)\s+(?:is\s+)?(ninety|eighty|seventy|sixty|one hundred)[\s-]*(one|two|three|four|five|six|seven|eight|nine)?\s*(?:point\s+(\w+))?\s*(?:degrees?)?\s*(f|fahrenheit)?\b/i,
-  ];
-
-  for (const pattern of tempPatterns) {
-    const match = transcript.match(pattern);
-    if (match) {
-      let temp: number | null = null;
-
-      if (pattern === tempPatterns[0]) {
-        temp = parseFloat(match[1]);
-      } else if (pattern === tempPatterns[1]) {
-        const wholePart = [match[1], match[2]].filter(Boolean).join(' ');
-        const whole = convertTextToNumber(wholePart);
-        const decimal = match[3] ? convertTextToNumber(match[3]) : 0;
-        temp = whole !== null && decimal !== null ? whole + (decimal / 10) : null;
-      }
-
-      if (temp && temp >= 95 && temp <= 106) {
-        data.temperature = temp;
-        confidence.temperature = 0.85;
-        break;
-      }
+  // "temp is 37.2 degrees celsius" -> 99.0 (measured as 37.2 °C)
+  const tempMatch = transcript.match(
+    new RegExp(
+      `\\b(?:temp|temperature)\\s+(?:is\\s+|of\\s+)?(${SPOKEN_NUMBER})\\s*(?:degrees?)?\\s*°?\\s*(fahrenheit|celsius|centigrade|f|c)?\\b`,
+      'i'
+    )
+  );
+  if (tempMatch) {
+    const value = parseSpokenNumber(tempMatch[1]);
+    const unitText = tempMatch[2]?.toLowerCase();
+    // Without a spoken unit, a body temperature under 45 can only be Celsius
+    const unit: VitalSignUnit = unitText
+      ? unitText.startsWith('f') ? '[degF]' : 'Cel'
+      : value !== null && value < 45 ? 'Cel' : '[degF]';
+
+    const { min, max } = getClinicalLimits('temperature').plausible;
+    if (value !== null && recordMeasurement(data, 'temperature', { value, unit }, min, max)) {
+      confidence.temperature = unitText || unit === '[degF]' ? 0.85 : 0.75;
     }
   }
 
@@ -395,7 +410,7 @@ function parseVitalSigns(transcript: string): { data: Partial<VitalSigns>; confi
     const match = transcript.match(pattern);
     if (match) {
       const hr = pattern === hrPatterns[0] ? parseInt(match[1]) : convertTextToNumber(match[1]);
-      if (hr && hr >= 40 && hr <= 200) {
+      if (hr && isPlausibleValue('heartRate', hr)) {
         data.heartRate = hr;
         confidence.heartRate = 0.9;
         break;
@@ -415,7 +430,7 @@ function parseVitalSigns(transcript: string): { data: Partial<VitalSigns>; confi
     const match = transcript.match(pattern);
     if (match) {
       const o2 = pattern === o2Patterns[0] ? parseInt(match[1]) : convertTextToNumber(match[1]);
-      if (o2 && o2 >= 70 && o2 <= 100) {
+      if (o2 && isPlausibleValue('oxygenSaturation', o2)) {
         data.oxygenSaturation = o2;
         confidence.oxygenSaturation = 0.9;
         break;
@@ -435,7 +450,7 @@ function parseVitalSigns(transcript: string): { data: Partial<VitalSigns>; confi
     const match = transcript.match(pattern);
     if (match) {
       const rr = pattern === rrPatterns[0] ? parseInt(match[1]) : convertTextToNumber(match[1]);
-      if (rr && rr >= 8 && rr <= 40) {
+      if (rr && isPlausibleValue('respiratoryRate', rr)) {
         data.respiratoryRate = rr;
         confidence.respiratoryRate = 0.85;
         break;
@@ -443,6 +458,99 @@ function parseVitalSigns(transcript: string): { data: Partial<VitalSigns>; confi
     }
   }
 
+  // Weight patterns
+  // "weight 70 kg" -> 154.3 lb (measured as 70 kg)
+  // "weighs one hundred sixty pounds" -> 160 lb
+  // "weight 7 pounds 4 ounces" -> 7.25 lb
+  const weightLabel = '\\b(?:weight|weighs|wt)\\s+(?:is\\s+|of\\s+)?';
+  const poundsOuncesMatch = transcript.match(
+    new RegExp(
+      `${weightLabel}(${SPOKEN_NUMBER})\\s*(?:pounds?|lbs?)\\s*(?:and\\s+)?(${SPOKEN_NUMBER})\\s*(?:ounces?|oz)\\b`,
+      'i'
+    )
+  );
+  const weightMatch = transcript.match(
+    new RegExp(`${weightLabel}(${SPOKEN_NUMBER})\\s*(kilograms?|kilos?|kgs?|pounds?|lbs?|ounces?|oz)?\\b`, 'i')
+  );
+  if (poundsOuncesMatch) {
+    const pounds = parseSpokenNumber(poundsOuncesMatch[1]);
+    const ounces = parseSpokenNumber(poundsOuncesMatch[2]);
+    if (
+      pounds !== null &&
+      ounces !== null &&
+      recordMeasurement(data, 'weight', { value: Math.round((pounds + ounces / 16) * 100) / 100, unit: '[lb_av]' }, 0.5, 1000)
+    ) {
+      confidence.weight = 0.85;
+    }
+  } else if (weightMatch) {
+    const value = parseSpokenNumber(weightMatch[1]);
+    const unitText = weightMatch[2]?.toLowerCase() || '';
+    const unit: VitalSignUnit = unitText.startsWith('k') ? 'kg' : unitText.startsWith('o') ? '[oz_av]' : '[lb_av]';
+
+    if (value !== null && recordMeasurement(data, 'weight', { value, unit }, 0.5, 1000)) {
+      confidence.weight = unitText ? 0.85 : 0.7;
+    }
+  }
+
+  // Height patterns
+  // "height 5 foot 10" -> 70 in
+  // "height 170 cm" -> 66.9 in (measured as 170 cm)
+  const heightLabel = '\\b(?:height|ht)\\s+(?:is\\s+|of\\s+)?';
+  const feetInchesMatch = transcript.match(
+    new RegExp(
+      `${heightLabel}(${SPOKEN_NUMBER})\\s*(?:feet|foot|ft|')\\s*(?:(${SPOKEN_NUMBER})\\s*(?:inches|inch|in|")?)?`,
+      'i'
+    )
+  );
+  const heightMatch = transcript.match(
+    new RegExp(`${heightLabel}(${SPOKEN_NUMBER})\\s*(centimeters?|cm|inches|inch|in)?\\b`, 'i')
+  );
+  if (feetInchesMatch) {
+    const feet = parseSpokenNumber(feetInchesMatch[1]);
+    const inches = feetInchesMatch[2] ? parseSpokenNumber(feetInchesMatch[2]) : 0;
+    if (
+      feet !== null &&
+      inches !== null &&
+      recordMeasurement(data, 'height', { value: feet * 12 + inches, unit: '[in_i]' }, 10, 96)
+    ) {
+      confidence.height = 0.85;
+    }
+  } else if (heightMatch) {
+    const value = parseSpokenNumber(heightMatch[1]);
+    const unitText = heightMatch[2]?.toLowerCase();
+    // Without a spoken unit, anything taller than 96 must be centimeters
+    const unit: VitalSignUnit = unitText
+      ? unitText.startsWith('c') ? 'cm' : '[in_i]'
+      : value !== null && value > 96 ? 'cm' : '[in_i]';
+
+    if (value !== null && recordMeasurement(data, 'height', { value, unit }, 10, 96)) {
+      confidence.height = unitText ? 0.85 : 0.7;
+    }
+  }
+
+  // Blood Glucose patterns
+  // "blood sugar 142" -> 142 mg/dL
+  // "glucose 6.5 mmol" -> 117 mg/dL (measured as 6.5 mmol/L)
+  const glucoseMatch = transcript.match(
+    new RegExp(
+      `\\b(?:blood glucose|blood sugar|glucose|fingerstick|accu-?chek|cbg|bg)\\s+(?:is\\s+|of\\s+|was\\s+)?(${SPOKEN_NUMBER})\\s*(mg\\/dl|milligrams per deciliter|mmol\\/l|mmol|millimoles(?: per liter)?)?`,
+      'i'
+    )
+  );
+  if (glucoseMatch) {
+    const value = parseSpokenNumber(glucoseMatch[1]);
+    const unitText = glucoseMatch[2]?.toLowerCase();
+    // mg/dL is always a whole number, so an unlabeled decimal reading is mmol/L
+    const unit: VitalSignUnit = unitText
+      ? unitText.startsWith('mmol') || unitText.startsWith('millimole') ? 'mmol/L' : 'mg/dL'
+      : value !== null && !Number.isInteger(value) ? 'mmol/L' : 'mg/dL';
+
+    const { min, max } = getClinicalLimits('bloodGlucose').plausible;
+    if (value !== null && recordMeasurement(data, 'bloodGlucose', { value, unit }, min, max)) {
+      confidence.bloodGlucose = unitText ? 0.9 : unit === 'mg/dL' ? 0.85 : 0.7;
+    }
+  }
+
   // Pain Level patterns
   // "pain level five out of ten" -> 5
   // "pain 5/10" -> 5
@@ -455,7 +563,7 @@ function parseVitalSigns(transcript: string): { data: Partial<VitalSigns>; confi
     const match = transcript.match(pattern);
     if (match) {
       const pain = pattern === painPatterns[0] ? parseInt(match[1]) : convertTextToNumber(match[1]);
-      if (pain !== null && pain >= 0 && pain <= 10) {
+      if (pain !== null && isPlausibleValue('painLevel', pain)) {
         data.painLevel = pain;
         confidence.painLevel = 0.9;
         break;
@@ -463,6 +571,31 @@ function parseVitalSigns(transcript: string): { data: Partial<VitalSigns>; confi
     }
   }
 
+  // Supplemental oxygen (NEWS2)
+  // "on room air" -> false
+  // "2 liters nasal cannula" -> true
+  const oxygenMatches = Array.from(
+    transcript.matchAll(
+      /\b(room air|RA)\b|\b(nasal cannula|NC|non[\s-]?rebreather|face mask|venturi|high[\s-]?flow|on (?:oxygen|o2)|\d+(?:\.\d+)?\s*(?:liters?|lpm)\b)/gi
+    )
+  );
+  const lastOxygenMatch = oxygenMatches[oxygenMatches.length - 1];
+  if (lastOxygenMatch) {
+    data.supplementalOxygen = lastOxygenMatch[1] === undefined;
+    confidence.supplementalOxygen = 0.85;
+  }
+
+  // Level of consciousness (NEWS2/MEWS)
+  // "patient alert" -> alert
+  // "LOC drowsy" -> drowsy
+  const locMatch = transcript.match(
+    /\b(?:patient|pt|loc|level of consciousness|is)\s+(?:is\s+)?(alert|confused|drowsy|lethargic|stuporous|comatose)\b/i
+  );
+  if (locMatch) {
+    data.levelOfConsciousness = locMatch[1].toLowerCase() as LevelOfConsciousness;
+    confidence.levelOfConsciousness = 0.8;
+  }
+
   return { data, confidence };
 }
 
@@ -471,78 +604,228 @@ function parseVitalSigns(transcript: string): { data: Partial<VitalSigns>; confi
 // ============================================================================
 
 /**
- * Parse medication administration from transcript
+ * Dose units as spoken, mapped to how doses are written ("10mg", "5000units")
  */
-function parseMedication(transcript: string): { data: Partial<Medication>[]; confidence: Record<string, number> } {
-  const medications: Partial<Medication>[] = [];
-  const confidence: Record<string, number> = {};
+const DOSE_UNITS: Record<string, string> = {
+  mg: 'mg', milligram: 'mg', milligrams: 'mg',
+  mcg: 'mcg', microgram: 'mcg', micrograms: 'mcg',
+  g: 'g', gram: 'g', grams: 'g',
+  unit: 'units', units: 'units',
+  ml: 'ml', milliliter: 'ml', milliliters: 'ml', cc: 'ml',
+  meq: 'mEq',
+  puff: 'puffs', puffs: 'puffs',
+  tab: 'tab', tabs: 'tab', tablet: 'tab', tablets: 'tab',
+  capsule: 'cap', capsules: 'cap',
+  drop: 'drops', drops: 'drops',
+};
 
-  // Pattern: "gave patient Smith ten milligrams of morphine IV at fourteen thirty"
-  // Pattern: "administered 500mg of Tylenol PO"
-  // Pattern: "patient received 10 units of insulin subcutaneous"
+const DOSE_UNIT_PATTERN = Object.keys(DOSE_UNITS)
+  .sort((a, b) => b.length - a.length)
+  .join('|');
 
-  const medPatterns = [
-    /(?:gave|administered|given)\s+(?:patient\s+)?(\w+)?\s*(\d+\.?\d*)\s*(mg|milligrams|ml|milliliters|mcg|micrograms|units?|cc)\s+(?:of\s+)?(\w+)\s+(\w+)\s*(?:at\s+)?(\d{1,2}:?\d{2}|\w+\s+\w+)?/i,
-    /(?:patient\s+)?(?:received|took|given)\s+(\d+\.?\d*)\s*(mg|milligrams|ml|milliliters|mcg|micrograms|units?)\s+(?:of\s+)?(\w+)\s+(\w+)/i,
-  ];
+/**
+ * Words that are never a medication name
+ */
+const NON_MEDICATION_WORDS = new Set([
+  'gave', 'given', 'administered', 'received', 'took', 'patient', 'pt', 'the', 'a', 'an', 'of', 'and', 'then',
+  'also', 'plus', 'dose', 'at', 'for', 'prn', 'with', 'via', 'to', 'in', 'left', 'right', 'mr', 'mrs', 'ms',
+  'po', 'iv', 'im', 'sq', 'subq', 'subcut', 'sl', 'pr', 'by', 'mouth', 'oral', 'orally', 'intravenous', 'push', 'piggyback',
+  ...Object.keys(DOSE_UNITS),
+  ...Object.keys(NUMBER_WORDS),
+]);
 
-  for (const pattern of medPatterns) {
-    const match = transcript.match(pattern);
-    if (match) {
-      const med: Partial<Medication> = {};
-
-      if (pattern === medPatterns[0]) {
-        // Full pattern with patient name
-        const dose = match[2];
-        const unit = match[3];
-        const medName = match[4];
-        const route = match[5];
-        const time = match[6];
-
-        med.name = standardizeMedicationName(medName);
-        med.dose = `${dose}${unit.replace(/milligrams?/i, 'mg').replace(/milliliters?/i, 'ml').replace(/micrograms?/i, 'mcg').replace(/unit(s)?/i, 'units')}`;
-
-        const extractedRoute = extractRoute(route);
-        if (extractedRoute) {
-          med.route = extractedRoute;
-        }
+/**
+ * Injection sites, e.g., "left abdomen", "right deltoid"
+ */
+const INJECTION_SITE_PATTERN =
+  /\b((?:left|right)\s+(?:upper\s+|lower\s+|outer\s+)?(?:abdomen|deltoid|thigh|arm|upper arm|gluteal|glute|ventrogluteal|vastus lateralis|buttock|forearm|hand|antecubital|ac))\b/i;
 
-        const extractedTime = time ? extractTime(time) : null;
-        med.timeAdministered = extractedTime || new Date().toISOString();
-
-        confidence['medication_name'] = 0.85;
-        confidence['medication_dose'] = 0.9;
-        confidence['medication_route'] = extractedRoute ? 0.85 : 0.5;
-        confidence['medication_time'] = extractedTime ? 0.8 : 0.5;
-      } else if (pattern === medPatterns[1]) {
-        // Simplified pattern
-        const dose = match[1];
-        const unit = match[2];
-        const medName = match[3];
-        const route = match[4];
-
-        med.name = standardizeMedicationName(medName);
-        med.dose = `${dose}${unit.replace(/milligrams?/i, 'mg').replace(/milliliters?/i, 'ml').replace(/micrograms?/i, 'mcg').replace(/unit(s)?/i, 'units')}`;
-
-        const extractedRoute = extractRoute(route);
-        if (extractedRoute) {
-          med.route = extractedRoute;
-        }
+/**
+ * Word in the text that names a formulary drug, if any - misheard names count when they
+ * sound like or are spelled close to a drug ("zofrin", "metoprolo")
+ */
+function findKnownMedication(text: string): string | null {
+  const words = text.toLowerCase().match(/[a-z][a-z-]{3,}/g) || [];
+  const known = words.find((word) => {
+    if (NON_MEDICATION_WORDS.has(word)) return false;
+    const [best] = resolveFormularyDrug(word).candidates;
+    return !!best && best.score >= 0.8;
+  });
+  return known || null;
+}
 
-        med.timeAdministered = new Date().toISOString();
+/**
+ * Split a dictation into one clause per medication
+ * "gave metoprolol 25 PO and lisinopril 10 PO, then heparin 5000 units subq left abdomen"
+ *   -> ["gave metoprolol 25 PO", "lisinopril 10 PO", "heparin 5000 units subq left abdomen"]
+ * Pieces that don't name a new drug (a site, a reason, a time) stay with the drug before them
+ */
+function segmentMedicationClauses(transcript: string): string[] {
+  // "5,000 units" is one number
+  const normalized = transcript.replace(/(\d),(\d{3})\b/g, '$1$2');
+  const pieces = normalized
+    .split(/\s*(?:;|\.(?!\d)|,?\s+\b(?:then|also|plus|and)\b\s+|,)\s*/i)
+    .map((piece) => piece.trim())
+    .filter(Boolean);
+
+  const doseInText = new RegExp(`${SPOKEN_NUMBER}\\s*(?:${DOSE_UNIT_PATTERN})\\b`, 'i');
+  const clauses: string[] = [];
+  let currentHasDose = false;
+
+  for (const piece of pieces) {
+    const namesDrug = findKnownMedication(piece) !== null;
+    const hasDose = doseInText.test(piece);
+    const startsNew = clauses.length === 0 || namesDrug || (hasDose && currentHasDose);
+
+    if (startsNew) {
+      clauses.push(piece);
+      currentHasDose = hasDose;
+    } else {
+      clauses[clauses.length - 1] += `, ${piece}`;
+      currentHasDose = currentHasDose || hasDose;
+    }
+  }
 
-        confidence['medication_name'] = 0.85;
-        confidence['medication_dose'] = 0.9;
-        confidence['medication_route'] = extractedRoute ? 0.85 : 0.5;
-      }
+  return clauses;
+}
 
-      if (med.name && med.dose) {
-        medications.push(med);
+/**
+ * Parse one medication clause: name, dose, route, site, time, frequency and PRN reason
+ * Names are matched against the formulary; `suggestions.name` lists candidates when the match is ambiguous
+ */
+function parseMedicationClause(clause: string): {
+  data: Partial<Medication>;
+  confidence: Record<string, number>;
+  suggestions: Record<string, string[]>;
+} {
+  const data: Partial<Medication> = {};
+  const confidence: Record<string, number> = {};
+  const suggestions: Record<string, string[]> = {};
+
+  // Dose with a unit: "25 mg", "five thousand units", "2 puffs"
+  const doseMatch = clause.match(new RegExp(`(${SPOKEN_NUMBER})\\s*(${DOSE_UNIT_PATTERN})\\b`, 'i'));
+
+  // Name: a known drug, else the word before/after the dose ("vancomycin 1 g", "1 g of vancomycin")
+  const known = findKnownMedication(clause);
+  let name: string | null = known;
+  if (!name && doseMatch?.index !== undefined) {
+    const after = clause.slice(doseMatch.index + doseMatch[0].length).match(/^\s+(?:of\s+)?([a-z][a-z-]+)/i);
+    const before = clause.slice(0, doseMatch.index).match(/([a-z][a-z-]+)\s*$/i);
+    name = [after?.[1], before?.[1]].find((word) => word && !NON_MEDICATION_WORDS.has(word.toLowerCase())) || null;
+  }
+  const formulary = name ? resolveFormularyDrug(name) : null;
+  if (name && formulary?.match) {
+    data.name = formulary.match.drug.genericName;
+    data.rxnormCode = formulary.match.drug.rxnormCode;
+    confidence.name = formulary.match.matchType === 'exact' ? 0.9 : 0.75;
+  } else if (name) {
+    data.name = standardizeMedicationName(name);
+    confidence.name = 0.6;
+    if (formulary && formulary.candidates.length > 0) {
+      suggestions.name = formulary.candidates.map((candidate) => candidate.drug.genericName);
+    }
+  }
+
+  if (doseMatch) {
+    const amount = parseSpokenNumber(doseMatch[1]);
+    if (amount !== null) {
+      data.dose = `${amount}${DOSE_UNITS[doseMatch[2].toLowerCase()]}`;
+      confidence.dose = 0.9;
+    }
+  } else if (name) {
+    // Unitless dose right after the name: "metoprolol 25 PO"
+    const bareDose = clause.match(new RegExp(`\\b${name}\\s+(${SPOKEN_NUMBER})\\b`, 'i'));
+    const amount = bareDose ? parseSpokenNumber(bareDose[1]) : null;
+    if (amount !== null) {
+      data.dose = `${amount}`;
+      confidence.dose = 0.6;
+    }
+  }
+
+  const route = extractRoute(clause);
+  if (route) {
+    data.route = route;
+    // A route the formulary doesn't list for this drug is more likely misheard
+    confidence.route = !formulary?.match || formulary.match.drug.routes.includes(route) ? 0.85 : 0.5;
+  }
+
+  const drug = formulary?.match?.drug;
+  if (drug && data.dose) {
+    // A unitless dose takes the unit of the formulary strength it matches ("metoprolol 25" -> 25mg)
+    const unitless = /^[\d.]+$/.test(data.dose);
+    const strength = unitless
+      ? drug.strengths.find((candidate) => candidate.dose.replace(/[a-z/]+$/i, '') === data.dose)
+      : findFormularyStrength(drug, data.dose, route || undefined);
+    if (strength) {
+      data.ndc = strength.ndc;
+      if (unitless) {
+        data.dose = strength.dose;
+        confidence.dose = 0.75;
       }
     }
   }
 
-  return { data: medications, confidence };
+  const siteMatch = clause.match(INJECTION_SITE_PATTERN);
+  if (siteMatch) {
+    data.site = siteMatch[1].toLowerCase();
+    confidence.site = 0.85;
+  }
+
+  // Time only after "at", so doses like "1000" aren't read as 10:00
+  const timeMatch = clause.match(/\bat\s+([^,;]+?)(?=\s+for\b|[,;]|$)/i);
+  const time = timeMatch ? extractTime(timeMatch[1]) : null;
+  data.timeAdministered = time || new Date().toISOString();
+  confidence.timeAdministered = time ? 0.8 : 0.5;
+
+  const frequencyMatch = clause.match(/\b(bid|tid|qid|qd|daily|q\d{1,2}h|every (?:four|six|eight|twelve) hours)\b/i);
+  if (frequencyMatch) {
+    data.frequency = normalizeMedicalTerm(frequencyMatch[1]).toUpperCase();
+    confidence.frequency = 0.8;
+  }
+
+  // PRN: "prn for pain", "as needed for nausea", "for breakthrough pain"
+  data.isPRN = /\b(?:prn|as needed)\b/i.test(clause);
+  const reasonMatch = clause.match(/\bfor\s+([^,;]+?)(?=\s+at\b|[,;]|$)/i);
+  if (reasonMatch) {
+    data.reason = reasonMatch[1].trim();
+    confidence.reason = 0.8;
+  }
+
+  return { data, confidence, suggestions };
+}
+
+/**
+ * Parse medication administration from transcript, one Medication per drug
+ * Confidence and suggestions are keyed by medication, e.g. "medications[1].route"
+ */
+function parseMedication(transcript: string): {
+  data: Partial<Medication>[];
+  confidence: Record<string, number>;
+  suggestions: Record<string, string[]>;
+} {
+  const medications: Partial<Medication>[] = [];
+  const confidence: Record<string, number> = {};
+  const suggestions: Record<string, string[]> = {};
+
+  // "gave patient Smith ten milligrams of morphine IV at fourteen thirty"
+  // "gave metoprolol 25 PO and lisinopril 10 PO, then heparin 5000 units subq left abdomen"
+  segmentMedicationClauses(transcript).forEach((clause) => {
+    const parsed = parseMedicationClause(clause);
+    if (!parsed.data.name || !parsed.data.dose) {
+      return;
+    }
+
+    const index = medications.length;
+    medications.push(parsed.data);
+    Object.entries(parsed.confidence).forEach(([field, value]) => {
+      confidence[`medications[${index}].${field}`] = value;
+    });
+    Object.entries(parsed.suggestions).forEach(([field, value]) => {
+      suggestions[`medications[${index}].${field}`] = value;
+    });
+  });
+
+  return { data: medications, confidence, suggestions };
 }
 
 // ============================================================================
@@ -624,6 +907,371 @@ function parseAssessment(transcript: string): { data: Partial<Assessment>; confi
   return { data, confidence };
 }
 
+// ============================================================================
+// WOUND CARE PARSER
+// ============================================================================
+
+/**
+ * Wound type keywords (checked in order, so "skin tear" wins over "tear")
+ */
+const WOUND_TYPE_PATTERNS: Array<[RegExp, WoundType]> = [
+  [/\b(?:pressure (?:ulcer|injury|sore)|bed ?sore|decubitus)\b/i, 'pressure-ulcer'],
+  [/\b(?:surgical|incision|post-?op(?:erative)?|dehisced)\b/i, 'surgical'],
+  [/\b(?:venous|stasis)\b/i, 'venous'],
+  [/\barterial\b/i, 'arterial'],
+  [/\b(?:diabetic|neuropathic)\b/i, 'diabetic'],
+  [/\bburn\b/i, 'burn'],
+  [/\blaceration\b/i, 'laceration'],
+  [/\b(?:abrasion|skin tear)\b/i, 'abrasion'],
+  [/\btraumatic\b/i, 'traumatic'],
+];
+
+/**
+ * Body sites a wound is documented at, with optional side and position qualifiers
+ */
+const WOUND_LOCATION_PATTERN =
+  /\b(?:(left|right|bilateral)\s+)?(?:(lower|upper|mid|medial|lateral|posterior|anterior)\s+)?(sacrum|sacral|coccyx|coccygeal|heel|ankle|malleolus|hip|buttock|ischium|ischial|trochanter|elbow|shoulder|back|abdomen|abdominal|leg|shin|calf|thigh|knee|foot|toe|hand|arm|forearm|chest|occiput|ear|scalp|groin)\b/i;
+
+const STAGE_NUMBERS: Record<string, WoundStage> = {
+  '1': 'stage-1', one: 'stage-1', i: 'stage-1',
+  '2': 'stage-2', two: 'stage-2', ii: 'stage-2',
+  '3': 'stage-3', three: 'stage-3', iii: 'stage-3',
+  '4': 'stage-4', four: 'stage-4', iv: 'stage-4',
+};
+
+const DRAINAGE_AMOUNTS: Record<string, NonNullable<WoundDetails['drainage']>['amount']> = {
+  scant: 'scant', minimal: 'scant', small: 'small', moderate: 'moderate',
+  large: 'large', heavy: 'large', copious: 'copious',
+};
+
+const INFECTION_SIGNS: Array<[RegExp, string]> = [
+  [/\b(?:erythema|redness|erythematous)\b/i, 'erythema'],
+  [/\bwarm(?:th)?\b/i, 'warmth'],
+  [/\binduration\b/i, 'induration'],
+  [/\b(?:swelling|edema)\b/i, 'swelling'],
+  [/\b(?:purulent|pus)\b/i, 'purulent drainage'],
+  [/\b(?:foul|malodorous)\b/i, 'foul odor'],
+  [/\bcellulitis\b/i, 'cellulitis'],
+  [/\bfluctuance\b/i, 'fluctuance'],
+  [/\bincreas(?:ed|ing) pain\b/i, 'increased pain'],
+];
+
+const DRESSING_PATTERN =
+  /\b((?:silver |calcium )?alginate|foam|hydrocolloid|hydrogel|transparent film|wet[\s-]to[\s-]dry|xeroform|gauze|negative pressure|wound vac|silicone border(?:ed)? foam)\s+dressing\b/i;
+
+/**
+ * Whether the match at `index` is negated ("no erythema", "without odor")
+ */
+function isNegated(text: string, index: number): boolean {
+  const before = text.slice(Math.max(0, index - 30), index).toLowerCase();
+  return /\b(?:no|denies|without|negative for|absence of|free of)\b(?:\s+\w+){0,2}\s*$/.test(before);
+}
+
+/**
+ * Parse one wound from the part of the transcript describing it
+ */
+function parseSingleWound(text: string): { data: Partial<WoundDetails>; confidence: Record<string, number> } {
+  const data: Partial<WoundDetails> = {};
+  const confidence: Record<string, number> = {};
+
+  // Location: "left heel", "sacrum", "right lower leg"
+  const locationMatch = text.match(WOUND_LOCATION_PATTERN);
+  if (locationMatch) {
+    const location = locationMatch.slice(1).filter(Boolean).join(' ').toLowerCase();
+    data.location = location.charAt(0).toUpperCase() + location.slice(1);
+    confidence.location = locationMatch[1] ? 0.9 : 0.8;
+  }
+
+  // Stage: "stage two", "stage III", "unstageable", "deep tissue injury"
+  const stageMatch = text.match(/\bstage\s+(1|2|3|4|one|two|three|four|iv|iii|ii|i)\b/i);
+  if (stageMatch) {
+    data.stage = STAGE_NUMBERS[stageMatch[1].toLowerCase()];
+    confidence.stage = 0.9;
+  } else if (/\bunstageable\b/i.test(text)) {
+    data.stage = 'unstageable';
+    confidence.stage = 0.9;
+  } else if (/\b(?:deep tissue (?:pressure )?injury|dti)\b/i.test(text)) {
+    data.stage = 'deep-tissue-injury';
+    confidence.stage = 0.85;
+  }
+
+  // Type, else a staged wound is a pressure injury
+  const typeMatch = WOUND_TYPE_PATTERNS.find(([pattern]) => pattern.test(text));
+  if (typeMatch) {
+    data.type = typeMatch[1];
+    confidence.type = 0.9;
+  } else if (data.stage) {
+    data.type = 'pressure-ulcer';
+    confidence.type = 0.75;
+  }
+
+  // Dimensions: "3 by 2 by 0.5 cm", "length 3 width 2 depth 0.5", "four by three centimeters"
+  const dimensionUnit = '\\s*(?:cm|centimeters?|mm|millimeters?)?';
+  const bySizeMatch = text.match(
+    new RegExp(
+      `(${SPOKEN_NUMBER})${dimensionUnit}\\s*(?:by|x)\\s*(${SPOKEN_NUMBER})${dimensionUnit}(?:\\s*(?:by|x)\\s*(${SPOKEN_NUMBER}))?\\s*(cm|centimeters?|mm|millimeters?)?`,
+      'i'
+    )
+  );
+  const labeledSize = (label: string) => {
+    const match = text.match(new RegExp(`\\b${label}\\s+(?:is\\s+|of\\s+)?(${SPOKEN_NUMBER})`, 'i'));
+    return match ? parseSpokenNumber(match[1]) : null;
+  };
+  const length = bySizeMatch ? parseSpokenNumber(bySizeMatch[1]) : labeledSize('length');
+  const width = bySizeMatch ? parseSpokenNumber(bySizeMatch[2]) : labeledSize('width');
+  const depth = bySizeMatch?.[3] ? parseSpokenNumber(bySizeMatch[3]) : labeledSize('depth');
+  if (length !== null && width !== null) {
+    // Wound measurements are recorded in cm
+    const scale = bySizeMatch?.[4]?.toLowerCase().startsWith('m') ? 0.1 : 1;
+    const toCm = (value: number) => Math.round(value * scale * 10) / 10;
+    data.dimensions = { length: toCm(length), width: toCm(width) };
+    if (depth !== null) {
+      data.dimensions.depth = toCm(depth);
+    }
+    confidence.dimensions = bySizeMatch ? 0.9 : 0.8;
+  }
+
+  // Wound bed: "80 percent granulation 20 percent slough", "eschar 50%"
+  const tissues = 'granulation|slough|eschar|epithelial|epithelialization|necrotic';
+  const composition: Partial<Record<WoundTissueType, number>> = {};
+  const percentFirst = new RegExp(`(${SPOKEN_NUMBER})\\s*(?:%|percent)\\s*(?:of\\s+)?(?:\\w+\\s+)?(${tissues})`, 'gi');
+  const tissueFirst = new RegExp(`\\b(${tissues})(?:\\s+tissue)?\\s+(?:at\\s+|of\\s+)?(${SPOKEN_NUMBER})\\s*(?:%|percent)`, 'gi');
+  const addTissue = (tissue: string, amount: string) => {
+    const percent = parseSpokenNumber(amount);
+    const key = (tissue.toLowerCase().startsWith('epithel') ? 'epithelial' : tissue.toLowerCase()) as WoundTissueType;
+    if (percent !== null && percent >= 0 && percent <= 100 && composition[key] === undefined) {
+      composition[key] = percent;
+    }
+  };
+  for (const match of text.matchAll(percentFirst)) addTissue(match[2], match[1]);
+  for (const match of text.matchAll(tissueFirst)) addTissue(match[1], match[2]);
+  if (Object.keys(composition).length > 0) {
+    const total = Object.values(composition).reduce((sum, percent) => sum + (percent || 0), 0);
+    data.woundBed = {
+      composition,
+      tissuetype: Object.entries(composition).map(([tissue, percent]) => `${percent}% ${tissue}`).join(', '),
+    };
+    // Percentages that don't add up to 100 were probably misheard
+    confidence.woundBed = total === 100 ? 0.9 : 0.6;
+  }
+  const bedColorMatch = text.match(/\b(?:wound bed|base)\s+(?:is\s+)?(beefy red|pink|red|pale|yellow|black|gray|grey)\b/i);
+  if (bedColorMatch) {
+    data.woundBed = { ...data.woundBed, color: bedColorMatch[1].toLowerCase() };
+    confidence.woundBed = confidence.woundBed ?? 0.85;
+  }
+
+  // Drainage: "moderate serosanguineous drainage", "no drainage", "scant purulent drainage with foul odor"
+  const noDrainage = /\b(?:no|without|denies)\s+(?:\w+\s+)?(?:drainage|exudate)\b/i.test(text);
+  const amountMatch = text.match(/\b(scant|minimal|small|moderate|large|heavy|copious)\s+(?:amount\s+(?:of\s+)?)?(?:\w+\s+)?(?:drainage|exudate)\b/i);
+  const drainageTypeMatch = text.match(/\b(sero[\s-]?sanguineous|serous|sanguineous|bloody|purulent)\b/i);
+  if (amountMatch || drainageTypeMatch || noDrainage) {
+    const amount = amountMatch ? DRAINAGE_AMOUNTS[amountMatch[1].toLowerCase()] : noDrainage ? 'none' : undefined;
+    const typeText = drainageTypeMatch?.[1].toLowerCase().replace(/[\s-]/g, '');
+    const type = typeText === 'bloody' ? 'sanguineous' : (typeText as NonNullable<WoundDetails['drainage']>['type']);
+    if (amount) {
+      data.drainage = amount === 'none' ? { amount } : { amount, type };
+      confidence.drainage = amount === 'none' || type ? 0.9 : 0.7;
+    } else {
+      // Type without an amount - the nurse needs to confirm how much
+      data.drainage = { amount: 'small', type };
+      confidence.drainage = 0.5;
+    }
+
+    const odorMatch = text.match(/\b(foul|malodorous|sweet)(?:\s+smelling)?\s+(?:odor|smell)|\b(no|without)\s+(?:odor|smell)|\bodorless\b/i);
+    if (odorMatch && data.drainage) {
+      data.drainage.odor = odorMatch[1] ? (odorMatch[1].toLowerCase() === 'sweet' ? 'sweet' : 'foul') : 'none';
+    }
+  }
+
+  // Signs of infection, skipping negated findings ("no erythema")
+  if (/\bno (?:signs|s\/s|sign) (?:or symptoms )?of infection\b/i.test(text)) {
+    data.signsOfInfection = [];
+    confidence.signsOfInfection = 0.9;
+  } else {
+    const signs = INFECTION_SIGNS.filter(([pattern]) => {
+      const match = text.match(pattern);
+      return match && match.index !== undefined && !isNegated(text, match.index);
+    }).map(([, sign]) => sign);
+    if (signs.length > 0) {
+      data.signsOfInfection = signs;
+      confidence.signsOfInfection = 0.8;
+    }
+  }
+
+  // Edges and periwound skin
+  const edgesMatch = text.match(/\bedges?\s+(?:are\s+|is\s+)?((?:well[\s-])?approximated|attached|unattached|rolled|undermined|epibole|macerated|irregular|regular|intact)\b/i);
+  if (edgesMatch) {
+    data.edges = edgesMatch[1].toLowerCase();
+    confidence.edges = 0.85;
+  }
+  const periwoundMatch = text.match(/\b(?:periwound|surrounding skin)(?:\s+skin)?\s+(?:is\s+)?([^.,;]+)/i);
+  if (periwoundMatch) {
+    data.periwoundSkin = periwoundMatch[1].trim();
+    confidence.periwoundSkin = 0.8;
+  }
+
+  // Treatment and dressing
+  const treatmentMatch = text.match(/\b((?:cleansed|cleaned|irrigated|packed|debrided|rinsed)\b[^.;]*)/i);
+  if (treatmentMatch) {
+    data.treatment = treatmentMatch[1].trim();
+    confidence.treatment = 0.8;
+  }
+  const dressingMatch = text.match(DRESSING_PATTERN);
+  if (dressingMatch) {
+    data.dressingType = dressingMatch[0].toLowerCase();
+    confidence.dressingType = 0.85;
+  }
+
+  // Pain at the wound site
+  const painMatch = text.match(/\bpain\s+(?:level\s+|score\s+)?(?:is\s+)?(\d{1,2}|\w+)\s*(?:out of ten|\/10)?/i);
+  const pain = painMatch ? convertTextToNumber(painMatch[1]) : null;
+  if (pain !== null && pain >= 0 && pain <= 10) {
+    data.painLevel = pain;
+    confidence.painLevel = 0.85;
+  }
+
+  return { data, confidence };
+}
+
+/**
+ * Parse wound care documentation; each wound is described in turn
+ * ("... second wound on the left heel ...")
+ */
+function parseWoundCare(transcript: string): { data: Partial<WoundDetails>[]; confidence: Record<string, number> } {
+  const confidence: Record<string, number> = {};
+  const sections = transcript
+    .split(/\b(?=(?:(?:second|third|another|next|other|additional)\s+wound|wound\s+(?:number\s+)?(?:two|three|2|3))\b)/i)
+    .filter((section) => section.trim().length > 0);
+
+  const data = sections.map((section, index) => {
+    const wound = parseSingleWound(section);
+    Object.entries(wound.confidence).forEach(([field, value]) => {
+      confidence[`woundDetails[${index}].${field}`] = value;
+    });
+    return wound.data;
+  });
+
+  return { data, confidence };
+}
+
+// ============================================================================
+// SHIFT HANDOFF PARSER
+// ============================================================================
+
+type HandoffSection = keyof ShiftHandoff;
+
+/**
+ * Spoken headings for each handoff section (longest first when matched)
+ * SBAR headings are recognized anywhere; the others only at the start of a sentence,
+ * since words like "diet" and "activity" also appear inside SBAR content
+ */
+const HANDOFF_HEADINGS: Record<HandoffSection, string[]> = {
+  situation: ['situation'],
+  background: ['background'],
+  assessment: ['assessment'],
+  recommendation: ['recommendations', 'recommendation'],
+  keyEvents: ['key events', 'events this shift', 'events overnight', 'this shift'],
+  pendingTasks: ['pending tasks', 'pending items', 'pending', 'to do'],
+  ivAccess: ['iv access', 'lines', 'access'],
+  diet: ['diet'],
+  activity: ['activity'],
+  upcoming: ['upcoming', 'scheduled for'],
+  familyConcerns: ['family concerns', 'family'],
+};
+
+const SBAR_SECTIONS: HandoffSection[] = ['situation', 'background', 'assessment', 'recommendation'];
+
+const LIST_SECTIONS: HandoffSection[] = ['keyEvents', 'pendingTasks', 'ivAccess', 'upcoming'];
+
+/**
+ * Split a spoken list on commas and semicolons
+ */
+function splitSpokenList(text: string): string[] {
+  return text
+    .split(/\s*[,;]\s*/)
+    .map((item) => item.replace(/^(?:and|then)\s+/i, '').replace(/[.\s]+$/, '').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse an SBAR shift handoff, with the optional sections (IV access, diet, ...)
+ */
+function parseShiftHandoff(transcript: string): { data: Partial<ShiftHandoff>; confidence: Record<string, number> } {
+  const data: Partial<ShiftHandoff> = {};
+  const confidence: Record<string, number> = {};
+
+  // Find every heading, then give each section the text up to the next heading
+  const headings = Object.entries(HANDOFF_HEADINGS)
+    .flatMap(([section, phrases]) => phrases.map((phrase) => ({ section: section as HandoffSection, phrase })))
+    .sort((a, b) => b.phrase.length - a.phrase.length);
+  const found: Array<{ section: HandoffSection; start: number; end: number }> = [];
+  for (const { section, phrase } of headings) {
+    const sentenceStart = SBAR_SECTIONS.includes(section) ? '' : '(?:^|[.;\\n]\\s*)';
+    const pattern = new RegExp(`${sentenceStart}\\b${phrase}\\b\\s*(?:is|was|:|-)?\\s*`, 'gi');
+    for (const match of transcript.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const overlaps = found.some((heading) => start < heading.end && end > heading.start);
+      if (!overlaps && !found.some((heading) => heading.section === section)) {
+        found.push({ section, start, end });
+      }
+    }
+  }
+  found.sort((a, b) => a.start - b.start);
+
+  found.forEach((heading, index) => {
+    const content = transcript
+      .slice(heading.end, found[index + 1]?.start ?? transcript.length)
+      .replace(/^[\s.,;:-]+|[\s.,;:-]+$/g, '')
+      .trim();
+    if (!content) return;
+
+    if (LIST_SECTIONS.includes(heading.section)) {
+      (data as Record<string, unknown>)[heading.section] = splitSpokenList(content);
+    } else {
+      (data as Record<string, unknown>)[heading.section] = content;
+    }
+    confidence[heading.section] = 0.9;
+  });
+
+  // No headings at all: keep the report as the situation for the nurse to split up
+  if (found.length === 0) {
+    data.situation = transcript.trim();
+    confidence.situation = 0.5;
+  }
+
+  // Details mentioned in passing
+  if (!data.ivAccess) {
+    const lines = [
+      ...transcript.matchAll(/\b(\d{2}\s*(?:g|gauge)\b[^.,;]*|(?:picc|central|midline|port)\b[^.,;]*)/gi),
+    ].map((match) => match[1].trim());
+    if (lines.length > 0) {
+      data.ivAccess = lines;
+      confidence.ivAccess = 0.75;
+    }
+  }
+  if (!data.diet) {
+    const dietMatch = transcript.match(
+      /\b(npo|nothing by mouth|clear liquids?(?: diet)?|full liquids?(?: diet)?|(?:regular|cardiac|diabetic|renal|soft|mechanical soft|low sodium|heart healthy|carb controlled) diet|tube feed(?:s|ing)?)\b/i
+    );
+    if (dietMatch) {
+      data.diet = dietMatch[1];
+      confidence.diet = 0.75;
+    }
+  }
+  if (!data.activity) {
+    const activityMatch = transcript.match(
+      /\b(bed ?rest|up (?:ad lib|with assist(?:ance)?|to chair)|ambulat\w+ (?:independently|with (?:assist(?:ance)?|a walker|walker|a cane|cane))|out of bed to chair|fall precautions)\b/i
+    );
+    if (activityMatch) {
+      data.activity = activityMatch[1];
+      confidence.activity = 0.75;
+    }
+  }
+
+  return { data, confidence };
+}
+
 // ============================================================================
 // MAIN PARSE FUNCTION
 // ============================================================================
@@ -638,6 +1286,7 @@ export function parseTranscript(
   const structuredData: StructuredData = {};
   const confidence: Record<string, number> = {};
   const needsReview: string[] = [];
+  let suggestions: ParseResult['suggestions'];
 
   if (!transcript || transcript.trim().length === 0) {
     return { structuredData, confidence, needsReview };
@@ -665,11 +1314,14 @@ export function parseTranscript(
         !!med.name && !!med.dose && !!med.route
       );
       Object.assign(confidence, medications.confidence);
+      if (Object.keys(medications.suggestions).length > 0) {
+        suggestions = medications.suggestions;
+      }
 
-      // Flag if route or time couldn't be extracted with high confidence
+      // Flag if name, dose, route or time couldn't be extracted with high confidence
       Object.entries(medications.confidence).forEach(([field, conf]) => {
         if (conf < 0.7) {
-          needsReview.push(`medications.${field}`);
+          needsReview.push(field);
         }
       });
 
@@ -703,6 +1355,59 @@ export function parseTranscript(
       break;
     }
 
+    case 'wound-care': {
+      const wounds = parseWoundCare(transcript);
+      Object.assign(confidence, wounds.confidence);
+
+      // Location and type are required; incomplete wounds are left for the nurse to fill in
+      const required: Array<keyof WoundDetails> = ['location', 'type'];
+      wounds.data.forEach((wound, index) => {
+        required
+          .filter((field) => !wound[field])
+          .forEach((field) => needsReview.push(`woundDetails[${index}].${field}`));
+      });
+      structuredData.woundDetails = wounds.data.filter((wound): wound is WoundDetails =>
+        !!wound.location && !!wound.type
+      );
+
+      Object.entries(wounds.confidence).forEach(([field, conf]) => {
+        if (conf < 0.7) {
+          needsReview.push(field);
+        }
+      });
+      break;
+    }
+
+    case 'shift-handoff': {
+      const handoff = parseShiftHandoff(transcript);
+      structuredData.shiftHandoff = {
+        situation: '',
+        background: '',
+        assessment: '',
+        recommendation: '',
+        ...handoff.data,
+      };
+      Object.assign(confidence, handoff.confidence);
+
+      // Every SBAR section is required
+      SBAR_SECTIONS.filter((section) => !handoff.data[section]).forEach((section) => {
+        needsReview.push(`shiftHandoff.${section}`);
+      });
+      Object.entries(handoff.confidence).forEach(([field, conf]) => {
+        if (conf < 0.7) {
+          needsReview.push(`shiftHandoff.${field}`);
+        }
+      });
+
+      // Vitals are often read out in the assessment
+      const vitalSigns = parseVitalSigns(transcript);
+      if (Object.keys(vitalSigns.data).length > 0) {
+        structuredData.vitalSigns = vitalSigns.data;
+        Object.assign(confidence, vitalSigns.confidence);
+      }
+      break;
+    }
+
     default: {
       // For other workflow types, try to extract what we can
       const vitalSigns = parseVitalSigns(transcript);
@@ -738,7 +1443,7 @@ export function parseTranscript(
     structuredData.additionalNotes = transcript;
   }
 
-  return { structuredData, confidence, needsReview };
+  return { structuredData, confidence, needsReview, suggestions };
 }
 
 // Export utility functions for testing
@@ -750,5 +1455,9 @@ export {
   standardizeMedicationName,
   parseVitalSigns,
   parseMedication,
+  segmentMedicationClauses,
+  parseMedicationClause,
   parseAssessment,
+  parseWoundCare,
+  parseShiftHandoff,
 };
@@ -0,0 +1,65 @@
+/**
+ * Speech Recognition Engines
+ * Interface for the recognizers behind VoiceService (Web Speech API, local on-device engine)
+ *
+ * An engine only turns audio into text. VoiceService keeps the transcript, pause/resume
+ * state and processing indicator, and falls back to the next engine when one fails.
+ */
+
+import type { TranscriptWordTiming } from '../../../shared/types';
+import type { VoiceRecognitionError, VoiceServiceConfig } from './voiceService';
+
+export type SpeechEngineId = 'web-speech' | 'local';
+
+/**
+ * Text recognized since the last result: finished segments and the current guess
+ */
+export interface SpeechEngineResult {
+  final: string;
+  interim: string;
+
+  /** Timings of the words in `final`, as offsets from when the engine started (if the engine reports them) */
+  words?: TranscriptWordTiming[];
+}
+
+export interface SpeechEngineCallbacks {
+  onStart?: () => void;
+  onEnd?: () => void;
+  onResult?: (result: SpeechEngineResult) => void;
+  onError?: (error: VoiceRecognitionError) => void;
+  onSoundStart?: () => void;
+  onSoundEnd?: () => void;
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+}
+
+export interface SpeechEngine {
+  readonly id: SpeechEngineId;
+  readonly name: string;
+
+  /** Whether audio leaves the device (cloud recognition) */
+  readonly sendsAudioOffDevice: boolean;
+
+  /** Whether the browser has what the engine needs (and it is configured) */
+  isSupported(): boolean;
+
+  /** Whether the engine can be used right now (e.g., network or local server reachable) */
+  isAvailable(): Promise<boolean>;
+
+  initialize(config: VoiceServiceConfig, callbacks: SpeechEngineCallbacks): void;
+
+  /** Starts listening; rejects with a VoiceRecognitionError if the engine could not start */
+  start(): Promise<void>;
+
+  /** Stops listening; remaining results are delivered before onEnd */
+  stop(): void;
+
+  destroy(): void;
+}
+
+/**
+ * Errors after which another engine may still work (the microphone itself is fine)
+ */
+export function isEngineFailure(error: VoiceRecognitionError): boolean {
+  return error.type === 'network' || error.type === 'not-supported';
+}
@@ -0,0 +1,35 @@
+/**
+ * Speech Output
+ * Reads text aloud with the browser's speech synthesis (e.g., reading back an entry)
+ */
+
+export function isSpeechOutputSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+/**
+ * Speak the text; resolves when it has been read (or was cancelled)
+ */
+export function speak(text: string, options: { rate?: number; lang?: string } = {}): Promise<void> {
+  if (!isSpeechOutputSupported() || !text.trim()) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve) => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = options.rate ?? 1;
+    utterance.lang = options.lang ?? 'en-US';
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+
+    // Replace anything still being read
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+  });
+}
+
+export function cancelSpeech(): void {
+  if (isSpeechOutputSupported()) {
+    window.speechSynthesis.cancel();
+  }
+}
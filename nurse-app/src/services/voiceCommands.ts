@@ -0,0 +1,234 @@
+/**
+ * Voice Commands
+ * Control phrases spoken during dictation ("scratch that", "next field", "read it back", ...).
+ * They are taken out of each final recognition result before the transcript is parsed,
+ * so they never end up in the documentation.
+ */
+
+import type { WorkflowType } from '../../../shared/types';
+
+export type VoiceCommandId =
+  | 'scratch-that'
+  | 'undo'
+  | 'redo'
+  | 'next-field'
+  | 'previous-field'
+  | 'go-to-field'
+  | 'clear-field'
+  | 'submit'
+  | 'save-draft'
+  | 'read-back'
+  | 'show-help'
+  | 'hide-help';
+
+export interface VoiceCommandDefinition {
+  id: VoiceCommandId;
+
+  /** Phrases that trigger the command on their own */
+  phrases: string[];
+
+  /** Phrases followed by a field name (e.g., "go to" → "go to skin condition") */
+  fieldPhrases?: string[];
+
+  description: string;
+}
+
+/**
+ * A form field that commands can target
+ */
+export interface VoiceCommandField {
+  key: string;
+  label: string;
+
+  /** Other names the field can be called by */
+  aliases?: string[];
+
+  /** Spoken label the transcript parser routes dictation by (inserted on "go to <field>") */
+  marker?: string;
+}
+
+/**
+ * A command recognized in the transcript
+ */
+export interface VoiceCommand {
+  id: VoiceCommandId;
+  phrase: string;
+  fieldKey?: string;
+}
+
+export type VoiceTranscriptPart =
+  | { type: 'dictation'; text: string }
+  | { type: 'command'; command: VoiceCommand };
+
+/**
+ * Per-workflow changes to the default commands
+ */
+export interface VoiceCommandOverrides {
+  /** Commands not available in the workflow */
+  disabled?: VoiceCommandId[];
+
+  /** Extra trigger phrases */
+  phrases?: Partial<Record<VoiceCommandId, string[]>>;
+}
+
+// Phrases are chosen so they don't come up in clinical dictation (e.g., not "read back",
+// which is documented for verbal orders)
+export const DEFAULT_VOICE_COMMANDS: VoiceCommandDefinition[] = [
+  {
+    id: 'scratch-that',
+    phrases: ['scratch that', 'delete that', 'strike that'],
+    description: 'Remove the last phrase you dictated',
+  },
+  { id: 'undo', phrases: ['undo that', 'undo'], description: 'Undo the last change to the transcript' },
+  { id: 'redo', phrases: ['redo that', 'redo'], description: 'Redo a change you undid' },
+  { id: 'next-field', phrases: ['next field'], description: 'Move to the next field' },
+  { id: 'previous-field', phrases: ['previous field', 'last field'], description: 'Move to the previous field' },
+  {
+    id: 'go-to-field',
+    phrases: [],
+    fieldPhrases: ['go to field', 'go to', 'move to', 'jump to'],
+    description: 'Move to a field by name; what you say next goes into it',
+  },
+  {
+    id: 'clear-field',
+    phrases: ['clear this field', 'clear field'],
+    fieldPhrases: ['clear field'],
+    description: 'Empty the current field (or a field by name)',
+  },
+  { id: 'submit', phrases: ['submit entry', 'submit form', 'submit documentation'], description: 'Submit the form' },
+  { id: 'save-draft', phrases: ['save as draft', 'save draft'], description: 'Save the entry as a draft' },
+  {
+    id: 'read-back',
+    phrases: ['read it back', 'read that back', 'read back entry'],
+    description: 'Read the documented fields aloud',
+  },
+  {
+    id: 'show-help',
+    phrases: ['show commands', 'voice commands', 'what can i say'],
+    description: 'Show this list of commands',
+  },
+  { id: 'hide-help', phrases: ['hide commands', 'close commands'], description: 'Hide the list of commands' },
+];
+
+const workflowOverrides: Partial<Record<WorkflowType, VoiceCommandOverrides>> = {
+  // Administrations are confirmed on screen, so a misheard phrase can't file one
+  'medication-administration': { disabled: ['submit'] },
+
+  // SBAR reports are dictated section by section
+  'shift-handoff': {
+    phrases: { 'next-field': ['next section'], 'previous-field': ['previous section'] },
+  },
+};
+
+/**
+ * Change the commands available in a workflow
+ */
+export function configureVoiceCommands(workflowType: WorkflowType, overrides: VoiceCommandOverrides): void {
+  workflowOverrides[workflowType] = overrides;
+}
+
+/**
+ * Commands available in a workflow
+ */
+export function getVoiceCommands(workflowType: WorkflowType): VoiceCommandDefinition[] {
+  const overrides = workflowOverrides[workflowType];
+
+  return DEFAULT_VOICE_COMMANDS
+    .filter((command) => !overrides?.disabled?.includes(command.id))
+    .map((command) => ({
+      ...command,
+      phrases: [...command.phrases, ...(overrides?.phrases?.[command.id] || [])],
+    }));
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whole-word, case-insensitive pattern for a spoken phrase
+ */
+const phrasePattern = (phrase: string) =>
+  phrase.trim().split(/\s+/).map(escapeRegExp).join('[\\s,]+');
+
+// Field labels as spoken ("Pain Level (0-10)" → "pain level")
+const spokenLabel = (label: string) => label.replace(/\(.*?\)/g, '').trim().toLowerCase();
+
+interface CommandPattern {
+  regex: RegExp;
+  id: VoiceCommandId;
+  fieldKey?: string;
+}
+
+function buildPatterns(commands: VoiceCommandDefinition[], fields: VoiceCommandField[]): CommandPattern[] {
+  const patterns: CommandPattern[] = [];
+  const wrap = (body: string) => new RegExp(`(?<![\\w'])${body}(?![\\w'])[.,!?]*`, 'gi');
+
+  for (const command of commands) {
+    for (const phrase of command.phrases) {
+      patterns.push({ regex: wrap(phrasePattern(phrase)), id: command.id });
+    }
+
+    for (const prefix of command.fieldPhrases || []) {
+      for (const field of fields) {
+        const names = [...new Set([field.label, ...(field.aliases || [])].map(spokenLabel))].filter(Boolean);
+        for (const name of names) {
+          patterns.push({
+            regex: wrap(`${phrasePattern(prefix)}[\\s,]+(?:the[\\s,]+)?${phrasePattern(name)}`),
+            id: command.id,
+            fieldKey: field.key,
+          });
+        }
+      }
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Split a final recognition result into dictation and the commands spoken in it, in order
+ */
+export function parseVoiceCommands(
+  text: string,
+  commands: VoiceCommandDefinition[],
+  fields: VoiceCommandField[] = []
+): VoiceTranscriptPart[] {
+  const patterns = buildPatterns(commands, fields);
+  const parts: VoiceTranscriptPart[] = [];
+  const addDictation = (dictation: string) => {
+    const trimmed = dictation.trim();
+    if (trimmed) parts.push({ type: 'dictation', text: trimmed });
+  };
+
+  let position = 0;
+  while (position < text.length) {
+    // Earliest command in the rest of the text (the longest one when several start there)
+    let best: { pattern: CommandPattern; index: number; match: string } | null = null;
+    for (const pattern of patterns) {
+      pattern.regex.lastIndex = position;
+      const match = pattern.regex.exec(text);
+      if (!match) continue;
+      if (!best || match.index < best.index || (match.index === best.index && match[0].length > best.match.length)) {
+        best = { pattern, index: match.index, match: match[0] };
+      }
+    }
+
+    if (!best) break;
+
+    const { pattern, index, match } = best;
+    addDictation(text.slice(position, index));
+    parts.push({
+      type: 'command',
+      command: { id: pattern.id, phrase: match.replace(/[.,!?]+$/, ''), fieldKey: pattern.fieldKey },
+    });
+
+    // Dictation after "go to <field>" is routed to that field by its spoken label
+    const marker = pattern.id === 'go-to-field' && fields.find((f) => f.key === pattern.fieldKey)?.marker;
+    if (marker) {
+      parts.push({ type: 'dictation', text: marker });
+    }
+
+    position = index + match.length;
+  }
+
+  addDictation(text.slice(position));
+  return parts;
+}
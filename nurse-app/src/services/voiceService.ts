@@ -1,9 +1,24 @@
 /**
  * Voice Recording Service
- * Implements Web Speech API for real-time voice-to-text transcription
+ * Real-time voice-to-text transcription through pluggable speech engines (Web Speech API,
+ * local on-device recognizer), with automatic fallback to the next engine when one fails
+ * The audio is recorded alongside, with the time offset of each transcript segment
+ * Spoken commands ("scratch that", "next field", ...) are taken out of the transcript when enabled
  * Optimized for medical terminology and nursing documentation
  */
 
+import { isEngineFailure, type SpeechEngine, type SpeechEngineId, type SpeechEngineResult } from './speechEngine';
+import { WebSpeechEngine } from './webSpeechEngine';
+import { LocalSpeechEngine } from './localSpeechEngine';
+import { AudioCapture } from './audioCapture';
+import {
+  parseVoiceCommands,
+  type VoiceCommand,
+  type VoiceCommandDefinition,
+  type VoiceCommandField,
+} from './voiceCommands';
+import type { AudioRecording, TranscriptSegment, TranscriptWordTiming } from '../../../shared/types';
+
 export interface VoiceServiceConfig {
   continuous?: boolean;
   interimResults?: boolean;
@@ -51,10 +66,37 @@ export interface VoiceRecognitionCallbacks {
   onSpeechEnd?: () => void;
   onProcessingStart?: () => void;
   onProcessingEnd?: () => void;
+  onEngineChange?: (engine: SpeechEngine) => void;
+  onVoiceCommand?: (command: VoiceCommand) => void;
+}
+
+// Transcript state restored by undo/redo
+interface TranscriptSnapshot {
+  finalTranscript: string;
+  segments: TranscriptSegment[];
+}
+
+/**
+ * Audio of a dictation with its transcript timings
+ */
+export interface CapturedAudio {
+  blob: Blob;
+  recording: AudioRecording;
 }
 
+// Engines in fallback order when no preference is set: on-device first, so audio only
+// goes to the cloud when the local recognizer is unavailable
+const DEFAULT_ENGINE_ORDER: SpeechEngineId[] = ['local', 'web-speech'];
+
+// Engine the nurse picked on this device (tried first)
+const PREFERRED_ENGINE_KEY = 'voize_speech_engine';
+
 class VoiceService {
-  private recognition: SpeechRecognition | null = null;
+  private engines: SpeechEngine[] = [new LocalSpeechEngine(), new WebSpeechEngine()];
+  private engineOrder: SpeechEngineId[] = DEFAULT_ENGINE_ORDER;
+  private preferredEngine = localStorage.getItem(PREFERRED_ENGINE_KEY) as SpeechEngineId | null;
+  private engine: SpeechEngine | null = null;
+  private config: VoiceServiceConfig = {};
   private isInitialized = false;
   private isPaused = false;
   private isRecording = false;
@@ -63,187 +105,336 @@ class VoiceService {
   private interimTranscript = '';
   private callbacks: VoiceRecognitionCallbacks = {};
   private processingTimeout: number | null = null;
+  private audioCapture: AudioCapture | null = null;
+  private segments: TranscriptSegment[] = [];
+  private segmentStartMs: number | null = null;
+  private engineStartMs = 0;
+  private voiceCommands: VoiceCommandDefinition[] = [];
+  private getCommandFields: () => VoiceCommandField[] = () => [];
+  private undoStack: TranscriptSnapshot[] = [];
+  private redoStack: TranscriptSnapshot[] = [];
 
-  constructor() {
-    this.checkBrowserSupport();
+  /**
+   * Engines that can be used in this browser, in fallback order
+   */
+  getSupportedEngines(): SpeechEngine[] {
+    const order = this.preferredEngine && this.engineOrder.includes(this.preferredEngine)
+      ? [this.preferredEngine, ...this.engineOrder.filter((id) => id !== this.preferredEngine)]
+      : this.engineOrder;
+
+    return order
+      .map((id) => this.engines.find((engine) => engine.id === id))
+      .filter((engine): engine is SpeechEngine => !!engine && engine.isSupported());
+  }
+
+  /**
+   * Set the fallback order (engines left out are never used, e.g. ['local'] keeps audio on the device)
+   */
+  setEngineOrder(order: SpeechEngineId[]): void {
+    this.engineOrder = order;
   }
 
   /**
-   * Check if browser supports Web Speech API
+   * Try this engine first from now on (null goes back to the configured order)
    */
-  private checkBrowserSupport(): boolean {
-    const SpeechRecognition =
-      (window as any).SpeechRecognition ||
-      (window as any).webkitSpeechRecognition;
+  setPreferredEngine(id: SpeechEngineId | null): void {
+    this.preferredEngine = id;
+    if (id) {
+      localStorage.setItem(PREFERRED_ENGINE_KEY, id);
+    } else {
+      localStorage.removeItem(PREFERRED_ENGINE_KEY);
+    }
+  }
 
-    return !!SpeechRecognition;
+  getPreferredEngine(): SpeechEngineId | null {
+    return this.preferredEngine;
   }
 
   /**
-   * Detect if a transcript contains medical numeric patterns
-   * Helps prioritize alternatives that contain vital signs, dosages, etc.
+   * Engine currently transcribing (or last used)
    */
-  private isMedicalNumericPattern(transcript: string): boolean {
-    // Common medical numeric patterns
-    const patterns = [
-      /\b\d{2,3}\s*\/\s*\d{2,3}\b/i, // Blood pressure: 120/80
-      /\b\d{2,3}\s+\d{2,3}\b/, // Separated numbers: 120 80
-      /\b\d+\s*(mg|ml|mcg|units?|cc)\b/i, // Dosages: 10 mg
-      /\b\d+\.?\d*\s*degrees?\b/i, // Temperature: 98.6 degrees
-      /\b\d+\s*(bpm|beats)\b/i, // Heart rate: 72 bpm
-      /\bBP\s*\d/i, // BP followed by number
-      /\b(systolic|diastolic)\s*\d/i, // Systolic/Diastolic numbers
-    ];
+  getActiveEngine(): SpeechEngine | null {
+    return this.engine;
+  }
 
-    return patterns.some(pattern => pattern.test(transcript));
+  /**
+   * Listen for these commands in the dictation (an empty list turns commands off)
+   * @param getFields Fields of the open form, for commands that name a field
+   */
+  setVoiceCommands(commands: VoiceCommandDefinition[], getFields: () => VoiceCommandField[] = () => []): void {
+    this.voiceCommands = commands;
+    this.getCommandFields = getFields;
   }
 
   /**
-   * Check if Web Speech API is supported
+   * Whether a dictation is being recorded right now (paused recordings don't count)
+   */
+  isListening(): boolean {
+    return this.isRecording;
+  }
+
+  /**
+   * Check if any speech engine is supported
    */
   isSupported(): boolean {
-    return this.checkBrowserSupport();
+    return this.getSupportedEngines().length > 0;
   }
 
   /**
-   * Initialize the speech recognition service
+   * Initialize the service (the engine is chosen when recording starts)
    */
   initialize(config: VoiceServiceConfig = {}, callbacks: VoiceRecognitionCallbacks = {}): void {
-    if (!this.checkBrowserSupport()) {
+    if (!this.isSupported()) {
       const error: VoiceRecognitionError = {
         type: 'not-supported',
-        message: 'Web Speech API is not supported in this browser. Please use Chrome, Edge, or Safari.',
+        message: 'No speech recognition engine is available. Use Chrome, Edge or Safari, or configure the local speech engine.',
       };
       callbacks.onError?.(error);
       throw new Error(error.message);
     }
 
-    const SpeechRecognition =
-      (window as any).SpeechRecognition ||
-      (window as any).webkitSpeechRecognition;
-
-    const recognition = new SpeechRecognition();
-    this.recognition = recognition;
+    this.config = config;
     this.callbacks = callbacks;
+    this.isInitialized = true;
+  }
 
-    // Configure recognition
-    recognition.continuous = config.continuous ?? true;
-    recognition.interimResults = config.interimResults ?? true;
-    recognition.lang = config.language ?? 'en-US';
-    recognition.maxAlternatives = config.maxAlternatives ?? 1; // Use single best result for faster processing
+  /**
+   * Switch to an engine (the previous one is released)
+   */
+  private useEngine(engine: SpeechEngine): void {
+    if (this.engine === engine) return;
+
+    this.engine?.destroy();
+    engine.initialize(this.config, {
+      onStart: () => {
+        this.isRecording = true;
+        this.isPaused = false;
+        // Engine word timings are relative to when it started listening
+        this.engineStartMs = this.audioOffset();
+        this.callbacks.onStart?.();
+      },
+      onEnd: () => {
+        this.isRecording = false;
+        this.callbacks.onEnd?.();
+      },
+      onResult: (result) => this.handleResult(result),
+      onError: (error) => this.handleEngineError(engine, error),
+      onSoundStart: () => this.callbacks.onSoundStart?.(),
+      onSoundEnd: () => this.callbacks.onSoundEnd?.(),
+      onSpeechStart: () => {
+        this.segmentStartMs ??= this.audioOffset();
+        this.callbacks.onSpeechStart?.();
+      },
+      onSpeechEnd: () => {
+        // Start processing indicator when speech ends (waiting for the final result)
+        this.startProcessing();
+        this.callbacks.onSpeechEnd?.();
+      },
+    });
+    this.engine = engine;
+    this.callbacks.onEngineChange?.(engine);
+  }
+
+  private handleResult({ final, interim, words }: SpeechEngineResult): void {
+    if (final) {
+      const parts = this.voiceCommands.length > 0
+        ? parseVoiceCommands(final, this.voiceCommands, this.getCommandFields())
+        : [{ type: 'dictation' as const, text: final }];
 
-    // Add custom grammars if provided (for medical terminology and numbers)
-    if (config.grammars) {
-      recognition.grammars = config.grammars;
+      for (const part of parts) {
+        if (part.type === 'dictation') {
+          // Word timings only line up when the whole result is dictation
+          this.addDictation(part.text, parts.length === 1 ? words : undefined);
+        } else {
+          this.handleCommand(part.command);
+        }
+      }
+      this.interimTranscript = '';
+      // Stop processing indicator when final result arrives
+      this.stopProcessing();
+      this.callbacks.onTranscriptUpdate?.(this.finalTranscript.trim(), true);
+    } else if (interim) {
+      this.segmentStartMs ??= this.audioOffset();
+      this.interimTranscript = interim;
+      const currentText = (this.finalTranscript + ' ' + interim).trim();
+      this.callbacks.onTranscriptUpdate?.(currentText, false);
     }
+  }
 
-    // Set up event handlers
-    this.setupEventHandlers();
-    this.isInitialized = true;
+  private addDictation(text: string, words?: TranscriptWordTiming[]): void {
+    if (!text.trim()) return;
+
+    this.saveUndoSnapshot();
+    this.redoStack = [];
+    this.addSegment(text, words);
+    this.finalTranscript += `${text.trim()} `;
   }
 
   /**
-   * Set up all event handlers for speech recognition
+   * Apply transcript commands here; the rest are passed on (fields, submit, read back, ...)
    */
-  private setupEventHandlers(): void {
-    if (!this.recognition) return;
+  private handleCommand(command: VoiceCommand): void {
+    if (command.id === 'scratch-that') {
+      const last = this.segments[this.segments.length - 1];
+      const transcript = this.finalTranscript.trimEnd();
+      if (last && transcript.endsWith(last.text)) {
+        this.saveUndoSnapshot();
+        this.redoStack = [];
+        this.segments = this.segments.slice(0, -1);
+        this.finalTranscript = transcript.slice(0, transcript.length - last.text.length).trimEnd();
+        this.finalTranscript += this.finalTranscript ? ' ' : '';
+      }
+    } else if (command.id === 'undo' || command.id === 'redo') {
+      const from = command.id === 'undo' ? this.undoStack : this.redoStack;
+      const to = command.id === 'undo' ? this.redoStack : this.undoStack;
+      const snapshot = from.pop();
+      if (snapshot) {
+        to.push({ finalTranscript: this.finalTranscript, segments: this.segments });
+        this.finalTranscript = snapshot.finalTranscript;
+        this.segments = snapshot.segments;
+      }
+    }
 
-    this.recognition.onstart = () => {
-      this.isRecording = true;
-      this.isPaused = false;
-      this.callbacks.onStart?.();
-    };
+    this.callbacks.onVoiceCommand?.(command);
+  }
 
-    this.recognition.onend = () => {
-      this.isRecording = false;
-      this.callbacks.onEnd?.();
-    };
+  private saveUndoSnapshot(): void {
+    this.undoStack.push({ finalTranscript: this.finalTranscript, segments: this.segments });
+  }
 
-    this.recognition.onresult = (event: SpeechRecognitionEvent) => {
-      let interim = '';
-      let final = '';
+  /**
+   * Offset into the recorded audio right now
+   */
+  private audioOffset(): number {
+    return this.audioCapture?.elapsedMs() ?? 0;
+  }
 
-      for (let i = event.resultIndex; i < event.results.length; i++) {
-        const result = event.results[i];
+  /**
+   * Record when a finished segment was spoken (word timings are exact, otherwise
+   * it spans from the first result or speech start to now)
+   */
+  private addSegment(text: string, words?: TranscriptWordTiming[]): void {
+    const endMs = this.audioOffset();
+    const previousEndMs = this.segments[this.segments.length - 1]?.endMs ?? 0;
+    const segment: TranscriptSegment = {
+      text: text.trim(),
+      startMs: Math.min(this.segmentStartMs ?? previousEndMs, endMs),
+      endMs,
+    };
 
-        // Try to find the best alternative, especially for medical terms and numbers
-        let bestTranscript = result[0].transcript;
-        let highestConfidence = result[0].confidence;
+    if (words && words.length > 0) {
+      segment.words = words.map((word) => ({
+        ...word,
+        startMs: word.startMs + this.engineStartMs,
+        endMs: word.endMs + this.engineStartMs,
+      }));
+      segment.startMs = segment.words[0].startMs;
+      segment.endMs = segment.words[segment.words.length - 1].endMs;
+    }
 
-        // Check all alternatives if available
-        for (let j = 0; j < result.length; j++) {
-          const alternative = result[j];
+    this.segments = [...this.segments, segment];
+    this.segmentStartMs = null;
+  }
 
-          // Prefer alternatives that contain numeric patterns for vital signs
-          if (this.isMedicalNumericPattern(alternative.transcript)) {
-            bestTranscript = alternative.transcript;
-            break;
-          }
+  /**
+   * Record audio alongside recognition (continues the recording after a stop)
+   */
+  private startAudioCapture(): void {
+    if (this.audioCapture) {
+      this.audioCapture.resume();
+      return;
+    }
+    if (!AudioCapture.isSupported()) return;
+
+    const capture = new AudioCapture();
+    this.audioCapture = capture;
+    capture.start().catch((error) => {
+      // Recognition still works without the audio
+      console.warn('Audio capture unavailable:', (error as Error).message);
+      if (this.audioCapture === capture) {
+        this.audioCapture = null;
+      }
+    });
+  }
 
-          // Otherwise use highest confidence
-          if (alternative.confidence > highestConfidence) {
-            bestTranscript = alternative.transcript;
-            highestConfidence = alternative.confidence;
-          }
-        }
+  private discardAudioCapture(): void {
+    this.audioCapture?.discard();
+    this.audioCapture = null;
+    this.segments = [];
+    this.segmentStartMs = null;
+    this.undoStack = [];
+    this.redoStack = [];
+  }
 
-        if (result.isFinal) {
-          final += bestTranscript + ' ';
-        } else {
-          interim += bestTranscript;
-        }
-      }
+  private handleEngineError(engine: SpeechEngine, error: VoiceRecognitionError): void {
+    // Ignore 'no-speech' errors if we already have some transcript
+    // This prevents the common timeout issue when user pauses between words
+    if (error.type === 'no-speech' && this.finalTranscript.trim().length > 0) {
+      console.log('No speech detected but continuing (already have transcript)');
+      return;
+    }
 
-      if (final) {
-        this.finalTranscript += final;
-        this.interimTranscript = '';
-        // Stop processing indicator when final result arrives
+    // Keep recording on the next engine (the transcript so far is kept)
+    if (isEngineFailure(error) && engine === this.engine && (this.isRecording || this.isPaused)) {
+      const next = this.getFallbackEngines(engine);
+      if (next.length > 0) {
+        console.warn(`${engine.name} failed (${error.message}); falling back`);
+        const wasPaused = this.isPaused;
         this.stopProcessing();
-        this.callbacks.onTranscriptUpdate?.(this.finalTranscript.trim(), true);
-      } else if (interim) {
-        this.interimTranscript = interim;
-        const currentText = (this.finalTranscript + ' ' + interim).trim();
-        this.callbacks.onTranscriptUpdate?.(currentText, false);
-      }
-    };
-
-    this.recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
-      // Ignore 'no-speech' errors if we already have some transcript
-      // This prevents the common timeout issue when user pauses between words
-      if (event.error === 'no-speech' && this.finalTranscript.trim().length > 0) {
-        console.log('No speech detected but continuing (already have transcript)');
+        this.startWithFallback(next, wasPaused);
         return;
       }
+    }
 
-      // Reset recording and processing state on error
-      this.isRecording = false;
-      this.stopProcessing();
+    // Reset recording and processing state on error
+    this.isRecording = false;
+    this.audioCapture?.pause();
+    this.stopProcessing();
+    this.callbacks.onError?.(error);
+  }
 
-      const error = this.handleRecognitionError(event);
-      this.callbacks.onError?.(error);
-    };
+  /**
+   * Supported engines after `engine` in the fallback order
+   */
+  private getFallbackEngines(engine: SpeechEngine): SpeechEngine[] {
+    const supported = this.getSupportedEngines();
+    return supported.slice(supported.indexOf(engine) + 1);
+  }
 
-    this.recognition.onnomatch = () => {
-      console.log('No speech was recognized');
-    };
+  /**
+   * Start the first engine in `candidates` that is available and starts; unless `prepareOnly`,
+   * in which case the engine is selected but not started (recording is paused)
+   */
+  private async startWithFallback(candidates: SpeechEngine[], prepareOnly = false): Promise<void> {
+    let lastError: VoiceRecognitionError | null = null;
 
-    this.recognition.onsoundstart = () => {
-      this.callbacks.onSoundStart?.();
-    };
+    for (const engine of candidates) {
+      if (!(await engine.isAvailable())) {
+        lastError = { type: 'network', message: `${engine.name} is not available.` };
+        continue;
+      }
 
-    this.recognition.onsoundend = () => {
-      this.callbacks.onSoundEnd?.();
-    };
+      this.useEngine(engine);
+      if (prepareOnly) return;
 
-    this.recognition.onspeechstart = () => {
-      this.callbacks.onSpeechStart?.();
-    };
+      try {
+        await engine.start();
+        return;
+      } catch (error) {
+        lastError = (error as VoiceRecognitionError).type
+          ? (error as VoiceRecognitionError)
+          : { type: 'unknown', message: (error as Error).message, originalError: error as Error };
+        console.warn(`Failed to start ${engine.name}:`, lastError.message);
+        if (!isEngineFailure(lastError)) break;
+      }
+    }
 
-    this.recognition.onspeechend = () => {
-      // Start processing indicator when speech ends (waiting for network response)
-      this.startProcessing();
-      this.callbacks.onSpeechEnd?.();
-    };
+    this.isRecording = false;
+    this.isPaused = false;
+    this.audioCapture?.pause();
+    this.callbacks.onError?.(
+      lastError || { type: 'not-supported', message: 'No speech recognition engine is available.' }
+    );
   }
 
   /**
@@ -283,47 +474,7 @@ class VoiceService {
   }
 
   /**
-   * Handle recognition errors and convert to structured error format
-   */
-  private handleRecognitionError(event: SpeechRecognitionErrorEvent): VoiceRecognitionError {
-    let errorType: VoiceRecognitionError['type'] = 'unknown';
-    let message = 'An unknown error occurred';
-
-    switch (event.error) {
-      case 'not-allowed':
-      case 'permission-denied':
-        errorType = 'permission-denied';
-        message = 'Microphone permission denied. Please allow microphone access to use voice recording.';
-        break;
-      case 'no-speech':
-        errorType = 'no-speech';
-        message = 'No speech was detected. Please try again.';
-        break;
-      case 'aborted':
-        errorType = 'aborted';
-        message = 'Speech recognition was aborted.';
-        break;
-      case 'audio-capture':
-        errorType = 'audio-capture';
-        message = 'No microphone was found. Please ensure a microphone is connected.';
-        break;
-      case 'network':
-        errorType = 'network';
-        message = 'Network error occurred. Please check your internet connection.';
-        break;
-      default:
-        message = `Speech recognition error: ${event.error}`;
-    }
-
-    return {
-      type: errorType,
-      message,
-      originalError: new Error(event.error),
-    };
-  }
-
-  /**
-   * Start recording
+   * Start recording on the first available engine
    * Note: Transcripts are preserved across recording sessions within the same workflow.
    * Call clearTranscripts() explicitly to reset (on submit, cancel, or workflow change).
    */
@@ -332,10 +483,6 @@ class VoiceService {
       throw new Error('VoiceService not initialized. Call initialize() first.');
     }
 
-    if (!this.recognition) {
-      throw new Error('Speech recognition not available');
-    }
-
     // Prevent starting if already recording
     if (this.isRecording) {
       console.warn('Speech recognition is already running');
@@ -347,23 +494,18 @@ class VoiceService {
     // Transcripts are cleared explicitly via clearTranscripts() on submit/cancel/workflow change
     this.interimTranscript = '';
     this.isPaused = false;
+    this.segmentStartMs = null;
+    this.startAudioCapture();
 
-    try {
-      // The error event handler will catch any permission or other errors
-      this.recognition.start();
-    } catch (error) {
-      // Handle the case where start() is called on already started recognition
-      console.error('Failed to start recognition:', error);
-      this.isRecording = false;
-      throw error;
-    }
+    // Each recording tries the preferred engines again (e.g., Wi-Fi may be back)
+    this.startWithFallback(this.getSupportedEngines());
   }
 
   /**
    * Stop recording
    */
   stopRecording(): void {
-    if (!this.recognition) return;
+    if (!this.engine) return;
 
     if (!this.isRecording && !this.isPaused) {
       console.warn('Speech recognition is not running');
@@ -373,14 +515,15 @@ class VoiceService {
     this.isPaused = false;
     this.isRecording = false;
     this.stopProcessing();
-    this.recognition.stop();
+    this.audioCapture?.pause();
+    this.engine.stop();
   }
 
   /**
    * Pause recording (stop but maintain state)
    */
   pauseRecording(): void {
-    if (!this.recognition) return;
+    if (!this.engine) return;
 
     if (!this.isRecording) {
       console.warn('Cannot pause - speech recognition is not running');
@@ -389,14 +532,15 @@ class VoiceService {
 
     this.isPaused = true;
     this.isRecording = false;
-    this.recognition.stop();
+    this.audioCapture?.pause();
+    this.engine.stop();
   }
 
   /**
    * Resume recording after pause
    */
   resumeRecording(): void {
-    if (!this.recognition) {
+    if (!this.engine) {
       throw new Error('Speech recognition not available');
     }
 
@@ -411,16 +555,20 @@ class VoiceService {
     }
 
     this.isPaused = false;
+    this.audioCapture?.resume();
 
-    try {
-      // The error event handler will catch any permission or other errors
-      this.recognition.start();
-    } catch (error) {
+    const engine = this.engine;
+    engine.start().catch((error: VoiceRecognitionError) => {
       console.error('Failed to resume recognition:', error);
-      this.isRecording = false;
-      this.isPaused = false;
-      throw error;
-    }
+      const next = this.getFallbackEngines(engine);
+      if (isEngineFailure(error) && next.length > 0) {
+        this.startWithFallback(next);
+      } else {
+        this.isRecording = false;
+        this.audioCapture?.pause();
+        this.callbacks.onError?.(error);
+      }
+    });
   }
 
   /**
@@ -445,23 +593,52 @@ class VoiceService {
   }
 
   /**
-   * Clear all transcripts
+   * Finish the audio recording and hand it over with its transcript segments
+   * (null if nothing was recorded). The next recording starts fresh.
+   */
+  async takeAudioRecording(): Promise<CapturedAudio | null> {
+    const capture = this.audioCapture;
+    const segments = this.segments;
+    this.audioCapture = null;
+    this.segments = [];
+    this.segmentStartMs = null;
+
+    if (!capture?.isActive) {
+      capture?.discard();
+      return null;
+    }
+
+    const durationMs = capture.elapsedMs();
+    const blob = await capture.stop();
+    if (blob.size === 0) return null;
+
+    return {
+      blob,
+      recording: {
+        mimeType: blob.type,
+        durationMs,
+        recordedAt: capture.recordedAt,
+        segments,
+      },
+    };
+  }
+
+  /**
+   * Clear all transcripts (and the audio recorded with them)
    */
   clearTranscripts(): void {
     this.finalTranscript = '';
     this.interimTranscript = '';
+    this.discardAudioCapture();
   }
 
   /**
    * Clean up resources
    */
   destroy(): void {
-    if (this.recognition) {
-      if (this.isRecording) {
-        this.recognition.stop();
-      }
-      this.recognition = null;
-    }
+    this.engine?.destroy();
+    this.engine = null;
+    this.discardAudioCapture();
     this.stopProcessing();
     this.isInitialized = false;
     this.isRecording = false;
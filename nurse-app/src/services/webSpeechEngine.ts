@@ -0,0 +1,206 @@
+/**
+ * Web Speech API Engine
+ * Browser speech recognition (Chrome, Edge, Safari). Audio is sent to the browser
+ * vendor's cloud service, so it needs a network connection.
+ */
+
+import type { VoiceRecognitionError, VoiceServiceConfig } from './voiceService';
+import type { SpeechEngine, SpeechEngineCallbacks } from './speechEngine';
+
+type SpeechRecognitionConstructor = new () => SpeechRecognition;
+
+// Chrome and Safari still only ship the prefixed constructor
+type SpeechRecognitionWindow = Window & {
+  SpeechRecognition?: SpeechRecognitionConstructor;
+  webkitSpeechRecognition?: SpeechRecognitionConstructor;
+};
+
+const getSpeechRecognition = (): SpeechRecognitionConstructor | undefined => {
+  const speechWindow = window as SpeechRecognitionWindow;
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+};
+
+/**
+ * Detect if a transcript contains medical numeric patterns
+ * Helps prioritize alternatives that contain vital signs, dosages, etc.
+ */
+function isMedicalNumericPattern(transcript: string): boolean {
+  // Common medical numeric patterns
+  const patterns = [
+    /\b\d{2,3}\s*\/\s*\d{2,3}\b/i, // Blood pressure: 120/80
+    /\b\d{2,3}\s+\d{2,3}\b/, // Separated numbers: 120 80
+    /\b\d+\s*(mg|ml|mcg|units?|cc)\b/i, // Dosages: 10 mg
+    /\b\d+\.?\d*\s*degrees?\b/i, // Temperature: 98.6 degrees
+    /\b\d+\s*(bpm|beats)\b/i, // Heart rate: 72 bpm
+    /\bBP\s*\d/i, // BP followed by number
+    /\b(systolic|diastolic)\s*\d/i, // Systolic/Diastolic numbers
+  ];
+
+  return patterns.some(pattern => pattern.test(transcript));
+}
+
+/**
+ * Convert recognition errors to the structured error format
+ */
+function toRecognitionError(event: SpeechRecognitionErrorEvent): VoiceRecognitionError {
+  let errorType: VoiceRecognitionError['type'] = 'unknown';
+  let message = 'An unknown error occurred';
+
+  switch (event.error) {
+    case 'not-allowed':
+    case 'permission-denied':
+      errorType = 'permission-denied';
+      message = 'Microphone permission denied. Please allow microphone access to use voice recording.';
+      break;
+    case 'no-speech':
+      errorType = 'no-speech';
+      message = 'No speech was detected. Please try again.';
+      break;
+    case 'aborted':
+      errorType = 'aborted';
+      message = 'Speech recognition was aborted.';
+      break;
+    case 'audio-capture':
+      errorType = 'audio-capture';
+      message = 'No microphone was found. Please ensure a microphone is connected.';
+      break;
+    case 'network':
+      errorType = 'network';
+      message = 'Network error occurred. Please check your internet connection.';
+      break;
+    case 'service-not-allowed':
+      errorType = 'not-supported';
+      message = 'The browser speech recognition service is not available.';
+      break;
+    default:
+      message = `Speech recognition error: ${event.error}`;
+  }
+
+  return {
+    type: errorType,
+    message,
+    originalError: new Error(event.error),
+  };
+}
+
+export class WebSpeechEngine implements SpeechEngine {
+  readonly id = 'web-speech' as const;
+  readonly name = 'Browser speech recognition (cloud)';
+  readonly sendsAudioOffDevice = true;
+
+  private recognition: SpeechRecognition | null = null;
+  private callbacks: SpeechEngineCallbacks = {};
+
+  isSupported(): boolean {
+    return !!getSpeechRecognition();
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.isSupported() && navigator.onLine;
+  }
+
+  initialize(config: VoiceServiceConfig, callbacks: SpeechEngineCallbacks): void {
+    const SpeechRecognition = getSpeechRecognition();
+    if (!SpeechRecognition) {
+      throw new Error('Web Speech API is not supported in this browser');
+    }
+
+    const recognition = new SpeechRecognition();
+    this.recognition = recognition;
+    this.callbacks = callbacks;
+
+    // Configure recognition
+    recognition.continuous = config.continuous ?? true;
+    recognition.interimResults = config.interimResults ?? true;
+    recognition.lang = config.language ?? 'en-US';
+    recognition.maxAlternatives = config.maxAlternatives ?? 1; // Use single best result for faster processing
+
+    // Add custom grammars if provided (for medical terminology and numbers)
+    if (config.grammars) {
+      recognition.grammars = config.grammars;
+    }
+
+    this.setupEventHandlers(recognition);
+  }
+
+  /**
+   * Set up all event handlers for speech recognition
+   */
+  private setupEventHandlers(recognition: SpeechRecognition): void {
+    recognition.onstart = () => this.callbacks.onStart?.();
+    recognition.onend = () => this.callbacks.onEnd?.();
+
+    recognition.onresult = (event: SpeechRecognitionEvent) => {
+      let interim = '';
+      let final = '';
+
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+
+        // Try to find the best alternative, especially for medical terms and numbers
+        let bestTranscript = result[0].transcript;
+        let highestConfidence = result[0].confidence;
+
+        // Check all alternatives if available
+        for (let j = 0; j < result.length; j++) {
+          const alternative = result[j];
+
+          // Prefer alternatives that contain numeric patterns for vital signs
+          if (isMedicalNumericPattern(alternative.transcript)) {
+            bestTranscript = alternative.transcript;
+            break;
+          }
+
+          // Otherwise use highest confidence
+          if (alternative.confidence > highestConfidence) {
+            bestTranscript = alternative.transcript;
+            highestConfidence = alternative.confidence;
+          }
+        }
+
+        if (result.isFinal) {
+          final += bestTranscript + ' ';
+        } else {
+          interim += bestTranscript;
+        }
+      }
+
+      this.callbacks.onResult?.({ final, interim });
+    };
+
+    recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+      this.callbacks.onError?.(toRecognitionError(event));
+    };
+
+    recognition.onnomatch = () => {
+      console.log('No speech was recognized');
+    };
+
+    recognition.onsoundstart = () => this.callbacks.onSoundStart?.();
+    recognition.onsoundend = () => this.callbacks.onSoundEnd?.();
+    recognition.onspeechstart = () => this.callbacks.onSpeechStart?.();
+    recognition.onspeechend = () => this.callbacks.onSpeechEnd?.();
+  }
+
+  async start(): Promise<void> {
+    if (!this.recognition) {
+      throw new Error('Speech recognition not available');
+    }
+
+    // Permission and network errors arrive through onerror
+    this.recognition.start();
+  }
+
+  stop(): void {
+    this.recognition?.stop();
+  }
+
+  destroy(): void {
+    if (this.recognition) {
+      this.recognition.onend = null;
+      this.recognition.abort();
+      this.recognition = null;
+    }
+    this.callbacks = {};
+  }
+}
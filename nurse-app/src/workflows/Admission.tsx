@@ -0,0 +1,132 @@
+/**
+ * Admission Workflow Component
+ * Captures admission intake data (diagnosis, allergies, home meds, history) with voice integration
+ */
+
+import React, { useMemo } from 'react';
+import { type WorkflowBaseProps, FormActions } from './WorkflowBase';
+import { SchemaFields } from './SchemaFields';
+import { useSchemaForm } from '../hooks/useSchemaForm';
+import { parseAllergyList, parseMedicationList, parseSpokenList } from './transcriptParser';
+import { toStructuredData } from '../../../shared/services/workflowSchemas';
+
+export const Admission: React.FC<WorkflowBaseProps> = ({
+  transcript,
+  onSubmit,
+  onCancel,
+}) => {
+  const form = useSchemaForm('admission', transcript);
+  const { formData } = form;
+  const allergies = String(formData.allergies);
+
+  // Parse the spoken home medication list for preview and structured submission
+  const parsedMedications = useMemo(
+    () => parseMedicationList(String(formData.currentMedications)),
+    [formData.currentMedications]
+  );
+
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+
+    if (!form.validate()) return;
+
+    const structuredData = toStructuredData('admission', formData, {
+      allergies: parseAllergyList(allergies),
+      currentMedications: parsedMedications,
+      medicalHistory: parseSpokenList(String(formData.medicalHistory)),
+    });
+
+    // Submit the data with transcript
+    onSubmit({
+      ...formData,
+      structuredData,
+      transcript,
+      timestamp: new Date().toISOString(),
+      workflowType: 'admission',
+    });
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Admission</h2>
+        <p className="text-gray-600">
+          Document admission intake. Fields highlighted in blue were auto-filled from your voice
+          transcript.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit}>
+        {/* Voice Recording Tips */}
+        <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+          <p className="text-sm text-blue-900 font-semibold mb-1">
+            💡 Voice Recording Tip:
+          </p>
+          <p className="text-sm text-blue-800">
+            Say each label before its content. Example: "Admitting diagnosis pneumonia. Chief complaint shortness of breath for three days. Admitted from the emergency department. Allergies penicillin. Home medications metoprolol 25 mg twice daily and aspirin 81 mg daily. Past medical history hypertension and COPD."
+          </p>
+        </div>
+
+        {/* Segmentation Warnings */}
+        {form.segmentationWarnings.length > 0 && (
+          <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <p className="text-sm text-yellow-800 font-semibold mb-1">Transcript Notes:</p>
+            <ul className="text-sm text-yellow-700 list-disc list-inside space-y-1">
+              {form.segmentationWarnings.map((warning, i) => (
+                <li key={i}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <SchemaFields
+          form={form}
+          sectionExtras={{
+            Allergies: allergies && parseAllergyList(allergies)[0] !== 'NKDA' && (
+              <div className="p-3 bg-red-50 border border-red-300 rounded-lg">
+                <p className="text-sm text-red-800 font-semibold">
+                  ⚠️ Allergies: {parseAllergyList(allergies).join(', ')}
+                </p>
+              </div>
+            ),
+            'Home Medications': parsedMedications.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm border border-gray-200 rounded-lg">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-semibold text-gray-700">Medication</th>
+                      <th className="px-3 py-2 text-left font-semibold text-gray-700">Dose</th>
+                      <th className="px-3 py-2 text-left font-semibold text-gray-700">Route</th>
+                      <th className="px-3 py-2 text-left font-semibold text-gray-700">Frequency</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {parsedMedications.map((med, i) => (
+                      <tr key={i} className="border-t border-gray-200">
+                        <td className="px-3 py-2 text-gray-900">{med.name}</td>
+                        <td className="px-3 py-2 text-gray-700">{med.dose || '—'}</td>
+                        <td className="px-3 py-2 text-gray-700">{med.route}</td>
+                        <td className="px-3 py-2 text-gray-700">{med.frequency || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="mt-1 text-xs text-gray-500">
+                  Parsed from the medication list above. Edit the text to correct any entry.
+                </p>
+              </div>
+            ),
+          }}
+        />
+
+        <FormActions
+          onSubmit={handleSubmit}
+          onCancel={onCancel}
+          submitLabel="Record Admission"
+        />
+      </form>
+    </div>
+  );
+};
+
+export default Admission;
@@ -0,0 +1,105 @@
+/**
+ * Custom Workflow Component
+ * Renders a form from a custom workflow template, filled from dictation by field label
+ */
+
+import React from 'react';
+import type { CustomWorkflowTemplate } from '../../../shared/types';
+import { toCustomFormData } from '../../../shared/services/customWorkflowTemplates';
+import { type WorkflowBaseProps, FormActions } from './WorkflowBase';
+import { SchemaFields } from './SchemaFields';
+import { useSchemaForm } from '../hooks/useSchemaForm';
+
+interface CustomWorkflowProps extends WorkflowBaseProps {
+  template: CustomWorkflowTemplate;
+}
+
+export const CustomWorkflow: React.FC<CustomWorkflowProps> = ({
+  template,
+  transcript,
+  onSubmit,
+  onCancel,
+}) => {
+  // Custom templates are filled by their spoken labels
+  const form = useSchemaForm(template.type, transcript);
+
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+
+    if (!form.validate()) return;
+
+    onSubmit({
+      structuredData: { customForm: toCustomFormData(template, form.formData) },
+      transcript,
+      timestamp: new Date().toISOString(),
+      workflowType: template.type,
+    });
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">
+          {template.icon && <span className="mr-2">{template.icon}</span>}
+          {template.name}
+        </h2>
+        <p className="text-gray-600">
+          {template.description && `${template.description} `}
+          Fields highlighted in blue were auto-filled from your voice transcript.
+        </p>
+        <p className="text-xs text-gray-500 mt-1">
+          Template version {template.version}
+          {template.updatedBy && ` by ${template.updatedBy}`}
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit}>
+        {template.promptGuide.length > 0 && (
+          <div className="mb-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+            <h3 className="font-semibold text-blue-900 mb-2">Documentation Guide</h3>
+            <ul className="text-sm text-blue-800 list-disc list-inside space-y-1">
+              {template.promptGuide.map((prompt, i) => (
+                <li key={i}>{prompt}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Segmentation Warnings */}
+        {form.segmentationWarnings.length > 0 && (
+          <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <p className="text-sm text-yellow-800 font-semibold mb-1">Transcript Notes:</p>
+            <ul className="text-sm text-yellow-700 list-disc list-inside space-y-1">
+              {form.segmentationWarnings.map((warning, i) => (
+                <li key={i}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <SchemaFields
+          form={form}
+          defaultSection={template.name}
+          fieldExtras={Object.fromEntries(
+            template.fields
+              .filter((field) => field.spokenLabels)
+              .map((field) => [
+                field.key,
+                <p className="-mt-3 mb-4 text-xs text-gray-500">
+                  Say "{field.spokenLabels?.[0]}" before dictating this field
+                </p>,
+              ])
+          )}
+        />
+
+        <FormActions
+          onSubmit={handleSubmit}
+          onCancel={onCancel}
+          submitLabel={`Submit ${template.name}`}
+        />
+      </form>
+    </div>
+  );
+};
+
+export default CustomWorkflow;
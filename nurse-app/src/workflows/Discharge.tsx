@@ -0,0 +1,282 @@
+/**
+ * Discharge Workflow Component
+ * Captures discharge disposition, medication reconciliation, follow-up and
+ * teach-back patient education with voice integration
+ */
+
+import React, { useState, useMemo } from 'react';
+import { type WorkflowBaseProps, FormActions } from './WorkflowBase';
+import { SchemaFields } from './SchemaFields';
+import { useSchemaForm } from '../hooks/useSchemaForm';
+import { useApp } from '../contexts/AppContext';
+import {
+  parseEducationTopics,
+  parseMedicationList,
+  parseSpokenList,
+  parseTeachBack,
+} from './transcriptParser';
+import {
+  getAdmissionMedications,
+  getAdministeredMedications,
+  reconcileMedications,
+} from '../services/medicationReconciliation';
+import { toStructuredData } from '../../../shared/services/workflowSchemas';
+import type {
+  MedicationReconciliationStatus,
+  PatientEducationItem,
+  StructuredData,
+  TeachBackStatus,
+} from '../../../shared/types';
+
+const teachBackOptions: { value: TeachBackStatus; label: string }[] = [
+  { value: 'verbalized', label: 'Verbalized' },
+  { value: 'demonstrated', label: 'Demonstrated' },
+  { value: 'needs-reinforcement', label: 'Needs Reinforcement' },
+  { value: 'not-assessed', label: 'Not Assessed' },
+];
+
+// Topics every discharge must cover, whether or not they were dictated
+const REQUIRED_EDUCATION_TOPICS = ['Medications', 'Warning Signs', 'Follow-up Care'];
+
+const reconciliationStyles: Record<MedicationReconciliationStatus, { label: string; className: string }> = {
+  continued: { label: 'Continue', className: 'bg-green-100 text-green-800' },
+  changed: { label: 'Changed', className: 'bg-yellow-100 text-yellow-800' },
+  new: { label: 'New', className: 'bg-blue-100 text-blue-800' },
+  discontinued: { label: 'Stop Taking', className: 'bg-red-100 text-red-800' },
+  'inpatient-only': { label: 'Hospital Only', className: 'bg-gray-100 text-gray-700' },
+};
+
+export const Discharge: React.FC<WorkflowBaseProps> = ({
+  transcript,
+  onSubmit,
+  onCancel,
+}) => {
+  const { entries, selectedPatient } = useApp();
+
+  const form = useSchemaForm('discharge', transcript);
+  const { formData } = form;
+  const patientEducation = String(formData.patientEducation);
+  const [teachBackOverrides, setTeachBackOverrides] = useState<Record<string, TeachBackStatus>>({});
+
+  // Compare dictated discharge meds with the admission home med list and the MAR
+  const dischargeMedications = useMemo(
+    () => parseMedicationList(String(formData.dischargeMedications)),
+    [formData.dischargeMedications]
+  );
+
+  const homeMedications = useMemo(
+    () => (selectedPatient ? getAdmissionMedications(entries, selectedPatient.id) : []),
+    [entries, selectedPatient]
+  );
+
+  const administeredMedications = useMemo(
+    () => (selectedPatient ? getAdministeredMedications(entries, selectedPatient.id) : []),
+    [entries, selectedPatient]
+  );
+
+  const reconciliation = useMemo(
+    () => reconcileMedications(dischargeMedications, homeMedications, administeredMedications),
+    [dischargeMedications, homeMedications, administeredMedications]
+  );
+
+  // Education checklist: required topics plus any dictated topics
+  const educationItems = useMemo<PatientEducationItem[]>(() => {
+    const dictatedTopics = parseEducationTopics(patientEducation);
+    const dictatedStatus = parseTeachBack(patientEducation) || 'not-assessed';
+    const topics = [
+      ...REQUIRED_EDUCATION_TOPICS,
+      ...dictatedTopics.filter((topic) => !REQUIRED_EDUCATION_TOPICS.includes(topic)),
+    ];
+
+    return topics.map((topic) => ({
+      topic,
+      teachBack:
+        teachBackOverrides[topic] ||
+        (dictatedTopics.includes(topic) ? dictatedStatus : 'not-assessed'),
+    }));
+  }, [patientEducation, teachBackOverrides]);
+
+  const incompleteEducation = educationItems.filter(
+    (item) => item.teachBack === 'not-assessed' || item.teachBack === 'needs-reinforcement'
+  );
+
+  const handleTeachBackChange = (topic: string, status: TeachBackStatus) => {
+    setTeachBackOverrides((prev) => ({ ...prev, [topic]: status }));
+  };
+
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+
+    if (!form.validate()) return;
+
+    // Reconciliation and teach-back results are reviewed on screen rather than entered as fields
+    const { dischargeData } = toStructuredData('discharge', formData, {
+      dischargeMedications,
+      followUpAppointments: parseSpokenList(String(formData.followUpAppointments)),
+      patientEducation: educationItems.map((item) => item.topic),
+    });
+    const structuredData: StructuredData = {
+      dischargeData: dischargeData && { ...dischargeData, medicationReconciliation: reconciliation, educationItems },
+    };
+
+    // Submit the data with transcript
+    onSubmit({
+      ...formData,
+      structuredData,
+      transcript,
+      timestamp: new Date().toISOString(),
+      workflowType: 'discharge',
+    });
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Discharge</h2>
+        <p className="text-gray-600">
+          Document discharge, reconcile medications and confirm patient education. Fields
+          highlighted in blue were auto-filled from your voice transcript.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit}>
+        {/* Voice Recording Tips */}
+        <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+          <p className="text-sm text-blue-900 font-semibold mb-1">
+            💡 Voice Recording Tip:
+          </p>
+          <p className="text-sm text-blue-800">
+            Say each label before its content. Example: "Disposition home with home health. Discharge medications metoprolol 50 mg twice daily and aspirin 81 mg daily. Follow up cardiology in one week. Patient education medications and warning signs, patient verbalized understanding. Discharge instructions no heavy lifting for two weeks."
+          </p>
+        </div>
+
+        {/* Segmentation Warnings */}
+        {form.segmentationWarnings.length > 0 && (
+          <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <p className="text-sm text-yellow-800 font-semibold mb-1">Transcript Notes:</p>
+            <ul className="text-sm text-yellow-700 list-disc list-inside space-y-1">
+              {form.segmentationWarnings.map((warning, i) => (
+                <li key={i}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <SchemaFields
+          form={form}
+          sectionExtras={{
+            Disposition: formData.dischargeDisposition === 'ama' && (
+              <div className="p-3 bg-yellow-50 border border-yellow-300 rounded-lg">
+                <p className="text-sm text-yellow-800 font-semibold">
+                  ⚠️ Patient leaving against medical advice. Notify provider and document risks discussed.
+                </p>
+              </div>
+            ),
+            'Medication Reconciliation': (
+              <>
+                {homeMedications.length === 0 && (
+                  <p className="text-sm text-gray-500">
+                    No admission home medication list on file for this patient. Discharge medications are
+                    compared with medications given during the stay only.
+                  </p>
+                )}
+
+                {reconciliation.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full text-sm border border-gray-200 rounded-lg">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-3 py-2 text-left font-semibold text-gray-700">Medication</th>
+                          <th className="px-3 py-2 text-left font-semibold text-gray-700">Home</th>
+                          <th className="px-3 py-2 text-left font-semibold text-gray-700">Discharge</th>
+                          <th className="px-3 py-2 text-left font-semibold text-gray-700">Status</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {reconciliation.map((item, i) => (
+                          <tr key={i} className="border-t border-gray-200">
+                            <td className="px-3 py-2 text-gray-900">
+                              {item.medicationName}
+                              {item.givenDuringStay && (
+                                <span className="ml-2 text-xs text-gray-500">(given during stay)</span>
+                              )}
+                            </td>
+                            <td className="px-3 py-2 text-gray-700">
+                              {item.homeMedication
+                                ? [item.homeMedication.dose, item.homeMedication.route, item.homeMedication.frequency]
+                                    .filter(Boolean)
+                                    .join(' ')
+                                : '—'}
+                            </td>
+                            <td className="px-3 py-2 text-gray-700">
+                              {item.dischargeMedication
+                                ? [item.dischargeMedication.dose, item.dischargeMedication.route, item.dischargeMedication.frequency]
+                                    .filter(Boolean)
+                                    .join(' ')
+                                : '—'}
+                            </td>
+                            <td className="px-3 py-2">
+                              <span
+                                className={`px-2 py-1 rounded text-xs font-semibold ${reconciliationStyles[item.status].className}`}
+                              >
+                                {reconciliationStyles[item.status].label}
+                              </span>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            ),
+            'Patient Education': (
+              <>
+                <div className="space-y-2">
+                  {educationItems.map((item) => (
+                    <div
+                      key={item.topic}
+                      className="flex items-center justify-between p-2 bg-gray-50 border border-gray-200 rounded-lg"
+                    >
+                      <span className="text-sm text-gray-900">
+                        {item.teachBack === 'verbalized' || item.teachBack === 'demonstrated' ? '☑' : '☐'}{' '}
+                        {item.topic}
+                      </span>
+                      <select
+                        value={item.teachBack}
+                        onChange={(e) => handleTeachBackChange(item.topic, e.target.value as TeachBackStatus)}
+                        className="text-sm px-2 py-1 border border-gray-300 rounded"
+                      >
+                        {teachBackOptions.map((opt) => (
+                          <option key={opt.value} value={opt.value}>
+                            {opt.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+
+                {incompleteEducation.length > 0 && (
+                  <div className="p-3 bg-yellow-50 border border-yellow-300 rounded-lg">
+                    <p className="text-sm text-yellow-800 font-semibold">
+                      ⚠️ Teach-back not confirmed: {incompleteEducation.map((item) => item.topic).join(', ')}
+                    </p>
+                  </div>
+                )}
+              </>
+            ),
+          }}
+        />
+
+        <FormActions
+          onSubmit={handleSubmit}
+          onCancel={onCancel}
+          submitLabel="Record Discharge"
+        />
+      </form>
+    </div>
+  );
+};
+
+export default Discharge;
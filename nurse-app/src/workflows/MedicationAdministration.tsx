@@ -3,42 +3,111 @@
  * Captures medication administration data with voice integration
  */
 
-import React, { useState, useEffect } from 'react';
-import {
-  type WorkflowBaseProps,
-  FieldGroup,
-  FormField,
-  FormActions,
-  validateForm,
-  type WorkflowField,
-} from './WorkflowBase';
-import { useFieldTargetedTranscript } from '../hooks/useFieldTargetedTranscript';
+import React, { useMemo, useState } from 'react';
+import { type WorkflowBaseProps, FieldGroup, FormActions } from './WorkflowBase';
+import { SchemaFields } from './SchemaFields';
+import { useSchemaForm } from '../hooks/useSchemaForm';
 import { useApp } from '../contexts/AppContext';
+import { parseMedication } from '../services/parseService';
+import { getFormularyCoding, searchFormulary } from '../../../shared/services/formulary';
+import { getWorkflowField } from '../../../shared/services/workflowSchemas';
+import type { Medication, MedicationRoute } from '../../../shared/types';
 
-interface MedicationAdministrationData {
-  patientId: string;
-  medicationName: string;
-  dosage: string;
-  route: string;
-  timeAdministered: string;
-  patientResponse: string;
-  adverseReaction: string;
+/**
+ * One drug from a multi-medication dictation, as shown for review
+ */
+interface MedicationRow {
+  name: string;
+  dose: string;
+  route: MedicationRoute | '';
+  site: string;
+  time: string; // HH:MM
+  reason: string;
+  isPRN: boolean;
+  frequency?: string;
+  /** Fields the parser was unsure about */
+  uncertain: string[];
+
+  /** Formulary drugs to offer when the name was ambiguous */
+  suggestions: string[];
 }
 
-const routeOptions = [
-  { value: 'PO', label: 'PO (Oral)' },
-  { value: 'IV', label: 'IV (Intravenous)' },
-  { value: 'IM', label: 'IM (Intramuscular)' },
-  { value: 'SQ', label: 'SQ (Subcutaneous)' },
-  { value: 'SL', label: 'SL (Sublingual)' },
-  { value: 'PR', label: 'PR (Rectal)' },
-  { value: 'TOP', label: 'TOP (Topical)' },
-  { value: 'INH', label: 'INH (Inhalation)' },
-  { value: 'OPH', label: 'OPH (Ophthalmic)' },
-  { value: 'OT', label: 'OT (Otic)' },
-  { value: 'NG', label: 'NG (Nasogastric)' },
-  { value: 'GT', label: 'GT (Gastrostomy)' },
-];
+const emptyMedicationRow = (): MedicationRow => ({
+  name: '',
+  dose: '',
+  route: '',
+  site: '',
+  time: new Date().toTimeString().slice(0, 5),
+  reason: '',
+  isPRN: false,
+  uncertain: [],
+  suggestions: [],
+});
+
+/**
+ * Parsed medication -> review row (times are "HH:MM" or ISO)
+ */
+const toMedicationRow = (
+  med: Partial<Medication>,
+  index: number,
+  confidence: Record<string, number>,
+  suggestions: Record<string, string[]>
+): MedicationRow => {
+  const time = med.timeAdministered || '';
+  return {
+    name: med.name || '',
+    dose: med.dose || '',
+    route: med.route || '',
+    site: med.site || '',
+    time: /^\d{2}:\d{2}$/.test(time) ? time : new Date(time || Date.now()).toTimeString().slice(0, 5),
+    reason: med.reason || '',
+    isPRN: !!med.isPRN,
+    frequency: med.frequency,
+    uncertain: ['name', 'dose', 'route', 'timeAdministered']
+      .filter((field) => (confidence[`medications[${index}].${field}`] ?? 0) < 0.7)
+      .map((field) => (field === 'timeAdministered' ? 'time' : field)),
+    suggestions: suggestions[`medications[${index}].name`] || [],
+  };
+};
+
+/**
+ * "Did you mean" buttons for formulary drugs close to a typed or dictated name
+ */
+const FormularySuggestions: React.FC<{ names: string[]; onSelect: (name: string) => void }> = ({
+  names,
+  onSelect,
+}) => {
+  if (names.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-1 text-xs">
+      <span className="text-yellow-800">Did you mean:</span>
+      {names.map((name) => (
+        <button
+          key={name}
+          type="button"
+          onClick={() => onSelect(name)}
+          className="px-2 py-0.5 bg-yellow-50 hover:bg-yellow-100 text-yellow-900 border border-yellow-300 rounded"
+        >
+          {name}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * "HH:MM" today -> ISO timestamp
+ */
+const toAdministrationTime = (time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date();
+  if (!Number.isNaN(hours) && !Number.isNaN(minutes)) {
+    date.setHours(hours, minutes, 0, 0);
+  }
+  return date.toISOString();
+};
+
+const routeOptions = getWorkflowField('medication-administration', 'route')?.options || [];
 
 export const MedicationAdministration: React.FC<WorkflowBaseProps> = ({
   transcript,
@@ -47,160 +116,117 @@ export const MedicationAdministration: React.FC<WorkflowBaseProps> = ({
 }) => {
   const { selectedPatient } = useApp();
 
-  const [formData, setFormData] = useState<MedicationAdministrationData>({
+  const form = useSchemaForm('medication-administration', transcript, {
     patientId: selectedPatient?.id || '',
-    medicationName: '',
-    dosage: '',
-    route: '',
-    timeAdministered: new Date().toISOString().slice(0, 16),
-    patientResponse: '',
-    adverseReaction: '',
   });
+  const { formData } = form;
 
-  const [errors, setErrors] = useState<Record<string, string>>({});
-  const [autoFilledFields, setAutoFilledFields] = useState<Set<string>>(new Set());
-  const [editedTranscript, setEditedTranscript] = useState(transcript || '');
+  // Several drugs dictated in one pass are reviewed as rows instead of the single-drug fields
+  const dictatedRows = useMemo(() => {
+    if (!transcript || transcript.trim() === '') return [];
+    const parsed = parseMedication(transcript);
+    return parsed.data.length > 1
+      ? parsed.data.map((med, index) => toMedicationRow(med, index, parsed.confidence, parsed.suggestions))
+      : [];
+  }, [transcript]);
 
-  // Field-targeted transcript auto-fill with NLP integration
-  const { segmentationWarnings } = useFieldTargetedTranscript({
-    transcript,
-    workflowType: 'medication-administration',
-    currentFormData: formData,
-    onAutoFill: (updates, newAutoFilled) => {
-      setFormData((prev) => ({ ...prev, ...updates }));
-      setAutoFilledFields((prev) => new Set([...prev, ...newAutoFilled]));
-    }
-  });
+  // The nurse's edits to the rows, kept until the dictation changes
+  const [rowReview, setRowReview] = useState<{
+    transcript: string;
+    rows: MedicationRow[];
+    errors: Record<number, string>;
+  }>();
+  const isReviewCurrent = rowReview?.transcript === transcript;
+  const medicationRows = isReviewCurrent ? rowReview.rows : dictatedRows;
+  const rowErrors = isReviewCurrent ? rowReview.errors : {};
+  const isMultiMedication = medicationRows.length > 0;
 
-  // Update edited transcript when transcript changes
-  useEffect(() => {
-    setEditedTranscript(transcript);
-  }, [transcript]);
+  const updateRows = (rows: MedicationRow[], errors: Record<number, string> = rowErrors) => {
+    setRowReview({ transcript, rows, errors });
+  };
 
-  const handleFieldChange = (field: keyof MedicationAdministrationData, value: any) => {
-    setFormData((prev) => ({ ...prev, [field]: value }));
-    // Remove auto-filled status when user manually edits
-    if (autoFilledFields.has(field)) {
-      setAutoFilledFields((prev) => {
-        const newSet = new Set(prev);
-        newSet.delete(field);
-        return newSet;
-      });
-    }
-    // Clear error for this field
-    if (errors[field]) {
-      setErrors((prev) => {
-        const newErrors = { ...prev };
-        delete newErrors[field];
-        return newErrors;
-      });
+  const handleRowChange = (index: number, updates: Partial<MedicationRow>) => {
+    const errors = { ...rowErrors };
+    delete errors[index];
+    updateRows(
+      medicationRows.map((row, i) =>
+        i === index
+          ? { ...row, ...updates, uncertain: row.uncertain.filter((field) => !(field in updates)) }
+          : row
+      ),
+      errors
+    );
+  };
+
+  const handleRemoveRow = (index: number) => {
+    updateRows(medicationRows.filter((_, i) => i !== index), {});
+  };
+
+  const handleSubmitMedicationRows = () => {
+    const missing: Record<number, string> = {};
+    medicationRows.forEach((row, index) => {
+      const fields = [!row.name && 'name', !row.dose && 'dose', !row.route && 'route'].filter(Boolean);
+      if (fields.length > 0) {
+        missing[index] = `Missing ${fields.join(', ')}`;
+      }
+    });
+
+    // The single-drug fields are replaced by the rows; only the patient is still checked
+    const hasPatient = form.validate(['patientId']);
+    if (Object.keys(missing).length > 0 || !hasPatient) {
+      updateRows(medicationRows, missing);
+      return;
     }
+
+    // Response and adverse reaction were dictated for the whole pass
+    const medications: Medication[] = medicationRows.map((row) => ({
+      name: row.name,
+      dose: row.dose,
+      route: row.route as MedicationRoute,
+      ...getFormularyCoding({ name: row.name, dose: row.dose, route: row.route as MedicationRoute }),
+      timeAdministered: toAdministrationTime(row.time),
+      site: row.site || undefined,
+      reason: row.reason || undefined,
+      isPRN: row.isPRN,
+      frequency: row.frequency,
+      response: String(formData.patientResponse) || undefined,
+      adverseReaction: String(formData.adverseReaction) || undefined,
+    }));
+
+    onSubmit({
+      ...formData,
+      structuredData: { medications },
+      transcript,
+      timestamp: new Date().toISOString(),
+      workflowType: 'medication-administration',
+    });
   };
 
   const handleSubmit = (e?: React.FormEvent) => {
     e?.preventDefault();
 
-    const validationRules = [
-      {
-        field: 'patientId',
-        validator: (value: string) => !!(value && value.length > 0),
-        message: 'Patient ID is required',
-      },
-      {
-        field: 'medicationName',
-        validator: (value: string) => !!(value && value.length > 0),
-        message: 'Medication name is required',
-      },
-      {
-        field: 'dosage',
-        validator: (value: string) => !!(value && value.length > 0),
-        message: 'Dosage is required',
-      },
-      {
-        field: 'route',
-        validator: (value: string) => !!(value && value.length > 0),
-        message: 'Route of administration is required',
-      },
-      {
-        field: 'timeAdministered',
-        validator: (value: string) => !!(value && value.length > 0),
-        message: 'Time administered is required',
-      },
-    ];
-
-    const validationErrors = validateForm(formData, validationRules);
-
-    if (Object.keys(validationErrors).length > 0) {
-      setErrors(validationErrors);
+    if (isMultiMedication) {
+      handleSubmitMedicationRows();
       return;
     }
 
+    if (!form.validate()) return;
+
     // Submit the data with transcript
     onSubmit({
       ...formData,
-      transcript: editedTranscript,
+      transcript,
       timestamp: new Date().toISOString(),
       workflowType: 'medication-administration',
     });
   };
 
-  const fields: Record<string, WorkflowField> = {
-    patientId: {
-      name: 'patientId',
-      label: 'Patient ID',
-      type: 'text',
-      required: true,
-      autoFilled: autoFilledFields.has('patientId'),
-      placeholder: 'e.g., PT12345',
-    },
-    medicationName: {
-      name: 'medicationName',
-      label: 'Medication Name',
-      type: 'text',
-      required: true,
-      autoFilled: autoFilledFields.has('medicationName'),
-      placeholder: 'e.g., Aspirin, Metformin',
-    },
-    dosage: {
-      name: 'dosage',
-      label: 'Dosage',
-      type: 'text',
-      required: true,
-      autoFilled: autoFilledFields.has('dosage'),
-      placeholder: 'e.g., 500 mg, 10 units',
-    },
-    route: {
-      name: 'route',
-      label: 'Route of Administration',
-      type: 'select',
-      required: true,
-      autoFilled: autoFilledFields.has('route'),
-      options: routeOptions,
-    },
-    timeAdministered: {
-      name: 'timeAdministered',
-      label: 'Time Administered',
-      type: 'datetime-local' as any,
-      required: true,
-      autoFilled: autoFilledFields.has('timeAdministered'),
-    },
-    patientResponse: {
-      name: 'patientResponse',
-      label: 'Patient Response/Reaction',
-      type: 'textarea',
-      required: false,
-      autoFilled: autoFilledFields.has('patientResponse'),
-      placeholder: 'Describe patient response to medication...',
-    },
-    adverseReaction: {
-      name: 'adverseReaction',
-      label: 'Adverse Reaction (if any)',
-      type: 'textarea',
-      required: false,
-      autoFilled: autoFilledFields.has('adverseReaction'),
-      placeholder: 'Document any adverse reactions or side effects...',
-    },
-  };
+  // Offer formulary drugs unless the name already matches one exactly
+  const formularyMatches = searchFormulary(String(formData.medicationName));
+  const nameSuggestions =
+    formularyMatches.length > 0 && formularyMatches[0].score < 1
+      ? formularyMatches.map((match) => match.drug.genericName)
+      : [];
 
   return (
     <div className="max-w-4xl mx-auto">
@@ -221,81 +247,177 @@ export const MedicationAdministration: React.FC<WorkflowBaseProps> = ({
           <p className="text-sm text-blue-800">
             Say field names before content for targeted auto-fill. Example: "Patient response tolerated well. Adverse reaction none noted."
           </p>
+          <p className="text-sm text-blue-800 mt-1">
+            Several drugs in one pass are split into rows. Example: "Metoprolol 25 mg PO and heparin 5000 units subq left abdomen."
+          </p>
         </div>
 
         {/* Segmentation Warnings */}
-        {segmentationWarnings.length > 0 && (
+        {form.segmentationWarnings.length > 0 && (
           <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
             <p className="text-sm text-yellow-800 font-semibold mb-1">Transcript Notes:</p>
             <ul className="text-sm text-yellow-700 list-disc list-inside space-y-1">
-              {segmentationWarnings.map((warning, i) => (
+              {form.segmentationWarnings.map((warning, i) => (
                 <li key={i}>{warning}</li>
               ))}
             </ul>
           </div>
         )}
 
-        <FieldGroup title="Patient Information">
-          <FormField
-            field={fields.patientId}
-            value={formData.patientId}
-            onChange={(value) => handleFieldChange('patientId', value)}
-            error={errors.patientId}
-          />
-        </FieldGroup>
-
-        <FieldGroup title="Medication Details">
-          <FormField
-            field={fields.medicationName}
-            value={formData.medicationName}
-            onChange={(value) => handleFieldChange('medicationName', value)}
-            error={errors.medicationName}
-          />
-
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <FormField
-              field={fields.dosage}
-              value={formData.dosage}
-              onChange={(value) => handleFieldChange('dosage', value)}
-              error={errors.dosage}
-            />
-            <FormField
-              field={fields.route}
-              value={formData.route}
-              onChange={(value) => handleFieldChange('route', value)}
-              error={errors.route}
-            />
-          </div>
-
-          <FormField
-            field={fields.timeAdministered}
-            value={formData.timeAdministered}
-            onChange={(value) => handleFieldChange('timeAdministered', value)}
-            error={errors.timeAdministered}
-          />
-        </FieldGroup>
-
-        <FieldGroup title="Patient Response">
-          <FormField
-            field={fields.patientResponse}
-            value={formData.patientResponse}
-            onChange={(value) => handleFieldChange('patientResponse', value)}
-          />
-
-          <FormField
-            field={fields.adverseReaction}
-            value={formData.adverseReaction}
-            onChange={(value) => handleFieldChange('adverseReaction', value)}
-          />
-
-          {formData.adverseReaction && (
-            <div className="p-3 bg-yellow-50 border border-yellow-300 rounded-lg">
-              <p className="text-sm text-yellow-800 font-semibold">
-                ⚠️ Adverse reaction documented. Ensure proper follow-up protocols are followed.
-              </p>
-            </div>
-          )}
-        </FieldGroup>
+        <SchemaFields
+          form={form}
+          fieldExtras={{
+            medicationName: (
+              <FormularySuggestions
+                names={nameSuggestions}
+                onSelect={(name) => form.setField('medicationName', name)}
+              />
+            ),
+          }}
+          sectionOverrides={
+            isMultiMedication
+              ? {
+                  'Medication Details': (
+                    <FieldGroup title={`Medications in This Dictation (${medicationRows.length})`}>
+                      <p className="text-sm text-gray-600">
+                        Each drug was parsed separately. Check every row - fields highlighted in yellow were unclear.
+                      </p>
+                      <div className="overflow-x-auto">
+                        <table className="min-w-full text-sm border border-gray-200 rounded-lg">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="px-2 py-2 text-left font-semibold text-gray-700">Medication</th>
+                              <th className="px-2 py-2 text-left font-semibold text-gray-700">Dose</th>
+                              <th className="px-2 py-2 text-left font-semibold text-gray-700">Route</th>
+                              <th className="px-2 py-2 text-left font-semibold text-gray-700">Site</th>
+                              <th className="px-2 py-2 text-left font-semibold text-gray-700">Time</th>
+                              <th className="px-2 py-2 text-left font-semibold text-gray-700">PRN / Reason</th>
+                              <th className="px-2 py-2"></th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {medicationRows.map((row, i) => {
+                              const cellClass = (field: string) =>
+                                `w-full px-2 py-1 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                                  row.uncertain.includes(field) ? 'bg-yellow-50 border-yellow-400' : 'border-gray-300'
+                                }`;
+                              return (
+                                <React.Fragment key={i}>
+                                  <tr className="border-t border-gray-200">
+                                    <td className="px-2 py-2">
+                                      <input
+                                        type="text"
+                                        value={row.name}
+                                        onChange={(e) => handleRowChange(i, { name: e.target.value })}
+                                        className={cellClass('name')}
+                                      />
+                                      <FormularySuggestions
+                                        names={row.suggestions}
+                                        onSelect={(name) => handleRowChange(i, { name, suggestions: [] })}
+                                      />
+                                    </td>
+                                    <td className="px-2 py-2 w-24">
+                                      <input
+                                        type="text"
+                                        value={row.dose}
+                                        onChange={(e) => handleRowChange(i, { dose: e.target.value })}
+                                        className={cellClass('dose')}
+                                      />
+                                    </td>
+                                    <td className="px-2 py-2 w-28">
+                                      <select
+                                        value={row.route}
+                                        onChange={(e) => handleRowChange(i, { route: e.target.value as MedicationRoute })}
+                                        className={cellClass('route')}
+                                      >
+                                        <option value="">Route</option>
+                                        {routeOptions.map((opt) => (
+                                          <option key={opt.value} value={opt.value}>
+                                            {opt.value}
+                                          </option>
+                                        ))}
+                                      </select>
+                                    </td>
+                                    <td className="px-2 py-2">
+                                      <input
+                                        type="text"
+                                        value={row.site}
+                                        onChange={(e) => handleRowChange(i, { site: e.target.value })}
+                                        placeholder="e.g., left abdomen"
+                                        className={cellClass('site')}
+                                      />
+                                    </td>
+                                    <td className="px-2 py-2 w-28">
+                                      <input
+                                        type="time"
+                                        value={row.time}
+                                        onChange={(e) => handleRowChange(i, { time: e.target.value })}
+                                        className={cellClass('time')}
+                                      />
+                                    </td>
+                                    <td className="px-2 py-2">
+                                      <div className="flex items-center gap-2">
+                                        <input
+                                          type="checkbox"
+                                          checked={row.isPRN}
+                                          onChange={(e) => handleRowChange(i, { isPRN: e.target.checked })}
+                                          title="PRN"
+                                        />
+                                        <input
+                                          type="text"
+                                          value={row.reason}
+                                          onChange={(e) => handleRowChange(i, { reason: e.target.value })}
+                                          placeholder={row.isPRN ? 'PRN reason' : 'Reason'}
+                                          className={cellClass('reason')}
+                                        />
+                                      </div>
+                                    </td>
+                                    <td className="px-2 py-2">
+                                      <button
+                                        type="button"
+                                        onClick={() => handleRemoveRow(i)}
+                                        className="text-red-600 hover:text-red-800 text-sm"
+                                        title="Remove this medication"
+                                      >
+                                        ✕
+                                      </button>
+                                    </td>
+                                  </tr>
+                                  {rowErrors[i] && (
+                                    <tr>
+                                      <td colSpan={7} className="px-2 pb-2 text-sm text-red-600">
+                                        {rowErrors[i]}
+                                      </td>
+                                    </tr>
+                                  )}
+                                </React.Fragment>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => updateRows([...medicationRows, emptyMedicationRow()])}
+                        className="px-3 py-1 text-sm bg-white hover:bg-gray-50 text-blue-700 border border-blue-300 rounded"
+                      >
+                        + Add Medication
+                      </button>
+                    </FieldGroup>
+                  ),
+                }
+              : undefined
+          }
+          sectionExtras={{
+            'Patient Response': formData.adverseReaction && (
+              <div className="p-3 bg-yellow-50 border border-yellow-300 rounded-lg">
+                <p className="text-sm text-yellow-800 font-semibold">
+                  ⚠️ Adverse reaction documented. Ensure proper follow-up protocols are followed.
+                </p>
+              </div>
+            ),
+          }}
+        />
 
         <FormActions
           onSubmit={handleSubmit}
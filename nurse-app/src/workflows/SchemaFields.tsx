@@ -0,0 +1,106 @@
+/**
+ * Schema Fields Component
+ * Renders a workflow's fields section by section from its schema; workflows add
+ * their summaries and special widgets around the generated inputs
+ */
+
+import React from 'react';
+import type { WorkflowFieldSchema } from '../../../shared/types';
+import type { SchemaForm } from '../hooks/useSchemaForm';
+import { FieldGroup, FormField } from './WorkflowBase';
+import { getFormSections } from './workflowForms';
+import { getClinicalWarning } from './clinicalValidation';
+
+interface SchemaFieldsProps {
+  form: SchemaForm;
+
+  /** Section for fields the schema doesn't place in one */
+  defaultSection?: string;
+
+  /** Content shown below a section's fields, by section title */
+  sectionExtras?: Record<string, React.ReactNode>;
+
+  /** Content shown below a field, by field key */
+  fieldExtras?: Record<string, React.ReactNode>;
+
+  /** Content shown instead of a whole section, by section title */
+  sectionOverrides?: Record<string, React.ReactNode>;
+
+  collapsibleSections?: string[];
+}
+
+/**
+ * Consecutive short inputs share a two-column row; textareas take a row of their own
+ */
+function toRows(fields: WorkflowFieldSchema[]): WorkflowFieldSchema[][] {
+  const rows: WorkflowFieldSchema[][] = [];
+  for (const field of fields) {
+    const previous = rows[rows.length - 1];
+    if (field.type !== 'textarea' && previous && previous[0].type !== 'textarea') {
+      previous.push(field);
+    } else {
+      rows.push([field]);
+    }
+  }
+  return rows;
+}
+
+export const SchemaFields: React.FC<SchemaFieldsProps> = ({
+  form,
+  defaultSection = 'Additional Information',
+  sectionExtras = {},
+  fieldExtras = {},
+  sectionOverrides = {},
+  collapsibleSections = [],
+}) => {
+  const { formData, fields, errors, setField } = form;
+
+  const renderField = (field: WorkflowFieldSchema) => {
+    const value = formData[field.key];
+    return (
+      <div key={field.key}>
+        <FormField
+          field={fields[field.key]}
+          value={value}
+          onChange={(newValue) => setField(field.key, newValue)}
+          error={errors[field.key]}
+          warning={
+            field.clinicalRange
+              ? getClinicalWarning(field.clinicalRange, typeof value === 'number' ? value : '')
+              : undefined
+          }
+        />
+        {fieldExtras[field.key]}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {getFormSections(form.workflowType, defaultSection).map((section) =>
+        section.title in sectionOverrides ? (
+          <React.Fragment key={section.title}>{sectionOverrides[section.title]}</React.Fragment>
+        ) : (
+          <FieldGroup
+            key={section.title}
+            title={section.title}
+            collapsible={collapsibleSections.includes(section.title)}
+          >
+            {toRows(section.fields).map((row) =>
+              row.length > 1 ? (
+                <div key={row[0].key} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {row.map(renderField)}
+                </div>
+              ) : (
+                renderField(row[0])
+              )
+            )}
+            {sectionExtras[section.title]}
+          </FieldGroup>
+        )
+      )}
+    </>
+  );
+};
+
+export default SchemaFields;
@@ -3,279 +3,92 @@
  * Captures patient vital signs with voice integration
  */
 
-import React, { useState, useEffect } from 'react';
+import React from 'react';
+import { type WorkflowBaseProps, FormActions } from './WorkflowBase';
+import { SchemaFields } from './SchemaFields';
+import { useSchemaForm, type SchemaFormValues } from '../hooks/useSchemaForm';
+import type {
+  LevelOfConsciousness,
+  StructuredData,
+  UnitConvertedVitalSign,
+  VitalSigns as VitalSignsRecord,
+} from '../../../shared/types';
 import {
-  type WorkflowBaseProps,
-  FieldGroup,
-  FormField,
-  FormActions,
-  validateForm,
-  type WorkflowField,
-} from './WorkflowBase';
-import { extractVitalSigns } from './transcriptParser';
+  calculateEarlyWarningScores,
+  EARLY_WARNING_PARAMETER_LABELS,
+  EARLY_WARNING_RISK_LABELS,
+} from '../../../shared/services/earlyWarningScores';
+import { parseVitalSigns } from '../services/parseService';
 
-interface VitalSignsData {
-  systolic: number;
-  diastolic: number;
-  heartRate: number;
-  temperature: number;
-  temperatureMethod: string;
-  respiratoryRate: number;
-  oxygenSaturation: number;
-  painLevel: number;
-  timestamp: string;
-}
+const toNumber = (value: string | number | undefined): number | undefined =>
+  typeof value === 'number' ? value : undefined;
 
-const temperatureMethodOptions = [
-  { value: 'oral', label: 'Oral' },
-  { value: 'tympanic', label: 'Tympanic (Ear)' },
-  { value: 'temporal', label: 'Temporal (Forehead)' },
-  { value: 'axillary', label: 'Axillary (Underarm)' },
-  { value: 'rectal', label: 'Rectal' },
-];
+/**
+ * Form values as VitalSigns, leaving out fields that weren't filled in
+ */
+const toVitalSignsRecord = (data: SchemaFormValues): VitalSignsRecord => {
+  const systolic = toNumber(data.systolic);
+  const diastolic = toNumber(data.diastolic);
+  return {
+    systolic,
+    diastolic,
+    bloodPressure: systolic && diastolic ? `${systolic}/${diastolic}` : undefined,
+    heartRate: toNumber(data.heartRate),
+    temperature: toNumber(data.temperature),
+    temperatureMethod: (data.temperatureMethod || undefined) as VitalSignsRecord['temperatureMethod'],
+    respiratoryRate: toNumber(data.respiratoryRate),
+    oxygenSaturation: toNumber(data.oxygenSaturation),
+    painLevel: toNumber(data.painLevel),
+    weight: toNumber(data.weight),
+    height: toNumber(data.height),
+    bloodGlucose: toNumber(data.bloodGlucose),
+    supplementalOxygen: data.oxygenDelivery ? data.oxygenDelivery === 'supplemental' : undefined,
+    levelOfConsciousness: (data.levelOfConsciousness || undefined) as LevelOfConsciousness | undefined,
+    timestamp: data.timestamp ? new Date(data.timestamp).toISOString() : undefined,
+  };
+};
+
+/**
+ * Units the transcript gave for converted values (e.g., 37.2 Cel), for the values the form
+ * still holds as dictated; a value typed over was entered in the form's unit
+ */
+const toMeasuredAs = (vitals: VitalSignsRecord, transcript: string): VitalSignsRecord['measuredAs'] => {
+  const { data: dictated } = parseVitalSigns(transcript);
+  const measuredAs = Object.entries(dictated.measuredAs || {}).filter(
+    ([field]) => dictated[field as UnitConvertedVitalSign] === vitals[field as UnitConvertedVitalSign]
+  );
+  return measuredAs.length > 0 ? Object.fromEntries(measuredAs) : undefined;
+};
 
 export const VitalSigns: React.FC<WorkflowBaseProps> = ({
   transcript,
   onSubmit,
   onCancel,
 }) => {
-  const [formData, setFormData] = useState<VitalSignsData>({
-    systolic: 0,
-    diastolic: 0,
-    heartRate: 0,
-    temperature: 0,
-    temperatureMethod: 'oral',
-    respiratoryRate: 0,
-    oxygenSaturation: 0,
-    painLevel: 0,
-    timestamp: new Date().toISOString().slice(0, 16),
-  });
-
-  const [errors, setErrors] = useState<Record<string, string>>({});
-  const [autoFilledFields, setAutoFilledFields] = useState<Set<string>>(new Set());
-  const [editedTranscript, setEditedTranscript] = useState(transcript || '');
-
-  // Auto-fill fields from transcript
-  // Always use the latest extracted values (last mention wins for corrections)
-  useEffect(() => {
-    // Skip if transcript is empty or hasn't changed meaningfully
-    if (!transcript || transcript.trim() === '') return;
-
-    const vitalSigns = extractVitalSigns(transcript);
-
-    const newAutoFilled = new Set<string>();
-    const updates: Partial<VitalSignsData> = {};
-
-    // Always update with the latest extracted value (enables corrections)
-    if (vitalSigns.systolic) {
-      updates.systolic = vitalSigns.systolic;
-      newAutoFilled.add('systolic');
-    }
-
-    if (vitalSigns.diastolic) {
-      updates.diastolic = vitalSigns.diastolic;
-      newAutoFilled.add('diastolic');
-    }
-
-    if (vitalSigns.heartRate) {
-      updates.heartRate = vitalSigns.heartRate;
-      newAutoFilled.add('heartRate');
-    }
-
-    if (vitalSigns.temperature) {
-      updates.temperature = vitalSigns.temperature;
-      newAutoFilled.add('temperature');
-    }
-
-    if (vitalSigns.respiratoryRate) {
-      updates.respiratoryRate = vitalSigns.respiratoryRate;
-      newAutoFilled.add('respiratoryRate');
-    }
-
-    if (vitalSigns.oxygenSaturation) {
-      updates.oxygenSaturation = vitalSigns.oxygenSaturation;
-      newAutoFilled.add('oxygenSaturation');
-    }
-
-    if (vitalSigns.painLevel !== undefined) {
-      updates.painLevel = vitalSigns.painLevel;
-      newAutoFilled.add('painLevel');
-    }
-
-    if (Object.keys(updates).length > 0) {
-      setFormData((prev) => ({ ...prev, ...updates }));
-      setAutoFilledFields((prev) => new Set([...prev, ...newAutoFilled]));
-    }
-  }, [transcript]);
-
-  // Update edited transcript when transcript changes
-  useEffect(() => {
-    setEditedTranscript(transcript);
-  }, [transcript]);
-
-  const handleFieldChange = (field: keyof VitalSignsData, value: any) => {
-    setFormData((prev) => ({ ...prev, [field]: value }));
-    // Remove auto-filled status when user manually edits
-    if (autoFilledFields.has(field)) {
-      setAutoFilledFields((prev) => {
-        const newSet = new Set(prev);
-        newSet.delete(field);
-        return newSet;
-      });
-    }
-    // Clear error for this field
-    if (errors[field]) {
-      setErrors((prev) => {
-        const newErrors = { ...prev };
-        delete newErrors[field];
-        return newErrors;
-      });
-    }
-  };
+  const form = useSchemaForm('vital-signs', transcript);
+  const { formData } = form;
 
   const handleSubmit = (e?: React.FormEvent) => {
     e?.preventDefault();
 
-    const validationRules = [
-      {
-        field: 'systolic',
-        validator: (value: number) => value > 0 && value >= 70 && value <= 250,
-        message: 'Systolic BP must be between 70 and 250 mmHg',
-      },
-      {
-        field: 'diastolic',
-        validator: (value: number) => value > 0 && value >= 40 && value <= 150,
-        message: 'Diastolic BP must be between 40 and 150 mmHg',
-      },
-      {
-        field: 'heartRate',
-        validator: (value: number) => value > 0 && value >= 30 && value <= 250,
-        message: 'Heart rate must be between 30 and 250 bpm',
-      },
-      {
-        field: 'temperature',
-        validator: (value: number) => value > 0 && value >= 95 && value <= 107,
-        message: 'Temperature must be between 95 and 107°F',
-      },
-      {
-        field: 'respiratoryRate',
-        validator: (value: number) => value > 0 && value >= 8 && value <= 60,
-        message: 'Respiratory rate must be between 8 and 60 breaths/min',
-      },
-      {
-        field: 'oxygenSaturation',
-        validator: (value: number) => value > 0 && value >= 70 && value <= 100,
-        message: 'Oxygen saturation must be between 70 and 100%',
-      },
-      {
-        field: 'painLevel',
-        validator: (value: number) => value >= 0 && value <= 10,
-        message: 'Pain level must be between 0 and 10',
-      },
-    ];
-
-    const validationErrors = validateForm(formData, validationRules);
+    if (!form.validate()) return;
 
-    if (Object.keys(validationErrors).length > 0) {
-      setErrors(validationErrors);
-      return;
-    }
+    const vitalSigns = toVitalSignsRecord(formData);
+    const structuredData: StructuredData = {
+      vitalSigns: { ...vitalSigns, measuredAs: toMeasuredAs(vitalSigns, transcript) },
+    };
 
     // Submit the data with transcript
     onSubmit({
       ...formData,
+      structuredData,
       bloodPressure: `${formData.systolic}/${formData.diastolic}`,
-      transcript: editedTranscript,
+      transcript,
       workflowType: 'vital-signs',
     });
   };
 
-  const fields: Record<string, WorkflowField> = {
-    systolic: {
-      name: 'systolic',
-      label: 'Systolic Blood Pressure (mmHg)',
-      type: 'number',
-      required: true,
-      autoFilled: autoFilledFields.has('systolic'),
-      placeholder: 'e.g., 120',
-      min: 70,
-      max: 250,
-    },
-    diastolic: {
-      name: 'diastolic',
-      label: 'Diastolic Blood Pressure (mmHg)',
-      type: 'number',
-      required: true,
-      autoFilled: autoFilledFields.has('diastolic'),
-      placeholder: 'e.g., 80',
-      min: 40,
-      max: 150,
-    },
-    heartRate: {
-      name: 'heartRate',
-      label: 'Heart Rate (BPM)',
-      type: 'number',
-      required: true,
-      autoFilled: autoFilledFields.has('heartRate'),
-      placeholder: 'e.g., 72',
-      min: 30,
-      max: 250,
-    },
-    temperature: {
-      name: 'temperature',
-      label: 'Temperature (°F)',
-      type: 'number',
-      required: true,
-      autoFilled: autoFilledFields.has('temperature'),
-      placeholder: 'e.g., 98.6',
-      min: 95,
-      max: 107,
-      step: 0.1,
-    },
-    temperatureMethod: {
-      name: 'temperatureMethod',
-      label: 'Temperature Method',
-      type: 'select',
-      required: true,
-      options: temperatureMethodOptions,
-    },
-    respiratoryRate: {
-      name: 'respiratoryRate',
-      label: 'Respiratory Rate (breaths/min)',
-      type: 'number',
-      required: true,
-      autoFilled: autoFilledFields.has('respiratoryRate'),
-      placeholder: 'e.g., 16',
-      min: 8,
-      max: 60,
-    },
-    oxygenSaturation: {
-      name: 'oxygenSaturation',
-      label: 'Oxygen Saturation (SpO2 %)',
-      type: 'number',
-      required: true,
-      autoFilled: autoFilledFields.has('oxygenSaturation'),
-      placeholder: 'e.g., 98',
-      min: 70,
-      max: 100,
-    },
-    painLevel: {
-      name: 'painLevel',
-      label: 'Pain Level (0-10)',
-      type: 'number',
-      required: false,
-      autoFilled: autoFilledFields.has('painLevel'),
-      min: 0,
-      max: 10,
-      step: 1,
-    },
-    timestamp: {
-      name: 'timestamp',
-      label: 'Time Recorded',
-      type: 'datetime-local' as any,
-      required: true,
-    },
-  };
+  const earlyWarningScores = calculateEarlyWarningScores(toVitalSignsRecord(formData));
 
   return (
     <div className="max-w-4xl mx-auto">
@@ -287,83 +100,40 @@ export const VitalSigns: React.FC<WorkflowBaseProps> = ({
       </div>
 
       <form onSubmit={handleSubmit}>
-        <FieldGroup title="Blood Pressure">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <FormField
-              field={fields.systolic}
-              value={formData.systolic}
-              onChange={(value) => handleFieldChange('systolic', value)}
-              error={errors.systolic}
-            />
-            <FormField
-              field={fields.diastolic}
-              value={formData.diastolic}
-              onChange={(value) => handleFieldChange('diastolic', value)}
-              error={errors.diastolic}
-            />
-          </div>
-          {formData.systolic > 0 && formData.diastolic > 0 && (
-            <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
-              <p className="text-sm text-blue-800">
-                <strong>Blood Pressure:</strong> {formData.systolic}/{formData.diastolic} mmHg
-              </p>
-            </div>
-          )}
-        </FieldGroup>
-
-        <FieldGroup title="Vital Measurements">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <FormField
-              field={fields.heartRate}
-              value={formData.heartRate}
-              onChange={(value) => handleFieldChange('heartRate', value)}
-              error={errors.heartRate}
-            />
-            <FormField
-              field={fields.respiratoryRate}
-              value={formData.respiratoryRate}
-              onChange={(value) => handleFieldChange('respiratoryRate', value)}
-              error={errors.respiratoryRate}
-            />
-          </div>
-
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <FormField
-              field={fields.temperature}
-              value={formData.temperature}
-              onChange={(value) => handleFieldChange('temperature', value)}
-              error={errors.temperature}
-            />
-            <FormField
-              field={fields.temperatureMethod}
-              value={formData.temperatureMethod}
-              onChange={(value) => handleFieldChange('temperatureMethod', value)}
-            />
-          </div>
-
-          <FormField
-            field={fields.oxygenSaturation}
-            value={formData.oxygenSaturation}
-            onChange={(value) => handleFieldChange('oxygenSaturation', value)}
-            error={errors.oxygenSaturation}
-          />
-        </FieldGroup>
-
-        <FieldGroup title="Additional Information">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <FormField
-              field={fields.painLevel}
-              value={formData.painLevel}
-              onChange={(value) => handleFieldChange('painLevel', value)}
-              error={errors.painLevel}
-            />
-            <FormField
-              field={fields.timestamp}
-              value={formData.timestamp}
-              onChange={(value) => handleFieldChange('timestamp', value)}
-            />
-          </div>
-        </FieldGroup>
+        <SchemaFields
+          form={form}
+          sectionExtras={{
+            'Blood Pressure': Number(formData.systolic) > 0 && Number(formData.diastolic) > 0 && (
+              <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                <p className="text-sm text-blue-800">
+                  <strong>Blood Pressure:</strong> {formData.systolic}/{formData.diastolic} mmHg
+                </p>
+              </div>
+            ),
+            'Vital Measurements': earlyWarningScores && (
+              <div
+                className={`p-3 rounded-lg border ${
+                  earlyWarningScores.news2.escalate || earlyWarningScores.mews.escalate
+                    ? 'bg-red-50 border-red-200 text-red-800'
+                    : 'bg-blue-50 border-blue-200 text-blue-800'
+                }`}
+              >
+                <p className="text-sm">
+                  <strong>NEWS2:</strong> {earlyWarningScores.news2.total} (
+                  {EARLY_WARNING_RISK_LABELS[earlyWarningScores.news2.risk]}) &middot; <strong>MEWS:</strong>{' '}
+                  {earlyWarningScores.mews.total} ({EARLY_WARNING_RISK_LABELS[earlyWarningScores.mews.risk]})
+                  {(earlyWarningScores.news2.escalate || earlyWarningScores.mews.escalate) && ' - escalate per protocol'}
+                </p>
+                {earlyWarningScores.news2.missing.length > 0 && (
+                  <p className="text-xs mt-1 opacity-80">
+                    Not recorded (scored 0):{' '}
+                    {earlyWarningScores.news2.missing.map((parameter) => EARLY_WARNING_PARAMETER_LABELS[parameter]).join(', ')}
+                  </p>
+                )}
+              </div>
+            ),
+          }}
+        />
 
         <FormActions onSubmit={handleSubmit} onCancel={onCancel} submitLabel="Record Vital Signs" />
       </form>
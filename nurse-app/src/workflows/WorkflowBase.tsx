@@ -3,11 +3,13 @@
  */
 
 import React from 'react';
+import type { TranscriptSegment, WorkflowFieldType } from '../../../shared/types';
+import { VoiceFieldContext } from './voiceFieldContext';
 
 export interface WorkflowField {
   name: string;
   label: string;
-  type: 'text' | 'number' | 'select' | 'textarea' | 'date' | 'time';
+  type: WorkflowFieldType;
   required?: boolean;
   autoFilled?: boolean;
   options?: { value: string; label: string }[];
@@ -57,9 +59,27 @@ interface FormFieldProps {
   value: any;
   onChange: (value: any) => void;
   error?: string;
+  /** Shown below the input when there is no error (e.g., a critical value) */
+  warning?: string;
 }
 
-export const FormField: React.FC<FormFieldProps> = ({ field, value, onChange, error }) => {
+export const FormField: React.FC<FormFieldProps> = ({ field, value, onChange, error, warning }) => {
+  const voiceFields = React.useContext(VoiceFieldContext);
+  const containerRef = React.useRef<HTMLDivElement>(null);
+
+  // Let voice commands find, clear and read this field
+  React.useEffect(() => {
+    if (!voiceFields || !containerRef.current) return;
+    return voiceFields.registerField(field.name, {
+      label: field.label,
+      element: containerRef.current,
+      getValue: () => value,
+      clear: () => onChange(''),
+    });
+  }, [voiceFields, field.name, field.label, value, onChange]);
+
+  const isVoiceTarget = voiceFields?.activeField === field.name;
+
   const baseInputClass = `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
     error ? 'border-red-500' : 'border-gray-300'
   } ${field.autoFilled ? 'bg-blue-50 border-blue-300' : 'bg-white'}`;
@@ -97,7 +117,7 @@ export const FormField: React.FC<FormFieldProps> = ({ field, value, onChange, er
         return (
           <input
             type="number"
-            value={value || ''}
+            value={value ?? ''}
             onChange={(e) => onChange(e.target.value ? Number(e.target.value) : '')}
             placeholder={field.placeholder}
             min={field.min}
@@ -109,6 +129,7 @@ export const FormField: React.FC<FormFieldProps> = ({ field, value, onChange, er
 
       case 'date':
       case 'time':
+      case 'datetime-local':
         return (
           <input
             type={field.type}
@@ -132,7 +153,7 @@ export const FormField: React.FC<FormFieldProps> = ({ field, value, onChange, er
   };
 
   return (
-    <div className="mb-4">
+    <div ref={containerRef} className={`mb-4 ${isVoiceTarget ? 'rounded-md ring-2 ring-purple-400 ring-offset-4' : ''}`}>
       <label className="block mb-1 font-medium text-gray-700">
         {field.label}
         {field.required && <span className="text-red-500 ml-1">*</span>}
@@ -144,23 +165,56 @@ export const FormField: React.FC<FormFieldProps> = ({ field, value, onChange, er
       </label>
       {renderInput()}
       {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
+      {!error && warning && <p className="mt-1 text-sm text-amber-700">⚠ {warning}</p>}
     </div>
   );
 };
 
+/**
+ * Lets the parent jump the audio to a moment (e.g., when a structured field is clicked)
+ */
+export interface TranscriptPlaybackHandle {
+  seekTo: (ms: number) => void;
+}
+
 interface TranscriptViewerProps {
   transcript: string;
   isRecording: boolean;
   onEdit?: (transcript: string) => void;
+
+  /** Recorded audio and the transcript segments timed against it (clicking a phrase plays from there) */
+  audioUrl?: string;
+  segments?: TranscriptSegment[];
+  playbackRef?: React.Ref<TranscriptPlaybackHandle>;
 }
 
 export const TranscriptViewer: React.FC<TranscriptViewerProps> = ({
   transcript,
   isRecording,
   onEdit,
+  audioUrl,
+  segments,
+  playbackRef,
 }) => {
   const [isEditing, setIsEditing] = React.useState(false);
   const [editedTranscript, setEditedTranscript] = React.useState(transcript || '');
+  const [currentMs, setCurrentMs] = React.useState(0);
+  const audioRef = React.useRef<HTMLAudioElement>(null);
+
+  const seekTo = React.useCallback((ms: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = ms / 1000;
+    audio.play().catch(() => {
+      // Autoplay can be blocked; the position is still set
+    });
+  }, []);
+
+  React.useImperativeHandle(playbackRef, () => ({ seekTo }), [seekTo]);
+
+  const isPlaying = (startMs: number, endMs: number) => currentMs >= startMs && currentMs < endMs;
+  const phraseClass = (active: boolean) =>
+    `cursor-pointer rounded px-0.5 hover:bg-blue-100 ${active ? 'bg-yellow-200' : ''}`;
 
   React.useEffect(() => {
     setEditedTranscript(transcript || '');
@@ -225,18 +279,52 @@ export const TranscriptViewer: React.FC<TranscriptViewerProps> = ({
         </div>
       ) : (
         <div className="text-gray-700 whitespace-pre-wrap">
-          {transcript || (
+          {audioUrl && segments && segments.length > 0 ? (
+            segments.map((segment, i) => (
+              <React.Fragment key={i}>
+                {segment.words && segment.words.length > 0 ? (
+                  segment.words.map((word, j) => (
+                    <React.Fragment key={j}>
+                      <span
+                        onClick={() => seekTo(word.startMs)}
+                        className={phraseClass(isPlaying(word.startMs, word.endMs))}
+                      >
+                        {word.word}
+                      </span>{' '}
+                    </React.Fragment>
+                  ))
+                ) : (
+                  <span
+                    onClick={() => seekTo(segment.startMs)}
+                    className={phraseClass(isPlaying(segment.startMs, segment.endMs))}
+                  >
+                    {segment.text}
+                  </span>
+                )}{' '}
+              </React.Fragment>
+            ))
+          ) : transcript || (
             <span className="text-gray-400 italic">
               {isRecording ? 'Listening...' : 'No transcript yet. Start recording to begin.'}
             </span>
           )}
         </div>
       )}
+
+      {audioUrl && (
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          controls
+          onTimeUpdate={(e) => setCurrentMs(e.currentTarget.currentTime * 1000)}
+          className="w-full mt-3"
+        />
+      )}
     </div>
   );
 };
 
-interface ValidationRule {
+export interface ValidationRule {
   field: string;
   validator: (value: any) => boolean;
   message: string;
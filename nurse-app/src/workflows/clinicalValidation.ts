@@ -0,0 +1,35 @@
+/**
+ * Validation helpers for fields with physiological limits
+ */
+
+import type { ClinicalRangeField } from '../../../shared/types';
+import { checkClinicalValue, getClinicalLimits, isPlausibleValue } from '../../../shared/services/clinicalRanges';
+import type { ValidationRule } from './WorkflowBase';
+
+/**
+ * Whether a number field was left empty ('' / undefined / NaN); 0 is a recorded value
+ */
+export const isBlankNumber = (value: number | '' | undefined): boolean =>
+  value === '' || value === undefined || Number.isNaN(value);
+
+/**
+ * Rule rejecting values outside a field's plausible range (critical values pass and are confirmed on submit)
+ */
+export const clinicalRangeRule = (
+  field: ClinicalRangeField,
+  { formField = field, required = false }: { formField?: string; required?: boolean } = {}
+): ValidationRule => {
+  const { label, unit, plausible } = getClinicalLimits(field);
+  return {
+    field: formField,
+    validator: (value: number | '' | undefined) =>
+      isBlankNumber(value) ? !required : isPlausibleValue(field, Number(value)),
+    message: `${label} must be between ${plausible.min} and ${plausible.max} ${unit}`,
+  };
+};
+
+/**
+ * Inline warning for a value outside a field's plausible range or critical limits (nothing for an unfilled field)
+ */
+export const getClinicalWarning = (field: ClinicalRangeField, value: number | ''): string | undefined =>
+  isBlankNumber(value) ? undefined : checkClinicalValue(field, Number(value))?.message;
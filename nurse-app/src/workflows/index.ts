@@ -8,6 +8,9 @@ export { VitalSigns } from './VitalSigns';
 export { MedicationAdministration } from './MedicationAdministration';
 export { WoundCare } from './WoundCare';
 export { ShiftHandoff } from './ShiftHandoff';
+export { Admission } from './Admission';
+export { Discharge } from './Discharge';
+export { CustomWorkflow } from './CustomWorkflow';
 
 export type { WorkflowBaseProps, WorkflowField } from './WorkflowBase';
 export { FieldGroup, FormField, TranscriptViewer, FormActions, validateForm } from './WorkflowBase';
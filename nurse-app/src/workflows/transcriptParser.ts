@@ -2,6 +2,11 @@
  * Utilities for parsing voice transcripts and extracting structured data
  */
 
+import type { Medication, MedicationRoute, TeachBackStatus, WorkflowType } from '../../../shared/types';
+import { isPlausibleValue } from '../../../shared/services/clinicalRanges';
+import { getAllSpokenLabels } from '../../../shared/services/workflowSchemas';
+import { parseVitalSigns } from '../services/parseService';
+
 /**
  * Find the LAST match of a pattern in the transcript.
  * When a value is mentioned multiple times, the last mention is treated as a correction.
@@ -19,25 +24,9 @@ function findLastMatch(transcript: string, pattern: RegExp): RegExpMatchArray |
  * When extracting content for one field, we stop at the next field label.
  */
 const ALL_FIELD_LABELS = [
-  // Medication Administration fields
-  'patient id', 'medication name', 'dosage', 'dose', 'route', 'route of administration',
-  'time administered', 'patient response', 'patient reaction', 'adverse reaction',
-  'adverse effects', 'side effects',
-  // Vital Signs fields
-  'blood pressure', 'bp', 'heart rate', 'pulse', 'temperature', 'temp',
-  'respiratory rate', 'respiration', 'oxygen saturation', 'o2 sat', 'spo2',
-  'pain level', 'pain score',
-  // Patient Assessment fields
-  'level of consciousness', 'consciousness', 'mobility', 'mobility status',
-  'skin condition', 'skin', 'observations', 'general observations', 'notes',
-  // Wound Care fields
-  'wound location', 'wound type', 'wound size', 'length', 'width', 'depth',
-  'drainage amount', 'drainage type', 'treatment', 'treatment provided',
-  // Shift Handoff fields (SBAR)
-  'situation', 'background', 'assessment', 'recommendation', 'pending tasks',
-  'critical alerts', 'outgoing nurse', 'incoming nurse',
-  // Intake/Output fields
-  'intake', 'output', 'fluid intake', 'urine output'
+  ...getAllSpokenLabels(),
+  // Spoken in dictation but not collected by any workflow form
+  'wound size', 'intake', 'output', 'fluid intake', 'urine output',
 ];
 
 /**
@@ -105,8 +94,8 @@ export const parseBloodPressure = (transcript: string): { systolic?: number; dia
     if (match) {
       const systolic = parseInt(match[1]);
       const diastolic = parseInt(match[2]);
-      // Validate ranges (systolic: 70-250, diastolic: 40-150)
-      if (systolic >= 70 && systolic <= 250 && diastolic >= 40 && diastolic <= 150) {
+      // Keep critical values (they're confirmed on submit); drop only implausible ones
+      if (isPlausibleValue('systolic', systolic) && isPlausibleValue('diastolic', diastolic) && systolic > diastolic) {
         lastValidMatch = {
           systolic,
           diastolic,
@@ -133,8 +122,7 @@ export const parseHeartRate = (transcript: string): number | undefined => {
     const match = findLastMatch(transcript, pattern);
     if (match) {
       const hr = parseInt(match[1]);
-      // Validate range (30-250 bpm)
-      if (hr >= 30 && hr <= 250) {
+      if (isPlausibleValue('heartRate', hr)) {
         lastValidHr = hr;
       }
     }
@@ -157,8 +145,7 @@ export const parseTemperature = (transcript: string): number | undefined => {
     const match = findLastMatch(transcript, pattern);
     if (match) {
       const temp = parseFloat(match[1]);
-      // Validate range (95-107°F for human temperature)
-      if (temp >= 95 && temp <= 107) {
+      if (isPlausibleValue('temperature', temp)) {
         lastValidTemp = temp;
       }
     }
@@ -181,8 +168,7 @@ export const parseRespiratoryRate = (transcript: string): number | undefined =>
     const match = findLastMatch(transcript, pattern);
     if (match) {
       const rr = parseInt(match[1]);
-      // Validate range (8-60 breaths/min)
-      if (rr >= 8 && rr <= 60) {
+      if (isPlausibleValue('respiratoryRate', rr)) {
         lastValidRr = rr;
       }
     }
@@ -205,8 +191,7 @@ export const parseOxygenSaturation = (transcript: string): number | undefined =>
     const match = findLastMatch(transcript, pattern);
     if (match) {
       const o2 = parseInt(match[1]);
-      // Validate range (70-100%)
-      if (o2 >= 70 && o2 <= 100) {
+      if (isPlausibleValue('oxygenSaturation', o2)) {
         lastValidO2 = o2;
       }
     }
@@ -215,6 +200,15 @@ export const parseOxygenSaturation = (transcript: string): number | undefined =>
   return lastValidO2;
 };
 
+// Supplemental oxygen: room air vs. any oxygen delivery device (last mention wins)
+export const parseSupplementalOxygen = (transcript: string): boolean | undefined => {
+  const pattern =
+    /\b(room air|RA)\b|\b(nasal cannula|NC|non[\s-]?rebreather|face mask|venturi(?: mask)?|high[\s-]?flow|on (?:oxygen|O2)|\d+(?:\.\d+)?\s*(?:liters?|L|lpm)\b)/i;
+  const match = findLastMatch(transcript, pattern);
+  if (!match) return undefined;
+  return match[1] === undefined;
+};
+
 // Pain level patterns
 export const parsePainLevel = (transcript: string): number | undefined => {
   const patterns = [
@@ -230,8 +224,7 @@ export const parsePainLevel = (transcript: string): number | undefined => {
     const match = findLastMatch(transcript, pattern);
     if (match) {
       const pain = parseInt(match[1]);
-      // Validate range (0-10)
-      if (pain >= 0 && pain <= 10) {
+      if (isPlausibleValue('painLevel', pain)) {
         lastValidPain = pain;
       }
     }
@@ -503,6 +496,197 @@ export const parseTime = (transcript: string): string | undefined => {
   return lastValidTime;
 };
 
+/**
+ * Split a spoken list ("penicillin, sulfa and latex") into individual items
+ */
+export const parseSpokenList = (text: string): string[] => {
+  return text
+    .split(/\s*(?:[,;]|\band also\b|\band\b|\bplus\b)\s*/i)
+    .map((item) => item.replace(/^[\s.]+|[\s.]+$/g, '').trim())
+    .filter((item) => item.length > 0);
+};
+
+// Allergy list patterns
+export const parseAllergyList = (text: string): string[] => {
+  // "no known allergies", "no known drug allergies", "NKDA", "none"
+  if (/\b(?:nkda|nka|no known (?:drug )?allergies|none)\b/i.test(text)) {
+    return ['NKDA'];
+  }
+
+  return parseSpokenList(text.replace(/^(?:allergic to|allergies to)\s+/i, '')).map(
+    (allergy) => allergy.charAt(0).toUpperCase() + allergy.slice(1)
+  );
+};
+
+// Admission source patterns
+export const parseAdmissionSource = (transcript: string): string | undefined => {
+  const sources: Array<[RegExp, string]> = [
+    [/\b(?:emergency (?:department|room)|ed|er|emergency)\b/i, 'emergency-department'],
+    [/\b(?:nursing home|skilled nursing|snf|assisted living)\b/i, 'transfer-snf'],
+    [/\b(?:transfer(?:red)?|outside hospital|another hospital|osh)\b/i, 'transfer-hospital'],
+    [/\b(?:clinic|outpatient|office)\b/i, 'clinic'],
+    [/\b(?:direct(?:ly)?|physician referral|direct admit)\b/i, 'direct-admission'],
+  ];
+
+  for (const [pattern, source] of sources) {
+    if (pattern.test(transcript)) {
+      return source;
+    }
+  }
+
+  return undefined;
+};
+
+// Medication frequency patterns
+export const parseMedicationFrequency = (text: string): string | undefined => {
+  const frequencies: Array<[RegExp, string]> = [
+    [/\b(?:prn|as needed)\b/i, 'PRN'],
+    [/\b(?:bid|twice (?:a day|daily))\b/i, 'BID'],
+    [/\b(?:tid|three times (?:a day|daily))\b/i, 'TID'],
+    [/\b(?:qid|four times (?:a day|daily))\b/i, 'QID'],
+    [/\b(?:qhs|at bedtime|nightly)\b/i, 'QHS'],
+    [/\bq\s?(\d{1,2})\s?h\b|\bevery (\d{1,2}) hours\b/i, 'Q#H'],
+    [/\b(?:weekly|once a week)\b/i, 'WEEKLY'],
+    [/\b(?:qd|daily|once (?:a day|daily)|every day|every morning)\b/i, 'QD'],
+  ];
+
+  for (const [pattern, frequency] of frequencies) {
+    const match = text.match(pattern);
+    if (match) {
+      return frequency === 'Q#H' ? `Q${match[1] || match[2]}H` : frequency;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Parse a spoken home medication list into Medication records
+ * e.g., "metoprolol 25 mg twice daily, lisinopril 10 mg daily and aspirin 81 mg"
+ */
+export const parseMedicationList = (text: string): Medication[] => {
+  const routeWords: Record<string, MedicationRoute> = {
+    'po': 'PO', 'by mouth': 'PO', 'oral': 'PO', 'orally': 'PO',
+    'iv': 'IV', 'intravenous': 'IV',
+    'im': 'IM', 'intramuscular': 'IM',
+    'subq': 'SQ', 'sq': 'SQ', 'subcutaneous': 'SQ',
+    'sublingual': 'SL', 'sl': 'SL',
+    'topical': 'TOP', 'inhaled': 'INH', 'inhaler': 'INH', 'inhalation': 'INH',
+    'rectal': 'PR', 'eye drops': 'OPH', 'ear drops': 'OT',
+  };
+
+  // A dose immediately followed by "and" belongs to the current drug, so only
+  // split on "and" when it is followed by another word (the next drug name)
+  const items = text
+    .split(/\s*(?:[,;]|\bthen\b|\balso\b|\band\b(?=\s+[a-z]))\s*/i)
+    .map((item) => item.trim())
+    .filter((item) => /[a-z]{3,}/i.test(item));
+
+  const medications: Medication[] = [];
+
+  for (const item of items) {
+    const nameMatch = item.match(/^(?:takes\s+|on\s+)?([A-Za-z][A-Za-z-]+(?:\s+(?!mg\b|mcg\b|units?\b|po\b)[A-Za-z][A-Za-z-]+)?)/i);
+    if (!nameMatch) continue;
+
+    const name = nameMatch[1].trim();
+    const rest = item.slice((nameMatch.index ?? 0) + nameMatch[0].length);
+
+    const doseMatch = rest.match(/(\d+\.?\d*)\s*(mg|milligrams?|mcg|micrograms?|units?|ml|g|grams?|puffs?|tabs?|tablets?)\b/i);
+    const dose = doseMatch
+      ? `${doseMatch[1]} ${doseMatch[2]
+          .toLowerCase()
+          .replace(/^milligrams?$/, 'mg')
+          .replace(/^micrograms?$/, 'mcg')
+          .replace(/^grams?$/, 'g')}`
+      : '';
+
+    let route: MedicationRoute = 'PO';
+    for (const [word, value] of Object.entries(routeWords)) {
+      if (new RegExp(`\\b${word}\\b`, 'i').test(item)) {
+        route = value;
+        break;
+      }
+    }
+
+    const frequency = parseMedicationFrequency(rest);
+
+    medications.push({
+      name: name.charAt(0).toUpperCase() + name.slice(1),
+      dose,
+      route,
+      frequency,
+      isPRN: frequency === 'PRN',
+      // Home medications are taken before admission, not administered by the nurse
+      timeAdministered: '',
+    });
+  }
+
+  return medications;
+};
+
+// Discharge disposition patterns
+export const parseDischargeDisposition = (transcript: string): string | undefined => {
+  const dispositions: Array<[RegExp, string]> = [
+    [/\b(?:against medical advice|ama)\b/i, 'ama'],
+    [/\b(?:hospice)\b/i, 'hospice'],
+    [/\b(?:skilled nursing|nursing (?:home|facility)|snf)\b/i, 'snf'],
+    [/\b(?:rehab(?:ilitation)?|inpatient rehab|irf)\b/i, 'rehab'],
+    [/\b(?:home health|home with services|visiting nurse)\b/i, 'home-health'],
+    [/\b(?:transfer(?:red)?|another hospital|acute care)\b/i, 'transfer-hospital'],
+    [/\b(?:home|self care)\b/i, 'home'],
+  ];
+
+  for (const [pattern, disposition] of dispositions) {
+    if (pattern.test(transcript)) {
+      return disposition;
+    }
+  }
+
+  return undefined;
+};
+
+// Patient education topic patterns
+export const parseEducationTopics = (text: string): string[] => {
+  const topicPatterns: Array<[RegExp, string]> = [
+    [/\b(?:medications?|meds|pills|prescriptions?)\b/i, 'Medications'],
+    [/\b(?:diet|nutrition|low sodium|fluid restriction)\b/i, 'Diet'],
+    [/\b(?:activity|exercise|lifting|driving|walking)\b/i, 'Activity'],
+    [/\b(?:wound|incision|dressing|stitches|sutures)\b/i, 'Wound Care'],
+    [/\b(?:warning signs|when to call|return precautions|signs of infection|symptoms to watch)\b/i, 'Warning Signs'],
+    [/\b(?:follow[\s-]?up|appointments?)\b/i, 'Follow-up Care'],
+    [/\b(?:inhalers?)\b/i, 'Inhaler Technique'],
+    [/\b(?:insulin|glucose|blood sugar)\b/i, 'Blood Glucose Monitoring'],
+    [/\b(?:smoking|tobacco)\b/i, 'Smoking Cessation'],
+  ];
+
+  const topics: string[] = [];
+  parseSpokenList(text).forEach((item) => {
+    const match = topicPatterns.find(([pattern]) => pattern.test(item));
+    // "patient verbalized understanding" is a teach-back result, not a topic
+    if (!match && parseTeachBack(item)) return;
+    const topic = match ? match[1] : item.charAt(0).toUpperCase() + item.slice(1);
+    if (!topics.includes(topic)) {
+      topics.push(topic);
+    }
+  });
+
+  return topics;
+};
+
+// Teach-back patterns ("patient verbalized understanding", "return demonstration")
+export const parseTeachBack = (text: string): TeachBackStatus | undefined => {
+  if (/\b(?:needs? (?:reinforcement|more teaching|further teaching)|unable to (?:verbalize|demonstrate|teach back))\b/i.test(text)) {
+    return 'needs-reinforcement';
+  }
+  if (/\b(?:demonstrated|return demonstration|return demo)\b/i.test(text)) {
+    return 'demonstrated';
+  }
+  if (/\b(?:verbalized|verbalizes|teach[\s-]?back|understanding|understood)\b/i.test(text)) {
+    return 'verbalized';
+  }
+  return undefined;
+};
+
 /**
  * Extract all vital signs from transcript
  */
@@ -517,6 +701,8 @@ export const extractVitalSigns = (transcript: string) => {
     temperature: parseTemperature(transcript),
     respiratoryRate: parseRespiratoryRate(transcript),
     oxygenSaturation: parseOxygenSaturation(transcript),
+    supplementalOxygen: parseSupplementalOxygen(transcript),
+    levelOfConsciousness: parseLevelOfConsciousness(transcript),
     painLevel: parsePainLevel(transcript),
   };
 };
@@ -567,3 +753,87 @@ export const extractWoundInfo = (transcript: string) => {
     depth: size?.depth,
   };
 };
+
+/**
+ * Extract admission information from transcript
+ */
+export const extractAdmissionInfo = (transcript: string) => {
+  return {
+    admissionSource: parseAdmissionSource(transcript),
+  };
+};
+
+/**
+ * Extract discharge information from transcript
+ */
+export const extractDischargeInfo = (transcript: string) => {
+  return {
+    dischargeDisposition: parseDischargeDisposition(transcript),
+  };
+};
+
+/**
+ * Values the transcript parsers pick out for a workflow's form, by field key
+ * (the form only takes those for fields its schema marks autoFill: 'extract')
+ */
+export const extractWorkflowFields = (
+  workflowType: WorkflowType,
+  transcript: string
+): Record<string, string | number | undefined> => {
+  switch (workflowType) {
+    case 'patient-assessment': {
+      const assessment = extractAssessmentInfo(transcript);
+      return {
+        levelOfConsciousness: assessment.levelOfConsciousness,
+        mobilityStatus: assessment.mobilityStatus,
+        painLevel: assessment.painLevel,
+      };
+    }
+    case 'vital-signs': {
+      // The unit-aware parser converts "temp 37.2 celsius" or "weight 70 kg" to the form's units;
+      // the simpler parsers here still pick up phrasings it doesn't know
+      const { data: vitals } = parseVitalSigns(transcript);
+      const fallback = extractVitalSigns(transcript);
+      const supplementalOxygen = vitals.supplementalOxygen ?? fallback.supplementalOxygen;
+      return {
+        systolic: vitals.systolic ?? fallback.systolic,
+        diastolic: vitals.diastolic ?? fallback.diastolic,
+        heartRate: vitals.heartRate ?? fallback.heartRate,
+        temperature: vitals.temperature ?? fallback.temperature,
+        respiratoryRate: vitals.respiratoryRate ?? fallback.respiratoryRate,
+        oxygenSaturation: vitals.oxygenSaturation ?? fallback.oxygenSaturation,
+        oxygenDelivery:
+          supplementalOxygen === undefined ? undefined : supplementalOxygen ? 'supplemental' : 'room-air',
+        levelOfConsciousness: vitals.levelOfConsciousness ?? fallback.levelOfConsciousness,
+        painLevel: vitals.painLevel ?? fallback.painLevel,
+        weight: vitals.weight,
+        height: vitals.height,
+        bloodGlucose: vitals.bloodGlucose,
+      };
+    }
+    case 'medication-administration': {
+      const medInfo = extractMedicationInfo(transcript);
+      return {
+        medicationName: medInfo.medications[0],
+        dosage: medInfo.dosage,
+        route: medInfo.route,
+      };
+    }
+    case 'wound-care': {
+      const woundInfo = extractWoundInfo(transcript);
+      return {
+        woundLocation: woundInfo.location,
+        length: woundInfo.length,
+        width: woundInfo.width,
+        depth: woundInfo.depth,
+      };
+    }
+    case 'admission':
+      return extractAdmissionInfo(transcript);
+    case 'discharge':
+      return extractDischargeInfo(transcript);
+    default:
+      // Shift handoff and custom forms are filled from their spoken labels only
+      return {};
+  }
+};
@@ -0,0 +1,23 @@
+/**
+ * Voice Field Context
+ * Form fields register here so spoken commands can move between them, clear them and read them back
+ */
+
+import { createContext } from 'react';
+
+export interface VoiceFieldRegistration {
+  label: string;
+  element: HTMLElement;
+  getValue: () => unknown;
+  clear: () => void;
+}
+
+export interface VoiceFieldContextValue {
+  /** Field the nurse moved to by voice */
+  activeField: string | null;
+
+  /** Adds a field; returns a function that removes it */
+  registerField: (key: string, field: VoiceFieldRegistration) => () => void;
+}
+
+export const VoiceFieldContext = createContext<VoiceFieldContextValue | null>(null);
@@ -0,0 +1,95 @@
+/**
+ * Form fields and validation rules generated from the workflow schemas
+ */
+
+import type { WorkflowFieldSchema, WorkflowType } from '../../../shared/types';
+import { getClinicalLimits } from '../../../shared/services/clinicalRanges';
+import { getWorkflowSchema } from '../../../shared/services/workflowSchemas';
+import type { ValidationRule, WorkflowField } from './WorkflowBase';
+import { clinicalRangeRule, isBlankNumber } from './clinicalValidation';
+
+/**
+ * A workflow's form fields by key, marking the ones filled from the transcript
+ */
+export function getFormFields(
+  workflowType: WorkflowType,
+  autoFilledFields: Set<string> = new Set()
+): Record<string, WorkflowField> {
+  const fields: Record<string, WorkflowField> = {};
+
+  for (const field of getWorkflowSchema(workflowType)?.fields || []) {
+    const plausible = field.clinicalRange ? getClinicalLimits(field.clinicalRange).plausible : undefined;
+    fields[field.key] = {
+      name: field.key,
+      label: field.unit ? `${field.label} (${field.unit})` : field.label,
+      type: field.type,
+      required: field.required || false,
+      autoFilled: autoFilledFields.has(field.key),
+      options: field.options,
+      placeholder: field.placeholder,
+      min: field.min ?? plausible?.min,
+      max: field.max ?? plausible?.max,
+      step: field.step,
+    };
+  }
+
+  return fields;
+}
+
+/**
+ * A workflow's starting form values: each field's default, the current time for date-time
+ * fields and '' otherwise (number fields too, so an untouched field reads as missing)
+ */
+export function getInitialFormData(workflowType: WorkflowType): Record<string, string> {
+  const formData: Record<string, string> = {};
+
+  for (const field of getWorkflowSchema(workflowType)?.fields || []) {
+    formData[field.key] =
+      field.defaultValue ?? (field.type === 'datetime-local' ? new Date().toISOString().slice(0, 16) : '');
+  }
+
+  return formData;
+}
+
+/**
+ * A workflow's fields by form section, in order of each section's first field
+ * @param defaultTitle - Section for fields without one
+ */
+export function getFormSections(
+  workflowType: WorkflowType,
+  defaultTitle: string
+): { title: string; fields: WorkflowFieldSchema[] }[] {
+  const sections = new Map<string, WorkflowFieldSchema[]>();
+
+  for (const field of getWorkflowSchema(workflowType)?.fields || []) {
+    const title = field.group || defaultTitle;
+    sections.set(title, [...(sections.get(title) || []), field]);
+  }
+
+  return [...sections].map(([title, fields]) => ({ title, fields }));
+}
+
+/**
+ * Required-field and clinical range rules for a workflow's form
+ */
+export function getValidationRules(workflowType: WorkflowType): ValidationRule[] {
+  const rules: ValidationRule[] = [];
+
+  for (const field of getWorkflowSchema(workflowType)?.fields || []) {
+    if (field.clinicalRange) {
+      rules.push(clinicalRangeRule(field.clinicalRange, { formField: field.key, required: field.required }));
+    } else if (field.required) {
+      rules.push({
+        field: field.key,
+        // A 0 score or 0 mL is a recorded value; only an empty input is missing
+        validator:
+          field.type === 'number'
+            ? (value: number | '' | undefined) => !isBlankNumber(value)
+            : (value: string) => !!(value && value.length > 0),
+        message: field.requiredMessage || `${field.label.replace(/\s*\(.*?\)/g, '')} is required`,
+      });
+    }
+  }
+
+  return rules;
+}
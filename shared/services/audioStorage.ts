@@ -0,0 +1,166 @@
+/**
+ * Audio Storage
+ *
+ * Keeps dictation audio on the device in its own IndexedDB database (one record per entry),
+ * separate from the entries so listing entries never loads audio. Recordings older than the
+ * retention period are purged by purgeExpiredAudio() (run at startup and periodically); the entry keeps its transcript timings.
+ */
+
+import type { StorageResult } from './storageService';
+
+export interface AudioRetentionConfig {
+  /** Days to keep audio after it was recorded */
+  retentionDays: number;
+}
+
+export interface StoredAudio {
+  entryId: string;
+  blob: Blob;
+  recordedAt: string;
+}
+
+const DB_NAME = 'voize-audio';
+const DB_VERSION = 1;
+const AUDIO_STORE = 'recordings';
+const INDEX_RECORDED_AT = 'recordedAt';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let config: AudioRetentionConfig = { retentionDays: 30 };
+
+/**
+ * Sets the retention period; an invalid period is rejected and the current one kept
+ */
+export function configureAudioRetention(retention: AudioRetentionConfig): StorageResult<void> {
+  if (!Number.isFinite(retention.retentionDays) || retention.retentionDays <= 0) {
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: `Audio retention must be a positive number of days (got "${retention.retentionDays}")`,
+      },
+    };
+  }
+
+  config = { ...retention };
+  return { success: true };
+}
+
+export function getAudioRetentionDays(): number {
+  return config.retentionDays;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(AUDIO_STORE, { keyPath: 'entryId' });
+      store.createIndex(INDEX_RECORDED_AT, 'recordedAt', { unique: false });
+    };
+    dbPromise = requestToPromise(request).catch((error) => {
+      // Allow a later call to retry opening
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs an operation on the audio store and wraps the outcome in a StorageResult
+ */
+async function runAudioStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => Promise<T>,
+  errorMessage: string
+): Promise<StorageResult<T>> {
+  if (typeof indexedDB === 'undefined') {
+    return { success: false, error: { code: 'UNKNOWN', message: 'Audio storage needs IndexedDB' } };
+  }
+
+  try {
+    const db = await getDB();
+    const store = db.transaction(AUDIO_STORE, mode).objectStore(AUDIO_STORE);
+    return { success: true, data: await operation(store) };
+  } catch (error) {
+    const quotaExceeded = error instanceof DOMException && error.name === 'QuotaExceededError';
+    return {
+      success: false,
+      error: {
+        code: quotaExceeded ? 'QUOTA_EXCEEDED' : 'UNKNOWN',
+        message: quotaExceeded ? 'Audio storage quota exceeded. Try purging old recordings.' : errorMessage,
+        originalError: error
+      }
+    };
+  }
+}
+
+export function saveAudio(entryId: string, blob: Blob, recordedAt: string): Promise<StorageResult<void>> {
+  const record: StoredAudio = { entryId, blob, recordedAt };
+  return runAudioStore(
+    'readwrite',
+    async (store) => {
+      await requestToPromise(store.put(record));
+    },
+    'Failed to store audio'
+  );
+}
+
+/**
+ * Audio for an entry (null if none was recorded or it was purged)
+ */
+export function getAudio(entryId: string): Promise<StorageResult<StoredAudio | null>> {
+  return runAudioStore(
+    'readonly',
+    async (store) => ((await requestToPromise(store.get(entryId))) as StoredAudio | undefined) || null,
+    'Failed to read audio'
+  );
+}
+
+export function deleteAudio(entryId: string): Promise<StorageResult<void>> {
+  return runAudioStore(
+    'readwrite',
+    async (store) => {
+      await requestToPromise(store.delete(entryId));
+    },
+    'Failed to delete audio'
+  );
+}
+
+/**
+ * Deletes audio recorded before the retention period
+ * @returns Ids of the entries whose audio was purged
+ */
+export function purgeExpiredAudio(now: Date = new Date()): Promise<StorageResult<string[]>> {
+  const cutoff = new Date(now.getTime() - config.retentionDays * DAY_MS).toISOString();
+
+  return runAudioStore(
+    'readwrite',
+    (store) =>
+      new Promise<string[]>((resolve, reject) => {
+        const purged: string[] = [];
+        const request = store.index(INDEX_RECORDED_AT).openCursor(IDBKeyRange.upperBound(cutoff, true));
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            purged.push((cursor.value as StoredAudio).entryId);
+            cursor.delete();
+            cursor.continue();
+          } else {
+            resolve(purged);
+          }
+        };
+        request.onerror = () => reject(request.error);
+      }),
+    'Failed to purge expired audio'
+  );
+}
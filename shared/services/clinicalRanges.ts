@@ -0,0 +1,88 @@
+/**
+ * Clinical Ranges
+ *
+ * Physiological limits for vital sign and assessment values. Each field has:
+ * - a plausible range: anything outside it is a transcription or typing error and is rejected
+ * - critical limits: real but dangerous values that must be confirmed before saving
+ *
+ * The defaults are adult limits; configureClinicalLimits() adjusts them (e.g., for a pediatric unit).
+ */
+
+import type { ClinicalLimits, ClinicalRangeField, ClinicalRangeFinding } from '../types';
+
+export const DEFAULT_CLINICAL_LIMITS: Record<ClinicalRangeField, ClinicalLimits> = {
+  systolic: { label: 'Systolic BP', unit: 'mmHg', plausible: { min: 40, max: 300 }, critical: { low: 80, high: 180 } },
+  diastolic: { label: 'Diastolic BP', unit: 'mmHg', plausible: { min: 20, max: 200 }, critical: { low: 40, high: 120 } },
+  heartRate: { label: 'Heart rate', unit: 'bpm', plausible: { min: 20, max: 300 }, critical: { low: 40, high: 130 } },
+  temperature: { label: 'Temperature', unit: '°F', plausible: { min: 80, max: 113 }, critical: { low: 95, high: 104 } },
+  respiratoryRate: { label: 'Respiratory rate', unit: '/min', plausible: { min: 2, max: 80 }, critical: { low: 8, high: 30 } },
+  oxygenSaturation: { label: 'SpO2', unit: '%', plausible: { min: 50, max: 100 }, critical: { low: 88 } },
+  painLevel: { label: 'Pain level', unit: '/10', plausible: { min: 0, max: 10 }, critical: {} },
+  bloodGlucose: { label: 'Blood glucose', unit: 'mg/dL', plausible: { min: 10, max: 1500 }, critical: { low: 54, high: 400 } },
+};
+
+let limits: Record<ClinicalRangeField, ClinicalLimits> = DEFAULT_CLINICAL_LIMITS;
+
+/**
+ * Override limits for some fields; fields not given keep their current limits
+ */
+export function configureClinicalLimits(overrides: Partial<Record<ClinicalRangeField, Partial<ClinicalLimits>>>): void {
+  limits = { ...limits };
+  (Object.keys(overrides) as ClinicalRangeField[]).forEach((field) => {
+    limits[field] = { ...limits[field], ...overrides[field] };
+  });
+}
+
+export function getClinicalLimits(field: ClinicalRangeField): ClinicalLimits {
+  return limits[field];
+}
+
+/**
+ * Whether a value could be a real measurement (parsers drop values that aren't)
+ */
+export function isPlausibleValue(field: ClinicalRangeField, value: number): boolean {
+  const { plausible } = limits[field];
+  return value >= plausible.min && value <= plausible.max;
+}
+
+/**
+ * Finding for a value outside the plausible range or critical limits, if any
+ */
+export function checkClinicalValue(field: ClinicalRangeField, value: number | undefined): ClinicalRangeFinding | undefined {
+  if (typeof value !== 'number' || Number.isNaN(value)) return undefined;
+
+  const { label, unit, plausible, critical } = limits[field];
+  const shown = `${value}${unit.startsWith('/') || unit === '%' || unit === '°F' ? '' : ' '}${unit}`;
+
+  if (!isPlausibleValue(field, value)) {
+    return {
+      field,
+      value,
+      level: 'implausible',
+      message: `${label} ${shown} is outside the plausible range (${plausible.min}-${plausible.max} ${unit})`,
+    };
+  }
+  if (critical.low !== undefined && value < critical.low) {
+    return { field, value, level: 'critical', message: `${label} ${shown} is critically low (below ${critical.low})` };
+  }
+  if (critical.high !== undefined && value > critical.high) {
+    return { field, value, level: 'critical', message: `${label} ${shown} is critically high (above ${critical.high})` };
+  }
+  return undefined;
+}
+
+/**
+ * Findings for every field with a value outside its limits
+ */
+export function checkClinicalValues(values: Partial<Record<ClinicalRangeField, number | undefined>>): ClinicalRangeFinding[] {
+  return (Object.keys(limits) as ClinicalRangeField[])
+    .map((field) => checkClinicalValue(field, values[field]))
+    .filter((finding): finding is ClinicalRangeFinding => !!finding);
+}
+
+/**
+ * Text stored in DocumentationEntry.flags for a critical value the nurse confirmed
+ */
+export function formatCriticalValueFlag(finding: ClinicalRangeFinding, confirmedBy: string): string {
+  return `[CRITICAL] ${finding.message} - confirmed by ${confirmedBy}`;
+}
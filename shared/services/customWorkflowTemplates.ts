@@ -0,0 +1,417 @@
+/**
+ * Custom Workflow Templates
+ *
+ * Documentation forms a charge nurse defines in the app (fall risk, restraint checks, I&O,
+ * ...). Every saved version is kept in localStorage, so entries can always be read against
+ * the version they were documented on. Templates are shared between devices as JSON.
+ *
+ * The latest version of each template is registered with the workflow schemas, so forms,
+ * transcript segmentation and field matching work for custom workflows like built-in ones.
+ * A custom template's spoken labels only split dictation within its own form.
+ */
+
+import type {
+  CustomFormData,
+  CustomWorkflowTemplate,
+  CustomWorkflowType,
+  Nurse,
+  WorkflowFieldSchema,
+  WorkflowFieldType,
+} from '../types';
+import type { StorageError, StorageResult } from './storageService';
+import { setCustomWorkflowSchemas } from './workflowSchemas';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CUSTOM_TEMPLATES_KEY = 'voize_workflow_templates';
+
+const FIELD_TYPES: WorkflowFieldType[] = ['text', 'number', 'select', 'textarea', 'date', 'time', 'datetime-local'];
+const FIELD_KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9]*$/;
+const WORKFLOW_TYPE_PATTERN = /^custom-[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * A template as edited in the builder, before it is saved as a version
+ */
+export type CustomWorkflowTemplateDraft = Omit<CustomWorkflowTemplate, 'version' | 'updatedAt' | 'updatedBy'>;
+
+// Latest version of each template, sorted by name
+let latestTemplates: CustomWorkflowTemplate[] = [];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function isCustomWorkflowType(workflowType: string): workflowType is CustomWorkflowType {
+  return workflowType.startsWith('custom-');
+}
+
+/**
+ * Workflow type for a new template ("Morse Fall Risk" → "custom-morse-fall-risk"), made unique
+ * against the templates already saved
+ */
+export function createCustomWorkflowType(name: string): CustomWorkflowType {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'form';
+  const taken = new Set(latestTemplates.map((template) => template.type));
+
+  let type: CustomWorkflowType = `custom-${slug}`;
+  for (let i = 2; taken.has(type); i++) {
+    type = `custom-${slug}-${i}`;
+  }
+  return type;
+}
+
+function validationError(message: string): StorageResult<never> {
+  return {
+    success: false,
+    error: { code: 'VALIDATION_ERROR', message },
+  };
+}
+
+function toStorageError(error: unknown, message: string): StorageError {
+  if (error instanceof DOMException && (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED'
+  )) {
+    return {
+      code: 'QUOTA_EXCEEDED',
+      message: 'localStorage quota exceeded. Try deleting unused templates.',
+      originalError: error,
+    };
+  }
+
+  return {
+    code: error instanceof SyntaxError ? 'PARSE_ERROR' : 'UNKNOWN',
+    message,
+    originalError: error,
+  };
+}
+
+/**
+ * Every saved version of every template (throws if the stored JSON cannot be parsed)
+ */
+function readTemplateVersions(): CustomWorkflowTemplate[] {
+  const data = localStorage.getItem(CUSTOM_TEMPLATES_KEY);
+  return data ? (JSON.parse(data) as CustomWorkflowTemplate[]) : [];
+}
+
+/**
+ * Keeps the highest version of each template and registers their schemas
+ */
+function setLatestTemplates(versions: CustomWorkflowTemplate[]): void {
+  const latest = new Map<string, CustomWorkflowTemplate>();
+  for (const template of versions) {
+    const current = latest.get(template.type);
+    if (!current || template.version > current.version) latest.set(template.type, template);
+  }
+
+  latestTemplates = [...latest.values()].sort((a, b) => a.name.localeCompare(b.name));
+  setCustomWorkflowSchemas(latestTemplates);
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function normalizeLabels(labels: string[] | undefined): string[] | undefined {
+  const normalized = [...new Set((labels || []).map((label) => label.trim().toLowerCase()).filter(Boolean))];
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+function validateField(value: unknown, index: number): StorageResult<WorkflowFieldSchema> {
+  const field = value as Partial<WorkflowFieldSchema> | null;
+  const name = `Field ${index + 1}`;
+
+  if (typeof field !== 'object' || field === null) {
+    return validationError(`${name} is not a field definition`);
+  }
+  if (typeof field.label !== 'string' || !field.label.trim()) {
+    return validationError(`${name} needs a label`);
+  }
+  if (typeof field.key !== 'string' || !FIELD_KEY_PATTERN.test(field.key)) {
+    return validationError(`${field.label} needs a key made of letters and digits (e.g., "fallHistory")`);
+  }
+  if (!field.type || !FIELD_TYPES.includes(field.type)) {
+    return validationError(`${field.label} has an unknown input type "${String(field.type)}"`);
+  }
+  if (field.type === 'select') {
+    const options = Array.isArray(field.options) ? field.options : [];
+    if (options.length === 0 || !options.every((option) => typeof option?.value === 'string' && option.value && typeof option.label === 'string')) {
+      return validationError(`${field.label} needs at least one option`);
+    }
+  }
+  for (const labels of [field.spokenLabels, field.shortLabels, field.aliases]) {
+    if (labels !== undefined && !isStringArray(labels)) {
+      return validationError(`${field.label} has spoken labels that are not text`);
+    }
+  }
+  for (const text of [field.unit, field.placeholder]) {
+    if (text !== undefined && typeof text !== 'string') {
+      return validationError(`${field.label} has a unit or placeholder that is not text`);
+    }
+  }
+
+  // Only what the builder defines is kept: clinical ranges, StructuredData paths and export
+  // codes belong to built-in workflows, and a shared file must not bring in settings that
+  // custom forms can't honor
+  return {
+    success: true,
+    data: {
+      key: field.key,
+      label: field.label.trim(),
+      type: field.type,
+      unit: field.unit?.trim() || undefined,
+      required: field.required === true || undefined,
+      placeholder: field.placeholder?.trim() || undefined,
+      options: field.type === 'select' ? field.options?.map(({ value, label }) => ({ value, label })) : undefined,
+      spokenLabels: normalizeLabels(field.spokenLabels),
+      shortLabels: normalizeLabels(field.shortLabels),
+      aliases: normalizeLabels(field.aliases),
+      // Custom forms have no extractor: dictation after a field's label fills it
+      autoFill: 'segment',
+    },
+  };
+}
+
+/**
+ * Checks a template (e.g., from imported JSON) and normalizes its spoken labels
+ */
+export function validateCustomTemplate(value: unknown): StorageResult<CustomWorkflowTemplateDraft> {
+  const template = value as Partial<CustomWorkflowTemplate> | null;
+
+  if (typeof template !== 'object' || template === null) {
+    return validationError('Not a workflow template');
+  }
+  if (typeof template.name !== 'string' || !template.name.trim()) {
+    return validationError('Template needs a name');
+  }
+  if (typeof template.type !== 'string' || !WORKFLOW_TYPE_PATTERN.test(template.type)) {
+    return validationError(`"${String(template.type)}" is not a custom workflow type (e.g., "custom-fall-risk")`);
+  }
+  if (template.promptGuide !== undefined && !isStringArray(template.promptGuide)) {
+    return validationError('Prompt guide must be a list of prompts');
+  }
+  if (!Array.isArray(template.fields) || template.fields.length === 0) {
+    return validationError('Template needs at least one field');
+  }
+
+  const fields: WorkflowFieldSchema[] = [];
+  for (const [index, value] of template.fields.entries()) {
+    const result = validateField(value, index);
+    if (!result.success || !result.data) return validationError(result.error?.message || 'Invalid field');
+    fields.push(result.data);
+  }
+
+  // Keys and spoken labels must each point to one field
+  const keys = new Set<string>();
+  const labelOwners = new Map<string, string>();
+  for (const field of fields) {
+    if (keys.has(field.key)) return validationError(`Two fields use the key "${field.key}"`);
+    keys.add(field.key);
+
+    for (const label of [...(field.spokenLabels || []), ...(field.shortLabels || [])]) {
+      const owner = labelOwners.get(label);
+      if (owner) return validationError(`"${label}" is a spoken label of both ${owner} and ${field.label}`);
+      labelOwners.set(label, field.label);
+    }
+  }
+
+  return {
+    success: true,
+    data: {
+      type: template.type as CustomWorkflowType,
+      name: template.name.trim(),
+      description: typeof template.description === 'string' ? template.description.trim() : '',
+      promptGuide: (template.promptGuide || []).map((prompt) => prompt.trim()).filter(Boolean),
+      icon: typeof template.icon === 'string' ? template.icon : undefined,
+      color: typeof template.color === 'string' ? template.color : undefined,
+      fields,
+    },
+  };
+}
+
+// ============================================================================
+// STORAGE OPERATIONS
+// ============================================================================
+
+/**
+ * Loads the saved templates (latest version of each) and registers their workflows
+ */
+export function loadCustomTemplates(): StorageResult<CustomWorkflowTemplate[]> {
+  try {
+    setLatestTemplates(readTemplateVersions());
+    return {
+      success: true,
+      data: latestTemplates,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: toStorageError(error, 'Failed to load workflow templates'),
+    };
+  }
+}
+
+/**
+ * Latest version of a custom template (from the last load or save)
+ */
+export function getCustomTemplate(workflowType: string): CustomWorkflowTemplate | undefined {
+  return latestTemplates.find((template) => template.type === workflowType);
+}
+
+/**
+ * Every saved version of a template, newest first
+ */
+export function getTemplateVersions(workflowType: CustomWorkflowType): StorageResult<CustomWorkflowTemplate[]> {
+  try {
+    return {
+      success: true,
+      data: readTemplateVersions()
+        .filter((template) => template.type === workflowType)
+        .sort((a, b) => b.version - a.version),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: toStorageError(error, 'Failed to load template versions'),
+    };
+  }
+}
+
+/**
+ * Saves a template as its next version. `minVersion` keeps an imported template's version
+ * number when this device has no later one.
+ */
+export function saveCustomTemplate(
+  draft: CustomWorkflowTemplateDraft,
+  savedBy?: Pick<Nurse, 'name'>,
+  minVersion = 1
+): StorageResult<CustomWorkflowTemplate> {
+  const validation = validateCustomTemplate(draft);
+  if (!validation.success || !validation.data) {
+    return { success: false, error: validation.error };
+  }
+
+  try {
+    const versions = readTemplateVersions();
+    const latestVersion = Math.max(0, ...versions.filter((t) => t.type === draft.type).map((t) => t.version));
+    const template: CustomWorkflowTemplate = {
+      ...validation.data,
+      version: Math.max(latestVersion + 1, minVersion),
+      updatedAt: new Date().toISOString(),
+      updatedBy: savedBy?.name,
+    };
+
+    const updated = [...versions, template];
+    localStorage.setItem(CUSTOM_TEMPLATES_KEY, JSON.stringify(updated));
+    setLatestTemplates(updated);
+    return {
+      success: true,
+      data: template,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: toStorageError(error, 'Failed to save workflow template'),
+    };
+  }
+}
+
+/**
+ * Deletes every version of a template. Entries documented with it keep their labels and values.
+ */
+export function deleteCustomTemplate(workflowType: CustomWorkflowType): StorageResult<void> {
+  try {
+    const remaining = readTemplateVersions().filter((template) => template.type !== workflowType);
+    localStorage.setItem(CUSTOM_TEMPLATES_KEY, JSON.stringify(remaining));
+    setLatestTemplates(remaining);
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: toStorageError(error, 'Failed to delete workflow template'),
+    };
+  }
+}
+
+// ============================================================================
+// SHARING
+// ============================================================================
+
+/**
+ * JSON of a template version, for sharing with other devices
+ */
+export function exportCustomTemplate(template: CustomWorkflowTemplate): string {
+  return JSON.stringify(template, null, 2);
+}
+
+/**
+ * Saves a shared template. It becomes a new version when a template of the same type already
+ * exists here, and keeps its own version number otherwise.
+ */
+export function importCustomTemplate(
+  json: string,
+  importedBy?: Pick<Nurse, 'name'>
+): StorageResult<CustomWorkflowTemplate> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        code: 'PARSE_ERROR',
+        message: 'The file is not valid JSON',
+        originalError: error,
+      },
+    };
+  }
+
+  const validation = validateCustomTemplate(parsed);
+  if (!validation.success || !validation.data) {
+    return { success: false, error: validation.error };
+  }
+
+  const version = (parsed as Partial<CustomWorkflowTemplate>).version;
+  return saveCustomTemplate(validation.data, importedBy, typeof version === 'number' ? version : 1);
+}
+
+// ============================================================================
+// DOCUMENTATION
+// ============================================================================
+
+/**
+ * Form values as they are stored on the entry, in the template's field order (empty fields left out)
+ */
+export function toCustomFormData(
+  template: CustomWorkflowTemplate,
+  formData: Record<string, string | number>
+): CustomFormData {
+  const fields: CustomFormData['fields'] = [];
+
+  for (const field of template.fields) {
+    const raw = formData[field.key];
+    const value = typeof raw === 'string' ? raw.trim() : raw;
+    if (value === undefined || value === '') continue;
+
+    fields.push({
+      key: field.key,
+      label: field.label,
+      // Selections are stored as the option shown, so the entry reads the same in the EHR
+      value: field.options?.find((option) => option.value === value)?.label || value,
+      unit: field.unit,
+    });
+  }
+
+  return {
+    templateType: template.type,
+    templateName: template.name,
+    templateVersion: template.version,
+    fields,
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Early Warning Scores
+ *
+ * NEWS2 (Royal College of Physicians, 2017; SpO2 scale 1) and MEWS (Subbe et al., 2001)
+ * from an entry's vital signs. Parameters that weren't recorded score 0 and are listed in
+ * `missing`, so a partial set of vitals can only understate the score.
+ *
+ * Escalation: NEWS2 of 5 or more, or 3 points in any one parameter; MEWS of 5 or more.
+ */
+
+import type {
+  DocumentationEntry,
+  EarlyWarningParameter,
+  EarlyWarningRisk,
+  EarlyWarningScore,
+  EarlyWarningScoreItem,
+  EarlyWarningScores,
+  LevelOfConsciousness,
+  VitalSigns,
+} from '../types';
+
+export const EARLY_WARNING_PARAMETER_LABELS: Record<EarlyWarningParameter, string> = {
+  respiratoryRate: 'Respiratory rate',
+  oxygenSaturation: 'SpO2',
+  supplementalOxygen: 'Air or oxygen',
+  systolic: 'Systolic BP',
+  heartRate: 'Pulse',
+  levelOfConsciousness: 'Consciousness',
+  temperature: 'Temperature',
+};
+
+export const EARLY_WARNING_RISK_LABELS: Record<EarlyWarningRisk, string> = {
+  low: 'Low',
+  'low-medium': 'Low-medium',
+  medium: 'Medium',
+  high: 'High',
+};
+
+/**
+ * Points for a value: the first band whose upper bound the value doesn't exceed, else `above`
+ */
+type ScoreBands = { bands: Array<[upTo: number, points: number]>; above: number };
+
+const scoreBand = (value: number, { bands, above }: ScoreBands): number =>
+  bands.find(([upTo]) => value <= upTo)?.[1] ?? above;
+
+const NEWS2_BANDS: Record<'respiratoryRate' | 'oxygenSaturation' | 'systolic' | 'heartRate' | 'temperature', ScoreBands> = {
+  respiratoryRate: { bands: [[8, 3], [11, 1], [20, 0], [24, 2]], above: 3 },
+  oxygenSaturation: { bands: [[91, 3], [93, 2], [95, 1]], above: 0 },
+  systolic: { bands: [[90, 3], [100, 2], [110, 1], [219, 0]], above: 3 },
+  heartRate: { bands: [[40, 3], [50, 1], [90, 0], [110, 1], [130, 2]], above: 3 },
+  temperature: { bands: [[35, 3], [36, 1], [38, 0], [39, 1]], above: 2 },
+};
+
+const MEWS_BANDS: Record<'respiratoryRate' | 'systolic' | 'heartRate' | 'temperature', ScoreBands> = {
+  respiratoryRate: { bands: [[8, 2], [14, 0], [20, 1], [29, 2]], above: 3 },
+  systolic: { bands: [[70, 3], [80, 2], [100, 1], [199, 0]], above: 2 },
+  heartRate: { bands: [[40, 2], [50, 1], [100, 0], [110, 1], [129, 2]], above: 3 },
+  temperature: { bands: [[34.9, 2], [38.4, 0]], above: 2 },
+};
+
+/**
+ * MEWS AVPU points (NEWS2 scores any level other than alert as 3)
+ */
+const MEWS_CONSCIOUSNESS_POINTS: Record<LevelOfConsciousness, number> = {
+  alert: 0,
+  confused: 1,
+  drowsy: 1,
+  lethargic: 1,
+  stuporous: 2,
+  comatose: 3,
+};
+
+/**
+ * Temperature in °C to one decimal, from the measured value when it was taken in °C
+ */
+function temperatureCelsius(vitals: VitalSigns): number | undefined {
+  const measured = vitals.measuredAs?.temperature;
+  if (measured?.unit === 'Cel') return measured.value;
+  if (typeof vitals.temperature !== 'number') return undefined;
+  return Math.round(((vitals.temperature - 32) * 5) / 9 * 10) / 10;
+}
+
+/**
+ * Values of the scored parameters that were recorded
+ */
+function scoredValues(vitals: VitalSigns): Partial<Record<EarlyWarningParameter, number | string | boolean>> {
+  return {
+    respiratoryRate: vitals.respiratoryRate,
+    oxygenSaturation: vitals.oxygenSaturation,
+    supplementalOxygen: vitals.supplementalOxygen,
+    systolic: vitals.systolic,
+    heartRate: vitals.heartRate,
+    levelOfConsciousness: vitals.levelOfConsciousness,
+    temperature: temperatureCelsius(vitals),
+  };
+}
+
+function toScore(
+  type: EarlyWarningScore['type'],
+  breakdown: EarlyWarningScoreItem[],
+  missing: EarlyWarningParameter[],
+  riskFor: (total: number, breakdown: EarlyWarningScoreItem[]) => EarlyWarningRisk,
+  escalateFor: (total: number, breakdown: EarlyWarningScoreItem[]) => boolean
+): EarlyWarningScore {
+  const total = breakdown.reduce((sum, item) => sum + item.points, 0);
+  return {
+    type,
+    total,
+    risk: riskFor(total, breakdown),
+    escalate: escalateFor(total, breakdown),
+    breakdown,
+    missing,
+  };
+}
+
+const hasRedScore = (breakdown: EarlyWarningScoreItem[]) => breakdown.some((item) => item.points >= 3);
+
+/**
+ * NEWS2 from vital signs
+ */
+export function calculateNEWS2(vitals: VitalSigns): EarlyWarningScore {
+  const values = scoredValues(vitals);
+  const breakdown: EarlyWarningScoreItem[] = [];
+  const missing: EarlyWarningParameter[] = [];
+
+  (['respiratoryRate', 'oxygenSaturation', 'supplementalOxygen', 'systolic', 'heartRate', 'levelOfConsciousness', 'temperature'] as const).forEach(
+    (parameter) => {
+      const value = values[parameter];
+      if (value === undefined) {
+        missing.push(parameter);
+      } else if (parameter === 'supplementalOxygen') {
+        breakdown.push({ parameter, value, points: value ? 2 : 0 });
+      } else if (parameter === 'levelOfConsciousness') {
+        breakdown.push({ parameter, value, points: value === 'alert' ? 0 : 3 });
+      } else {
+        breakdown.push({ parameter, value, points: scoreBand(value as number, NEWS2_BANDS[parameter]) });
+      }
+    }
+  );
+
+  return toScore(
+    'NEWS2',
+    breakdown,
+    missing,
+    (total, items) => (total >= 7 ? 'high' : total >= 5 ? 'medium' : hasRedScore(items) ? 'low-medium' : 'low'),
+    (total, items) => total >= 5 || hasRedScore(items)
+  );
+}
+
+/**
+ * MEWS from vital signs
+ */
+export function calculateMEWS(vitals: VitalSigns): EarlyWarningScore {
+  const values = scoredValues(vitals);
+  const breakdown: EarlyWarningScoreItem[] = [];
+  const missing: EarlyWarningParameter[] = [];
+
+  (['systolic', 'heartRate', 'respiratoryRate', 'temperature', 'levelOfConsciousness'] as const).forEach((parameter) => {
+    const value = values[parameter];
+    if (value === undefined) {
+      missing.push(parameter);
+    } else if (parameter === 'levelOfConsciousness') {
+      breakdown.push({ parameter, value, points: MEWS_CONSCIOUSNESS_POINTS[value as LevelOfConsciousness] ?? 0 });
+    } else {
+      breakdown.push({ parameter, value, points: scoreBand(value as number, MEWS_BANDS[parameter]) });
+    }
+  });
+
+  return toScore(
+    'MEWS',
+    breakdown,
+    missing,
+    (total) => (total >= 5 ? 'high' : total === 4 ? 'medium' : total >= 2 ? 'low-medium' : 'low'),
+    (total) => total >= 5
+  );
+}
+
+/**
+ * NEWS2 and MEWS for a set of vitals, or undefined when none of the scored measurements were taken
+ */
+export function calculateEarlyWarningScores(vitals: VitalSigns | undefined): EarlyWarningScores | undefined {
+  if (!vitals) return undefined;
+
+  const measured = [vitals.respiratoryRate, vitals.oxygenSaturation, vitals.systolic, vitals.heartRate, vitals.temperature];
+  if (measured.every((value) => typeof value !== 'number')) return undefined;
+
+  return {
+    news2: calculateNEWS2(vitals),
+    mews: calculateMEWS(vitals),
+    calculatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Entry with its early warning scores recalculated from its vital signs
+ */
+export function withEarlyWarningScores(entry: DocumentationEntry): DocumentationEntry {
+  const earlyWarningScores = calculateEarlyWarningScores(entry.structuredData.vitalSigns);
+  if (!earlyWarningScores && !entry.earlyWarningScores) return entry;
+  return { ...entry, earlyWarningScores };
+}
+
+/**
+ * Scores stored on an entry, calculated on the fly for entries saved before scoring existed
+ */
+export function getEarlyWarningScores(entry: DocumentationEntry): EarlyWarningScores | undefined {
+  return entry.earlyWarningScores || calculateEarlyWarningScores(entry.structuredData.vitalSigns);
+}
@@ -0,0 +1,157 @@
+/**
+ * Entry Versioning
+ *
+ * Keeps an append-only version chain on each DocumentationEntry. A new version is
+ * recorded whenever the documented content (transcript or structuredData) changes;
+ * status and transport updates do not create versions. Changes to an entry that was
+ * already signed or sent to the EHR are amendments and must give a reason.
+ */
+
+import type { DocumentationEntry, EntryVersion, StructuredDataChange } from '../types';
+
+export interface VersionAuthor {
+  id: string;
+  name?: string;
+}
+
+/**
+ * Reason and author for a change to an entry already signed or sent to the EHR
+ */
+export interface EntryAmendment {
+  reason: string;
+
+  /** Defaults to the entry's nurse */
+  author?: VersionAuthor;
+}
+
+export interface VersionedEntry {
+  entry: DocumentationEntry;
+
+  /** Whether a new version was recorded */
+  changed: boolean;
+
+  /** Whether the new version amends an entry already signed or sent to the EHR */
+  isAmendment: boolean;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Field-level differences between two structuredData values
+ * Objects and arrays are compared member by member, so one changed dose is one change
+ */
+export function diffStructuredData(before: unknown, after: unknown, path = ''): StructuredDataChange[] {
+  // Treat an added/removed object as changes to each of its fields
+  if (before === undefined && (isPlainObject(after) || Array.isArray(after))) {
+    return diffStructuredData(Array.isArray(after) ? [] : {}, after, path);
+  }
+  if (after === undefined && (isPlainObject(before) || Array.isArray(before))) {
+    return diffStructuredData(before, Array.isArray(before) ? [] : {}, path);
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap((key) => diffStructuredData(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return Array.from({ length: Math.max(before.length, after.length) }, (_, index) =>
+      diffStructuredData(before[index], after[index], `${path}[${index}]`)
+    ).flat();
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  return [{ path, before, after }];
+}
+
+/**
+ * Snapshot of an entry's content as a version
+ */
+function toVersion(
+  entry: DocumentationEntry,
+  version: number,
+  author: VersionAuthor,
+  changes: StructuredDataChange[],
+  isAmendment: boolean,
+  reason?: string
+): EntryVersion {
+  return {
+    version,
+    recordedAt: new Date().toISOString(),
+    authorId: author.id,
+    authorName: author.name,
+    reason,
+    isAmendment,
+    // Copy so later edits to the entry can't reach into the history
+    voiceTranscript: entry.voiceTranscript,
+    structuredData: JSON.parse(JSON.stringify(entry.structuredData)),
+    changes,
+  };
+}
+
+/**
+ * Records a version for `next`, continuing the chain stored on `previous`
+ * The chain always comes from `previous` - versions supplied on `next` are ignored
+ * @param author - Who made the change (defaults to the entry's nurse)
+ */
+export function recordVersion(
+  previous: DocumentationEntry | null,
+  next: DocumentationEntry,
+  author: VersionAuthor = { id: next.nurseId, name: next.nurseName },
+  reason?: string
+): VersionedEntry {
+  if (!previous) {
+    return {
+      entry: { ...next, version: 1, versions: [toVersion(next, 1, author, [], false, reason)] },
+      changed: true,
+      isAmendment: false,
+    };
+  }
+
+  // Entries stored before versioning existed start their chain from the stored content
+  const history =
+    previous.versions ||
+    [toVersion(previous, 1, { id: previous.nurseId, name: previous.nurseName }, [], false)];
+
+  const changes = diffStructuredData(previous.structuredData, next.structuredData);
+  if (changes.length === 0 && previous.voiceTranscript === next.voiceTranscript) {
+    return {
+      entry: { ...next, version: history.length, versions: history, amendedAt: previous.amendedAt },
+      changed: false,
+      isAmendment: false,
+    };
+  }
+
+  const isAmendment = previous.status === 'sent_to_ehr' || !!previous.signature;
+  const version = toVersion(next, history.length + 1, author, changes, isAmendment, reason);
+  return {
+    entry: {
+      ...next,
+      version: version.version,
+      versions: [...history, version],
+      amendedAt: isAmendment ? version.recordedAt : previous.amendedAt,
+    },
+    changed: true,
+    isAmendment,
+  };
+}
+
+/**
+ * Whether an entry was corrected after it was sent to the EHR
+ */
+export function isAmendedEntry(entry: DocumentationEntry): boolean {
+  return Boolean(entry.amendedAt);
+}
+
+/**
+ * Human-readable value for a diff cell
+ */
+export function formatChangeValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,1906 @@
+import type {
+  CDADocument,
+  DocumentationEntry,
+  FHIRObservation,
+  FHIRResource,
+  FHIRCodeableConcept,
+  FHIREncounter,
+  FHIRCondition,
+  FHIRAllergyIntolerance,
+  FHIRMedicationStatement,
+  FHIRMedicationAdministration,
+  FHIRDocumentReference,
+  FHIRComposition,
+  FHIRObservationComponent,
+  FHIRQuantity,
+  FHIRPatient,
+  FHIRBundle,
+  FHIRBundleEntry,
+  Assessment,
+  Medication,
+  MedicationRoute,
+  Nurse,
+  Patient,
+  UnitConvertedVitalSign,
+  VitalSignMeasurement,
+  VitalSigns,
+  WorkflowFieldCode,
+} from '../types';
+import { isAmendedEntry } from './entryVersioning';
+import { VITAL_SIGN_UNIT_DISPLAY, getReportedVitalSign, isUnitConvertedVitalSign } from './vitalSignUnits';
+import { getFormularyCoding } from './formulary';
+import { getFieldCodes } from './workflowSchemas';
+
+/**
+ * Export utilities for converting documentation entries to various formats
+ */
+
+/**
+ * Admission source (as captured by the nurse app) mapped to FHIR admit-source codes
+ * and HL7 v2 Table 0023 (PV1-14) codes
+ */
+const ADMIT_SOURCE_CODES: Record<string, { fhir: string; display: string; hl7: string }> = {
+  'emergency-department': { fhir: 'emd', display: 'From accident/emergency department', hl7: '7' },
+  'direct-admission': { fhir: 'gp', display: 'General Practitioner referral', hl7: '1' },
+  'transfer-hospital': { fhir: 'hosp-trans', display: 'Transferred from other hospital', hl7: '4' },
+  'transfer-snf': { fhir: 'nursing', display: 'From nursing home', hl7: '5' },
+  'clinic': { fhir: 'outp', display: 'From outpatient department', hl7: '2' },
+  'other': { fhir: 'other', display: 'Other', hl7: '9' },
+};
+
+/**
+ * Escape HL7 v2 delimiter characters in free text
+ */
+function escapeHL7(text: string): string {
+  return text
+    .replace(/\\/g, '\\E\\')
+    .replace(/\|/g, '\\F\\')
+    .replace(/\^/g, '\\S\\')
+    .replace(/&/g, '\\T\\')
+    .replace(/~/g, '\\R\\');
+}
+
+/**
+ * Build FHIR resources for an admission entry:
+ * Encounter, admitting diagnosis and history Conditions, AllergyIntolerances and home MedicationStatements
+ */
+function buildAdmissionResources(entry: DocumentationEntry): FHIRResource[] {
+  const admission = entry.structuredData.admissionData;
+  if (!admission) return [];
+
+  const resources: FHIRResource[] = [];
+  const subject = { reference: `Patient/${entry.patientId}`, display: entry.patientName };
+  const recorder = { reference: `Practitioner/${entry.nurseId}`, display: entry.nurseName };
+  const encounterRef = { reference: `Encounter/${entry.id}-encounter` };
+  const activeStatus = (system: string): FHIRCodeableConcept => ({
+    coding: [{ system, code: 'active' }],
+  });
+
+  const admitSource = ADMIT_SOURCE_CODES[admission.admissionSource];
+  const encounter: FHIREncounter = {
+    resourceType: 'Encounter',
+    id: `${entry.id}-encounter`,
+    status: 'in-progress',
+    class: {
+      system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode',
+      code: 'IMP',
+      display: 'inpatient encounter',
+    },
+    subject,
+    period: { start: entry.timestamp },
+    participant: [{ individual: recorder }],
+  };
+  if (admission.chiefComplaint) {
+    encounter.reasonCode = [{ text: admission.chiefComplaint }];
+  }
+  if (admitSource) {
+    encounter.hospitalization = {
+      admitSource: {
+        coding: [
+          {
+            system: 'http://terminology.hl7.org/CodeSystem/admit-source',
+            code: admitSource.fhir,
+            display: admitSource.display,
+          },
+        ],
+      },
+    };
+  }
+  resources.push(encounter);
+
+  const conditionCategory = (code: string, display: string): FHIRCodeableConcept[] => [
+    {
+      coding: [
+        {
+          system: 'http://terminology.hl7.org/CodeSystem/condition-category',
+          code,
+          display,
+        },
+      ],
+    },
+  ];
+
+  if (admission.admittingDiagnosis) {
+    const diagnosis: FHIRCondition = {
+      resourceType: 'Condition',
+      id: `${entry.id}-dx`,
+      clinicalStatus: activeStatus('http://terminology.hl7.org/CodeSystem/condition-clinical'),
+      category: conditionCategory('encounter-diagnosis', 'Encounter Diagnosis'),
+      code: { text: admission.admittingDiagnosis },
+      subject,
+      encounter: encounterRef,
+      recordedDate: entry.timestamp,
+      recorder,
+    };
+    resources.push(diagnosis);
+  }
+
+  admission.medicalHistory.forEach((item, index) => {
+    const history: FHIRCondition = {
+      resourceType: 'Condition',
+      id: `${entry.id}-pmh-${index + 1}`,
+      category: conditionCategory('problem-list-item', 'Problem List Item'),
+      code: { text: item },
+      subject,
+      recordedDate: entry.timestamp,
+      recorder,
+    };
+    resources.push(history);
+  });
+
+  admission.allergies
+    .filter((allergy) => allergy !== 'NKDA')
+    .forEach((allergy, index) => {
+      const allergyIntolerance: FHIRAllergyIntolerance = {
+        resourceType: 'AllergyIntolerance',
+        id: `${entry.id}-allergy-${index + 1}`,
+        clinicalStatus: activeStatus('http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical'),
+        verificationStatus: {
+          coding: [
+            {
+              system: 'http://terminology.hl7.org/CodeSystem/allergyintolerance-verification',
+              code: 'unconfirmed',
+            },
+          ],
+        },
+        code: { text: allergy },
+        patient: subject,
+        recordedDate: entry.timestamp,
+        recorder,
+      };
+      resources.push(allergyIntolerance);
+    });
+
+  admission.currentMedications.forEach((med, index) => {
+    const doseMatch = med.dose.match(/^([\d.]+)\s*(.*)$/);
+    const statement: FHIRMedicationStatement = {
+      resourceType: 'MedicationStatement',
+      id: `${entry.id}-homemed-${index + 1}`,
+      status: 'active',
+      medicationCodeableConcept: { text: med.name },
+      subject,
+      dateAsserted: entry.timestamp,
+      informationSource: subject,
+      dosage: [
+        {
+          text: [med.name, med.dose, med.route, med.frequency].filter(Boolean).join(' '),
+          timing: med.frequency ? { code: { text: med.frequency } } : undefined,
+          route: { text: med.route },
+          doseAndRate: doseMatch
+            ? [{ doseQuantity: { value: parseFloat(doseMatch[1]), unit: doseMatch[2] } }]
+            : undefined,
+        },
+      ],
+    };
+    resources.push(statement);
+  });
+
+  return resources;
+}
+
+/**
+ * Medications given in a medication administration entry
+ * (older entries store the flat form fields instead of a medications array)
+ */
+export function getAdministeredMedications(entry: DocumentationEntry): Medication[] {
+  if (entry.structuredData.medications) {
+    return entry.structuredData.medications;
+  }
+
+  const formData = entry.structuredData as {
+    medicationName?: string;
+    dosage?: string;
+    route?: Medication['route'];
+    timeAdministered?: string;
+  };
+  if (entry.workflowType !== 'medication-administration' || !formData.medicationName) {
+    return [];
+  }
+
+  return [
+    {
+      name: formData.medicationName,
+      dose: formData.dosage || '',
+      route: formData.route || 'PO',
+      timeAdministered: formData.timeAdministered || entry.timestamp,
+    },
+  ];
+}
+
+/**
+ * Vital sign codes from the vital signs workflow schema (LOINC code, display, UCUM unit)
+ */
+const VITAL_SIGN_CODES = getFieldCodes('vital-signs');
+
+/**
+ * HL7 v2 coded element (CE) for a LOINC code
+ */
+const toLOINCIdentifier = ({ code, display }: WorkflowFieldCode) => `${code}^${display}^LN`;
+
+/**
+ * Vital signs exported in the unit they were measured in (LOINC code and display from the schema, id suffix)
+ */
+const MEASURED_VITAL_SIGNS: Array<{
+  field: UnitConvertedVitalSign;
+  idSuffix: string;
+  code: string;
+  display: string;
+  text: string;
+}> = (
+  [
+    { field: 'temperature', idSuffix: 'temp', text: 'Temperature' },
+    { field: 'weight', idSuffix: 'weight', text: 'Weight' },
+    { field: 'height', idSuffix: 'height', text: 'Height' },
+    { field: 'bloodGlucose', idSuffix: 'glucose', text: 'Blood Glucose' },
+  ] as const
+).map((vital) => ({
+  ...vital,
+  code: VITAL_SIGN_CODES[vital.field].code,
+  display: VITAL_SIGN_CODES[vital.field].display,
+}));
+
+/**
+ * UCUM-coded FHIR Quantity for a measured vital sign
+ */
+function toUCUMQuantity(measurement: VitalSignMeasurement): FHIRQuantity {
+  return {
+    value: measurement.value,
+    unit: VITAL_SIGN_UNIT_DISPLAY[measurement.unit],
+    system: 'http://unitsofmeasure.org',
+    code: measurement.unit,
+  };
+}
+
+/**
+ * Medication routes mapped to SNOMED CT route of administration codes
+ */
+export const ROUTE_SNOMED_CODES: Record<MedicationRoute, { code: string; display: string }> = {
+  PO: { code: '26643006', display: 'Oral route' },
+  IV: { code: '47625008', display: 'Intravenous route' },
+  IM: { code: '78421000', display: 'Intramuscular route' },
+  SQ: { code: '34206005', display: 'Subcutaneous route' },
+  SL: { code: '37839007', display: 'Sublingual route' },
+  PR: { code: '37161004', display: 'Rectal route' },
+  TOP: { code: '6064005', display: 'Topical route' },
+  INH: { code: '447694001', display: 'Respiratory tract route' },
+  OPH: { code: '54485002', display: 'Ophthalmic route' },
+  OT: { code: '10547007', display: 'Otic route' },
+  NG: { code: '127492001', display: 'Nasogastric route' },
+  GT: { code: '127490009', display: 'Gastrostomy route' },
+};
+
+/**
+ * Spoken/typed dose units mapped to UCUM codes
+ */
+const DOSE_UCUM_CODES: Record<string, string> = {
+  mg: 'mg',
+  mcg: 'ug',
+  ug: 'ug',
+  'µg': 'ug',
+  g: 'g',
+  ml: 'mL',
+  cc: 'mL',
+  l: 'L',
+  meq: 'meq',
+  unit: '[iU]',
+  units: '[iU]',
+  iu: '[iU]',
+  tab: '{tbl}',
+  tabs: '{tbl}',
+  tablet: '{tbl}',
+  tablets: '{tbl}',
+  puff: '{puff}',
+  puffs: '{puff}',
+  drop: '[drp]',
+  drops: '[drp]',
+  gtt: '[drp]',
+};
+
+/**
+ * Parse a dose such as "500mg" or "10 units" into a Quantity (UCUM-coded when the unit is known)
+ */
+function parseDoseQuantity(dose: string): FHIRQuantity | undefined {
+  const match = dose.trim().match(/^([\d.]+)\s*(.*)$/);
+  if (!match || Number.isNaN(parseFloat(match[1]))) return undefined;
+
+  const unit = match[2].trim();
+  const ucum = DOSE_UCUM_CODES[unit.toLowerCase()];
+  return ucum
+    ? { value: parseFloat(match[1]), unit, system: 'http://unitsofmeasure.org', code: ucum }
+    : { value: parseFloat(match[1]), unit };
+}
+
+const NDC_SYSTEM = 'http://hl7.org/fhir/sid/ndc';
+const RXNORM_SYSTEM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+
+/**
+ * Build FHIR MedicationAdministration resources for medications given in this entry
+ * Medications without codes get NDC/RxNorm from the formulary when the name matches clearly
+ */
+function buildMedicationAdministrations(entry: DocumentationEntry): FHIRMedicationAdministration[] {
+  return getAdministeredMedications(entry).map((med, index) => {
+    // timeAdministered may be a bare "HH:MM" from the form - fall back to the entry time
+    const administeredAt = Number.isNaN(Date.parse(med.timeAdministered)) ? entry.timestamp : med.timeAdministered;
+    const route = ROUTE_SNOMED_CODES[med.route];
+    const { ndc, rxnormCode } = getFormularyCoding(med);
+    const coding = [
+      ...(ndc ? [{ system: NDC_SYSTEM, code: ndc }] : []),
+      ...(rxnormCode ? [{ system: RXNORM_SYSTEM, code: rxnormCode }] : []),
+    ];
+
+    const administration: FHIRMedicationAdministration = {
+      resourceType: 'MedicationAdministration',
+      id: `${entry.id}-medadmin-${index + 1}`,
+      status: 'completed',
+      medicationCodeableConcept: coding.length > 0 ? { coding, text: med.name } : { text: med.name },
+      subject: { reference: `Patient/${entry.patientId}`, display: entry.patientName },
+      effectiveDateTime: administeredAt,
+      performer: [{ actor: { reference: `Practitioner/${entry.nurseId}`, display: entry.nurseName } }],
+      dosage: {
+        text: [med.dose, med.route, med.frequency, med.isPRN ? 'PRN' : undefined].filter(Boolean).join(' '),
+        site: med.site ? { text: med.site } : undefined,
+        route: route
+          ? { coding: [{ system: 'http://snomed.info/sct', code: route.code, display: route.display }], text: med.route }
+          : { text: med.route },
+        dose: parseDoseQuantity(med.dose),
+      },
+    };
+    if (med.reason) {
+      administration.reasonCode = [{ text: med.reason }];
+    }
+    const notes = [
+      med.response && `Response: ${med.response}`,
+      med.adverseReaction && `Adverse reaction: ${med.adverseReaction}`,
+    ].filter((note): note is string => Boolean(note));
+    if (notes.length > 0) {
+      administration.note = notes.map((text) => ({ text }));
+    }
+    return administration;
+  });
+}
+
+/**
+ * Code system for nursing assessment panels and findings that have no LOINC equivalent
+ */
+const ASSESSMENT_CODE_SYSTEM = 'http://voize.health/fhir/CodeSystem/nursing-assessment';
+
+/**
+ * Assessment body systems exported as Observation panels, in display order
+ */
+const ASSESSMENT_PANELS: Array<{ key: keyof Assessment; display: string }> = [
+  { key: 'cardiovascular', display: 'Cardiovascular assessment' },
+  { key: 'respiratory', display: 'Respiratory assessment' },
+  { key: 'gastrointestinal', display: 'Gastrointestinal assessment' },
+  { key: 'genitourinary', display: 'Genitourinary assessment' },
+  { key: 'musculoskeletal', display: 'Musculoskeletal assessment' },
+  { key: 'neurological', display: 'Neurological assessment' },
+  { key: 'skin', display: 'Skin integrity assessment' },
+  { key: 'pain', display: 'Pain assessment' },
+  { key: 'psychosocial', display: 'Psychosocial assessment' },
+];
+
+/**
+ * Findings that have a LOINC code, keyed by "<system>.<field>"
+ */
+const ASSESSMENT_FINDING_LOINC: Record<string, { code: string; display: string }> = {
+  'pain.severity': { code: '72514-3', display: 'Pain severity - 0-10 verbal numeric rating [Score] - Reported' },
+};
+
+const EXAM_CATEGORY = [
+  {
+    coding: [
+      {
+        system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+        code: 'exam',
+        display: 'Exam',
+      },
+    ],
+  },
+];
+
+/**
+ * "pulseQuality" -> "Pulse quality"
+ */
+function toFieldLabel(field: string): string {
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Build an Observation component for a single finding (empty values and nested objects are skipped)
+ */
+function toObservationComponent(
+  field: string,
+  value: unknown,
+  code: FHIRCodeableConcept = {
+    coding: [{ system: ASSESSMENT_CODE_SYSTEM, code: field, display: toFieldLabel(field) }],
+    text: toFieldLabel(field),
+  }
+): FHIRObservationComponent | undefined {
+  if (typeof value === 'string' && value.trim()) return { code, valueString: value };
+  if (typeof value === 'boolean') return { code, valueBoolean: value };
+  if (typeof value === 'number' && Number.isInteger(value)) return { code, valueInteger: value };
+  if (Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === 'string')) {
+    return { code, valueString: value.join(', ') };
+  }
+  return undefined;
+}
+
+/**
+ * Build Observation panels for each documented assessment system, grouped under a nursing assessment panel
+ */
+function buildAssessmentObservations(entry: DocumentationEntry): FHIRObservation[] {
+  const assessment = entry.structuredData.assessment;
+  if (!assessment) return [];
+
+  const subject = { reference: `Patient/${entry.patientId}`, display: entry.patientName };
+  const performer = [{ reference: `Practitioner/${entry.nurseId}`, display: entry.nurseName }];
+  const panel = (key: string, display: string, component?: FHIRObservationComponent[]): FHIRObservation => ({
+    resourceType: 'Observation',
+    id: `${entry.id}-assess-${key}`,
+    status: 'final',
+    category: EXAM_CATEGORY,
+    code: { coding: [{ system: ASSESSMENT_CODE_SYSTEM, code: key, display }], text: display },
+    subject,
+    effectiveDateTime: entry.timestamp,
+    performer,
+    component,
+  });
+
+  const panels: FHIRObservation[] = [];
+
+  const mentalStatus = [
+    toObservationComponent('levelOfConsciousness', assessment.levelOfConsciousness),
+    toObservationComponent('orientation', assessment.orientation),
+  ].filter((component): component is FHIRObservationComponent => Boolean(component));
+  if (mentalStatus.length > 0) {
+    panels.push(panel('mental-status', 'Mental status assessment', mentalStatus));
+  }
+
+  ASSESSMENT_PANELS.forEach(({ key, display }) => {
+    const findings = assessment[key];
+    if (!findings || typeof findings !== 'object') return;
+
+    const components = Object.entries(findings)
+      .map(([field, value]) => {
+        const loinc = ASSESSMENT_FINDING_LOINC[`${key}.${field}`];
+        return loinc
+          ? toObservationComponent(field, value, {
+              coding: [{ system: 'http://loinc.org', code: loinc.code, display: loinc.display }],
+              text: toFieldLabel(field),
+            })
+          : toObservationComponent(field, value);
+      })
+      .filter((component): component is FHIRObservationComponent => Boolean(component));
+    if (components.length > 0) {
+      panels.push(panel(key, display, components));
+    }
+  });
+
+  if (panels.length === 0 && !assessment.notes) return [];
+
+  const nursingAssessment = panel('panel', 'Nursing assessment');
+  nursingAssessment.hasMember = panels.map((member) => ({ reference: `Observation/${member.id}`, display: member.code.text }));
+  if (assessment.notes) {
+    nursingAssessment.note = [{ text: assessment.notes }];
+  }
+
+  return [nursingAssessment, ...panels];
+}
+
+/**
+ * Wound dimensions mapped to LOINC codes (from the wound care workflow schema)
+ */
+const WOUND_DIMENSION_LOINC = getFieldCodes('wound-care');
+
+/**
+ * Build a wound Observation (one per wound) with dimensions and characteristics as components
+ */
+function buildWoundObservations(entry: DocumentationEntry): FHIRObservation[] {
+  const wounds = [
+    ...(entry.structuredData.woundDetails || []),
+    ...(entry.structuredData.assessment?.skin?.wounds || []),
+  ];
+
+  return wounds.map((wound, index) => {
+    const component: FHIRObservationComponent[] = [];
+    const add = (field: string, value: unknown) => {
+      const finding = toObservationComponent(field, value);
+      if (finding) component.push(finding);
+    };
+
+    add('stage', wound.stage);
+    if (wound.dimensions) {
+      (['length', 'width', 'depth'] as const).forEach((dimension) => {
+        const value = wound.dimensions?.[dimension];
+        if (value === undefined) return;
+        const loinc = WOUND_DIMENSION_LOINC[dimension];
+        component.push({
+          code: { coding: [{ system: loinc.system, code: loinc.code, display: loinc.display }], text: loinc.display },
+          valueQuantity: { value, unit: 'cm', system: 'http://unitsofmeasure.org', code: loinc.unit },
+        });
+      });
+    }
+    add('woundBedColor', wound.woundBed?.color);
+    add('woundBedTissueType', wound.woundBed?.tissuetype);
+    add('granulation', wound.woundBed?.granulation);
+    Object.entries(wound.woundBed?.composition || {}).forEach(([tissue, percent]) => {
+      const display = `Wound bed ${tissue} tissue`;
+      component.push({
+        code: { coding: [{ system: ASSESSMENT_CODE_SYSTEM, code: `woundBed-${tissue}`, display }], text: display },
+        valueQuantity: { value: percent, unit: '%', system: 'http://unitsofmeasure.org', code: '%' },
+      });
+    });
+    add('drainageAmount', wound.drainage?.amount);
+    add('drainageType', wound.drainage?.type);
+    add('drainageOdor', wound.drainage?.odor);
+    add('edges', wound.edges);
+    add('periwoundSkin', wound.periwoundSkin);
+    add('signsOfInfection', wound.signsOfInfection);
+    add('painLevel', wound.painLevel);
+    add('treatment', wound.treatment);
+    add('dressingType', wound.dressingType);
+
+    const observation: FHIRObservation = {
+      resourceType: 'Observation',
+      id: `${entry.id}-wound-${index + 1}`,
+      status: 'final',
+      category: EXAM_CATEGORY,
+      code: {
+        coding: [{ system: ASSESSMENT_CODE_SYSTEM, code: 'wound', display: 'Wound assessment' }],
+        text: 'Wound assessment',
+      },
+      subject: { reference: `Patient/${entry.patientId}`, display: entry.patientName },
+      effectiveDateTime: entry.timestamp,
+      performer: [{ reference: `Practitioner/${entry.nurseId}`, display: entry.nurseName }],
+      bodySite: { text: wound.location },
+      valueString: wound.type,
+      component,
+    };
+    if (wound.notes) {
+      observation.note = [{ text: wound.notes }];
+    }
+    return observation;
+  });
+}
+
+/**
+ * Escape text for inclusion in XHTML narrative
+ */
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Wrap a paragraph or list in a FHIR narrative div
+ */
+function toNarrative(content: string | string[]): string {
+  const body = Array.isArray(content)
+    ? `<ul>${content.map((item) => `<li>${escapeXML(item)}</li>`).join('')}</ul>`
+    : `<p>${escapeXML(content)}</p>`;
+  return `<div xmlns="http://www.w3.org/1999/xhtml">${body}</div>`;
+}
+
+/**
+ * Build a Composition holding the SBAR shift handoff, one section per SBAR element
+ */
+function buildHandoffComposition(entry: DocumentationEntry): FHIRComposition | undefined {
+  const handoff = entry.structuredData.shiftHandoff;
+  if (!handoff) return undefined;
+
+  const sections: Array<[string, string | string[] | undefined]> = [
+    ['Situation', handoff.situation],
+    ['Background', handoff.background],
+    ['Assessment', handoff.assessment],
+    ['Recommendation', handoff.recommendation],
+    ['Key Events', handoff.keyEvents],
+    ['Pending Tasks', handoff.pendingTasks],
+    ['IV Access', handoff.ivAccess],
+    ['Diet', handoff.diet],
+    ['Activity', handoff.activity],
+    ['Upcoming', handoff.upcoming],
+    ['Family Concerns', handoff.familyConcerns],
+  ];
+
+  return {
+    resourceType: 'Composition',
+    id: `${entry.id}-handoff`,
+    status: 'final',
+    type: {
+      coding: [
+        {
+          system: 'http://loinc.org',
+          code: '34746-8',
+          display: 'Nurse Note',
+        },
+      ],
+      text: 'Shift handoff (SBAR)',
+    },
+    subject: { reference: `Patient/${entry.patientId}`, display: entry.patientName },
+    date: entry.timestamp,
+    author: [{ reference: `Practitioner/${entry.nurseId}`, display: entry.nurseName }],
+    title: 'Shift Handoff Report (SBAR)',
+    section: sections
+      .filter(([, content]) => (Array.isArray(content) ? content.length > 0 : Boolean(content?.trim())))
+      .map(([title, content]) => ({
+        title,
+        text: { status: 'generated', div: toNarrative(content as string | string[]) },
+      })),
+  };
+}
+
+/**
+ * Base64-encode UTF-8 text (btoa only accepts Latin-1)
+ */
+function toBase64(text: string): string {
+  let binary = '';
+  new TextEncoder().encode(text).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+/**
+ * Build a DocumentReference holding the raw voice transcript
+ */
+function buildTranscriptDocument(entry: DocumentationEntry): FHIRDocumentReference {
+  return {
+    resourceType: 'DocumentReference',
+    id: `${entry.id}-transcript`,
+    status: 'current',
+    type: {
+      coding: [
+        {
+          system: 'http://loinc.org',
+          code: '34746-8',
+          display: 'Nurse Note',
+        },
+      ],
+      text: 'Nursing voice documentation transcript',
+    },
+    subject: { reference: `Patient/${entry.patientId}`, display: entry.patientName },
+    date: entry.timestamp,
+    author: [{ reference: `Practitioner/${entry.nurseId}`, display: entry.nurseName }],
+    description: `${entry.workflowType} transcript`,
+    content: [
+      {
+        attachment: {
+          contentType: 'text/plain',
+          language: 'en-US',
+          data: toBase64(entry.voiceTranscript),
+          title: `${entry.workflowType} transcript`,
+          creation: entry.timestamp,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Build the Patient resource sent with transaction bundles so the subject reference resolves on the server
+ */
+function buildPatientResource(entry: DocumentationEntry): FHIRPatient {
+  return {
+    resourceType: 'Patient',
+    id: entry.patientId,
+    identifier: [
+      {
+        system: 'urn:oid:2.16.840.1.113883.19.5',
+        value: entry.patientMRN,
+      },
+    ],
+    name: [{ text: entry.patientName }],
+  };
+}
+
+/**
+ * Replace references to resources in a transaction with their ids as sent
+ */
+function rewriteReferences(value: unknown, references: Map<string, string>): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => rewriteReferences(item, references));
+    return;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    Object.keys(record).forEach((key) => {
+      const field = record[key];
+      if (key === 'reference' && typeof field === 'string' && references.has(field)) {
+        record[key] = references.get(field);
+      } else {
+        rewriteReferences(field, references);
+      }
+    });
+  }
+}
+
+/**
+ * Resource id as FHIR allows it (letters, digits, "-" and ".", at most 64 characters)
+ */
+function toFHIRId(id: string): string {
+  return id.replace(/[^A-Za-z0-9\-.]/g, '-').slice(0, 64);
+}
+
+/**
+ * Turn exported resources into transaction entries
+ * Every resource is upserted by an id derived from the entry, so resending an entry after a
+ * failed or timed-out transaction updates the same resources instead of creating duplicates
+ */
+function toTransactionEntries(entry: DocumentationEntry, resources: FHIRResource[]): FHIRBundleEntry[] {
+  const patient = buildPatientResource(entry);
+  const references = new Map<string, string>();
+  resources.forEach((resource) => {
+    references.set(`${resource.resourceType}/${resource.id}`, `${resource.resourceType}/${toFHIRId(resource.id || '')}`);
+  });
+
+  const upserted: FHIRBundleEntry[] = resources.map((resource) => {
+    const url = references.get(`${resource.resourceType}/${resource.id}`)!;
+    // Copy so shared reference objects aren't rewritten in place
+    const body = JSON.parse(JSON.stringify(resource)) as FHIRResource;
+    body.id = url.split('/')[1];
+    rewriteReferences(body, references);
+    return {
+      fullUrl: url,
+      resource: body,
+      request: { method: 'PUT', url },
+    };
+  });
+
+  return [
+    {
+      fullUrl: `Patient/${patient.id}`,
+      resource: patient,
+      request: { method: 'PUT', url: `Patient/${patient.id}` },
+    },
+    ...upserted,
+  ];
+}
+
+/**
+ * Build a FHIR Bundle for a documentation entry
+ * 'collection' is for file export; 'transaction' is what sendToEHR POSTs to a FHIR server
+ */
+export function buildFHIRBundle(
+  entry: DocumentationEntry,
+  bundleType: 'collection' | 'transaction' = 'collection'
+): FHIRBundle {
+  const observations: FHIRObservation[] = [];
+
+  // Convert vital signs to FHIR Observations
+  if (entry.structuredData.vitalSigns) {
+    const vitals = entry.structuredData.vitalSigns;
+
+    if (vitals.heartRate) {
+      observations.push({
+        resourceType: 'Observation',
+        id: `${entry.id}-hr`,
+        status: 'final',
+        category: [
+          {
+            coding: [
+              {
+                system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+                code: 'vital-signs',
+                display: 'Vital Signs',
+              },
+            ],
+          },
+        ],
+        code: {
+          coding: [
+            {
+              system: VITAL_SIGN_CODES.heartRate.system,
+              code: VITAL_SIGN_CODES.heartRate.code,
+              display: VITAL_SIGN_CODES.heartRate.display,
+            },
+          ],
+          text: 'Heart Rate',
+        },
+        subject: {
+          reference: `Patient/${entry.patientId}`,
+          display: entry.patientName,
+        },
+        effectiveDateTime: entry.timestamp,
+        issued: entry.timestamp,
+        performer: [
+          {
+            reference: `Practitioner/${entry.nurseId}`,
+            display: entry.nurseName,
+          },
+        ],
+        valueQuantity: {
+          value: vitals.heartRate,
+          unit: 'beats/minute',
+          system: 'http://unitsofmeasure.org',
+          code: VITAL_SIGN_CODES.heartRate.unit,
+        },
+      });
+    }
+
+    if (vitals.bloodPressure && vitals.systolic && vitals.diastolic) {
+      observations.push({
+        resourceType: 'Observation',
+        id: `${entry.id}-bp`,
+        status: 'final',
+        category: [
+          {
+            coding: [
+              {
+                system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+                code: 'vital-signs',
+                display: 'Vital Signs',
+              },
+            ],
+          },
+        ],
+        code: {
+          coding: [
+            {
+              system: 'http://loinc.org',
+              code: '85354-9',
+              display: 'Blood pressure',
+            },
+          ],
+          text: 'Blood Pressure',
+        },
+        subject: {
+          reference: `Patient/${entry.patientId}`,
+          display: entry.patientName,
+        },
+        effectiveDateTime: entry.timestamp,
+        valueString: vitals.bloodPressure,
+      });
+    }
+
+    // Reported in the unit they were measured in (e.g., 37.2 Cel)
+    MEASURED_VITAL_SIGNS.forEach(({ field, idSuffix, code, display, text }) => {
+      const reported = getReportedVitalSign(vitals, field);
+      if (!reported) return;
+
+      observations.push({
+        resourceType: 'Observation',
+        id: `${entry.id}-${idSuffix}`,
+        status: 'final',
+        category: [
+          {
+            coding: [
+              {
+                system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+                code: 'vital-signs',
+                display: 'Vital Signs',
+              },
+            ],
+          },
+        ],
+        code: {
+          coding: [
+            {
+              system: 'http://loinc.org',
+              code,
+              display,
+            },
+          ],
+          text,
+        },
+        subject: {
+          reference: `Patient/${entry.patientId}`,
+          display: entry.patientName,
+        },
+        effectiveDateTime: entry.timestamp,
+        valueQuantity: toUCUMQuantity(reported),
+      });
+    });
+
+    if (vitals.oxygenSaturation) {
+      observations.push({
+        resourceType: 'Observation',
+        id: `${entry.id}-spo2`,
+        status: 'final',
+        category: [
+          {
+            coding: [
+              {
+                system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+                code: 'vital-signs',
+                display: 'Vital Signs',
+              },
+            ],
+          },
+        ],
+        code: {
+          coding: [
+            {
+              system: VITAL_SIGN_CODES.oxygenSaturation.system,
+              code: VITAL_SIGN_CODES.oxygenSaturation.code,
+              display: VITAL_SIGN_CODES.oxygenSaturation.display,
+            },
+          ],
+          text: 'Oxygen Saturation',
+        },
+        subject: {
+          reference: `Patient/${entry.patientId}`,
+          display: entry.patientName,
+        },
+        effectiveDateTime: entry.timestamp,
+        valueQuantity: {
+          value: vitals.oxygenSaturation,
+          unit: '%',
+          system: 'http://unitsofmeasure.org',
+          code: VITAL_SIGN_CODES.oxygenSaturation.unit,
+        },
+      });
+    }
+  }
+
+  const resources: FHIRResource[] = [
+    ...observations,
+    ...buildAssessmentObservations(entry),
+    ...buildWoundObservations(entry),
+    ...buildAdmissionResources(entry),
+    ...buildMedicationAdministrations(entry),
+  ];
+  const handoff = buildHandoffComposition(entry);
+  if (handoff) {
+    resources.push(handoff);
+  }
+  resources.push(buildTranscriptDocument(entry));
+
+  // Corrections made after the entry was sent are exported as amended results
+  if (isAmendedEntry(entry)) {
+    resources.forEach((resource) => {
+      if (resource.resourceType === 'Observation' || resource.resourceType === 'Composition') {
+        resource.status = 'amended';
+      }
+    });
+  }
+
+  // Create FHIR Bundle
+  return {
+    resourceType: 'Bundle',
+    type: bundleType,
+    timestamp: new Date().toISOString(),
+    entry:
+      bundleType === 'transaction'
+        ? toTransactionEntries(entry, resources)
+        : resources.map((resource) => ({
+            fullUrl: `urn:uuid:${resource.id}`,
+            resource,
+          })),
+    meta: {
+      source: 'Voize Nursing Documentation System',
+      tag: [
+        {
+          system: 'http://terminology.hl7.org/CodeSystem/v3-ObservationValue',
+          code: 'SUBSETTED',
+          display: 'Resource encoded in summary mode',
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * Convert documentation entry to FHIR JSON format
+ */
+export function toFHIRFormat(
+  entry: DocumentationEntry,
+  bundleType: 'collection' | 'transaction' = 'collection'
+): string {
+  return JSON.stringify(buildFHIRBundle(entry, bundleType), null, 2);
+}
+
+/**
+ * Convert documentation entry to HL7 v2 message format
+ */
+export function toHL7Format(entry: DocumentationEntry): string {
+  const now = new Date();
+  const timestamp = now
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}Z/, '');
+
+  const messageControlId = `MSG${Date.now()}`;
+  // OBX-11 / OBR-25 result status: F = final, C = corrected (amended after sending)
+  const resultStatus = isAmendedEntry(entry) ? 'C' : 'F';
+  const admission = entry.structuredData.admissionData;
+  const messageType = admission ? 'ADT^A01' : 'ORU^R01';
+
+  const segments: string[] = [];
+
+  // MSH - Message Header
+  segments.push(
+    `MSH|^~\\&|VOIZE|MEMORIAL_GENERAL|EHR_SYSTEM|MEMORIAL_GENERAL|${timestamp}||${messageType}|${messageControlId}|P|2.5`
+  );
+
+  // EVN - Event Type (ADT messages only)
+  if (admission) {
+    segments.push(`EVN|A01|${timestamp}`);
+  }
+
+  // PID - Patient Identification
+  const dob = entry.structuredData.vitalSigns?.timestamp
+    ? new Date(entry.structuredData.vitalSigns.timestamp)
+        .toISOString()
+        .split('T')[0]
+        .replace(/-/g, '')
+    : '';
+  segments.push(
+    `PID|1||${entry.patientMRN}||${entry.patientName?.split(', ').join('^')}||${dob}|U|||||||||||${entry.patientId}`
+  );
+
+  // PV1 - Patient Visit
+  const obr_timestamp = entry.timestamp.replace(/[-:]/g, '').replace(/\.\d{3}Z/, '');
+  if (admission) {
+    // PV1-14 Admit Source (Table 0023), PV1-44 Admit Date/Time
+    const admitSource = ADMIT_SOURCE_CODES[admission.admissionSource]?.hl7 || '';
+    const pv1: string[] = Array(45).fill('');
+    pv1[0] = 'PV1';
+    pv1[1] = '1';
+    pv1[2] = 'I';
+    pv1[3] = 'MED-SURG^204^01';
+    pv1[14] = admitSource;
+    pv1[44] = obr_timestamp;
+    segments.push(pv1.join('|'));
+  } else {
+    segments.push('PV1|1|I|MED-SURG^204^01||||||||||||||||||||||||||||||||||||');
+
+    // OBR - Observation Request
+    segments.push(
+      `OBR|1|${entry.id}||${entry.workflowType.toUpperCase()}^${entry.workflowType}^LOCAL|||${obr_timestamp}|||||||${obr_timestamp}|||${entry.nurseId}^${entry.nurseName}|||||||||${resultStatus}`
+    );
+  }
+
+  // OBX - Observation Results
+  let obsIndex = 1;
+
+  if (admission) {
+    if (admission.chiefComplaint) {
+      segments.push(
+        `OBX|${obsIndex++}|TX|8661-1^Chief Complaint^LN||${escapeHL7(admission.chiefComplaint)}||||||${resultStatus}|||${obr_timestamp}`
+      );
+    }
+    if (admission.medicalHistory.length > 0) {
+      segments.push(
+        `OBX|${obsIndex++}|TX|11348-0^Past Medical History^LN||${admission.medicalHistory.map(escapeHL7).join('~')}||||||${resultStatus}|||${obr_timestamp}`
+      );
+    }
+    if (admission.currentMedications.length > 0) {
+      const meds = admission.currentMedications.map((med) =>
+        escapeHL7([med.name, med.dose, med.route, med.frequency].filter(Boolean).join(' '))
+      );
+      segments.push(
+        `OBX|${obsIndex++}|TX|10160-0^Medication Use History^LN||${meds.join('~')}||||||${resultStatus}|||${obr_timestamp}`
+      );
+    }
+
+    // AL1 - Patient Allergy Information
+    admission.allergies.forEach((allergy, index) => {
+      segments.push(
+        allergy === 'NKDA'
+          ? `AL1|${index + 1}|DA|^No Known Drug Allergies`
+          : `AL1|${index + 1}|DA|^${escapeHL7(allergy)}`
+      );
+    });
+
+    // DG1 - Diagnosis (A = admitting)
+    if (admission.admittingDiagnosis) {
+      segments.push(`DG1|1||^${escapeHL7(admission.admittingDiagnosis)}||${obr_timestamp}|A`);
+    }
+  }
+
+  if (entry.structuredData.vitalSigns) {
+    const vitals = entry.structuredData.vitalSigns;
+
+    if (vitals.heartRate) {
+      segments.push(
+        `OBX|${obsIndex++}|NM|${toLOINCIdentifier(VITAL_SIGN_CODES.heartRate)}||${vitals.heartRate}|${VITAL_SIGN_CODES.heartRate.unit}|||||${resultStatus}|||${obr_timestamp}`
+      );
+    }
+
+    if (vitals.systolic && vitals.diastolic) {
+      segments.push(
+        `OBX|${obsIndex++}|NM|${toLOINCIdentifier(VITAL_SIGN_CODES.systolic)}||${vitals.systolic}|${VITAL_SIGN_CODES.systolic.unit}|||||${resultStatus}|||${obr_timestamp}`
+      );
+      segments.push(
+        `OBX|${obsIndex++}|NM|${toLOINCIdentifier(VITAL_SIGN_CODES.diastolic)}||${vitals.diastolic}|${VITAL_SIGN_CODES.diastolic.unit}|||||${resultStatus}|||${obr_timestamp}`
+      );
+    }
+
+    MEASURED_VITAL_SIGNS.forEach(({ field, code, text }) => {
+      const reported = getReportedVitalSign(vitals, field);
+      if (!reported) return;
+      segments.push(
+        `OBX|${obsIndex++}|NM|${code}^${text}^LN||${reported.value}|${reported.unit}|||||${resultStatus}|||${obr_timestamp}`
+      );
+    });
+
+    if (vitals.respiratoryRate) {
+      segments.push(
+        `OBX|${obsIndex++}|NM|${toLOINCIdentifier(VITAL_SIGN_CODES.respiratoryRate)}||${vitals.respiratoryRate}|${VITAL_SIGN_CODES.respiratoryRate.unit}|||||${resultStatus}|||${obr_timestamp}`
+      );
+    }
+
+    if (vitals.oxygenSaturation) {
+      segments.push(
+        `OBX|${obsIndex++}|NM|${toLOINCIdentifier(VITAL_SIGN_CODES.oxygenSaturation)}||${vitals.oxygenSaturation}|${VITAL_SIGN_CODES.oxygenSaturation.unit}|||||${resultStatus}|||${obr_timestamp}`
+      );
+    }
+
+    if (vitals.painLevel !== undefined) {
+      segments.push(
+        `OBX|${obsIndex++}|NM|${toLOINCIdentifier(VITAL_SIGN_CODES.painLevel)}||${vitals.painLevel}|${VITAL_SIGN_CODES.painLevel.unit}|||||${resultStatus}|||${obr_timestamp}`
+      );
+    }
+  }
+
+  // Amendment reason as its own note
+  const amendment = entry.versions?.[entry.versions.length - 1];
+  if (isAmendedEntry(entry) && amendment?.reason) {
+    segments.push(`NTE|${obsIndex++}|L|${escapeHL7(`Amended: ${amendment.reason}`)}`);
+  }
+
+  // Add voice transcript as note
+  if (entry.voiceTranscript) {
+    segments.push(
+      `NTE|${obsIndex}|L|${entry.voiceTranscript.substring(0, 200).replace(/\|/g, '\\F\\')}`
+    );
+  }
+
+  return segments.join('\r\n') + '\r\n';
+}
+
+/**
+ * OIDs used in generated CDA documents
+ */
+const CDA_OIDS = {
+  facility: '2.16.840.1.113883.19.5',
+  loinc: '2.16.840.1.113883.6.1',
+  snomed: '2.16.840.1.113883.6.96',
+  ndc: '2.16.840.1.113883.6.69',
+  rxnorm: '2.16.840.1.113883.6.88',
+  nucc: '2.16.840.1.113883.6.101',
+  gender: '2.16.840.1.113883.5.1',
+  confidentiality: '2.16.840.1.113883.5.25',
+};
+
+/**
+ * Patient gender -> HL7 AdministrativeGender (anything else is UN)
+ */
+const CDA_GENDER_CODES: Record<string, string> = {
+  male: 'M',
+  female: 'F',
+};
+
+/**
+ * Vital signs exported as C-CDA Vital Sign Observations (LOINC code, UCUM unit)
+ */
+const CDA_VITAL_SIGNS: Array<{ field: keyof VitalSigns; code: string; display: string; unit: string }> = [
+  ...Object.entries(VITAL_SIGN_CODES).map(([field, { code, display, unit }]) => ({
+    field: field as keyof VitalSigns,
+    code,
+    display,
+    unit: unit || '',
+  })),
+];
+
+/**
+ * ISO date/time -> CDA TS (YYYYMMDDHHMMSS+0000)
+ */
+function toCDATimestamp(isoDate: string): string {
+  const date = new Date(isoDate);
+  if (Number.isNaN(date.getTime())) return '';
+  return date
+    .toISOString()
+    .replace(/[-:T]/g, '')
+    .replace(/\.\d{3}Z$/, '+0000');
+}
+
+/**
+ * CDA effectiveTime/time element (nullFlavor when the time is unknown)
+ */
+function toCDATime(element: string, isoDate: string): string {
+  const value = toCDATimestamp(isoDate);
+  return value ? `<${element} value="${value}"/>` : `<${element} nullFlavor="UNK"/>`;
+}
+
+/**
+ * "Family, Given" -> <given>/<family> parts (other formats are kept as unstructured name text)
+ */
+function toCDAName(name: string, suffix?: string): string {
+  const [family, given] = name.split(', ');
+  const parts = given
+    ? `<given>${escapeXML(given)}</given><family>${escapeXML(family)}</family>`
+    : escapeXML(name);
+  return `<name>${parts}${suffix ? `<suffix>${escapeXML(suffix)}</suffix>` : ''}</name>`;
+}
+
+/**
+ * FHIR CodeableConcept -> CDA CD element (LOINC/SNOMED codings are kept, anything else becomes originalText)
+ */
+function toCDACode(concept: FHIRCodeableConcept, element = 'code'): string {
+  const codeSystems: Record<string, { oid: string; name: string }> = {
+    'http://loinc.org': { oid: CDA_OIDS.loinc, name: 'LOINC' },
+    'http://snomed.info/sct': { oid: CDA_OIDS.snomed, name: 'SNOMED CT' },
+  };
+  const coding = concept.coding?.find((candidate) => candidate.system && codeSystems[candidate.system]);
+  if (coding?.code && coding.system) {
+    const system = codeSystems[coding.system];
+    return `<${element} code="${escapeXML(coding.code)}" codeSystem="${system.oid}" codeSystemName="${system.name}" displayName="${escapeXML(coding.display || concept.text || '')}"/>`;
+  }
+  return `<${element} nullFlavor="OTH"><originalText>${escapeXML(concept.text || coding?.display || '')}</originalText></${element}>`;
+}
+
+/**
+ * Observation component value -> CDA value element
+ */
+function toCDAValue(component: FHIRObservationComponent): string {
+  if (component.valueQuantity) {
+    const { value, unit, code } = component.valueQuantity;
+    return `<value xsi:type="PQ" value="${value}" unit="${escapeXML(code || unit)}"/>`;
+  }
+  if (component.valueInteger !== undefined) return `<value xsi:type="INT" value="${component.valueInteger}"/>`;
+  if (component.valueBoolean !== undefined) return `<value xsi:type="BL" value="${component.valueBoolean}"/>`;
+  return `<value xsi:type="ST">${escapeXML(component.valueString || '')}</value>`;
+}
+
+/**
+ * Observation component value as narrative text
+ */
+function formatComponentValue(component: FHIRObservationComponent): string {
+  if (component.valueQuantity) return `${component.valueQuantity.value} ${component.valueQuantity.unit}`;
+  if (component.valueInteger !== undefined) return String(component.valueInteger);
+  if (component.valueBoolean !== undefined) return component.valueBoolean ? 'Yes' : 'No';
+  return component.valueString || '';
+}
+
+/**
+ * Narrative table for a section's <text> block
+ */
+function toCDATable(headers: string[], rows: string[][]): string {
+  const head = headers.map((header) => `<th>${escapeXML(header)}</th>`).join('');
+  const body = rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeXML(cell)}</td>`).join('')}</tr>`).join('');
+  return `<table border="1" width="100%"><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+/**
+ * Wrap narrative and entries in a structuredBody section
+ */
+function toCDASection(section: {
+  templateId?: { root: string; extension?: string };
+  code: string;
+  displayName: string;
+  title: string;
+  text: string;
+  entries?: string[];
+}): string {
+  const templateId = section.templateId
+    ? `\n      <templateId root="${section.templateId.root}"${section.templateId.extension ? ` extension="${section.templateId.extension}"` : ''}/>`
+    : '';
+  const entries = (section.entries || []).map((entry) => `\n      <entry typeCode="DRIV">${entry}</entry>`).join('');
+  return `    <component>
+    <section>${templateId}
+      <code code="${section.code}" codeSystem="${CDA_OIDS.loinc}" codeSystemName="LOINC" displayName="${section.displayName}"/>
+      <title>${escapeXML(section.title)}</title>
+      <text>${section.text}</text>${entries}
+    </section>
+    </component>`;
+}
+
+/**
+ * Vital Signs section: one organizer with a Vital Sign Observation per measurement
+ */
+function buildCDAVitalSignsSection(entry: DocumentationEntry): string | undefined {
+  const vitals = entry.structuredData.vitalSigns;
+  if (!vitals) return undefined;
+
+  // Older entries only carry the combined "120/80" string
+  const bloodPressure = vitals.bloodPressure?.match(/^(\d+)\s*\/\s*(\d+)/);
+  const values: Partial<Record<keyof VitalSigns, unknown>> = {
+    ...vitals,
+    systolic: vitals.systolic ?? (bloodPressure ? Number(bloodPressure[1]) : undefined),
+    diastolic: vitals.diastolic ?? (bloodPressure ? Number(bloodPressure[2]) : undefined),
+  };
+  // Temperature, weight, height and glucose are reported in the unit they were measured in
+  const measured = CDA_VITAL_SIGNS.filter(({ field }) => typeof values[field] === 'number').map((vital) => {
+    const reported = isUnitConvertedVitalSign(vital.field) ? getReportedVitalSign(vitals, vital.field) : undefined;
+    return reported ? { ...vital, unit: reported.unit, value: reported.value } : { ...vital, value: values[vital.field] };
+  });
+  if (measured.length === 0) return undefined;
+
+  const takenAt = vitals.timestamp || entry.timestamp;
+  const observations = measured.map(
+    ({ field, code, display, unit, value }) => `
+          <component>
+            <observation classCode="OBS" moodCode="EVN">
+              <templateId root="2.16.840.1.113883.10.20.22.4.27" extension="2014-06-09"/>
+              <id root="${CDA_OIDS.facility}" extension="${escapeXML(`${entry.id}-vitals-${field}`)}"/>
+              <code code="${code}" codeSystem="${CDA_OIDS.loinc}" codeSystemName="LOINC" displayName="${display}"/>
+              <statusCode code="completed"/>
+              ${toCDATime('effectiveTime', takenAt)}
+              <value xsi:type="PQ" value="${value}" unit="${unit}"/>
+            </observation>
+          </component>`
+  );
+
+  return toCDASection({
+    templateId: { root: '2.16.840.1.113883.10.20.22.2.4.1', extension: '2015-08-01' },
+    code: '8716-3',
+    displayName: 'Vital signs',
+    title: 'Vital Signs',
+    text: toCDATable(
+      ['Vital Sign', 'Value', 'Unit'],
+      measured.map(({ display, unit, value }) => [display, String(value), unit])
+    ),
+    entries: [
+      `
+        <organizer classCode="CLUSTER" moodCode="EVN">
+          <templateId root="2.16.840.1.113883.10.20.22.4.26" extension="2015-08-01"/>
+          <id root="${CDA_OIDS.facility}" extension="${escapeXML(`${entry.id}-vitals`)}"/>
+          <code code="46680005" codeSystem="${CDA_OIDS.snomed}" codeSystemName="SNOMED CT" displayName="Vital signs"/>
+          <statusCode code="completed"/>
+          ${toCDATime('effectiveTime', takenAt)}${observations.join('')}
+        </organizer>
+      `,
+    ],
+  });
+}
+
+/**
+ * Medications Administered section: one Medication Activity per administration
+ */
+function buildCDAMedicationsSection(entry: DocumentationEntry): string | undefined {
+  const administrations = buildMedicationAdministrations(entry);
+  if (administrations.length === 0) return undefined;
+
+  const medications = getAdministeredMedications(entry);
+  const entries = administrations.map((administration) => {
+    const dose = administration.dosage?.dose;
+    const coding = administration.medicationCodeableConcept.coding || [];
+    const ndc = coding.find((code) => code.system === NDC_SYSTEM)?.code;
+    const rxnorm = coding.find((code) => code.system === RXNORM_SYSTEM)?.code;
+    const medicationText = `<originalText>${escapeXML(administration.medicationCodeableConcept.text || '')}</originalText>`;
+    const ndcTranslation = ndc ? `<translation code="${escapeXML(ndc)}" codeSystem="${CDA_OIDS.ndc}" codeSystemName="NDC"/>` : '';
+    const site = administration.dosage?.site?.text;
+    return `
+        <substanceAdministration classCode="SBADM" moodCode="EVN">
+          <templateId root="2.16.840.1.113883.10.20.22.4.16" extension="2014-06-09"/>
+          <id root="${CDA_OIDS.facility}" extension="${escapeXML(administration.id || '')}"/>
+          <text>${escapeXML(`${administration.medicationCodeableConcept.text} ${administration.dosage?.text || ''}`.trim())}</text>
+          <statusCode code="completed"/>
+          ${toCDATime('effectiveTime', administration.effectiveDateTime)}
+          ${toCDACode(administration.dosage?.route || {}, 'routeCode')}${
+            site ? `\n          <approachSiteCode nullFlavor="OTH"><originalText>${escapeXML(site)}</originalText></approachSiteCode>` : ''
+          }
+          ${dose ? (dose.code ? `<doseQuantity value="${dose.value}" unit="${escapeXML(dose.code)}"/>` : `<doseQuantity value="${dose.value}"/>`) : '<doseQuantity nullFlavor="UNK"/>'}
+          <consumable>
+            <manufacturedProduct classCode="MANU">
+              <templateId root="2.16.840.1.113883.10.20.22.4.23" extension="2014-06-09"/>
+              <manufacturedMaterial>
+                ${
+                  rxnorm
+                    ? `<code code="${escapeXML(rxnorm)}" codeSystem="${CDA_OIDS.rxnorm}" codeSystemName="RxNorm">${medicationText}${ndcTranslation}</code>`
+                    : ndc
+                      ? `<code code="${escapeXML(ndc)}" codeSystem="${CDA_OIDS.ndc}" codeSystemName="NDC">${medicationText}</code>`
+                      : `<code nullFlavor="OTH">${medicationText}</code>`
+                }
+              </manufacturedMaterial>
+            </manufacturedProduct>
+          </consumable>
+        </substanceAdministration>
+      `;
+  });
+
+  return toCDASection({
+    templateId: { root: '2.16.840.1.113883.10.20.22.2.38', extension: '2014-06-09' },
+    code: '29549-3',
+    displayName: 'Medications administered',
+    title: 'Medications Administered',
+    text: toCDATable(
+      ['Medication', 'Dose', 'Route', 'Time', 'Reason', 'Response'],
+      medications.map((med) => [med.name, med.dose, med.route, med.timeAdministered, med.reason || '', med.response || ''])
+    ),
+    entries,
+  });
+}
+
+/**
+ * CDA observation for one assessment finding or wound characteristic
+ */
+function toCDAObservation(id: string, component: FHIRObservationComponent, effectiveTime: string): string {
+  return `<observation classCode="OBS" moodCode="EVN">
+          <id root="${CDA_OIDS.facility}" extension="${escapeXML(id)}"/>
+          ${toCDACode(component.code)}
+          <statusCode code="completed"/>
+          ${toCDATime('effectiveTime', effectiveTime)}
+          ${toCDAValue(component)}
+        </observation>`;
+}
+
+/**
+ * Physical Exam section with the nursing assessment findings, grouped by body system
+ */
+function buildCDAAssessmentSection(entry: DocumentationEntry): string | undefined {
+  const assessment = entry.structuredData.assessment;
+  const panels = buildAssessmentObservations(entry).filter((panel) => panel.component);
+  if (!assessment || (panels.length === 0 && !assessment.notes)) return undefined;
+
+  const rows = panels.flatMap((panel) =>
+    (panel.component || []).map((component) => [panel.code.text || '', component.code.text || '', formatComponentValue(component)])
+  );
+  const entries = panels.flatMap((panel) =>
+    (panel.component || []).map(
+      (component, index) => `
+        ${toCDAObservation(`${panel.id}-${index + 1}`, component, entry.timestamp)}
+      `
+    )
+  );
+
+  return toCDASection({
+    templateId: { root: '2.16.840.1.113883.10.20.2.10', extension: '2015-08-01' },
+    code: '29545-1',
+    displayName: 'Physical findings',
+    title: 'Nursing Assessment',
+    text: [
+      rows.length > 0 ? toCDATable(['System', 'Finding', 'Result'], rows) : '',
+      assessment.notes ? `<paragraph>${escapeXML(assessment.notes)}</paragraph>` : '',
+    ].join(''),
+    entries,
+  });
+}
+
+/**
+ * Wound care section: one observation per wound, with measurements and characteristics as components
+ */
+function buildCDAWoundSection(entry: DocumentationEntry): string | undefined {
+  const wounds = buildWoundObservations(entry);
+  if (wounds.length === 0) return undefined;
+
+  const text = wounds
+    .map((wound) => {
+      const rows = (wound.component || []).map((component) => [component.code.text || '', formatComponentValue(component)]);
+      const notes = (wound.note || []).map((note) => `<paragraph>${escapeXML(note.text)}</paragraph>`).join('');
+      return `<paragraph><content styleCode="Bold">${escapeXML(`${wound.bodySite?.text}: ${wound.valueString}`)}</content></paragraph>${toCDATable(['Characteristic', 'Value'], rows)}${notes}`;
+    })
+    .join('');
+
+  const entries = wounds.map((wound) => {
+    const components = (wound.component || [])
+      .map(
+        (component, index) => `
+          <entryRelationship typeCode="COMP">
+        ${toCDAObservation(`${wound.id}-${index + 1}`, component, entry.timestamp)}
+          </entryRelationship>`
+      )
+      .join('');
+    return `
+        <observation classCode="OBS" moodCode="EVN">
+          <id root="${CDA_OIDS.facility}" extension="${escapeXML(wound.id || '')}"/>
+          ${toCDACode(wound.code)}
+          <statusCode code="completed"/>
+          ${toCDATime('effectiveTime', entry.timestamp)}
+          <value xsi:type="ST">${escapeXML(wound.valueString || '')}</value>
+          ${toCDACode(wound.bodySite || {}, 'targetSiteCode')}${components}
+        </observation>
+      `;
+  });
+
+  return toCDASection({
+    code: '10206-1',
+    displayName: 'Physical findings of Skin',
+    title: 'Wound Care',
+    text,
+    entries,
+  });
+}
+
+/**
+ * Notes section: SBAR handoff, additional notes and the voice transcript (narrative only)
+ */
+function buildCDANotesSection(entry: DocumentationEntry, transcript: string): string {
+  const handoff = buildHandoffComposition(entry);
+  const paragraphs = [
+    ...(handoff?.section || []).map(
+      (section) =>
+        // Reuse the FHIR narrative, minus the XHTML wrapper
+        `<paragraph><content styleCode="Bold">${escapeXML(section.title || '')}</content></paragraph>${(section.text?.div || '')
+          .replace(/^<div[^>]*>|<\/div>$/g, '')
+          .replace(/<(\/?)p>/g, '<$1paragraph>')
+          .replace(/<(\/?)ul>/g, '<$1list>')
+          .replace(/<(\/?)li>/g, '<$1item>')}`
+    ),
+    entry.structuredData.additionalNotes ? `<paragraph>${escapeXML(entry.structuredData.additionalNotes)}</paragraph>` : '',
+    transcript
+      ? `<paragraph><content styleCode="Bold">Voice transcript</content></paragraph><paragraph>${escapeXML(transcript)}</paragraph>`
+      : '',
+  ];
+
+  return toCDASection({
+    code: '34109-9',
+    displayName: 'Note',
+    title: handoff ? 'Shift Handoff (SBAR)' : 'Nursing Notes',
+    text: paragraphs.join(''),
+  });
+}
+
+/**
+ * Build the CDA header data for an entry
+ * Patient and nurse details fall back to what the entry itself records
+ */
+export function buildCDADocument(entry: DocumentationEntry, patient?: Patient, nurse?: Nurse): CDADocument {
+  return {
+    documentId: entry.id,
+    typeCode: {
+      code: '34746-8',
+      codeSystem: CDA_OIDS.loinc,
+      displayName: 'Nurse Note',
+    },
+    title: 'Nursing Note',
+    effectiveTime: entry.timestamp,
+    confidentialityCode: 'N',
+    patient: {
+      id: entry.patientId,
+      mrn: patient?.mrn || entry.patientMRN,
+      name: patient?.name || entry.patientName || '',
+      birthTime: patient?.dateOfBirth || '',
+      gender: patient?.gender || 'unknown',
+    },
+    author: {
+      time: entry.timestamp,
+      id: nurse?.id || entry.nurseId,
+      name: nurse?.name || entry.nurseName || '',
+      credentials: nurse?.credentials,
+    },
+    custodian: {
+      id: 'MEMORIAL_GENERAL',
+      name: 'Memorial General Hospital',
+    },
+    content: entry.voiceTranscript,
+    structuredBody: entry.structuredData,
+  };
+}
+
+/**
+ * Convert documentation entry to a C-CDA R2.1 Nursing Note (Progress Note document with Nurse Note type)
+ */
+export function toCDAFormat(entry: DocumentationEntry, patient?: Patient, nurse?: Nurse): string {
+  const document = buildCDADocument(entry, patient, nurse);
+  const gender = CDA_GENDER_CODES[document.patient.gender] || 'UN';
+  const birthTime = document.patient.birthTime.replace(/-/g, '');
+  const sections = [
+    buildCDAVitalSignsSection(entry),
+    buildCDAMedicationsSection(entry),
+    buildCDAAssessmentSection(entry),
+    buildCDAWoundSection(entry),
+    buildCDANotesSection(entry, document.content),
+  ].filter((section): section is string => Boolean(section));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ClinicalDocument xmlns="urn:hl7-org:v3" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <realmCode code="US"/>
+  <typeId root="2.16.840.1.113883.1.3" extension="POCD_HD000040"/>
+  <templateId root="2.16.840.1.113883.10.20.22.1.1" extension="2015-08-01"/>
+  <templateId root="2.16.840.1.113883.10.20.22.1.9" extension="2015-08-01"/>
+  <id root="${CDA_OIDS.facility}" extension="${escapeXML(document.documentId)}"/>
+  <code code="${document.typeCode.code}" codeSystem="${document.typeCode.codeSystem}" codeSystemName="LOINC" displayName="${document.typeCode.displayName}"/>
+  <title>${escapeXML(document.title)}</title>
+  ${toCDATime('effectiveTime', document.effectiveTime)}
+  <confidentialityCode code="${document.confidentialityCode}" codeSystem="${CDA_OIDS.confidentiality}"/>
+  <languageCode code="en-US"/>
+  <recordTarget>
+    <patientRole>
+      <id root="${CDA_OIDS.facility}" extension="${escapeXML(document.patient.mrn || document.patient.id)}"/>
+      <addr nullFlavor="UNK"/>
+      <telecom nullFlavor="UNK"/>
+      <patient>
+        ${toCDAName(document.patient.name)}
+        <administrativeGenderCode code="${gender}" codeSystem="${CDA_OIDS.gender}"/>
+        ${birthTime ? `<birthTime value="${escapeXML(birthTime)}"/>` : '<birthTime nullFlavor="UNK"/>'}
+      </patient>
+    </patientRole>
+  </recordTarget>
+  <author>
+    ${toCDATime('time', document.author.time)}
+    <assignedAuthor>
+      <id root="${CDA_OIDS.facility}" extension="${escapeXML(document.author.id)}"/>${
+        nurse?.role === 'RN'
+          ? `\n      <code code="163W00000X" codeSystem="${CDA_OIDS.nucc}" codeSystemName="NUCC" displayName="Registered Nurse"/>`
+          : ''
+      }
+      <addr nullFlavor="UNK"/>
+      <telecom nullFlavor="UNK"/>
+      <assignedPerson>
+        ${toCDAName(document.author.name, document.author.credentials)}
+      </assignedPerson>
+    </assignedAuthor>
+  </author>
+  <custodian>
+    <assignedCustodian>
+      <representedCustodianOrganization>
+        <id root="${CDA_OIDS.facility}" extension="${escapeXML(document.custodian?.id || '')}"/>
+        <name>${escapeXML(document.custodian?.name || '')}</name>
+        <telecom nullFlavor="UNK"/>
+        <addr nullFlavor="UNK"/>
+      </representedCustodianOrganization>
+    </assignedCustodian>
+  </custodian>
+  <component>
+  <structuredBody>
+${sections.join('\n')}
+  </structuredBody>
+  </component>
+</ClinicalDocument>
+`;
+}
+
+/**
+ * Convert documentation entry to CSV format
+ */
+export function toCSVFormat(entry: DocumentationEntry): string {
+  const rows: string[][] = [];
+
+  // Header
+  rows.push([
+    'Entry ID',
+    'Timestamp',
+    'Patient Name',
+    'MRN',
+    'Workflow Type',
+    'Nurse',
+    'Field',
+    'Value',
+    'Unit',
+  ]);
+
+  // Basic info
+  rows.push([
+    entry.id,
+    entry.timestamp,
+    entry.patientName || '',
+    entry.patientMRN || '',
+    entry.workflowType,
+    entry.nurseName || '',
+    'Voice Transcript',
+    `"${entry.voiceTranscript.replace(/"/g, '""')}"`,
+    '',
+  ]);
+
+  // Vital signs
+  if (entry.structuredData.vitalSigns) {
+    const vitals = entry.structuredData.vitalSigns;
+
+    if (vitals.heartRate) {
+      rows.push([
+        entry.id,
+        entry.timestamp,
+        entry.patientName || '',
+        entry.patientMRN || '',
+        entry.workflowType,
+        entry.nurseName || '',
+        'Heart Rate',
+        vitals.heartRate.toString(),
+        'bpm',
+      ]);
+    }
+
+    if (vitals.bloodPressure) {
+      rows.push([
+        entry.id,
+        entry.timestamp,
+        entry.patientName || '',
+        entry.patientMRN || '',
+        entry.workflowType,
+        entry.nurseName || '',
+        'Blood Pressure',
+        vitals.bloodPressure,
+        'mmHg',
+      ]);
+    }
+
+    MEASURED_VITAL_SIGNS.forEach(({ field, text }) => {
+      const reported = getReportedVitalSign(vitals, field);
+      if (!reported) return;
+      rows.push([
+        entry.id,
+        entry.timestamp,
+        entry.patientName || '',
+        entry.patientMRN || '',
+        entry.workflowType,
+        entry.nurseName || '',
+        text,
+        reported.value.toString(),
+        VITAL_SIGN_UNIT_DISPLAY[reported.unit],
+      ]);
+    });
+
+    if (vitals.respiratoryRate) {
+      rows.push([
+        entry.id,
+        entry.timestamp,
+        entry.patientName || '',
+        entry.patientMRN || '',
+        entry.workflowType,
+        entry.nurseName || '',
+        'Respiratory Rate',
+        vitals.respiratoryRate.toString(),
+        'breaths/min',
+      ]);
+    }
+
+    if (vitals.oxygenSaturation) {
+      rows.push([
+        entry.id,
+        entry.timestamp,
+        entry.patientName || '',
+        entry.patientMRN || '',
+        entry.workflowType,
+        entry.nurseName || '',
+        'Oxygen Saturation',
+        vitals.oxygenSaturation.toString(),
+        '%',
+      ]);
+    }
+
+    if (vitals.painLevel !== undefined) {
+      rows.push([
+        entry.id,
+        entry.timestamp,
+        entry.patientName || '',
+        entry.patientMRN || '',
+        entry.workflowType,
+        entry.nurseName || '',
+        'Pain Level',
+        vitals.painLevel.toString(),
+        '0-10 scale',
+      ]);
+    }
+  }
+
+  // Medications
+  if (entry.structuredData.medications) {
+    entry.structuredData.medications.forEach((med, index) => {
+      rows.push([
+        entry.id,
+        entry.timestamp,
+        entry.patientName || '',
+        entry.patientMRN || '',
+        entry.workflowType,
+        entry.nurseName || '',
+        `Medication ${index + 1}`,
+        `${med.name} ${med.dose} ${med.route}`,
+        '',
+      ]);
+    });
+  }
+
+  // Admission data
+  if (entry.structuredData.admissionData) {
+    const admission = entry.structuredData.admissionData;
+    const admissionFields: [string, string][] = [
+      ['Admitting Diagnosis', admission.admittingDiagnosis],
+      ['Chief Complaint', admission.chiefComplaint],
+      ['Admission Source', admission.admissionSource],
+      ['Allergies', admission.allergies.join('; ')],
+      ['Medical History', admission.medicalHistory.join('; ')],
+      ...admission.currentMedications.map((med, index): [string, string] => [
+        `Home Medication ${index + 1}`,
+        [med.name, med.dose, med.route, med.frequency].filter(Boolean).join(' '),
+      ]),
+    ];
+
+    admissionFields
+      .filter(([, value]) => value)
+      .forEach(([field, value]) => {
+        rows.push([
+          entry.id,
+          entry.timestamp,
+          entry.patientName || '',
+          entry.patientMRN || '',
+          entry.workflowType,
+          entry.nurseName || '',
+          field,
+          `"${value.replace(/"/g, '""')}"`,
+          '',
+        ]);
+      });
+  }
+
+  return rows.map((row) => row.join(',')).join('\n');
+}
+
+/**
+ * Convert multiple entries to CSV format
+ */
+export function toCSVFormatMultiple(entries: DocumentationEntry[]): string {
+  if (entries.length === 0) return '';
+
+  const allRows: string[][] = [];
+
+  // Header (add once)
+  allRows.push([
+    'Entry ID',
+    'Timestamp',
+    'Patient Name',
+    'MRN',
+    'Workflow Type',
+    'Nurse',
+    'Field',
+    'Value',
+    'Unit',
+  ]);
+
+  entries.forEach((entry) => {
+    // Basic info
+    allRows.push([
+      entry.id,
+      entry.timestamp,
+      entry.patientName || '',
+      entry.patientMRN || '',
+      entry.workflowType,
+      entry.nurseName || '',
+      'Voice Transcript',
+      `"${entry.voiceTranscript.replace(/"/g, '""')}"`,
+      '',
+    ]);
+
+    // Vital signs
+    if (entry.structuredData.vitalSigns) {
+      const vitals = entry.structuredData.vitalSigns;
+      if (vitals.heartRate) {
+        allRows.push([
+          entry.id,
+          entry.timestamp,
+          entry.patientName || '',
+          entry.patientMRN || '',
+          entry.workflowType,
+          entry.nurseName || '',
+          'Heart Rate',
+          vitals.heartRate.toString(),
+          'bpm',
+        ]);
+      }
+      // Add other vitals similarly...
+    }
+  });
+
+  return allRows.map((row) => row.join(',')).join('\n');
+}
+
+/**
+ * Download a string as a file
+ */
+export function downloadAsFile(content: string, filename: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
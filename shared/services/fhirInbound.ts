@@ -0,0 +1,516 @@
+/**
+ * Inbound FHIR R4 Mapping
+ *
+ * Turns FHIR Bundles (JSON) from other systems, or our own exports, back into Voize records:
+ * - Patient -> Patient (matched to known patients by MRN, then id)
+ * - Observation -> VitalSigns (LOINC-coded vitals, converted to °F / lb / in); other findings become entry text
+ * - MedicationAdministration -> Medication
+ *
+ * Observations and MedicationAdministrations are grouped into one DocumentationEntry per
+ * subject and effective time. Every resource is validated first; resources with errors are
+ * skipped and each problem is reported against the resource it was found in.
+ */
+
+import type {
+  DocumentationEntry,
+  ExternalSource,
+  FHIRBundle,
+  FHIRMedicationAdministration,
+  FHIRObservation,
+  FHIRObservationComponent,
+  FHIRPatient,
+  FHIRReference,
+  Medication,
+  MedicationRoute,
+  Patient,
+  VitalSigns,
+} from '../types';
+import { ROUTE_SNOMED_CODES } from './exportFormats';
+import { BLOOD_PRESSURE_PANEL, VITAL_SIGN_LOINC } from './hl7Inbound';
+import { convertVitalSignUnits } from './vitalSignUnits';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A validation problem found in one resource
+ * error = resource skipped, warning = imported with the problem noted, information = not imported by design
+ */
+export interface FHIRValidationIssue {
+  severity: 'error' | 'warning' | 'information';
+
+  /** Resource the issue was found in, e.g., "Observation/123" or "entry[4]" */
+  resource: string;
+
+  message: string;
+}
+
+/**
+ * Result of importing a FHIR Bundle
+ */
+export interface InboundFHIRResult {
+  /** Patients created or updated by Patient resources */
+  patients: Patient[];
+
+  /** Entries created from Observations and MedicationAdministrations */
+  entries: DocumentationEntry[];
+
+  /** Validation problems, per resource */
+  issues: FHIRValidationIssue[];
+}
+
+const LOINC_SYSTEM = 'http://loinc.org';
+
+/**
+ * LOINC codes that are not vital signs but that we know (components, assessment findings)
+ */
+const OTHER_KNOWN_LOINC = ['39126-8', '39125-0', '39127-6'];
+
+/**
+ * Units accepted for each vital sign (UCUM codes or common unit text, compared case-insensitively without brackets)
+ */
+const VITAL_SIGN_UNITS: Partial<Record<keyof VitalSigns, string[]>> = {
+  heartRate: ['/min', 'beats/minute', 'bpm'],
+  respiratoryRate: ['/min', 'breaths/minute'],
+  systolic: ['mmhg'],
+  diastolic: ['mmhg'],
+  temperature: ['degf', 'cel', 'degc', 'f', 'c'],
+  oxygenSaturation: ['%'],
+  painLevel: ['', '{score}', 'score'],
+  weight: ['lb_av', 'lb', 'lbs', 'kg', 'g', 'oz_av', 'oz'],
+  height: ['in_i', 'in', 'cm', 'm'],
+  bloodGlucose: ['mg/dl', 'mmol/l'],
+};
+
+const normalizeUnit = (unit: string) => unit.toLowerCase().replace(/[[\]]/g, '');
+
+// ============================================================================
+// RESOURCE HELPERS
+// ============================================================================
+
+/**
+ * "Observation/123", else the entry position
+ */
+function describeResource(resource: { resourceType?: string; id?: string }, index: number): string {
+  return resource.id ? `${resource.resourceType}/${resource.id}` : `entry[${index}]`;
+}
+
+/**
+ * Codings of a CodeableConcept (none when it has no coding list, as in a malformed resource)
+ */
+function getCodings(
+  concept: { coding?: Array<{ system?: string; code?: string }> } | undefined
+): Array<{ system?: string; code?: string }> {
+  return Array.isArray(concept?.coding)
+    ? concept.coding.filter((coding) => coding !== null && typeof coding === 'object')
+    : [];
+}
+
+/**
+ * LOINC code of a CodeableConcept (empty if it has none)
+ */
+function getLOINCCode(concept: { coding?: Array<{ system?: string; code?: string }> } | undefined): string {
+  return getCodings(concept).find((coding) => coding.system === LOINC_SYSTEM)?.code || '';
+}
+
+/**
+ * Problem with a CodeableConcept the import reads, if any
+ */
+function checkCodeableConcept(concept: unknown, label: string): string | undefined {
+  if (concept === null || typeof concept !== 'object') return `Missing ${label}`;
+  const coding = (concept as { coding?: unknown }).coding;
+  if (coding !== undefined && !Array.isArray(coding)) return `${label}.coding is not a list`;
+  return undefined;
+}
+
+/**
+ * Checks a quantity's unit against the units accepted for a vital sign
+ */
+function checkUnit(
+  field: keyof VitalSigns,
+  quantity: FHIRObservationComponent['valueQuantity'],
+  label: string
+): string | undefined {
+  const accepted = VITAL_SIGN_UNITS[field];
+  if (!accepted || !quantity) return undefined;
+  const unit = quantity.code || quantity.unit || '';
+  return accepted.includes(normalizeUnit(unit))
+    ? undefined
+    : `${label} has unit "${unit}", expected ${accepted.filter(Boolean).join(' or ')}`;
+}
+
+/**
+ * FHIR Patient -> Patient, updating `existing` when the patient is already known
+ */
+function fhirToPatient(resource: FHIRPatient, existing?: Patient): Patient {
+  const identifiers = resource.identifier || [];
+  const mrn = identifiers.find((identifier) => identifier.value?.startsWith('MRN'))?.value || identifiers[0]?.value || '';
+  const patient: Patient = existing
+    ? { ...existing }
+    : { id: resource.id || mrn, name: '', mrn, dateOfBirth: '' };
+
+  const name = resource.name?.[0];
+  const formatted = name?.family
+    ? [name.family, (name.given || []).join(' ')].filter(Boolean).join(', ')
+    : name?.text;
+  if (formatted) patient.name = formatted;
+  if (resource.birthDate) patient.dateOfBirth = resource.birthDate;
+  if (resource.gender) patient.gender = resource.gender;
+
+  return patient;
+}
+
+/**
+ * SNOMED route code or route text -> MedicationRoute
+ */
+function toMedicationRoute(administration: FHIRMedicationAdministration): MedicationRoute | undefined {
+  const route = administration.dosage?.route;
+  const snomed = getCodings(route).find((coding) => coding.system === 'http://snomed.info/sct')?.code;
+  const routes = Object.keys(ROUTE_SNOMED_CODES) as MedicationRoute[];
+  return (
+    routes.find((candidate) => ROUTE_SNOMED_CODES[candidate].code === snomed) ||
+    routes.find((candidate) => candidate === route?.text?.toUpperCase())
+  );
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validates the resources this import maps
+ * @param knownPatientIds - Patient references that resolve without a Patient resource in the bundle
+ */
+export function validateFHIRBundle(bundle: FHIRBundle, knownPatientIds: string[] = []): FHIRValidationIssue[] {
+  const issues: FHIRValidationIssue[] = [];
+  if (bundle.entry !== undefined && !Array.isArray(bundle.entry)) {
+    return [{ severity: 'error', resource: 'Bundle', message: 'Bundle entry is not a list' }];
+  }
+  const entries = bundle.entry || [];
+
+  // Subjects may point at a Patient in the bundle by type/id or by fullUrl
+  const patientReferences = new Set(knownPatientIds.map((id) => `Patient/${id}`));
+  entries.forEach((entry) => {
+    if (entry?.resource?.resourceType !== 'Patient') return;
+    if (entry.fullUrl) patientReferences.add(entry.fullUrl);
+    if (entry.resource.id) patientReferences.add(`Patient/${entry.resource.id}`);
+  });
+
+  entries.forEach((entry, index) => {
+    if (entry === null || typeof entry !== 'object') {
+      issues.push({ severity: 'error', resource: `entry[${index}]`, message: 'Entry is not an object' });
+      return;
+    }
+    const resource = entry.resource;
+    if (resource === null || typeof resource !== 'object') {
+      issues.push({ severity: 'error', resource: `entry[${index}]`, message: 'Entry has no resource' });
+      return;
+    }
+    const label = describeResource(resource, index);
+    const issue = (severity: FHIRValidationIssue['severity'], message: string) =>
+      issues.push({ severity, resource: label, message });
+
+    if (resource.resourceType === 'Patient') {
+      if (!resource.identifier?.some((identifier) => identifier.value)) {
+        issue('error', 'Patient has no identifier (MRN)');
+      }
+      return;
+    }
+
+    if (resource.resourceType !== 'Observation' && resource.resourceType !== 'MedicationAdministration') {
+      issue('information', `${resource.resourceType} resources are not imported`);
+      return;
+    }
+
+    const subject = resource.subject?.reference;
+    if (!subject) {
+      issue('error', 'Missing subject reference');
+    } else if (!patientReferences.has(subject)) {
+      issue('error', `Subject ${subject} is not a Patient in this bundle or the patient list`);
+    }
+
+    if (resource.resourceType === 'MedicationAdministration') {
+      const invalidMedication = resource.medicationCodeableConcept
+        ? checkCodeableConcept(resource.medicationCodeableConcept, 'medicationCodeableConcept')
+        : undefined;
+      if (invalidMedication) {
+        issue('error', invalidMedication);
+      } else if (!resource.medicationCodeableConcept?.text && !resource.medicationCodeableConcept?.coding?.length) {
+        issue('error', 'Missing medication');
+      }
+      if (!toMedicationRoute(resource)) {
+        issue('warning', `Unknown route "${resource.dosage?.route?.text || ''}", kept as note text`);
+      }
+      return;
+    }
+
+    const invalidCode = checkCodeableConcept(resource.code, 'code');
+    if (invalidCode) {
+      issue('error', invalidCode);
+      return;
+    }
+    if (resource.component !== undefined && !Array.isArray(resource.component)) {
+      issue('error', 'Observation component is not a list');
+      return;
+    }
+
+    const code = getLOINCCode(resource.code);
+    const field = VITAL_SIGN_LOINC[code];
+    const hasLOINC = getCodings(resource.code).some((coding) => coding.system === LOINC_SYSTEM);
+    if (hasLOINC && !field && code !== BLOOD_PRESSURE_PANEL && !OTHER_KNOWN_LOINC.includes(code)) {
+      issue('warning', `Unknown LOINC code ${code}, kept as note text`);
+    }
+    if (field) {
+      const mismatch = checkUnit(field, resource.valueQuantity, resource.code.text || code);
+      if (mismatch) issue('error', mismatch);
+    }
+
+    (resource.component || []).forEach((component, componentIndex) => {
+      if (component === null || typeof component !== 'object') {
+        issue('error', `Component ${componentIndex + 1} is not an object`);
+        return;
+      }
+      const invalidComponent = checkCodeableConcept(component.code, 'code');
+      if (invalidComponent) {
+        issue('error', `Component ${componentIndex + 1}: ${invalidComponent}`);
+        return;
+      }
+
+      const componentCode = getLOINCCode(component.code);
+      const componentField = VITAL_SIGN_LOINC[componentCode];
+      const componentHasLOINC = getCodings(component.code).some((coding) => coding.system === LOINC_SYSTEM);
+      if (componentHasLOINC && !componentField && !OTHER_KNOWN_LOINC.includes(componentCode)) {
+        issue('warning', `Unknown LOINC code ${componentCode} in component`);
+      }
+      if (componentField) {
+        const mismatch = checkUnit(componentField, component.valueQuantity, component.code.text || componentCode);
+        if (mismatch) issue('error', mismatch);
+      }
+    });
+  });
+
+  return issues;
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+/**
+ * Observation or component value as text
+ */
+function formatValue(value: Pick<FHIRObservation, 'valueQuantity' | 'valueString' | 'valueBoolean' | 'valueInteger'>): string {
+  if (value.valueQuantity) return `${value.valueQuantity.value} ${value.valueQuantity.unit}`;
+  if (value.valueInteger !== undefined) return String(value.valueInteger);
+  if (value.valueBoolean !== undefined) return value.valueBoolean ? 'Yes' : 'No';
+  return value.valueString || '';
+}
+
+/**
+ * Applies a vital-sign Observation to `vitals` (false if it is not a vital sign)
+ */
+function applyVitalSign(vitals: VitalSigns, observation: FHIRObservation): boolean {
+  const code = getLOINCCode(observation.code);
+
+  if (code === BLOOD_PRESSURE_PANEL) {
+    (observation.component || []).forEach((component) => {
+      const field = VITAL_SIGN_LOINC[getLOINCCode(component.code)];
+      if ((field === 'systolic' || field === 'diastolic') && component.valueQuantity) {
+        vitals[field] = component.valueQuantity.value;
+      }
+    });
+    // Our own exports carry the panel as "120/80" text
+    const bp = observation.valueString?.match(/(\d{2,3})\s*\/\s*(\d{2,3})/);
+    if (bp) {
+      vitals.systolic = Number(bp[1]);
+      vitals.diastolic = Number(bp[2]);
+    }
+    return vitals.systolic !== undefined || vitals.diastolic !== undefined;
+  }
+
+  const field = VITAL_SIGN_LOINC[code];
+  const value = observation.valueQuantity?.value ?? observation.valueInteger;
+  if (!field || value === undefined) return false;
+
+  const unit = observation.valueQuantity?.code || observation.valueQuantity?.unit || '';
+  (vitals as Record<string, unknown>)[field] = convertVitalSignUnits(field, value, unit);
+  return true;
+}
+
+/**
+ * FHIR MedicationAdministration -> Medication (undefined if the route is unknown)
+ */
+function fhirToMedication(administration: FHIRMedicationAdministration): Medication | undefined {
+  const route = toMedicationRoute(administration);
+  if (!route) return undefined;
+
+  const dose = administration.dosage?.dose;
+  const notes = (administration.note || []).map((note) => note.text);
+  return {
+    name: administration.medicationCodeableConcept.text || administration.medicationCodeableConcept.coding?.[0]?.display || '',
+    dose: dose ? `${dose.value} ${dose.unit}`.trim() : administration.dosage?.text || '',
+    route,
+    timeAdministered: administration.effectiveDateTime,
+    reason: administration.reasonCode?.[0]?.text,
+    response: notes.length > 0 ? notes.join('; ') : undefined,
+    site: administration.dosage?.site?.text,
+    ndc: administration.medicationCodeableConcept.coding?.find((coding) => coding.system === 'http://hl7.org/fhir/sid/ndc')
+      ?.code,
+    rxnormCode: administration.medicationCodeableConcept.coding?.find(
+      (coding) => coding.system === 'http://www.nlm.nih.gov/research/umls/rxnorm'
+    )?.code,
+  };
+}
+
+/**
+ * Resources grouped into one entry
+ */
+interface EntryGroup {
+  subject: string;
+  timestamp: string;
+  performer?: FHIRReference;
+  firstId: string;
+  resources: Array<FHIRObservation | FHIRMedicationAdministration>;
+}
+
+/**
+ * Parses and validates a FHIR Bundle and maps its resources
+ * @param knownPatients - Existing patients; Patient resources update them (by MRN) and subjects may reference them by id
+ */
+export function importFHIRBundle(json: string, knownPatients: Patient[]): InboundFHIRResult {
+  const result: InboundFHIRResult = { patients: [], entries: [], issues: [] };
+
+  let bundle: FHIRBundle;
+  try {
+    bundle = JSON.parse(json) as FHIRBundle;
+  } catch (error) {
+    result.issues.push({
+      severity: 'error',
+      resource: 'Bundle',
+      message: `Not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    });
+    return result;
+  }
+  if (bundle?.resourceType !== 'Bundle') {
+    result.issues.push({ severity: 'error', resource: 'Bundle', message: 'Expected a FHIR Bundle resource' });
+    return result;
+  }
+
+  result.issues = validateFHIRBundle(bundle, knownPatients.map((patient) => patient.id));
+  const rejected = new Set(result.issues.filter((issue) => issue.severity === 'error').map((issue) => issue.resource));
+  const entries = Array.isArray(bundle.entry) ? bundle.entry : [];
+  const source: ExternalSource = {
+    format: 'FHIR',
+    sendingApplication: bundle.meta?.source || 'FHIR',
+    sendingFacility: '',
+    receivedAt: new Date().toISOString(),
+  };
+
+  // Patients, keyed by every reference that may point at them
+  const patientsByReference = new Map(knownPatients.map((patient) => [`Patient/${patient.id}`, patient]));
+  const patientsByMRN = new Map(knownPatients.map((patient) => [patient.mrn, patient]));
+  entries.forEach((entry, index) => {
+    const resource = entry?.resource;
+    if (resource?.resourceType !== 'Patient' || rejected.has(describeResource(resource, index))) return;
+
+    const mrn = fhirToPatient(resource).mrn;
+    const existing =
+      patientsByMRN.get(mrn) || (resource.id ? patientsByReference.get(`Patient/${resource.id}`) : undefined);
+    const patient = fhirToPatient(resource, existing);
+    patientsByMRN.set(patient.mrn, patient);
+    if (resource.id) patientsByReference.set(`Patient/${resource.id}`, patient);
+    if (entry.fullUrl) patientsByReference.set(entry.fullUrl, patient);
+    result.patients = [...result.patients.filter((p) => p.id !== patient.id), patient];
+  });
+
+  // Observations and administrations, grouped by subject and time
+  const groups = new Map<string, EntryGroup>();
+  entries.forEach((entry, index) => {
+    const resource = entry?.resource;
+    if (resource?.resourceType !== 'Observation' && resource?.resourceType !== 'MedicationAdministration') return;
+    if (rejected.has(describeResource(resource, index))) return;
+
+    const timestamp = resource.effectiveDateTime || source.receivedAt;
+    const key = `${resource.subject.reference}|${timestamp}`;
+    const group = groups.get(key) || {
+      subject: resource.subject.reference,
+      timestamp,
+      firstId: resource.id || `${index}`,
+      resources: [],
+    };
+    group.performer =
+      group.performer ||
+      (resource.resourceType === 'Observation' ? resource.performer?.[0] : resource.performer?.[0]?.actor);
+    group.resources.push(resource);
+    groups.set(key, group);
+  });
+
+  groups.forEach((group) => {
+    const patient = patientsByReference.get(group.subject);
+    const vitals: VitalSigns = {};
+    const medications: Medication[] = [];
+    const lines: string[] = [];
+
+    group.resources.forEach((resource) => {
+      if (resource.resourceType === 'MedicationAdministration') {
+        const medication = fhirToMedication(resource);
+        if (medication) {
+          medications.push(medication);
+        } else {
+          lines.push(`${resource.medicationCodeableConcept.text || 'Medication'}: ${resource.dosage?.text || ''}`.trim());
+        }
+        return;
+      }
+      if (applyVitalSign(vitals, resource)) return;
+
+      // Assessment panels, wounds and other results are kept as readable text
+      const heading = [resource.code.text || getLOINCCode(resource.code), resource.bodySite?.text]
+        .filter(Boolean)
+        .join(' - ');
+      const value = formatValue(resource);
+      const components = (resource.component || []).map(
+        (component) => `${component.code.text || getLOINCCode(component.code)}: ${formatValue(component)}`
+      );
+      if (value || components.length > 0) {
+        lines.push([`${heading}: ${value}`.replace(/: $/, ''), ...components].join('\n  '));
+      }
+      (resource.note || []).forEach((note) => lines.push(note.text));
+    });
+
+    const hasVitals = Object.keys(vitals).length > 0;
+    if (hasVitals) {
+      vitals.timestamp = group.timestamp;
+      if (vitals.systolic && vitals.diastolic) {
+        vitals.bloodPressure = `${vitals.systolic}/${vitals.diastolic}`;
+      }
+    }
+
+    const workflowType: DocumentationEntry['workflowType'] =
+      medications.length > 0 ? 'medication-administration' : hasVitals ? 'vital-signs' : 'general-note';
+    const performerId = group.performer?.reference?.split('/').pop();
+
+    result.entries.push({
+      id: `fhir-${group.firstId}`,
+      timestamp: group.timestamp,
+      nurseId: performerId || source.sendingApplication,
+      nurseName: group.performer?.display || source.sendingApplication,
+      patientId: patient?.id || group.subject.split('/').pop() || '',
+      patientMRN: patient?.mrn || '',
+      patientName: patient?.name || '',
+      workflowType,
+      voiceTranscript:
+        lines.join('\n') || `${workflowType === 'vital-signs' ? 'Vital signs' : 'Results'} received from ${source.sendingApplication} (FHIR)`,
+      structuredData: {
+        ...(hasVitals ? { vitalSigns: vitals } : {}),
+        ...(medications.length > 0 ? { medications } : {}),
+        ...(lines.length > 0 ? { additionalNotes: lines.join('\n') } : {}),
+      },
+      status: 'sent_to_ehr',
+      sentToEHRAt: source.receivedAt,
+      externalSource: source,
+    });
+  });
+
+  return result;
+}
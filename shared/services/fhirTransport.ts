@@ -0,0 +1,194 @@
+/**
+ * FHIR Transport
+ *
+ * POSTs transaction Bundles to a FHIR R4 server (the local ehr-server package
+ * in development). Network failures, timeouts, 429 and 5xx responses are
+ * retried with exponential backoff; other 4xx responses mean the bundle was
+ * rejected and are not retried.
+ *
+ * The transport is disabled until configureFHIRTransport() is given a baseUrl,
+ * in which case sendToEHR only stores entries locally.
+ */
+
+import type { FHIRBundle, FHIROperationOutcome } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FHIRTransportConfig {
+  /** FHIR base URL, e.g., "http://localhost:8080/fhir" (empty disables the transport) */
+  baseUrl: string;
+
+  /** Retries after the first attempt */
+  maxRetries: number;
+
+  /** Delay before the first retry; doubles for each further retry */
+  retryDelayMs: number;
+
+  /** Per-request timeout */
+  timeoutMs: number;
+}
+
+export interface FHIRTransportResult {
+  /** Server-assigned ids of the created/updated resources, e.g., "Observation/42" */
+  resourceIds: string[];
+
+  /** Number of requests made (1 when the first attempt succeeded) */
+  attempts: number;
+}
+
+/**
+ * Thrown when a bundle could not be delivered
+ */
+export class FHIRTransportError extends Error {
+  /** HTTP status of the last response (undefined for network errors and timeouts) */
+  readonly status?: number;
+
+  /** Whether the failure was transient (network, timeout, 429, 5xx) */
+  readonly retryable: boolean;
+
+  constructor(message: string, status: number | undefined, retryable: boolean) {
+    super(message);
+    this.name = 'FHIRTransportError';
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+let config: FHIRTransportConfig = {
+  baseUrl: '',
+  maxRetries: 3,
+  retryDelayMs: 500,
+  timeoutMs: 10000,
+};
+
+/**
+ * Sets the FHIR server and retry policy (unspecified options keep their current values)
+ */
+export function configureFHIRTransport(options: Partial<FHIRTransportConfig>): void {
+  config = {
+    ...config,
+    ...options,
+    baseUrl: (options.baseUrl ?? config.baseUrl).replace(/\/+$/, ''),
+  };
+}
+
+/**
+ * Whether a FHIR server has been configured
+ */
+export function isFHIRTransportEnabled(): boolean {
+  return config.baseUrl !== '';
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Converts a response location ("Observation/42/_history/1" or an absolute URL) to "Observation/42"
+ */
+function toResourceId(location: string): string {
+  const parts = location.split('?')[0].split('/').filter(Boolean);
+  const historyIndex = parts.indexOf('_history');
+  const end = historyIndex === -1 ? parts.length : historyIndex;
+  return parts.slice(end - 2, end).join('/');
+}
+
+/**
+ * Reads OperationOutcome diagnostics from an error response, if any
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+  try {
+    const body = (await response.json()) as FHIROperationOutcome;
+    const diagnostics = body.issue?.map((issue) => issue.diagnostics).filter(Boolean);
+    if (diagnostics && diagnostics.length > 0) {
+      return diagnostics.join('; ');
+    }
+  } catch {
+    // Not a FHIR error body
+  }
+  return `${response.status} ${response.statusText}`.trim();
+}
+
+/**
+ * Single POST of the bundle, aborted after timeoutMs
+ */
+async function postOnce(bundle: FHIRBundle): Promise<string[]> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+
+  let response: Response;
+  try {
+    response = await fetch(config.baseUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/fhir+json',
+        Accept: 'application/fhir+json',
+      },
+      body: JSON.stringify(bundle),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    const message = controller.signal.aborted
+      ? `FHIR server did not respond within ${config.timeoutMs}ms`
+      : `FHIR server unreachable: ${error instanceof Error ? error.message : String(error)}`;
+    throw new FHIRTransportError(message, undefined, true);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!response.ok) {
+    const retryable = response.status === 429 || response.status >= 500;
+    throw new FHIRTransportError(await readErrorMessage(response), response.status, retryable);
+  }
+
+  const result = (await response.json()) as FHIRBundle;
+  return (result.entry || [])
+    .map((entry) => entry.response?.location)
+    .filter((location): location is string => Boolean(location))
+    .map(toResourceId);
+}
+
+// ============================================================================
+// TRANSPORT
+// ============================================================================
+
+/**
+ * POSTs a transaction Bundle to the configured FHIR server, retrying transient failures
+ * @throws FHIRTransportError when the transport is disabled, the bundle is rejected, or retries run out
+ */
+export async function postTransactionBundle(bundle: FHIRBundle): Promise<FHIRTransportResult> {
+  if (!isFHIRTransportEnabled()) {
+    throw new FHIRTransportError('FHIR transport is not configured', undefined, false);
+  }
+
+  let attempt = 0;
+  for (;;) {
+    attempt++;
+    try {
+      const resourceIds = await postOnce(bundle);
+      return { resourceIds, attempts: attempt };
+    } catch (error) {
+      const transportError = error instanceof FHIRTransportError
+        ? error
+        : new FHIRTransportError(error instanceof Error ? error.message : String(error), undefined, false);
+
+      if (!transportError.retryable || attempt > config.maxRetries) {
+        throw transportError;
+      }
+
+      const wait = config.retryDelayMs * 2 ** (attempt - 1);
+      console.warn(`⚠️ FHIR POST failed (attempt ${attempt}): ${transportError.message}. Retrying in ${wait}ms`);
+      await delay(wait);
+    }
+  }
+}
@@ -0,0 +1,691 @@
+/**
+ * Formulary
+ *
+ * Bundled drug formulary (generic and brand names, strengths, routes, NDC, RxNorm) and
+ * name matching for dictated medications. Speech recognition often mangles drug names
+ * ("zofrin", "metoprolo"), so names are matched exactly, then by sound, then by edit
+ * distance. When no single drug stands out, the top candidates are returned for the
+ * nurse to pick from.
+ *
+ * The dataset is a sample for the demo: RxNorm codes are ingredient concepts and NDCs
+ * are representative package codes, not a maintained drug database.
+ */
+
+import type { FormularyDrug, FormularyMatch, FormularyStrength, Medication, MedicationRoute } from '../types';
+
+export const FORMULARY: FormularyDrug[] = [
+  {
+    genericName: 'Acetaminophen',
+    brandNames: ['Tylenol', 'Ofirmev'],
+    rxnormCode: '161',
+    routes: ['PO', 'PR', 'IV', 'NG', 'GT'],
+    strengths: [
+      { dose: '325mg', form: 'tablet', ndc: '50580-0488-10' },
+      { dose: '500mg', form: 'tablet', ndc: '50580-0449-10' },
+      { dose: '650mg', form: 'suppository', ndc: '51672-2115-01' },
+      { dose: '1000mg', form: 'injection', ndc: '43825-0102-01' },
+    ],
+    drugClasses: ['analgesic'],
+    doseRange: { min: 325, max: 1000, unit: 'mg' },
+    minIntervalHours: 4,
+  },
+  {
+    genericName: 'Ibuprofen',
+    brandNames: ['Advil', 'Motrin'],
+    rxnormCode: '5640',
+    routes: ['PO', 'NG', 'GT'],
+    strengths: [
+      { dose: '400mg', form: 'tablet', ndc: '0904-5853-61' },
+      { dose: '600mg', form: 'tablet', ndc: '0904-5854-61' },
+      { dose: '800mg', form: 'tablet', ndc: '0904-5855-61' },
+    ],
+    drugClasses: ['nsaid'],
+    doseRange: { min: 200, max: 800, unit: 'mg' },
+    minIntervalHours: 6,
+  },
+  {
+    genericName: 'Ketorolac',
+    brandNames: ['Toradol'],
+    rxnormCode: '35827',
+    routes: ['IV', 'IM', 'PO'],
+    strengths: [
+      { dose: '15mg', form: 'injection', ndc: '0409-3795-01' },
+      { dose: '30mg', form: 'injection', ndc: '0409-3796-01' },
+    ],
+    drugClasses: ['nsaid'],
+    doseRange: { min: 15, max: 30, unit: 'mg' },
+    minIntervalHours: 6,
+  },
+  {
+    genericName: 'Aspirin',
+    brandNames: ['Bayer', 'Ecotrin'],
+    rxnormCode: '1191',
+    routes: ['PO', 'PR', 'NG', 'GT'],
+    strengths: [
+      { dose: '81mg', form: 'chewable tablet', ndc: '0904-6744-60' },
+      { dose: '325mg', form: 'tablet', ndc: '0904-2013-60' },
+    ],
+    drugClasses: ['nsaid', 'salicylate'],
+    doseRange: { min: 81, max: 650, unit: 'mg' },
+    minIntervalHours: 4,
+  },
+  {
+    genericName: 'Morphine',
+    brandNames: ['MS Contin', 'Duramorph'],
+    rxnormCode: '7052',
+    routes: ['IV', 'IM', 'SQ', 'PO'],
+    strengths: [
+      { dose: '2mg', form: 'injection', ndc: '0409-1890-01' },
+      { dose: '4mg', form: 'injection', ndc: '0409-1891-01' },
+      { dose: '15mg', form: 'tablet', ndc: '0054-0235-25' },
+    ],
+    drugClasses: ['opioid'],
+    doseRange: { min: 1, max: 30, unit: 'mg' },
+    minIntervalHours: 2,
+  },
+  {
+    genericName: 'Hydromorphone',
+    brandNames: ['Dilaudid'],
+    rxnormCode: '3423',
+    routes: ['IV', 'IM', 'SQ', 'PO'],
+    strengths: [
+      { dose: '0.5mg', form: 'injection', ndc: '0409-2634-01' },
+      { dose: '1mg', form: 'injection', ndc: '0409-2552-01' },
+      { dose: '2mg', form: 'tablet', ndc: '0406-3242-01' },
+    ],
+    drugClasses: ['opioid'],
+    doseRange: { min: 0.2, max: 4, unit: 'mg' },
+    minIntervalHours: 2,
+  },
+  {
+    genericName: 'Oxycodone',
+    brandNames: ['Roxicodone', 'OxyContin'],
+    rxnormCode: '7804',
+    routes: ['PO'],
+    strengths: [
+      { dose: '5mg', form: 'tablet', ndc: '0406-0552-01' },
+      { dose: '10mg', form: 'tablet', ndc: '0406-8510-01' },
+    ],
+    drugClasses: ['opioid'],
+    doseRange: { min: 2.5, max: 20, unit: 'mg' },
+    minIntervalHours: 4,
+  },
+  {
+    genericName: 'Naloxone',
+    brandNames: ['Narcan'],
+    rxnormCode: '7242',
+    routes: ['IV', 'IM', 'SQ'],
+    strengths: [{ dose: '0.4mg', form: 'injection', ndc: '0409-1215-01' }],
+    drugClasses: ['opioid antagonist'],
+    doseRange: { min: 0.04, max: 2, unit: 'mg' },
+  },
+  {
+    genericName: 'Ondansetron',
+    brandNames: ['Zofran'],
+    rxnormCode: '26225',
+    routes: ['IV', 'IM', 'PO', 'SL'],
+    strengths: [
+      { dose: '4mg', form: 'injection', ndc: '0409-4755-03' },
+      { dose: '4mg', form: 'orally disintegrating tablet', ndc: '0781-5238-64' },
+      { dose: '8mg', form: 'tablet', ndc: '0781-1682-10' },
+    ],
+    drugClasses: ['antiemetic'],
+    doseRange: { min: 4, max: 8, unit: 'mg' },
+    minIntervalHours: 4,
+  },
+  {
+    genericName: 'Lorazepam',
+    brandNames: ['Ativan'],
+    rxnormCode: '6470',
+    routes: ['IV', 'IM', 'PO', 'SL'],
+    strengths: [
+      { dose: '0.5mg', form: 'tablet', ndc: '0591-0240-01' },
+      { dose: '1mg', form: 'tablet', ndc: '0591-0241-01' },
+      { dose: '2mg', form: 'injection', ndc: '0641-6044-01' },
+    ],
+    drugClasses: ['benzodiazepine'],
+    doseRange: { min: 0.5, max: 4, unit: 'mg' },
+    minIntervalHours: 4,
+  },
+  {
+    genericName: 'Diphenhydramine',
+    brandNames: ['Benadryl'],
+    rxnormCode: '3498',
+    routes: ['PO', 'IV', 'IM'],
+    strengths: [
+      { dose: '25mg', form: 'capsule', ndc: '0904-5306-61' },
+      { dose: '50mg', form: 'injection', ndc: '0641-0376-25' },
+    ],
+    drugClasses: ['antihistamine'],
+    doseRange: { min: 12.5, max: 50, unit: 'mg' },
+    minIntervalHours: 4,
+  },
+  {
+    genericName: 'Hydroxyzine',
+    brandNames: ['Atarax', 'Vistaril'],
+    rxnormCode: '5553',
+    routes: ['PO', 'IM'],
+    strengths: [
+      { dose: '25mg', form: 'tablet', ndc: '0904-6541-61' },
+      { dose: '50mg', form: 'injection', ndc: '0641-6209-25' },
+    ],
+    drugClasses: ['antihistamine'],
+    doseRange: { min: 10, max: 100, unit: 'mg' },
+    minIntervalHours: 6,
+  },
+  {
+    genericName: 'Furosemide',
+    brandNames: ['Lasix'],
+    rxnormCode: '4603',
+    routes: ['PO', 'IV', 'IM'],
+    strengths: [
+      { dose: '20mg', form: 'tablet', ndc: '0054-4297-25' },
+      { dose: '40mg', form: 'tablet', ndc: '0054-4299-25' },
+      { dose: '40mg', form: 'injection', ndc: '0409-6102-02' },
+    ],
+    drugClasses: ['loop diuretic', 'sulfonamide non-antibiotic'],
+    doseRange: { min: 20, max: 200, unit: 'mg' },
+    minIntervalHours: 6,
+  },
+  {
+    genericName: 'Metoprolol',
+    brandNames: ['Lopressor', 'Toprol XL'],
+    rxnormCode: '6918',
+    routes: ['PO', 'IV', 'NG', 'GT'],
+    strengths: [
+      { dose: '25mg', form: 'tablet', ndc: '0378-0018-01' },
+      { dose: '50mg', form: 'tablet', ndc: '0378-0032-01' },
+      { dose: '5mg', form: 'injection', ndc: '0409-1778-01' },
+    ],
+    drugClasses: ['beta blocker'],
+    doseRange: { min: 2.5, max: 200, unit: 'mg' },
+    minIntervalHours: 6,
+  },
+  {
+    genericName: 'Lisinopril',
+    brandNames: ['Zestril', 'Prinivil'],
+    rxnormCode: '29046',
+    routes: ['PO', 'NG', 'GT'],
+    strengths: [
+      { dose: '5mg', form: 'tablet', ndc: '68180-0512-01' },
+      { dose: '10mg', form: 'tablet', ndc: '68180-0513-01' },
+      { dose: '20mg', form: 'tablet', ndc: '68180-0514-01' },
+    ],
+    drugClasses: ['ace inhibitor'],
+    doseRange: { min: 2.5, max: 40, unit: 'mg' },
+    minIntervalHours: 24,
+  },
+  {
+    genericName: 'Losartan',
+    brandNames: ['Cozaar'],
+    rxnormCode: '52175',
+    routes: ['PO', 'NG', 'GT'],
+    strengths: [
+      { dose: '25mg', form: 'tablet', ndc: '0093-7364-56' },
+      { dose: '50mg', form: 'tablet', ndc: '0093-7365-56' },
+    ],
+    drugClasses: ['angiotensin receptor blocker'],
+    doseRange: { min: 25, max: 100, unit: 'mg' },
+    minIntervalHours: 24,
+  },
+  {
+    genericName: 'Amlodipine',
+    brandNames: ['Norvasc'],
+    rxnormCode: '17767',
+    routes: ['PO', 'NG', 'GT'],
+    strengths: [
+      { dose: '5mg', form: 'tablet', ndc: '0093-7167-56' },
+      { dose: '10mg', form: 'tablet', ndc: '0093-7168-56' },
+    ],
+    drugClasses: ['calcium channel blocker'],
+    doseRange: { min: 2.5, max: 10, unit: 'mg' },
+    minIntervalHours: 24,
+  },
+  {
+    genericName: 'Hydralazine',
+    brandNames: ['Apresoline'],
+    rxnormCode: '5470',
+    routes: ['PO', 'IV', 'IM'],
+    strengths: [
+      { dose: '10mg', form: 'injection', ndc: '63323-0614-01' },
+      { dose: '25mg', form: 'tablet', ndc: '23155-0001-01' },
+    ],
+    drugClasses: ['vasodilator'],
+    doseRange: { min: 5, max: 100, unit: 'mg' },
+    minIntervalHours: 4,
+  },
+  {
+    genericName: 'Digoxin',
+    brandNames: ['Lanoxin'],
+    rxnormCode: '3407',
+    routes: ['PO', 'IV'],
+    strengths: [
+      { dose: '0.125mg', form: 'tablet', ndc: '0143-1240-01' },
+      { dose: '0.25mg', form: 'injection', ndc: '0641-1410-35' },
+    ],
+    drugClasses: ['cardiac glycoside'],
+    doseRange: { min: 0.0625, max: 0.5, unit: 'mg' },
+    minIntervalHours: 6,
+  },
+  {
+    genericName: 'Atorvastatin',
+    brandNames: ['Lipitor'],
+    rxnormCode: '83367',
+    routes: ['PO', 'NG', 'GT'],
+    strengths: [
+      { dose: '20mg', form: 'tablet', ndc: '0093-5057-98' },
+      { dose: '40mg', form: 'tablet', ndc: '0093-5058-98' },
+    ],
+    drugClasses: ['statin'],
+    doseRange: { min: 10, max: 80, unit: 'mg' },
+    minIntervalHours: 24,
+  },
+  {
+    genericName: 'Clopidogrel',
+    brandNames: ['Plavix'],
+    rxnormCode: '32968',
+    routes: ['PO', 'NG', 'GT'],
+    strengths: [{ dose: '75mg', form: 'tablet', ndc: '0093-7314-56' }],
+    drugClasses: ['antiplatelet'],
+    doseRange: { min: 75, max: 600, unit: 'mg' },
+    minIntervalHours: 24,
+  },
+  {
+    genericName: 'Heparin',
+    brandNames: [],
+    rxnormCode: '5224',
+    routes: ['SQ', 'IV'],
+    strengths: [
+      { dose: '5000units', form: 'injection', ndc: '63323-0262-01' },
+      { dose: '1000units', form: 'injection', ndc: '63323-0540-11' },
+    ],
+    drugClasses: ['anticoagulant'],
+    doseRange: { min: 1000, max: 10000, unit: 'units' },
+    minIntervalHours: 8,
+  },
+  {
+    genericName: 'Enoxaparin',
+    brandNames: ['Lovenox'],
+    rxnormCode: '67108',
+    routes: ['SQ'],
+    strengths: [
+      { dose: '40mg', form: 'prefilled syringe', ndc: '0075-0624-40' },
+      { dose: '80mg', form: 'prefilled syringe', ndc: '0075-0622-80' },
+    ],
+    drugClasses: ['anticoagulant'],
+    doseRange: { min: 30, max: 150, unit: 'mg' },
+    minIntervalHours: 12,
+  },
+  {
+    genericName: 'Warfarin',
+    brandNames: ['Coumadin', 'Jantoven'],
+    rxnormCode: '11289',
+    routes: ['PO', 'NG', 'GT'],
+    strengths: [
+      { dose: '2mg', form: 'tablet', ndc: '0093-1713-01' },
+      { dose: '5mg', form: 'tablet', ndc: '0093-1721-01' },
+    ],
+    drugClasses: ['anticoagulant'],
+    doseRange: { min: 0.5, max: 10, unit: 'mg' },
+    minIntervalHours: 24,
+  },
+  {
+    genericName: 'Insulin Regular',
+    brandNames: ['Humulin R', 'Novolin R'],
+    rxnormCode: '253182',
+    routes: ['SQ', 'IV'],
+    strengths: [{ dose: '100units/ml', form: 'injection', ndc: '0002-8215-01' }],
+    drugClasses: ['insulin'],
+    doseRange: { min: 1, max: 50, unit: 'units' },
+  },
+  {
+    genericName: 'Insulin Lispro',
+    brandNames: ['Humalog'],
+    rxnormCode: '86009',
+    routes: ['SQ'],
+    strengths: [{ dose: '100units/ml', form: 'injection', ndc: '0002-7510-01' }],
+    drugClasses: ['insulin'],
+    doseRange: { min: 1, max: 50, unit: 'units' },
+  },
+  {
+    genericName: 'Insulin Glargine',
+    brandNames: ['Lantus', 'Basaglar'],
+    rxnormCode: '274783',
+    routes: ['SQ'],
+    strengths: [{ dose: '100units/ml', form: 'injection', ndc: '0088-2220-33' }],
+    drugClasses: ['insulin'],
+    doseRange: { min: 1, max: 100, unit: 'units' },
+    minIntervalHours: 24,
+  },
+  {
+    genericName: 'Metformin',
+    brandNames: ['Glucophage'],
+    rxnormCode: '6809',
+    routes: ['PO'],
+    strengths: [
+      { dose: '500mg', form: 'tablet', ndc: '0093-1048-01' },
+      { dose: '1000mg', form: 'tablet', ndc: '0093-1050-01' },
+    ],
+    drugClasses: ['biguanide'],
+    doseRange: { min: 500, max: 1000, unit: 'mg' },
+    minIntervalHours: 12,
+  },
+  {
+    genericName: 'Levothyroxine',
+    brandNames: ['Synthroid', 'Levoxyl'],
+    rxnormCode: '10582',
+    routes: ['PO', 'IV', 'NG', 'GT'],
+    strengths: [
+      { dose: '50mcg', form: 'tablet', ndc: '0074-4552-13' },
+      { dose: '100mcg', form: 'tablet', ndc: '0074-6624-13' },
+    ],
+    drugClasses: ['thyroid hormone'],
+    doseRange: { min: 12.5, max: 300, unit: 'mcg' },
+    minIntervalHours: 24,
+  },
+  {
+    genericName: 'Prednisone',
+    brandNames: ['Deltasone'],
+    rxnormCode: '8640',
+    routes: ['PO', 'NG', 'GT'],
+    strengths: [
+      { dose: '10mg', form: 'tablet', ndc: '0054-4728-25' },
+      { dose: '20mg', form: 'tablet', ndc: '0054-4741-25' },
+    ],
+    drugClasses: ['corticosteroid'],
+    doseRange: { min: 5, max: 80, unit: 'mg' },
+    minIntervalHours: 24,
+  },
+  {
+    genericName: 'Omeprazole',
+    brandNames: ['Prilosec'],
+    rxnormCode: '7646',
+    routes: ['PO', 'NG', 'GT'],
+    strengths: [{ dose: '20mg', form: 'capsule', ndc: '62175-0136-37' }],
+    drugClasses: ['proton pump inhibitor'],
+    doseRange: { min: 20, max: 40, unit: 'mg' },
+    minIntervalHours: 12,
+  },
+  {
+    genericName: 'Pantoprazole',
+    brandNames: ['Protonix'],
+    rxnormCode: '40790',
+    routes: ['PO', 'IV'],
+    strengths: [
+      { dose: '40mg', form: 'tablet', ndc: '0008-0841-81' },
+      { dose: '40mg', form: 'injection', ndc: '0008-0923-51' },
+    ],
+    drugClasses: ['proton pump inhibitor'],
+    doseRange: { min: 40, max: 80, unit: 'mg' },
+    minIntervalHours: 12,
+  },
+  {
+    genericName: 'Famotidine',
+    brandNames: ['Pepcid'],
+    rxnormCode: '4278',
+    routes: ['PO', 'IV'],
+    strengths: [
+      { dose: '20mg', form: 'tablet', ndc: '0093-2748-01' },
+      { dose: '20mg', form: 'injection', ndc: '0641-6022-10' },
+    ],
+    drugClasses: ['h2 blocker'],
+    doseRange: { min: 10, max: 40, unit: 'mg' },
+    minIntervalHours: 12,
+  },
+  {
+    genericName: 'Albuterol',
+    brandNames: ['Proventil', 'Ventolin'],
+    rxnormCode: '435',
+    routes: ['INH'],
+    strengths: [
+      { dose: '2.5mg', form: 'nebulizer solution', ndc: '0487-9501-25' },
+      { dose: '2puffs', form: 'inhaler', ndc: '0173-0682-20' },
+    ],
+    drugClasses: ['beta agonist'],
+  },
+  {
+    genericName: 'Vancomycin',
+    brandNames: ['Vancocin'],
+    rxnormCode: '11124',
+    routes: ['IV', 'PO'],
+    strengths: [
+      { dose: '1g', form: 'injection', ndc: '0409-6533-01' },
+      { dose: '125mg', form: 'capsule', ndc: '62756-0188-86' },
+    ],
+    drugClasses: ['glycopeptide antibiotic'],
+    doseRange: { min: 125, max: 2000, unit: 'mg' },
+    minIntervalHours: 6,
+  },
+  {
+    genericName: 'Ceftriaxone',
+    brandNames: ['Rocephin'],
+    rxnormCode: '2193',
+    routes: ['IV', 'IM'],
+    strengths: [{ dose: '1g', form: 'injection', ndc: '0409-7332-01' }],
+    drugClasses: ['cephalosporin', 'beta-lactam'],
+    doseRange: { min: 250, max: 2000, unit: 'mg' },
+    minIntervalHours: 12,
+  },
+  {
+    genericName: 'Amoxicillin',
+    brandNames: ['Amoxil'],
+    rxnormCode: '723',
+    routes: ['PO', 'NG', 'GT'],
+    strengths: [
+      { dose: '500mg', form: 'capsule', ndc: '0093-3109-01' },
+      { dose: '875mg', form: 'tablet', ndc: '0093-2264-01' },
+    ],
+    drugClasses: ['penicillin', 'beta-lactam'],
+    doseRange: { min: 250, max: 1000, unit: 'mg' },
+    minIntervalHours: 8,
+  },
+  {
+    genericName: 'Cefazolin',
+    brandNames: ['Ancef'],
+    rxnormCode: '2180',
+    routes: ['IV', 'IM'],
+    strengths: [{ dose: '1g', form: 'injection', ndc: '0143-9924-90' }],
+    drugClasses: ['cephalosporin', 'beta-lactam'],
+    doseRange: { min: 500, max: 2000, unit: 'mg' },
+    minIntervalHours: 8,
+  },
+  {
+    genericName: 'Sulfamethoxazole-Trimethoprim',
+    brandNames: ['Bactrim', 'Septra'],
+    rxnormCode: '10831',
+    routes: ['PO', 'IV'],
+    strengths: [{ dose: '800mg', form: 'double strength tablet', ndc: '53746-0272-01' }],
+    drugClasses: ['sulfonamide antibiotic'],
+    doseRange: { min: 400, max: 1600, unit: 'mg' },
+    minIntervalHours: 12,
+  },
+  {
+    genericName: 'Potassium Chloride',
+    brandNames: ['K-Dur', 'Klor-Con'],
+    rxnormCode: '8591',
+    routes: ['PO', 'IV', 'NG', 'GT'],
+    strengths: [
+      { dose: '20mEq', form: 'extended release tablet', ndc: '0245-0058-01' },
+      { dose: '10mEq', form: 'injection', ndc: '0409-6653-05' },
+    ],
+    drugClasses: ['electrolyte'],
+    doseRange: { min: 10, max: 40, unit: 'mEq' },
+  },
+  {
+    genericName: 'Gabapentin',
+    brandNames: ['Neurontin'],
+    rxnormCode: '25480',
+    routes: ['PO', 'NG', 'GT'],
+    strengths: [
+      { dose: '100mg', form: 'capsule', ndc: '0228-2636-11' },
+      { dose: '300mg', form: 'capsule', ndc: '0228-2637-11' },
+    ],
+    drugClasses: ['anticonvulsant'],
+    doseRange: { min: 100, max: 1200, unit: 'mg' },
+    minIntervalHours: 6,
+  },
+];
+
+/** Lowest score returned as a candidate */
+const MIN_CANDIDATE_SCORE = 0.6;
+
+/** Score a best match needs to be used without asking */
+const CONFIDENT_MATCH_SCORE = 0.8;
+
+/** How far a best match must lead the runner-up to be used without asking */
+const CONFIDENT_MATCH_MARGIN = 0.1;
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Sound-alike key for a drug name, e.g. "zofran" and "zofrin" -> "SFRN"
+ * A reduced Metaphone: spelling variants are folded, then vowels after the first letter dropped
+ */
+export function phoneticKey(name: string): string {
+  const folded = normalizeName(name)
+    .replace(/\s/g, '')
+    .replace(/ph/g, 'f')
+    .replace(/(?:gh|dg)/g, 'j')
+    .replace(/th/g, 't')
+    .replace(/ck/g, 'k')
+    .replace(/qu/g, 'kw')
+    .replace(/^x/, 's')
+    .replace(/x/g, 'ks')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/[cq]/g, 'k')
+    .replace(/z/g, 's')
+    .replace(/(?<=[^aeiou])h/g, '');
+
+  if (!folded) return '';
+  const rest = folded.slice(1).replace(/[aeiouyhw]/g, '');
+  return (folded[0] + rest).replace(/(.)\1+/g, '$1').toUpperCase();
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const similarity = (a: string, b: string) =>
+  a.length === 0 && b.length === 0 ? 1 : 1 - editDistance(a, b) / Math.max(a.length, b.length);
+
+/**
+ * Score one input against one formulary name
+ * A single word of a multi-word name ("insulin" for "Insulin Glargine") counts as exact but
+ * scores below a full match, so drugs sharing the word tie and are offered as candidates
+ */
+function scoreName(input: string, name: string): Pick<FormularyMatch, 'score' | 'matchType'> {
+  const normalized = normalizeName(name);
+  const compactInput = input.replace(/\s/g, '');
+  const compactName = normalized.replace(/\s/g, '');
+
+  if (compactInput === compactName) {
+    return { score: 1, matchType: 'exact' };
+  }
+  if (normalized.split(' ').some((word) => word.length >= 4 && word === input)) {
+    return { score: 0.95, matchType: 'exact' };
+  }
+
+  const inputKey = phoneticKey(input);
+  const nameKey = phoneticKey(name);
+  if (inputKey.length >= 3 && inputKey === nameKey) {
+    return { score: 0.9, matchType: 'phonetic' };
+  }
+
+  // Sound-alike keys forgive vowel errors, spelling forgives consonant errors
+  return {
+    score: Math.max(similarity(compactInput, compactName), 0.9 * similarity(inputKey, nameKey)),
+    matchType: 'fuzzy',
+  };
+}
+
+/**
+ * Formulary drugs whose generic or brand name is closest to `name`, best first
+ * @param limit - Most candidates to return
+ */
+export function searchFormulary(name: string, limit = 3): FormularyMatch[] {
+  const input = normalizeName(name);
+  if (input.length < 3) return [];
+
+  const matches = FORMULARY.map((drug) => {
+    const best = [drug.genericName, ...drug.brandNames]
+      .map((drugName) => ({ drug, matchedName: drugName, ...scoreName(input, drugName) }))
+      .reduce((a, b) => (b.score > a.score ? b : a));
+    return best;
+  });
+
+  return matches
+    .filter((match) => match.score >= MIN_CANDIDATE_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Formulary drug for a dictated or typed name
+ * `match` is set when one drug is a clear best; otherwise `candidates` lists drugs to suggest
+ */
+export function resolveFormularyDrug(
+  name: string,
+  limit = 3
+): { match?: FormularyMatch; candidates: FormularyMatch[] } {
+  const candidates = searchFormulary(name, limit);
+  const [best, runnerUp] = candidates;
+  const isClearBest =
+    best &&
+    best.score >= CONFIDENT_MATCH_SCORE &&
+    (!runnerUp || best.score - runnerUp.score >= CONFIDENT_MATCH_MARGIN);
+
+  return isClearBest ? { match: best, candidates } : { candidates };
+}
+
+const INJECTED_ROUTES: MedicationRoute[] = ['IV', 'IM', 'SQ'];
+
+const isInjectable = (strength: FormularyStrength) => /injection|syringe/.test(strength.form);
+
+/**
+ * Formulary strength matching a documented dose ("25 mg" -> the 25mg tablet)
+ * When several forms share the strength, the route picks between injectable and other forms
+ */
+export function findFormularyStrength(
+  drug: FormularyDrug,
+  dose: string,
+  route?: MedicationRoute
+): FormularyStrength | undefined {
+  const normalizedDose = dose.toLowerCase().replace(/\s/g, '');
+  const matching = drug.strengths.filter((strength) => strength.dose.toLowerCase() === normalizedDose);
+  if (!route) return matching[0];
+  return matching.find((strength) => isInjectable(strength) === INJECTED_ROUTES.includes(route)) || matching[0];
+}
+
+/**
+ * NDC and RxNorm codes for a medication, from the formulary when the medication lacks them
+ */
+export function getFormularyCoding(med: Pick<Medication, 'name' | 'dose' | 'route' | 'ndc' | 'rxnormCode'>): {
+  ndc?: string;
+  rxnormCode?: string;
+} {
+  if (med.ndc || med.rxnormCode) {
+    return { ndc: med.ndc, rxnormCode: med.rxnormCode };
+  }
+
+  const { match } = resolveFormularyDrug(med.name);
+  if (!match) return {};
+  return {
+    ndc: findFormularyStrength(match.drug, med.dose, med.route)?.ndc,
+    rxnormCode: match.drug.rxnormCode,
+  };
+}
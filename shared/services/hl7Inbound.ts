@@ -0,0 +1,417 @@
+/**
+ * Inbound HL7 v2 Mapping
+ *
+ * Turns HL7 v2 messages received from other systems into Voize records:
+ * - ADT^A01 / A03 / A08 (PID, PV1, DG1, AL1) -> Patient
+ * - ORU^R01 (PID, OBR, OBX, NTE) -> DocumentationEntry with VitalSigns
+ *
+ * OBX vitals are matched by LOINC code and converted to the units VitalSigns
+ * uses (°F, lb, in, mg/dL). Other OBX results and NTE comments become the entry text.
+ */
+
+import type {
+  DocumentationEntry,
+  ExternalSource,
+  HL7Message,
+  HL7Segment,
+  Patient,
+  VitalSigns,
+} from '../types';
+import {
+  type HL7EncodingCharacters,
+  findSegment,
+  fromHL7Timestamp,
+  getComponent,
+  getEncodingCharacters,
+  getField,
+  getRepetitions,
+  parseHL7Message,
+  splitComponents,
+} from './hl7Message';
+import { convertVitalSignUnits } from './vitalSignUnits';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One OBX result with its components unescaped
+ */
+export interface HL7Observation {
+  setId: string;
+  valueType: string;
+  code: string;
+  codeText: string;
+  codingSystem: string;
+  /** OBX-5 repetitions (components joined with a space) */
+  values: string[];
+  units: string;
+  referenceRange: string;
+  abnormalFlags: string[];
+  resultStatus: string;
+  observedAt: string;
+}
+
+/**
+ * Result of importing one or more HL7 messages
+ */
+export interface InboundHL7Result {
+  /** Patients created or updated by ADT messages */
+  patients: Patient[];
+
+  /** Entries created from ORU messages */
+  entries: DocumentationEntry[];
+
+  /** One message per message that could not be imported */
+  errors: string[];
+}
+
+export const SUPPORTED_ADT_EVENTS = ['ADT^A01', 'ADT^A03', 'ADT^A08'];
+
+// ============================================================================
+// SEGMENT HELPERS
+// ============================================================================
+
+/**
+ * Patient MRN from PID-3 (the repetition with identifier type MR, else the first)
+ */
+function getMRN(pid: HL7Segment | undefined, encoding: HL7EncodingCharacters): string {
+  const identifiers = getRepetitions(pid, 3, encoding).map((value) => splitComponents(value, encoding));
+  const mrn = identifiers.find((components) => components[4] === 'MR') || identifiers[0];
+  return mrn?.[0] || '';
+}
+
+/**
+ * "Family, Given Middle" from an XPN field (PID-5) or XCN field (OBR-16, OBX-16) component offset
+ */
+function formatName(components: string[], offset = 0): string {
+  const family = components[offset] || '';
+  const given = [components[offset + 1], components[offset + 2]].filter(Boolean).join(' ');
+  return family && given ? `${family}, ${given}` : family || given;
+}
+
+const GENDER_CODES: Record<string, Patient['gender']> = {
+  M: 'male',
+  F: 'female',
+  O: 'other',
+  U: 'unknown',
+};
+
+/**
+ * HL7 date (YYYYMMDD...) to YYYY-MM-DD
+ */
+function toISODate(value: string): string {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : '';
+}
+
+/**
+ * Parses all OBX segments in a message
+ */
+export function getObservations(message: HL7Message): HL7Observation[] {
+  const encoding = getEncodingCharacters(message);
+  const obr = findSegment(message, 'OBR');
+  const fallbackTime = fromHL7Timestamp(getField(obr, 7)) || fromHL7Timestamp(message.messageDateTime);
+
+  return message.segments
+    .filter((segment) => segment.segmentType === 'OBX')
+    .map((obx) => {
+      const valueType = getField(obx, 2);
+      const values = getRepetitions(obx, 5, encoding).map((value) => {
+        const components = splitComponents(value, encoding);
+        // SN (structured numeric): comparator^number^separator^number
+        return valueType === 'SN' ? components.slice(0, 4).join('') : components.filter(Boolean).join(' ');
+      });
+
+      return {
+        setId: getField(obx, 1),
+        valueType,
+        code: getComponent(obx, 3, 1, encoding),
+        codeText: getComponent(obx, 3, 2, encoding),
+        codingSystem: getComponent(obx, 3, 3, encoding),
+        values,
+        units: getComponent(obx, 6, 1, encoding),
+        referenceRange: getComponent(obx, 7, 1, encoding),
+        abnormalFlags: getRepetitions(obx, 8, encoding),
+        resultStatus: getField(obx, 11),
+        observedAt: fromHL7Timestamp(getField(obx, 14)) || fallbackTime,
+      };
+    });
+}
+
+// ============================================================================
+// VITAL SIGNS
+// ============================================================================
+
+/**
+ * LOINC codes mapped to VitalSigns fields
+ */
+export const VITAL_SIGN_LOINC: Record<string, keyof VitalSigns> = {
+  '8867-4': 'heartRate',
+  '8480-6': 'systolic',
+  '8462-4': 'diastolic',
+  '8310-5': 'temperature',
+  '8331-1': 'temperature', // Oral temperature
+  '9279-1': 'respiratoryRate',
+  '59408-5': 'oxygenSaturation',
+  '2708-6': 'oxygenSaturation', // Arterial O2 saturation
+  '72514-3': 'painLevel',
+  '29463-7': 'weight',
+  '3141-9': 'weight', // Body weight measured
+  '8302-2': 'height',
+  '2339-0': 'bloodGlucose',
+  '2345-7': 'bloodGlucose', // Glucose, serum/plasma
+};
+
+/** Blood pressure panel, sent as "systolic/diastolic" */
+export const BLOOD_PRESSURE_PANEL = '85354-9';
+
+/** Result statuses that must not be shown (W = wrong patient/entered in error, D = deleted, X = not obtained) */
+const IGNORED_RESULT_STATUSES = ['W', 'D', 'X'];
+
+/**
+ * Whether an observation is a vital sign that maps to VitalSigns
+ */
+function isVitalSign(observation: HL7Observation): boolean {
+  return observation.code === BLOOD_PRESSURE_PANEL || observation.code in VITAL_SIGN_LOINC;
+}
+
+/**
+ * Maps OBX vital-sign results to VitalSigns (null if the message has none)
+ */
+export function hl7ToVitalSigns(message: HL7Message): VitalSigns | null {
+  const vitals: VitalSigns = {};
+  let found = false;
+
+  getObservations(message)
+    .filter((observation) => !IGNORED_RESULT_STATUSES.includes(observation.resultStatus))
+    .forEach((observation) => {
+      const value = observation.values[0] || '';
+
+      if (observation.code === BLOOD_PRESSURE_PANEL) {
+        const bp = value.match(/(\d{2,3})\s*\/\s*(\d{2,3})/);
+        if (bp) {
+          vitals.systolic = Number(bp[1]);
+          vitals.diastolic = Number(bp[2]);
+          vitals.timestamp = vitals.timestamp || observation.observedAt;
+          found = true;
+        }
+        return;
+      }
+
+      const field = VITAL_SIGN_LOINC[observation.code];
+      const numeric = parseFloat(value.replace(/^[<>=]+/, ''));
+      if (!field || Number.isNaN(numeric)) return;
+
+      (vitals as Record<string, unknown>)[field] = convertVitalSignUnits(field, numeric, observation.units);
+      vitals.timestamp = vitals.timestamp || observation.observedAt;
+      found = true;
+    });
+
+  if (vitals.systolic && vitals.diastolic) {
+    vitals.bloodPressure = `${vitals.systolic}/${vitals.diastolic}`;
+  }
+
+  return found ? vitals : null;
+}
+
+// ============================================================================
+// MESSAGE MAPPING
+// ============================================================================
+
+function toExternalSource(message: HL7Message): ExternalSource {
+  return {
+    format: 'HL7v2',
+    sendingApplication: message.sendingApplication.split('^')[0],
+    sendingFacility: message.sendingFacility.split('^')[0],
+    messageType: message.messageType,
+    messageControlId: message.messageControlId,
+    receivedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Maps an ADT^A01/A03/A08 message to a Patient, updating `existing` when the patient is already known
+ * @throws Error if the message has no PID or no MRN
+ */
+export function hl7ToPatient(message: HL7Message, existing?: Patient): Patient {
+  const encoding = getEncodingCharacters(message);
+  const pid = findSegment(message, 'PID');
+  const pv1 = findSegment(message, 'PV1');
+  const evn = findSegment(message, 'EVN');
+  if (!pid) {
+    throw new Error(`${message.messageType} ${message.messageControlId} has no PID segment`);
+  }
+
+  const mrn = getMRN(pid, encoding);
+  if (!mrn) {
+    throw new Error(`${message.messageType} ${message.messageControlId} has no patient identifier (PID-3)`);
+  }
+
+  const patient: Patient = existing
+    ? { ...existing }
+    : { id: mrn, name: '', mrn, dateOfBirth: '' };
+
+  const name = formatName(splitComponents(getRepetitions(pid, 5, encoding)[0] || '', encoding));
+  if (name) patient.name = name;
+
+  const dateOfBirth = toISODate(getField(pid, 7));
+  if (dateOfBirth) patient.dateOfBirth = dateOfBirth;
+
+  const gender = GENDER_CODES[getField(pid, 8).toUpperCase()];
+  if (gender) patient.gender = gender;
+
+  // PV1-3 assigned location: point of care^room^bed
+  const room = getComponent(pv1, 3, 2, encoding);
+  if (room) patient.room = room;
+
+  const eventTime = fromHL7Timestamp(getField(evn, 2)) || fromHL7Timestamp(message.messageDateTime);
+  if (message.messageType === 'ADT^A01') {
+    patient.admissionDate = fromHL7Timestamp(getField(pv1, 44)) || eventTime || patient.admissionDate;
+    patient.dischargeDate = undefined;
+  }
+  if (message.messageType === 'ADT^A03') {
+    patient.dischargeDate = fromHL7Timestamp(getField(pv1, 45)) || eventTime;
+  }
+
+  // DG1-4 is deprecated text; DG1-3 carries code^text^system
+  const dg1 = findSegment(message, 'DG1');
+  const diagnosis = getField(dg1, 4)
+    ? getComponent(dg1, 4, 1, encoding)
+    : getComponent(dg1, 3, 2, encoding) || getComponent(dg1, 3, 1, encoding);
+  if (diagnosis) patient.primaryDiagnosis = diagnosis;
+
+  // AL1-3 allergen code^text^system
+  const allergies = message.segments
+    .filter((segment) => segment.segmentType === 'AL1')
+    .map((al1) => getComponent(al1, 3, 2, encoding) || getComponent(al1, 3, 1, encoding))
+    .filter(Boolean);
+  if (allergies.length > 0) patient.allergies = allergies;
+
+  return patient;
+}
+
+/**
+ * Maps an ORU^R01 message to a DocumentationEntry (vital-signs if it carries vitals, else general-note)
+ * @throws Error if the message has no PID or no MRN
+ */
+export function hl7ToDocumentationEntry(message: HL7Message, patient?: Patient): DocumentationEntry {
+  const encoding = getEncodingCharacters(message);
+  const pid = findSegment(message, 'PID');
+  const obr = findSegment(message, 'OBR');
+  const source = toExternalSource(message);
+
+  const mrn = getMRN(pid, encoding);
+  if (!pid || !mrn) {
+    throw new Error(`${message.messageType} ${message.messageControlId} has no patient identifier (PID-3)`);
+  }
+
+  const observations = getObservations(message).filter(
+    (observation) => !IGNORED_RESULT_STATUSES.includes(observation.resultStatus)
+  );
+  const vitalSigns = hl7ToVitalSigns(message);
+
+  // Other results and NTE comments are kept as readable text
+  const lines = observations
+    .filter((observation) => !isVitalSign(observation))
+    .map((observation) =>
+      `${observation.codeText || observation.code}: ${observation.values.join(', ')}${observation.units ? ` ${observation.units}` : ''}`
+    );
+  message.segments
+    .filter((segment) => segment.segmentType === 'NTE')
+    .forEach((nte) => {
+      const comment = getRepetitions(nte, 3, encoding)
+        .map((value) => splitComponents(value, encoding).join(' '))
+        .join('\n');
+      if (comment) lines.push(comment);
+    });
+
+  // OBR-16 ordering provider, else OBX-16 responsible observer (XCN: id^family^given)
+  const obx = findSegment(message, 'OBX');
+  const provider = getField(obr, 16) ? obr : obx;
+  const providerComponents = splitComponents(getRepetitions(provider, 16, encoding)[0] || '', encoding);
+
+  const timestamp =
+    fromHL7Timestamp(getField(obr, 7)) ||
+    observations[0]?.observedAt ||
+    fromHL7Timestamp(message.messageDateTime) ||
+    source.receivedAt;
+
+  const summary = vitalSigns ? 'Vital signs' : getComponent(obr, 4, 2, encoding) || 'Results';
+  const voiceTranscript =
+    lines.join('\n') || `${summary} received from ${source.sendingApplication || 'external system'} (${message.messageType})`;
+
+  return {
+    id: `hl7-${source.sendingApplication || 'unknown'}-${message.messageControlId || Date.now()}`,
+    timestamp,
+    nurseId: providerComponents[0] || source.sendingApplication,
+    nurseName: formatName(providerComponents, 1) || source.sendingApplication || 'External system',
+    patientId: patient?.id || mrn,
+    patientMRN: mrn,
+    patientName: patient?.name || formatName(splitComponents(getRepetitions(pid, 5, encoding)[0] || '', encoding)),
+    workflowType: vitalSigns ? 'vital-signs' : 'general-note',
+    voiceTranscript,
+    structuredData: {
+      ...(vitalSigns ? { vitalSigns } : {}),
+      ...(lines.length > 0 ? { additionalNotes: lines.join('\n') } : {}),
+    },
+    status: 'sent_to_ehr',
+    sentToEHRAt: source.receivedAt,
+    externalSource: source,
+  };
+}
+
+/**
+ * Splits a file or stream into individual messages
+ * (handles MLLP framing, batch FHS/BHS/BTS/FTS envelopes and any line ending)
+ */
+export function splitHL7Messages(text: string): string[] {
+  const segments = text
+    .replace(/[\x0b\x1c]/g, '\r')
+    .split(/\r\n|\n|\r/)
+    .map((line) => line.trim())
+    .filter((line) => line && !/^(FHS|BHS|BTS|FTS)\b/.test(line));
+
+  const messages: string[][] = [];
+  segments.forEach((segment) => {
+    if (segment.startsWith('MSH')) {
+      messages.push([segment]);
+    } else if (messages.length > 0) {
+      messages[messages.length - 1].push(segment);
+    }
+  });
+
+  return messages.map((lines) => lines.join('\r') + '\r');
+}
+
+/**
+ * Parses HL7 text and maps every supported message
+ * @param knownPatients - Existing patients, matched by MRN so ADT updates and ORU results attach to them
+ */
+export function importHL7Messages(text: string, knownPatients: Patient[]): InboundHL7Result {
+  const result: InboundHL7Result = { patients: [], entries: [], errors: [] };
+  const patientsByMRN = new Map(knownPatients.map((patient) => [patient.mrn, patient]));
+
+  splitHL7Messages(text).forEach((raw, index) => {
+    try {
+      const message = parseHL7Message(raw);
+      const encoding = getEncodingCharacters(message);
+      const mrn = getMRN(findSegment(message, 'PID'), encoding);
+
+      if (SUPPORTED_ADT_EVENTS.includes(message.messageType)) {
+        const patient = hl7ToPatient(message, patientsByMRN.get(mrn));
+        patientsByMRN.set(patient.mrn, patient);
+        // Keep only the latest version when one file updates a patient more than once
+        result.patients = [...result.patients.filter((p) => p.mrn !== patient.mrn), patient];
+      } else if (message.messageType === 'ORU^R01') {
+        result.entries.push(hl7ToDocumentationEntry(message, patientsByMRN.get(mrn)));
+      } else {
+        result.errors.push(`Message ${index + 1} (${message.messageControlId}): unsupported type ${message.messageType}`);
+      }
+    } catch (error) {
+      result.errors.push(`Message ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,358 @@
+/**
+ * HL7 v2 message utilities
+ *
+ * Pure parsing/building helpers shared by the browser apps and ehr-server:
+ * - MLLP framing: <VT> message <FS><CR>
+ * - Parsing ER7 ("pipe and hat") text into HL7Message / HL7Segment
+ * - Building and parsing ACK messages (MSA segment)
+ */
+
+import type { HL7Acknowledgment, HL7AcknowledgmentCode, HL7Message, HL7Segment } from '../types';
+
+// ============================================================================
+// MLLP FRAMING
+// ============================================================================
+
+/** Start block (vertical tab, 0x0B) */
+export const MLLP_START_BLOCK = '\x0b';
+
+/** End block (file separator, 0x1C) */
+export const MLLP_END_BLOCK = '\x1c';
+
+/** Carriage return (0x0D) - terminates the frame and separates segments */
+export const MLLP_CARRIAGE_RETURN = '\r';
+
+/**
+ * Normalizes segment separators to CR (exports use CRLF for readability)
+ */
+export function normalizeSegmentSeparators(message: string): string {
+  return message.replace(/\r\n|\n|\r/g, '\r').replace(/\r+$/, '') + '\r';
+}
+
+/**
+ * Wraps a message in an MLLP frame
+ */
+export function frameMLLPMessage(message: string): string {
+  return MLLP_START_BLOCK + normalizeSegmentSeparators(message) + MLLP_END_BLOCK + MLLP_CARRIAGE_RETURN;
+}
+
+/**
+ * Reassembles MLLP frames from a stream of text chunks.
+ * Bytes outside a frame (e.g., stray newlines between frames) are discarded.
+ */
+export class MLLPFrameDecoder {
+  private buffer = '';
+
+  /**
+   * Adds received data and returns any messages completed by it (frames stripped)
+   */
+  push(chunk: string): string[] {
+    this.buffer += chunk;
+    const messages: string[] = [];
+
+    for (;;) {
+      const start = this.buffer.indexOf(MLLP_START_BLOCK);
+      if (start === -1) {
+        this.buffer = '';
+        break;
+      }
+
+      const end = this.buffer.indexOf(MLLP_END_BLOCK + MLLP_CARRIAGE_RETURN, start + 1);
+      if (end === -1) {
+        // Incomplete frame - keep it for the next chunk
+        this.buffer = this.buffer.slice(start);
+        break;
+      }
+
+      messages.push(this.buffer.slice(start + 1, end));
+      this.buffer = this.buffer.slice(end + 2);
+    }
+
+    return messages;
+  }
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Gets a field by its HL7 position (e.g., getField(msh, 9) for MSH-9)
+ * Segment fields are stored so that fields[n - 1] is field n; for MSH, fields[0] is MSH-1 (the field separator).
+ */
+export function getField(segment: HL7Segment | undefined, position: number): string {
+  return segment?.fields[position - 1] ?? '';
+}
+
+/**
+ * Gets the first segment of a type
+ */
+export function findSegment(message: HL7Message, segmentType: string): HL7Segment | undefined {
+  return message.segments.find((segment) => segment.segmentType === segmentType);
+}
+
+/**
+ * Delimiters declared in MSH-1 and MSH-2
+ */
+export interface HL7EncodingCharacters {
+  field: string;
+  component: string;
+  repetition: string;
+  escape: string;
+  subcomponent: string;
+}
+
+export const DEFAULT_ENCODING_CHARACTERS: HL7EncodingCharacters = {
+  field: '|',
+  component: '^',
+  repetition: '~',
+  escape: '\\',
+  subcomponent: '&',
+};
+
+/**
+ * Reads the delimiters a message was encoded with (falls back to the defaults)
+ */
+export function getEncodingCharacters(message: HL7Message): HL7EncodingCharacters {
+  const msh = findSegment(message, 'MSH');
+  const declared = getField(msh, 2);
+  return {
+    field: getField(msh, 1) || DEFAULT_ENCODING_CHARACTERS.field,
+    component: declared.charAt(0) || DEFAULT_ENCODING_CHARACTERS.component,
+    repetition: declared.charAt(1) || DEFAULT_ENCODING_CHARACTERS.repetition,
+    escape: declared.charAt(2) || DEFAULT_ENCODING_CHARACTERS.escape,
+    subcomponent: declared.charAt(3) || DEFAULT_ENCODING_CHARACTERS.subcomponent,
+  };
+}
+
+/**
+ * Unescapes HL7 escape sequences in a field value:
+ * \F\ \S\ \T\ \R\ \E\ (delimiters), \.br\ (line break) and \Xhh\ (hex bytes).
+ * Apply after splitting into components - unescaped delimiters are data, not structure.
+ */
+export function unescapeHL7(text: string, encoding: HL7EncodingCharacters = DEFAULT_ENCODING_CHARACTERS): string {
+  const escape = encoding.escape;
+  if (!text.includes(escape)) return text;
+
+  const pattern = new RegExp(`${escapeRegExp(escape)}([^${escapeRegExp(escape)}]*)${escapeRegExp(escape)}`, 'g');
+  return text.replace(pattern, (sequence, code: string) => {
+    switch (code) {
+      case 'F':
+        return encoding.field;
+      case 'S':
+        return encoding.component;
+      case 'T':
+        return encoding.subcomponent;
+      case 'R':
+        return encoding.repetition;
+      case 'E':
+        return encoding.escape;
+      case '.br':
+        return '\n';
+    }
+    if (/^X([0-9A-Fa-f]{2})+$/.test(code)) {
+      return code
+        .slice(1)
+        .match(/../g)!
+        .map((hex) => String.fromCharCode(parseInt(hex, 16)))
+        .join('');
+    }
+    // Unsupported sequences (formatting, character sets) are left as-is
+    return sequence;
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Splits a field into its repetitions (raw, still escaped)
+ */
+export function getRepetitions(
+  segment: HL7Segment | undefined,
+  position: number,
+  encoding: HL7EncodingCharacters = DEFAULT_ENCODING_CHARACTERS
+): string[] {
+  const value = getField(segment, position);
+  // MSH-2 holds the encoding characters themselves and must not be split
+  if (!value || (segment?.segmentType === 'MSH' && position <= 2)) {
+    return value ? [value] : [];
+  }
+  return value.split(encoding.repetition);
+}
+
+/**
+ * Splits one field repetition into unescaped components (index 0 is component 1)
+ */
+export function splitComponents(
+  value: string,
+  encoding: HL7EncodingCharacters = DEFAULT_ENCODING_CHARACTERS
+): string[] {
+  return value.split(encoding.component).map((component) => unescapeHL7(component, encoding));
+}
+
+/**
+ * Gets one unescaped component of a field (e.g., getComponent(pid, 5, 2) for PID-5.2 given name)
+ */
+export function getComponent(
+  segment: HL7Segment | undefined,
+  position: number,
+  component = 1,
+  encoding: HL7EncodingCharacters = DEFAULT_ENCODING_CHARACTERS,
+  repetition = 0
+): string {
+  const value = getRepetitions(segment, position, encoding)[repetition] || '';
+  return splitComponents(value, encoding)[component - 1] ?? '';
+}
+
+/**
+ * Converts an HL7 DTM/TS value (YYYY[MM[DD[HH[MM[SS[.S+]]]]]][+/-ZZZZ]) to an ISO string
+ * Values without a UTC offset are read as local time. Returns '' for unparsable input.
+ */
+export function fromHL7Timestamp(value: string): string {
+  const match = value
+    .replace(/T/, '')
+    .match(/^(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:\.\d+)?([+-]\d{4})?$/);
+  if (!match) return '';
+
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', offset] = match;
+  const local = `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+  const date = new Date(offset ? `${local}${offset.slice(0, 3)}:${offset.slice(3)}` : local);
+  return Number.isNaN(date.getTime()) ? '' : date.toISOString();
+}
+
+/**
+ * Parses an ER7-encoded HL7 v2 message
+ * @throws Error if the message does not start with a valid MSH segment
+ */
+export function parseHL7Message(rawMessage: string): HL7Message {
+  const lines = rawMessage
+    .split(/\r\n|\n|\r/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  if (lines.length === 0 || !lines[0].startsWith('MSH')) {
+    throw new Error('HL7 message must start with an MSH segment');
+  }
+
+  const fieldSeparator = lines[0].charAt(3);
+  if (!fieldSeparator) {
+    throw new Error('MSH segment is missing the field separator');
+  }
+
+  const segments: HL7Segment[] = lines.map((line) => {
+    const [segmentType, ...fields] = line.split(fieldSeparator);
+    // MSH-1 is the separator itself, so MSH fields are shifted by one
+    return {
+      segmentType,
+      fields: segmentType === 'MSH' ? [fieldSeparator, ...fields] : fields,
+    };
+  });
+
+  const msh = segments[0];
+  const messageControlId = getField(msh, 10);
+  const messageType = getField(msh, 9);
+  if (!messageType) {
+    throw new Error('MSH-9 (message type) is required');
+  }
+
+  return {
+    // ORU^R01^ORU_R01 -> ORU^R01
+    messageType: messageType.split('^').slice(0, 2).join('^'),
+    messageControlId,
+    sendingApplication: getField(msh, 3),
+    sendingFacility: getField(msh, 4),
+    receivingApplication: getField(msh, 5),
+    receivingFacility: getField(msh, 6),
+    messageDateTime: getField(msh, 7),
+    segments,
+    rawMessage,
+  };
+}
+
+// ============================================================================
+// ACKNOWLEDGMENTS
+// ============================================================================
+
+/**
+ * Formats a Date as an HL7 DTM timestamp (YYYYMMDDHHMMSS)
+ */
+export function toHL7Timestamp(date: Date = new Date()): string {
+  return date.toISOString().replace(/[-:T]/g, '').replace(/\.\d{3}Z$/, '');
+}
+
+/**
+ * Builds an ACK for a received message (sender and receiver swapped, MSA-2 echoes the control ID)
+ */
+export function buildACK(message: HL7Message, code: HL7AcknowledgmentCode, textMessage = ''): string {
+  const msh = findSegment(message, 'MSH');
+  const triggerEvent = message.messageType.split('^')[1] || '';
+  const escapedText = textMessage.replace(/[|^~\\&\r\n]/g, ' ');
+
+  const segments = [
+    [
+      'MSH',
+      '^~\\&',
+      message.receivingApplication,
+      message.receivingFacility,
+      message.sendingApplication,
+      message.sendingFacility,
+      toHL7Timestamp(),
+      '',
+      `ACK^${triggerEvent}^ACK`,
+      `ACK${Date.now()}`,
+      getField(msh, 11) || 'P',
+      getField(msh, 12) || '2.5',
+    ].join('|'),
+    ['MSA', code, message.messageControlId, escapedText].join('|'),
+  ];
+
+  if (code !== 'AA' && escapedText) {
+    // ERR-3 error code (HL7 table 0357: 207 = application internal error, 200 = unsupported message type)
+    const errorCode = code === 'AR' ? '200^Unsupported message type^HL70357' : '207^Application internal error^HL70357';
+    segments.push(['ERR', '', '', errorCode, 'E', '', '', '', escapedText].join('|'));
+  }
+
+  return segments.join('\r') + '\r';
+}
+
+/** MSA-1 values, including enhanced-mode commit codes */
+const ACK_CODES: Record<string, HL7AcknowledgmentCode> = {
+  AA: 'AA',
+  AE: 'AE',
+  AR: 'AR',
+  CA: 'AA',
+  CE: 'AE',
+  CR: 'AR',
+};
+
+/**
+ * Parses an ACK message into its acknowledgment code and control ID
+ * Enhanced-mode commit codes (CA/CE/CR) are mapped to AA/AE/AR.
+ * @throws Error if the message has no MSA segment or an unknown code
+ */
+export function parseACK(rawMessage: string): HL7Acknowledgment {
+  const message = parseHL7Message(rawMessage);
+  const msa = findSegment(message, 'MSA');
+  if (!msa) {
+    throw new Error('ACK is missing the MSA segment');
+  }
+
+  const rawCode = getField(msa, 1).toUpperCase();
+  const code = ACK_CODES[rawCode];
+  if (!code) {
+    throw new Error(`Unknown acknowledgment code: ${rawCode || '(empty)'}`);
+  }
+
+  // Prefer the ERR-8 user message when the receiver provides one
+  const errorText = getField(findSegment(message, 'ERR'), 8);
+  const textMessage = unescapeHL7(errorText || getField(msa, 3));
+
+  return {
+    code,
+    messageControlId: getField(msa, 2),
+    textMessage: textMessage || undefined,
+    receivedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * HL7 v2 Transport
+ *
+ * Delivers HL7 v2 messages over MLLP through the ehr-server HTTP relay
+ * (browsers cannot open TCP sockets) and turns the receiver's ACK into an
+ * HL7DeliveryRecord on the entry:
+ *   AA             -> acknowledged
+ *   AR             -> rejected (not resent)
+ *   AE / no ACK    -> queued for resend with exponential backoff, failed after maxAttempts
+ *
+ * The transport is disabled until configureHL7Transport() is given a relayUrl.
+ */
+
+import type { HL7Acknowledgment, HL7DeliveryRecord } from '../types';
+import { parseACK, parseHL7Message } from './hl7Message';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HL7TransportConfig {
+  /** Relay endpoint, e.g., "http://localhost:8080/hl7/mllp" (empty disables the transport) */
+  relayUrl: string;
+
+  /** Attempts before a queued message is marked failed */
+  maxAttempts: number;
+
+  /** Delay before the first resend; doubles for each further attempt */
+  retryDelayMs: number;
+
+  /** Per-request timeout (the relay waits for the MLLP ACK) */
+  timeoutMs: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+let config: HL7TransportConfig = {
+  relayUrl: '',
+  maxAttempts: 5,
+  retryDelayMs: 30000,
+  timeoutMs: 15000,
+};
+
+/**
+ * Sets the relay and retry policy (unspecified options keep their current values)
+ */
+export function configureHL7Transport(options: Partial<HL7TransportConfig>): void {
+  config = { ...config, ...options };
+}
+
+/**
+ * Whether an HL7 relay has been configured
+ */
+export function isHL7TransportEnabled(): boolean {
+  return config.relayUrl !== '';
+}
+
+// ============================================================================
+// TRANSPORT
+// ============================================================================
+
+/**
+ * Sends one message through the relay and parses the ACK
+ * @throws Error if the relay is unreachable, MLLP delivery fails, or the ACK is invalid
+ */
+export async function sendHL7Message(message: string): Promise<HL7Acknowledgment> {
+  if (!isHL7TransportEnabled()) {
+    throw new Error('HL7 transport is not configured');
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+
+  let response: Response;
+  try {
+    response = await fetch(config.relayUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'x-application/hl7-v2+er7' },
+      body: message,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    throw new Error(
+      controller.signal.aborted
+        ? `HL7 relay did not respond within ${config.timeoutMs}ms`
+        : `HL7 relay unreachable: ${error instanceof Error ? error.message : String(error)}`
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const body = await response.text();
+  if (!response.ok) {
+    throw new Error(body || `HL7 relay returned ${response.status}`);
+  }
+
+  return parseACK(body);
+}
+
+/**
+ * Creates a queued delivery record for a message that has not been sent yet
+ */
+export function createHL7DeliveryRecord(message: string): HL7DeliveryRecord {
+  const parsed = parseHL7Message(message);
+  return {
+    status: 'queued',
+    messageType: parsed.messageType,
+    messageControlId: parsed.messageControlId,
+    rawMessage: message,
+    attempts: 0,
+  };
+}
+
+/**
+ * Whether a queued record is due for (re)sending
+ */
+export function isDueForResend(record: HL7DeliveryRecord, now: number = Date.now()): boolean {
+  return record.status === 'queued' && (!record.nextAttemptAt || Date.parse(record.nextAttemptAt) <= now);
+}
+
+/**
+ * Makes one delivery attempt and returns the updated record (never throws)
+ */
+export async function attemptHL7Delivery(record: HL7DeliveryRecord): Promise<HL7DeliveryRecord> {
+  const attempts = record.attempts + 1;
+  const now = new Date();
+
+  const retryOrFail = (update: Partial<HL7DeliveryRecord>): HL7DeliveryRecord => {
+    if (attempts >= config.maxAttempts) {
+      return { ...record, ...update, attempts, lastAttemptAt: now.toISOString(), status: 'failed', nextAttemptAt: undefined };
+    }
+    const wait = config.retryDelayMs * 2 ** (attempts - 1);
+    return {
+      ...record,
+      ...update,
+      attempts,
+      lastAttemptAt: now.toISOString(),
+      status: 'queued',
+      nextAttemptAt: new Date(now.getTime() + wait).toISOString(),
+    };
+  };
+
+  let acknowledgment: HL7Acknowledgment;
+  try {
+    acknowledgment = await sendHL7Message(record.rawMessage);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`⚠️ HL7 ${record.messageControlId} attempt ${attempts} failed: ${message}`);
+    return retryOrFail({ error: message });
+  }
+
+  if (acknowledgment.messageControlId !== record.messageControlId) {
+    return retryOrFail({
+      acknowledgment,
+      error: `ACK is for ${acknowledgment.messageControlId || 'an unknown message'}, expected ${record.messageControlId}`,
+    });
+  }
+
+  if (acknowledgment.code === 'AE') {
+    return retryOrFail({ acknowledgment, error: undefined });
+  }
+
+  return {
+    ...record,
+    attempts,
+    lastAttemptAt: now.toISOString(),
+    status: acknowledgment.code === 'AA' ? 'acknowledged' : 'rejected',
+    nextAttemptAt: undefined,
+    acknowledgment,
+    error: undefined,
+  };
+}
@@ -0,0 +1,224 @@
+/**
+ * IndexedDB Storage Backend
+ *
+ * Stores one record per DocumentationEntry, so writes touch a single entry
+ * instead of re-serializing the whole history. Indexes on patientId,
+ * workflowType and timestamp let patient/workflow queries and newest-first
+ * listing avoid scanning every entry.
+ *
+ * On first open, entries from the legacy localStorage key are copied into
+ * the object store and the key is removed (one-time migration).
+ */
+
+import type { DocumentationEntry } from '../types';
+import { type StorageBackend, sortNewestFirst } from './storageBackend';
+import { LOCAL_STORAGE_KEY, readLocalStorageEntries } from './localStorageBackend';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DB_NAME = 'voize';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+
+const INDEX_PATIENT = 'patientId';
+const INDEX_WORKFLOW = 'workflowType';
+const INDEX_TIMESTAMP = 'timestamp';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Wraps an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves when a transaction commits, rejects if it fails or aborts
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+/**
+ * Creates the object store and indexes (schema migrations go here as DB_VERSION grows)
+ */
+function upgradeSchema(db: IDBDatabase, oldVersion: number): void {
+  if (oldVersion < 1) {
+    const store = db.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+    store.createIndex(INDEX_PATIENT, 'patientId', { unique: false });
+    store.createIndex(INDEX_WORKFLOW, 'workflowType', { unique: false });
+    store.createIndex(INDEX_TIMESTAMP, 'timestamp', { unique: false });
+  }
+}
+
+// ============================================================================
+// BACKEND
+// ============================================================================
+
+export class IndexedDBStorageBackend implements StorageBackend {
+  readonly name = 'IndexedDB';
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Whether IndexedDB exists in this environment
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async init(): Promise<void> {
+    await this.getDB();
+  }
+
+  private getDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.openDB().catch((error) => {
+        // Allow a later call to retry opening
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async openDB(): Promise<IDBDatabase> {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      upgradeSchema(request.result, event.oldVersion);
+    };
+
+    const db = await requestToPromise(request);
+
+    // Another tab upgraded the schema - close so its upgrade isn't blocked
+    db.onversionchange = () => {
+      db.close();
+      this.dbPromise = null;
+    };
+
+    await this.migrateFromLocalStorage(db);
+    return db;
+  }
+
+  /**
+   * One-time copy of the legacy localStorage array into IndexedDB.
+   * The key is only removed after the copy commits, so a failed migration is retried on next open.
+   */
+  private async migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    if (typeof localStorage === 'undefined' || localStorage.getItem(LOCAL_STORAGE_KEY) === null) {
+      return;
+    }
+
+    let legacyEntries: DocumentationEntry[];
+    try {
+      legacyEntries = readLocalStorageEntries();
+    } catch (error) {
+      console.error('Legacy localStorage entries are unreadable, skipping migration:', error);
+      return;
+    }
+
+    const transaction = db.transaction(ENTRY_STORE, 'readwrite');
+    const store = transaction.objectStore(ENTRY_STORE);
+    legacyEntries.forEach((entry) => {
+      // Don't overwrite entries already written to IndexedDB
+      store.add(entry).onerror = (event) => {
+        // ConstraintError on duplicate id - keep the transaction alive
+        event.preventDefault();
+        event.stopPropagation();
+      };
+    });
+    await transactionDone(transaction);
+
+    localStorage.removeItem(LOCAL_STORAGE_KEY);
+    console.log(`Migrated ${legacyEntries.length} entries from localStorage to IndexedDB`);
+  }
+
+  async getAll(): Promise<DocumentationEntry[]> {
+    const db = await this.getDB();
+    const index = db.transaction(ENTRY_STORE, 'readonly').objectStore(ENTRY_STORE).index(INDEX_TIMESTAMP);
+    const entries: DocumentationEntry[] = [];
+
+    // Walk the timestamp index backwards for newest-first order
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openCursor(null, 'prev');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          entries.push(cursor.value as DocumentationEntry);
+          cursor.continue();
+        } else {
+          resolve();
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    return entries;
+  }
+
+  async getById(id: string): Promise<DocumentationEntry | null> {
+    const db = await this.getDB();
+    const store = db.transaction(ENTRY_STORE, 'readonly').objectStore(ENTRY_STORE);
+    const entry = await requestToPromise(store.get(id));
+    return (entry as DocumentationEntry | undefined) || null;
+  }
+
+  async getByPatient(patientId: string): Promise<DocumentationEntry[]> {
+    return this.getByIndex(INDEX_PATIENT, patientId);
+  }
+
+  async getByWorkflow(workflowType: string): Promise<DocumentationEntry[]> {
+    return this.getByIndex(INDEX_WORKFLOW, workflowType);
+  }
+
+  private async getByIndex(indexName: string, value: string): Promise<DocumentationEntry[]> {
+    const db = await this.getDB();
+    const index = db.transaction(ENTRY_STORE, 'readonly').objectStore(ENTRY_STORE).index(indexName);
+    const entries = await requestToPromise(index.getAll(IDBKeyRange.only(value)));
+    return sortNewestFirst(entries as DocumentationEntry[]);
+  }
+
+  async put(entry: DocumentationEntry): Promise<void> {
+    await this.putMany([entry]);
+  }
+
+  async putMany(entries: DocumentationEntry[]): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction(ENTRY_STORE, 'readwrite');
+    const store = transaction.objectStore(ENTRY_STORE);
+    entries.forEach((entry) => store.put(entry));
+    await transactionDone(transaction);
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction(ENTRY_STORE, 'readwrite');
+    transaction.objectStore(ENTRY_STORE).delete(id);
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction(ENTRY_STORE, 'readwrite');
+    transaction.objectStore(ENTRY_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  async count(): Promise<number> {
+    const db = await this.getDB();
+    const store = db.transaction(ENTRY_STORE, 'readonly').objectStore(ENTRY_STORE);
+    return requestToPromise(store.count());
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * localStorage Storage Backend
+ *
+ * Stores every entry as one JSON array under a single key. Each write
+ * re-serializes the whole array, so the list is capped at MAX_ENTRIES.
+ * Used when IndexedDB is unavailable, and as the migration source for
+ * IndexedDBStorageBackend.
+ */
+
+import type { DocumentationEntry } from '../types';
+import { type StorageBackend, sortNewestFirst } from './storageBackend';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const LOCAL_STORAGE_KEY = 'voize_entries';
+const MAX_ENTRIES = 50; // Keep last 50 entries
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Reads the raw entry array from localStorage (unsorted)
+ * Throws if the stored JSON cannot be parsed
+ */
+export function readLocalStorageEntries(): DocumentationEntry[] {
+  const data = localStorage.getItem(LOCAL_STORAGE_KEY);
+  return data ? (JSON.parse(data) as DocumentationEntry[]) : [];
+}
+
+function writeLocalStorageEntries(entries: DocumentationEntry[]): void {
+  const limitedEntries = sortNewestFirst(entries).slice(0, MAX_ENTRIES);
+  localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(limitedEntries));
+}
+
+// ============================================================================
+// BACKEND
+// ============================================================================
+
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = 'localStorage';
+
+  async init(): Promise<void> {
+    // Nothing to open
+  }
+
+  async getAll(): Promise<DocumentationEntry[]> {
+    return sortNewestFirst(readLocalStorageEntries());
+  }
+
+  async getById(id: string): Promise<DocumentationEntry | null> {
+    return readLocalStorageEntries().find(e => e.id === id) || null;
+  }
+
+  async getByPatient(patientId: string): Promise<DocumentationEntry[]> {
+    return sortNewestFirst(readLocalStorageEntries().filter(e => e.patientId === patientId));
+  }
+
+  async getByWorkflow(workflowType: string): Promise<DocumentationEntry[]> {
+    return sortNewestFirst(readLocalStorageEntries().filter(e => e.workflowType === workflowType));
+  }
+
+  async put(entry: DocumentationEntry): Promise<void> {
+    await this.putMany([entry]);
+  }
+
+  async putMany(entries: DocumentationEntry[]): Promise<void> {
+    const ids = new Set(entries.map(e => e.id));
+    const existing = readLocalStorageEntries().filter(e => !ids.has(e.id));
+    writeLocalStorageEntries([...entries, ...existing]);
+  }
+
+  async delete(id: string): Promise<void> {
+    writeLocalStorageEntries(readLocalStorageEntries().filter(e => e.id !== id));
+  }
+
+  async clear(): Promise<void> {
+    localStorage.removeItem(LOCAL_STORAGE_KEY);
+  }
+
+  async count(): Promise<number> {
+    return readLocalStorageEntries().length;
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Medication Safety
+ *
+ * Rules run on a medication administration before it is saved. Each rule compares the
+ * documented medications with the formulary, the patient's allergies and what was
+ * already given:
+ * - allergy: the drug, or a drug class it belongs to, is a documented allergy
+ * - dose-range: the dose is outside the formulary's usual single dose
+ * - route: the formulary doesn't list the route for the drug
+ * - duplicate: the same drug was given within its dosing interval
+ *
+ * Medications that don't match a formulary drug are not checked.
+ */
+
+import type {
+  DocumentationEntry,
+  FormularyDrug,
+  Medication,
+  MedicationSafetyWarning,
+  Patient,
+} from '../types';
+import { resolveFormularyDrug } from './formulary';
+import { getAdministeredMedications } from './exportFormats';
+
+export interface MedicationSafetyContext {
+  /** Patient the medications were given to (allergies are read from here) */
+  patient?: Patient | null;
+
+  /** Entries already documented for the patient */
+  priorEntries: DocumentationEntry[];
+
+  /** Time to check against for medications without a usable time (defaults to now) */
+  now?: Date;
+}
+
+/**
+ * Allergy names that stand for a drug class rather than a single drug
+ */
+const ALLERGY_CLASSES: Record<string, string[]> = {
+  penicillin: ['penicillin'],
+  penicillins: ['penicillin'],
+  pcn: ['penicillin'],
+  cephalosporin: ['cephalosporin'],
+  cephalosporins: ['cephalosporin'],
+  sulfa: ['sulfonamide antibiotic'],
+  'sulfa drugs': ['sulfonamide antibiotic'],
+  sulfonamide: ['sulfonamide antibiotic'],
+  sulfonamides: ['sulfonamide antibiotic'],
+  nsaid: ['nsaid'],
+  nsaids: ['nsaid'],
+  opioid: ['opioid'],
+  opioids: ['opioid'],
+  opiate: ['opioid'],
+  opiates: ['opioid'],
+  codeine: ['opioid'],
+  'ace inhibitor': ['ace inhibitor'],
+  'ace inhibitors': ['ace inhibitor'],
+  benzodiazepine: ['benzodiazepine'],
+  benzodiazepines: ['benzodiazepine'],
+};
+
+/**
+ * Classes that cross-react with an allergy class often enough to warn
+ */
+const CROSS_SENSITIVITY: Record<string, string[]> = {
+  penicillin: ['cephalosporin'],
+  'sulfonamide antibiotic': ['sulfonamide non-antibiotic'],
+};
+
+/**
+ * Conversion to mg for mass units, so "1g" can be compared with a range in mg
+ */
+const MG_PER_UNIT: Record<string, number> = { mcg: 0.001, mg: 1, g: 1000 };
+
+/**
+ * Hours between doses for a documented frequency
+ */
+const FREQUENCY_HOURS: Record<string, number> = {
+  QD: 24,
+  DAILY: 24,
+  BID: 12,
+  TID: 8,
+  QID: 6,
+};
+
+/**
+ * Allergies from the patient record and from admission entries
+ */
+function collectAllergies(context: MedicationSafetyContext): string[] {
+  const documented = context.priorEntries.flatMap((entry) => entry.structuredData.admissionData?.allergies || []);
+  const allergies = [...(context.patient?.allergies || []), ...documented];
+  return [...new Set(allergies.map((allergy) => allergy.trim()).filter(Boolean))];
+}
+
+function checkAllergies(med: Medication, drug: FormularyDrug, allergies: string[]): MedicationSafetyWarning[] {
+  return allergies.flatMap((allergy): MedicationSafetyWarning[] => {
+    const normalized = allergy.toLowerCase();
+    const allergyDrug = ALLERGY_CLASSES[normalized] ? undefined : resolveFormularyDrug(allergy).match?.drug;
+    const allergyClasses = ALLERGY_CLASSES[normalized] || allergyDrug?.drugClasses || [];
+
+    if (allergyDrug === drug) {
+      return [{ rule: 'allergy', severity: 'high', medication: med.name, message: `Patient is allergic to ${allergy}` }];
+    }
+
+    const sharedClass = drug.drugClasses.find((drugClass) => allergyClasses.includes(drugClass));
+    if (sharedClass) {
+      return [
+        {
+          rule: 'allergy',
+          severity: 'high',
+          medication: med.name,
+          message: `${drug.genericName} is a ${sharedClass}; patient has a ${allergy} allergy`,
+        },
+      ];
+    }
+
+    const crossClass = drug.drugClasses.find((drugClass) =>
+      allergyClasses.some((allergyClass) => CROSS_SENSITIVITY[allergyClass]?.includes(drugClass))
+    );
+    if (crossClass) {
+      return [
+        {
+          rule: 'allergy',
+          severity: 'moderate',
+          medication: med.name,
+          message: `${drug.genericName} (${crossClass}) may cross-react with the patient's ${allergy} allergy`,
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+function checkDoseRange(med: Medication, drug: FormularyDrug): MedicationSafetyWarning[] {
+  const range = drug.doseRange;
+  const match = med.dose.trim().match(/^([\d.]+)\s*([a-z]+)/i);
+  if (!range || !match) return [];
+
+  let amount = parseFloat(match[1]);
+  const unit = match[2].toLowerCase();
+  const rangeUnit = range.unit.toLowerCase();
+  if (unit !== rangeUnit) {
+    // Only mass units convert; "2 tabs" can't be compared with a range in mg
+    if (!(unit in MG_PER_UNIT) || !(rangeUnit in MG_PER_UNIT)) return [];
+    amount = (amount * MG_PER_UNIT[unit]) / MG_PER_UNIT[rangeUnit];
+  }
+
+  const usual = `${range.min}-${range.max} ${range.unit}`;
+  if (amount > range.max) {
+    return [
+      {
+        rule: 'dose-range',
+        severity: 'high',
+        medication: med.name,
+        message: `${med.dose} ${drug.genericName} is above the usual maximum single dose (${usual})`,
+      },
+    ];
+  }
+  if (amount < range.min) {
+    return [
+      {
+        rule: 'dose-range',
+        severity: 'moderate',
+        medication: med.name,
+        message: `${med.dose} ${drug.genericName} is below the usual dose (${usual})`,
+      },
+    ];
+  }
+  return [];
+}
+
+function checkRoute(med: Medication, drug: FormularyDrug): MedicationSafetyWarning[] {
+  if (!med.route || drug.routes.includes(med.route)) return [];
+  return [
+    {
+      rule: 'route',
+      severity: 'high',
+      medication: med.name,
+      message: `${drug.genericName} is not given ${med.route} (formulary routes: ${drug.routes.join(', ')})`,
+    },
+  ];
+}
+
+/**
+ * Time a medication was given; bare "HH:MM" and unparseable times fall back to `fallback`
+ */
+function administeredAt(med: Medication, fallback: Date): Date {
+  const time = Date.parse(med.timeAdministered);
+  return Number.isNaN(time) ? fallback : new Date(time);
+}
+
+/**
+ * Hours that must pass between doses: from the documented frequency ("Q6H", "BID"), else the formulary
+ */
+function dosingIntervalHours(med: Medication, drug: FormularyDrug): number | undefined {
+  const frequency = med.frequency?.toUpperCase().replace(/\s/g, '');
+  const everyHours = frequency?.match(/^Q(\d{1,2})H$/);
+  if (everyHours) return parseInt(everyHours[1], 10);
+  return (frequency && FREQUENCY_HOURS[frequency]) || drug.minIntervalHours;
+}
+
+function checkDuplicate(
+  med: Medication,
+  drug: FormularyDrug,
+  givenAt: Date,
+  previousDoses: Array<{ drug: FormularyDrug; givenAt: Date }>
+): MedicationSafetyWarning[] {
+  const interval = dosingIntervalHours(med, drug);
+  if (!interval) return [];
+
+  // Signed hours from the closest other dose (negative: that dose was earlier)
+  const closest = previousDoses
+    .filter((dose) => dose.drug === drug)
+    .map((dose) => (dose.givenAt.getTime() - givenAt.getTime()) / 3_600_000)
+    .filter((hours) => Math.abs(hours) < interval)
+    .sort((a, b) => Math.abs(a) - Math.abs(b))[0];
+  if (closest === undefined) return [];
+
+  const when =
+    Math.abs(closest) < 0.1
+      ? 'at the same time'
+      : `${Math.abs(closest).toFixed(1)} h ${closest < 0 ? 'earlier' : 'later'}`;
+  return [
+    {
+      rule: 'duplicate',
+      severity: 'high',
+      medication: med.name,
+      message: `${drug.genericName} was also given ${when}; dosing interval is ${interval} h`,
+    },
+  ];
+}
+
+/**
+ * Run the medication safety rules on medications about to be documented
+ * Medications earlier in the list count as given for the duplicate check of later ones
+ */
+export function checkMedicationSafety(
+  medications: Medication[],
+  context: MedicationSafetyContext
+): MedicationSafetyWarning[] {
+  const now = context.now || new Date();
+  const allergies = collectAllergies(context);
+
+  const previousDoses = context.priorEntries
+    .filter((entry) => entry.workflowType === 'medication-administration' && entry.status !== 'draft')
+    .flatMap((entry) =>
+      getAdministeredMedications(entry).map((med) => ({
+        drug: resolveFormularyDrug(med.name).match?.drug,
+        givenAt: administeredAt(med, new Date(entry.timestamp)),
+      }))
+    )
+    .filter((dose): dose is { drug: FormularyDrug; givenAt: Date } => !!dose.drug);
+
+  return medications.flatMap((med) => {
+    const drug = resolveFormularyDrug(med.name).match?.drug;
+    if (!drug) return [];
+
+    const givenAt = administeredAt(med, now);
+    const warnings = [
+      ...checkAllergies(med, drug, allergies),
+      ...checkDoseRange(med, drug),
+      ...checkRoute(med, drug),
+      ...checkDuplicate(med, drug, givenAt, previousDoses),
+    ];
+    previousDoses.push({ drug, givenAt });
+    return warnings;
+  });
+}
+
+/**
+ * Text stored in DocumentationEntry.flags for a warning
+ */
+export function formatSafetyFlag(warning: MedicationSafetyWarning): string {
+  return `[${warning.severity === 'high' ? 'HIGH' : 'MODERATE'}] ${warning.message}`;
+}
@@ -0,0 +1,195 @@
+/**
+ * Electronic Signatures
+ *
+ * A nurse signs an entry by re-entering their PIN and attesting to its content. The
+ * signature stores a SHA-256 hash of the signed content (transcript, structured data and
+ * the entry's identifying fields), so any later change to the content is detectable.
+ *
+ * Entries documented by an LPN, LVN or CNA also need a co-signature from an RN (or NP/CNS)
+ * before they can be sent to the EHR. Changing signed content is an amendment and must be
+ * signed again.
+ *
+ * PINs are never stored: setSigningPins() is given SHA-256 hashes from hashSigningPin().
+ */
+
+import type { DocumentationEntry, EntrySignature, Nurse } from '../types';
+import type { StorageResult } from './storageService';
+
+export const SIGNATURE_ATTESTATION =
+  'I attest that this documentation is accurate and complete to the best of my knowledge.';
+
+export const CO_SIGNATURE_ATTESTATION =
+  'I have reviewed this documentation and co-sign it as the responsible registered nurse.';
+
+/**
+ * Roles whose entries need a co-signature, and the roles that can give one
+ */
+const ROLES_REQUIRING_CO_SIGNATURE: Array<Nurse['role']> = ['LPN', 'LVN', 'CNA'];
+const CO_SIGNER_ROLES: Array<Nurse['role']> = ['RN', 'NP', 'CNS'];
+
+// PIN hash per nurse id
+let pinHashes: Record<string, string> = {};
+
+/**
+ * Sets the PIN hashes signatures are checked against (replacing any set before)
+ */
+export function setSigningPins(hashes: Record<string, string>): void {
+  pinHashes = { ...hashes };
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hash stored for a nurse's PIN (salted with the nurse id, so equal PINs hash differently)
+ */
+export function hashSigningPin(nurseId: string, pin: string): Promise<string> {
+  return sha256Hex(`${nurseId}:${pin}`);
+}
+
+/**
+ * Whether the PIN is the nurse's signing PIN
+ */
+export async function verifySigningPin(nurseId: string, pin: string): Promise<boolean> {
+  const expected = pinHashes[nurseId];
+  return !!expected && pin.length > 0 && (await hashSigningPin(nurseId, pin)) === expected;
+}
+
+export function requiresCoSignature(nurse: Pick<Nurse, 'role'>): boolean {
+  return ROLES_REQUIRING_CO_SIGNATURE.includes(nurse.role);
+}
+
+export function canCoSign(nurse: Pick<Nurse, 'role'>): boolean {
+  return CO_SIGNER_ROLES.includes(nurse.role);
+}
+
+/**
+ * JSON with object keys sorted, so equal content always hashes the same
+ */
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalJSON(item))).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJSON(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Hash of the content a signature covers
+ */
+export function hashEntryContent(entry: DocumentationEntry): Promise<string> {
+  return sha256Hex(
+    canonicalJSON({
+      id: entry.id,
+      patientId: entry.patientId,
+      nurseId: entry.nurseId,
+      timestamp: entry.timestamp,
+      workflowType: entry.workflowType,
+      voiceTranscript: entry.voiceTranscript,
+      structuredData: entry.structuredData,
+    })
+  );
+}
+
+/**
+ * Whether the entry's signatures still match its content
+ */
+export async function isSignatureValid(entry: DocumentationEntry): Promise<boolean> {
+  if (!entry.signature) return false;
+  const contentHash = await hashEntryContent(entry);
+  return (
+    entry.signature.contentHash === contentHash &&
+    (!entry.coSignature || entry.coSignature.contentHash === contentHash)
+  );
+}
+
+/**
+ * Whether the entry still needs an RN co-signature
+ */
+export function isAwaitingCoSignature(entry: DocumentationEntry): boolean {
+  return !!entry.coSignatureRequired && !entry.coSignature;
+}
+
+const signatureError = (message: string): StorageResult<DocumentationEntry> => ({
+  success: false,
+  error: { code: 'VALIDATION_ERROR', message },
+});
+
+async function createSignature(
+  entry: DocumentationEntry,
+  signer: Nurse,
+  attestation: string
+): Promise<EntrySignature> {
+  return {
+    signerId: signer.id,
+    signerName: signer.name,
+    signerRole: signer.role,
+    signerCredentials: signer.credentials,
+    signedAt: new Date().toISOString(),
+    contentHash: await hashEntryContent(entry),
+    attestation,
+  };
+}
+
+/**
+ * Signs the entry's current content as `signer` (replacing any earlier signatures)
+ */
+export async function signEntry(
+  entry: DocumentationEntry,
+  signer: Nurse,
+  pin: string
+): Promise<StorageResult<DocumentationEntry>> {
+  if (!(await verifySigningPin(signer.id, pin))) {
+    return signatureError('Incorrect PIN');
+  }
+
+  const signature = await createSignature(entry, signer, SIGNATURE_ATTESTATION);
+  return {
+    success: true,
+    data: {
+      ...entry,
+      signed: true,
+      signedAt: signature.signedAt,
+      signature,
+      coSignatureRequired: requiresCoSignature(signer),
+      coSignature: undefined,
+    },
+  };
+}
+
+/**
+ * Adds an RN co-signature to a signed entry
+ */
+export async function coSignEntry(
+  entry: DocumentationEntry,
+  coSigner: Nurse,
+  pin: string
+): Promise<StorageResult<DocumentationEntry>> {
+  if (!entry.signature) {
+    return signatureError('The entry must be signed by its author before it can be co-signed');
+  }
+  if (!canCoSign(coSigner)) {
+    return signatureError(`${coSigner.name} (${coSigner.role || 'no role'}) cannot co-sign; an RN is required`);
+  }
+  if (coSigner.id === entry.signature.signerId) {
+    return signatureError('The co-signer must be a different nurse from the author');
+  }
+  if (!(await isSignatureValid(entry))) {
+    return signatureError('The entry changed after it was signed; it must be signed again');
+  }
+  if (!(await verifySigningPin(coSigner.id, pin))) {
+    return signatureError('Incorrect PIN');
+  }
+
+  return {
+    success: true,
+    data: { ...entry, coSignature: await createSignature(entry, coSigner, CO_SIGNATURE_ATTESTATION) },
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Storage Backend Interface
+ *
+ * Pluggable persistence layer used by storageService. Backends store one
+ * DocumentationEntry per record and throw on failure; storageService wraps
+ * results and errors into StorageResult objects.
+ *
+ * Implementations:
+ * - IndexedDBStorageBackend: per-entry writes with patient/workflow/timestamp indexes
+ * - LocalStorageBackend: legacy single-key JSON array (fallback when IndexedDB is unavailable)
+ */
+
+import type { DocumentationEntry } from '../types';
+
+export interface StorageBackend {
+  /** Backend name for logging and diagnostics */
+  readonly name: string;
+
+  /** Opens the underlying store (and runs migrations). Safe to call more than once. */
+  init(): Promise<void>;
+
+  /** All entries, newest first */
+  getAll(): Promise<DocumentationEntry[]>;
+
+  getById(id: string): Promise<DocumentationEntry | null>;
+
+  /** Entries for one patient, newest first */
+  getByPatient(patientId: string): Promise<DocumentationEntry[]>;
+
+  /** Entries for one workflow type, newest first */
+  getByWorkflow(workflowType: string): Promise<DocumentationEntry[]>;
+
+  /** Inserts or replaces a single entry */
+  put(entry: DocumentationEntry): Promise<void>;
+
+  /** Inserts or replaces several entries in one write */
+  putMany(entries: DocumentationEntry[]): Promise<void>;
+
+  delete(id: string): Promise<void>;
+
+  clear(): Promise<void>;
+
+  count(): Promise<number>;
+}
+
+/**
+ * Sorts entries newest first (shared by backends that cannot sort natively)
+ */
+export function sortNewestFirst(entries: DocumentationEntry[]): DocumentationEntry[] {
+  return entries.sort((a, b) =>
+    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+}
@@ -2,30 +2,43 @@
  * Storage Service for Cross-Window Communication
  *
  * This service provides a clean API for communication between the Nurse App
- * and EHR Dashboard using localStorage and storage events.
+ * and EHR Dashboard. Entries are persisted through a pluggable StorageBackend
+ * (IndexedDB by default, localStorage as fallback) and announced to other
+ * windows via BroadcastChannel and storage events.
  *
  * Key Features:
  * - Event-based updates for real-time synchronization
  * - Data validation and error handling
- * - Automatic cleanup of old entries
+ * - Per-entry writes and indexed patient/workflow queries (IndexedDB)
  * - Type-safe operations
+ * - Optional FHIR transport: entries sent to the EHR are POSTed to a FHIR server when configured
+ * - Optional HL7 v2 transport: entries sent to the EHR are delivered over MLLP, with a resend queue
+ * - Version history: content changes are recorded as versions; changes after sending are amendments
+ * - Electronic signatures: only signed (and, where required, co-signed) entries are sent to the EHR
  */
 
 import type { DocumentationEntry } from '../types';
-
-// ============================================================================
-// CONSTANTS
-// ============================================================================
-
-const STORAGE_KEY = 'voize_entries';
-const MAX_ENTRIES = 50; // Keep last 50 entries
+import type { StorageBackend } from './storageBackend';
+import { IndexedDBStorageBackend } from './indexedDBBackend';
+import { LocalStorageBackend, LOCAL_STORAGE_KEY } from './localStorageBackend';
+import { buildFHIRBundle, toHL7Format } from './exportFormats';
+import { recordVersion, type EntryAmendment } from './entryVersioning';
+import { withEarlyWarningScores } from './earlyWarningScores';
+import { isAwaitingCoSignature, isSignatureValid } from './signatures';
+import { isFHIRTransportEnabled, postTransactionBundle } from './fhirTransport';
+import {
+  attemptHL7Delivery,
+  createHL7DeliveryRecord,
+  isDueForResend,
+  isHL7TransportEnabled
+} from './hl7Transport';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
 export interface StorageError {
-  code: 'QUOTA_EXCEEDED' | 'VALIDATION_ERROR' | 'PARSE_ERROR' | 'UNKNOWN';
+  code: 'QUOTA_EXCEEDED' | 'VALIDATION_ERROR' | 'PARSE_ERROR' | 'TRANSPORT_ERROR' | 'UNKNOWN';
   message: string;
   originalError?: unknown;
 }
@@ -100,128 +113,231 @@ export function validateEntry(entry: DocumentationEntry): StorageResult<Document
   };
 }
 
-// ============================================================================
-// STORAGE OPERATIONS
-// ============================================================================
-
 /**
- * Gets all entries from localStorage
- * @returns Array of DocumentationEntry objects
+ * Checks an entry's signatures against the stored entry it replaces (if any). Signatures
+ * must match the content, signed content can only be replaced by re-signed content, and
+ * entries must be signed (and co-signed when required) before they are first sent to the
+ * EHR. Entries received from other systems are signed there and aren't checked.
  */
-export function getAllEntries(): StorageResult<DocumentationEntry[]> {
-  try {
-    const data = localStorage.getItem(STORAGE_KEY);
-
-    if (!data) {
-      return {
-        success: true,
-        data: []
-      };
-    }
-
-    const entries = JSON.parse(data) as DocumentationEntry[];
-
-    // Sort by timestamp (newest first)
-    const sorted = entries.sort((a, b) =>
-      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-    );
-
+export async function validateSignatures(
+  entry: DocumentationEntry,
+  previous?: DocumentationEntry | null
+): Promise<StorageResult<DocumentationEntry>> {
+  if (entry.externalSource) {
     return {
       success: true,
-      data: sorted
+      data: entry
     };
-  } catch (error) {
+  }
+
+  if (entry.signature && !(await isSignatureValid(entry))) {
     return {
       success: false,
       error: {
-        code: 'PARSE_ERROR',
-        message: 'Failed to parse entries from localStorage',
-        originalError: error
+        code: 'VALIDATION_ERROR',
+        message: `Entry ${entry.id} changed after it was signed; the change must be signed as an amendment`
+      }
+    };
+  }
+
+  if (!entry.signature && previous?.signature) {
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: `Entry ${entry.id} was signed; changes must be signed again`
       }
     };
   }
+
+  if (entry.status === 'sent_to_ehr' && previous?.status !== 'sent_to_ehr') {
+    if (!entry.signature) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Entry ${entry.id} must be signed before it is sent to the EHR`
+        }
+      };
+    }
+
+    if (isAwaitingCoSignature(entry)) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Entry ${entry.id} needs an RN co-signature before it is sent to the EHR`
+        }
+      };
+    }
+  }
+
+  return {
+    success: true,
+    data: entry
+  };
 }
 
+// ============================================================================
+// STORAGE BACKEND
+// ============================================================================
+
+let backend: StorageBackend | null = null;
+
 /**
- * Gets a single entry by ID
+ * Gets the active storage backend, choosing IndexedDB when available
  */
-export function getEntryById(id: string): StorageResult<DocumentationEntry | null> {
-  const result = getAllEntries();
+export function getStorageBackend(): StorageBackend {
+  if (!backend) {
+    backend = IndexedDBStorageBackend.isSupported()
+      ? new IndexedDBStorageBackend()
+      : new LocalStorageBackend();
+  }
+  return backend;
+}
 
-  if (!result.success || !result.data) {
+/**
+ * Replaces the storage backend (e.g., LocalStorageBackend for environments without IndexedDB)
+ */
+export function setStorageBackend(newBackend: StorageBackend): void {
+  backend = newBackend;
+}
+
+/**
+ * Converts an error thrown by a backend into a StorageError
+ */
+function toStorageError(error: unknown, message: string): StorageError {
+  // Check if it's a quota exceeded error
+  if (error instanceof DOMException && (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED'
+  )) {
     return {
-      success: false,
-      error: result.error
+      code: 'QUOTA_EXCEEDED',
+      message: `${getStorageBackend().name} quota exceeded. Try clearing old data.`,
+      originalError: error
     };
   }
 
-  const entry = result.data.find(e => e.id === id);
+  if (error instanceof SyntaxError) {
+    return {
+      code: 'PARSE_ERROR',
+      message,
+      originalError: error
+    };
+  }
 
   return {
-    success: true,
-    data: entry || null
+    code: 'UNKNOWN',
+    message,
+    originalError: error
   };
 }
 
 /**
- * Stores all entries to localStorage with automatic cleanup
+ * Runs a backend operation and wraps the outcome in a StorageResult
  */
-function storeEntries(entries: DocumentationEntry[]): StorageResult<void> {
+async function runBackend<T>(
+  operation: (storage: StorageBackend) => Promise<T>,
+  errorMessage: string
+): Promise<StorageResult<T>> {
   try {
-    // Keep only the last MAX_ENTRIES
-    const limitedEntries = entries.slice(0, MAX_ENTRIES);
+    const storage = getStorageBackend();
+    await storage.init();
+    const data = await operation(storage);
+    return {
+      success: true,
+      data
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: toStorageError(error, errorMessage)
+    };
+  }
+}
 
-    const json = JSON.stringify(limitedEntries);
-    localStorage.setItem(STORAGE_KEY, json);
+// ============================================================================
+// STORAGE OPERATIONS
+// ============================================================================
 
-    return { success: true };
-  } catch (error) {
-    // Check if it's a quota exceeded error
-    if (error instanceof DOMException && (
-      error.name === 'QuotaExceededError' ||
-      error.name === 'NS_ERROR_DOM_QUOTA_REACHED'
-    )) {
-      return {
-        success: false,
-        error: {
-          code: 'QUOTA_EXCEEDED',
-          message: 'localStorage quota exceeded. Try clearing old data.',
-          originalError: error
-        }
-      };
-    }
+/**
+ * Gets all entries from storage
+ * @returns Array of DocumentationEntry objects, newest first
+ */
+export function getAllEntries(): Promise<StorageResult<DocumentationEntry[]>> {
+  return runBackend(storage => storage.getAll(), 'Failed to read entries from storage');
+}
+
+/**
+ * Gets a single entry by ID
+ */
+export function getEntryById(id: string): Promise<StorageResult<DocumentationEntry | null>> {
+  return runBackend(storage => storage.getById(id), `Failed to read entry ${id}`);
+}
 
+// ============================================================================
+// NURSE APP FUNCTIONS
+// ============================================================================
+
+/**
+ * POSTs an entry to the FHIR server as a transaction Bundle
+ * @returns The entry with the server's resource ids and send time, or a TRANSPORT_ERROR
+ */
+async function transmitToFHIRServer(entry: DocumentationEntry): Promise<StorageResult<DocumentationEntry>> {
+  try {
+    const { resourceIds, attempts } = await postTransactionBundle(buildFHIRBundle(entry, 'transaction'));
+    console.log(`✅ FHIR server accepted entry ${entry.id} (${resourceIds.length} resources, ${attempts} attempt(s))`);
+    return {
+      success: true,
+      data: {
+        ...entry,
+        ehrResourceIds: resourceIds,
+        sentToEHRAt: new Date().toISOString()
+      }
+    };
+  } catch (error) {
     return {
       success: false,
       error: {
-        code: 'UNKNOWN',
-        message: 'Failed to store entries in localStorage',
+        code: 'TRANSPORT_ERROR',
+        message: `Failed to send entry to FHIR server: ${error instanceof Error ? error.message : String(error)}`,
         originalError: error
       }
     };
   }
 }
 
-// ============================================================================
-// NURSE APP FUNCTIONS
-// ============================================================================
-
 /**
  * Sends a documentation entry to the EHR Dashboard
  * Used by Nurse App to save and transmit entries
  *
+ * When the FHIR transport is configured, entries with status 'sent_to_ehr' are
+ * POSTed to the FHIR server first. If that fails the entry is stored as
+ * 'completed' (so it can be resent) and a TRANSPORT_ERROR is returned.
+ *
+ * Content changes are added to the entry's version history. Changing an entry
+ * that was already sent requires an amendment reason; the corrected HL7 v2
+ * message (result status 'C') is then delivered again. Resources already on the
+ * FHIR server are not updated. Signed entries are also only changed by amendment,
+ * and the amended content must carry a new signature (see validateSignatures).
+ *
  * @param entry - The DocumentationEntry to send
- * @returns Result indicating success or failure
+ * @param amendment - Reason (and author) for changing an entry already sent to the EHR
+ * @returns Result with the stored entry, or the failure
  */
-export function sendToEHR(entry: DocumentationEntry): StorageResult<DocumentationEntry> {
+export async function sendToEHR(
+  entry: DocumentationEntry,
+  amendment?: EntryAmendment
+): Promise<StorageResult<DocumentationEntry>> {
   // Validate entry first
   const validation = validateEntry(entry);
   if (!validation.success) {
     return validation;
   }
 
-  // Get existing entries
-  const existing = getAllEntries();
+  // Check if entry already exists (update) or is new (insert)
+  const existing = await getEntryById(entry.id);
   if (!existing.success) {
     return {
       success: false,
@@ -229,27 +345,66 @@ export function sendToEHR(entry: DocumentationEntry): StorageResult<Documentatio
     };
   }
 
-  const entries = existing.data || [];
+  const signatureValidation = await validateSignatures(entry, existing.data);
+  if (!signatureValidation.success) {
+    return signatureValidation;
+  }
 
-  // Check if entry already exists (update) or is new (insert)
-  const existingIndex = entries.findIndex(e => e.id === entry.id);
+  // NEWS2/MEWS follow the vitals, so amended vitals are rescored
+  const versioned = recordVersion(
+    existing.data || null,
+    withEarlyWarningScores(entry),
+    amendment?.author,
+    amendment?.reason
+  );
+  if (versioned.isAmendment && !amendment?.reason.trim()) {
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: `Entry ${entry.id} was already signed or sent to the EHR; changes must be made as an amendment with a reason`
+      }
+    };
+  }
 
-  if (existingIndex >= 0) {
-    // Update existing entry
-    entries[existingIndex] = {
-      ...entry,
-      lastModified: new Date().toISOString()
+  let storedEntry: DocumentationEntry = existing.data
+    ? {
+        ...versioned.entry,
+        lastModified: new Date().toISOString(),
+        // Deliver the corrected result again
+        hl7Delivery: versioned.isAmendment ? undefined : versioned.entry.hl7Delivery
+      }
+    : {
+        ...versioned.entry,
+        sentToEHRAt: entry.status === 'sent_to_ehr' ? new Date().toISOString() : undefined
+      };
+
+  // Transmit to the FHIR server (once - entries with server ids were already sent)
+  let transportError: StorageError | undefined;
+  if (storedEntry.status === 'sent_to_ehr' && !storedEntry.ehrResourceIds && isFHIRTransportEnabled()) {
+    const transmitted = await transmitToFHIRServer(storedEntry);
+    if (transmitted.success && transmitted.data) {
+      storedEntry = transmitted.data;
+    } else {
+      transportError = transmitted.error;
+      storedEntry = {
+        ...storedEntry,
+        status: 'completed',
+        sentToEHRAt: undefined
+      };
+    }
+  }
+
+  // Deliver the HL7 v2 message (failures leave it queued for processHL7ResendQueue)
+  if (storedEntry.status === 'sent_to_ehr' && !storedEntry.hl7Delivery && isHL7TransportEnabled()) {
+    storedEntry = {
+      ...storedEntry,
+      hl7Delivery: await attemptHL7Delivery(createHL7DeliveryRecord(toHL7Format(storedEntry)))
     };
-  } else {
-    // Add new entry at the beginning
-    entries.unshift({
-      ...entry,
-      sentToEHRAt: entry.status === 'sent_to_ehr' ? new Date().toISOString() : undefined
-    });
   }
 
-  // Store updated entries
-  const storeResult = storeEntries(entries);
+  // Write only this entry
+  const storeResult = await runBackend(storage => storage.put(storedEntry), 'Failed to store entry');
 
   if (!storeResult.success) {
     return {
@@ -258,19 +413,27 @@ export function sendToEHR(entry: DocumentationEntry): StorageResult<Documentatio
     };
   }
 
+  if (transportError) {
+    return {
+      success: false,
+      data: storedEntry,
+      error: transportError
+    };
+  }
+
   // Dispatch a custom event for same-window listeners
   window.dispatchEvent(new CustomEvent('voize-entry-added', {
-    detail: entry
+    detail: storedEntry
   }));
 
   // Broadcast to other windows/tabs (including different ports) via BroadcastChannel
   if ('BroadcastChannel' in window) {
     try {
-      console.log('📡 Broadcasting entry via BroadcastChannel:', entry.id);
+      console.log('📡 Broadcasting entry via BroadcastChannel:', storedEntry.id);
       const channel = new BroadcastChannel('voize-entries');
       channel.postMessage({
         type: 'NEW_ENTRY',
-        entry: entry
+        entry: storedEntry
       });
       console.log('✅ Broadcast successful');
       channel.close();
@@ -283,40 +446,109 @@ export function sendToEHR(entry: DocumentationEntry): StorageResult<Documentatio
 
   return {
     success: true,
-    data: entry
+    data: storedEntry
+  };
+}
+
+/**
+ * Resends queued HL7 v2 messages that are due and records the new delivery state
+ * @returns The entries whose delivery record changed
+ */
+export async function processHL7ResendQueue(): Promise<StorageResult<DocumentationEntry[]>> {
+  if (!isHL7TransportEnabled()) {
+    return { success: true, data: [] };
+  }
+
+  const result = await getAllEntries();
+  if (!result.success || !result.data) {
+    return {
+      success: false,
+      error: result.error
+    };
+  }
+
+  const due = result.data.filter(entry => entry.hl7Delivery && isDueForResend(entry.hl7Delivery));
+  const updated: DocumentationEntry[] = [];
+
+  // One at a time so messages reach the receiver in their original order (entries are newest first)
+  for (const entry of due.reverse()) {
+    const hl7Delivery = await attemptHL7Delivery(entry.hl7Delivery!);
+    updated.push({ ...entry, hl7Delivery });
+  }
+
+  if (updated.length === 0) {
+    return { success: true, data: [] };
+  }
+
+  const storeResult = await runBackend(storage => storage.putMany(updated), 'Failed to store HL7 delivery state');
+  if (!storeResult.success) {
+    return {
+      success: false,
+      error: storeResult.error
+    };
+  }
+
+  return {
+    success: true,
+    data: updated
   };
 }
 
+/**
+ * Runs processHL7ResendQueue on an interval
+ * @param onUpdated - Called with entries whose delivery state changed
+ * @returns Function that stops the queue
+ */
+export function startHL7ResendQueue(
+  onUpdated: (entries: DocumentationEntry[]) => void,
+  intervalMs = 15000
+): () => void {
+  let running = false;
+
+  const tick = async () => {
+    // Skip a tick if the previous run is still waiting on the relay
+    if (running) return;
+    running = true;
+    try {
+      const result = await processHL7ResendQueue();
+      if (result.success && result.data && result.data.length > 0) {
+        onUpdated(result.data);
+      } else if (result.error) {
+        console.error('HL7 resend queue failed:', result.error.message);
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  const interval = setInterval(tick, intervalMs);
+  return () => clearInterval(interval);
+}
+
 /**
  * Gets all entries stored locally (for Nurse App history view)
  * @returns Array of all stored entries, sorted by timestamp
  */
-export function getLocalEntries(): StorageResult<DocumentationEntry[]> {
+export function getLocalEntries(): Promise<StorageResult<DocumentationEntry[]>> {
   return getAllEntries();
 }
 
 /**
  * Updates an existing entry
+ * @param amendment - Required when the entry was already sent to the EHR
  */
-export function updateEntry(entry: DocumentationEntry): StorageResult<DocumentationEntry> {
-  return sendToEHR(entry);
+export function updateEntry(
+  entry: DocumentationEntry,
+  amendment?: EntryAmendment
+): Promise<StorageResult<DocumentationEntry>> {
+  return sendToEHR(entry, amendment);
 }
 
 /**
  * Deletes an entry by ID
  */
-export function deleteEntry(id: string): StorageResult<void> {
-  const result = getAllEntries();
-
-  if (!result.success || !result.data) {
-    return {
-      success: false,
-      error: result.error
-    };
-  }
-
-  const filtered = result.data.filter(e => e.id !== id);
-  return storeEntries(filtered);
+export function deleteEntry(id: string): Promise<StorageResult<void>> {
+  return runBackend(storage => storage.delete(id), `Failed to delete entry ${id}`);
 }
 
 // ============================================================================
@@ -324,25 +556,37 @@ export function deleteEntry(id: string): StorageResult<void> {
 // ============================================================================
 
 /**
- * Subscribes to new entries from localStorage
+ * Subscribes to new entries from storage
  * Used by EHR Dashboard to receive real-time updates
  *
  * IMPORTANT: Uses BroadcastChannel for cross-origin communication between apps
  * on different ports (localhost:5173 and localhost:5184)
  *
- * @param callback - Function to call when a new entry is received
+ * @param callback - Function to call when a new entry, or a newer version of a known entry, is received
  * @returns Unsubscribe function to stop listening
  */
 export function subscribeToNewEntries(
   callback: (entry: DocumentationEntry) => void
 ): () => void {
-  let previousEntries: DocumentationEntry[] = [];
+  // Entry id -> latest version seen (amended entries are delivered again)
+  const knownVersions = new Map<string, number>();
 
   // Initialize with current entries
-  const initial = getAllEntries();
-  if (initial.success && initial.data) {
-    previousEntries = initial.data;
-  }
+  getAllEntries().then(initial => {
+    if (initial.success && initial.data) {
+      initial.data.forEach(entry => knownVersions.set(entry.id, entry.version || 1));
+    }
+  });
+
+  const notifyIfNew = (entry: DocumentationEntry) => {
+    const knownVersion = knownVersions.get(entry.id);
+    if (knownVersion !== undefined && knownVersion >= (entry.version || 1)) {
+      return false;
+    }
+    knownVersions.set(entry.id, entry.version || 1);
+    callback(entry);
+    return true;
+  };
 
   // BroadcastChannel for cross-port communication
   let channel: BroadcastChannel | null = null;
@@ -357,10 +601,8 @@ export function subscribeToNewEntries(
         console.log('📥 New entry received via BroadcastChannel:', entry.id);
 
         // Check if we already have this entry
-        if (!previousEntries.some(prev => prev.id === entry.id)) {
+        if (notifyIfNew(entry)) {
           console.log('✅ Entry is new, calling callback');
-          callback(entry);
-          previousEntries.unshift(entry);
         } else {
           console.log('⚠️ Entry already exists, skipping');
         }
@@ -376,43 +618,25 @@ export function subscribeToNewEntries(
   let pollingInterval: number | null = null;
   if (!channel) {
     console.warn('BroadcastChannel not supported, using polling fallback');
-    pollingInterval = window.setInterval(() => {
-      const result = getAllEntries();
+    pollingInterval = window.setInterval(async () => {
+      const result = await getAllEntries();
       if (result.success && result.data) {
-        const newEntries = result.data;
-
-        // Find entries that weren't in previous state
-        const addedEntries = newEntries.filter(
-          newEntry => !previousEntries.some(prev => prev.id === newEntry.id)
-        );
-
-        // Call callback for each new entry
-        addedEntries.forEach(entry => callback(entry));
-
-        if (addedEntries.length > 0) {
-          previousEntries = newEntries;
-        }
+        // Call callback for each entry that wasn't seen before
+        result.data.forEach(entry => notifyIfNew(entry));
       }
     }, 1000); // Poll every second
   }
 
-  // Listen for storage events (same-origin communication)
+  // Listen for storage events (same-origin communication, localStorage backend only)
   const handleStorageEvent = (event: StorageEvent) => {
-    if (event.key !== STORAGE_KEY) return;
+    if (event.key !== LOCAL_STORAGE_KEY) return;
     if (!event.newValue) return;
 
     try {
       const newEntries = JSON.parse(event.newValue) as DocumentationEntry[];
 
-      // Find entries that weren't in previous state
-      const addedEntries = newEntries.filter(
-        newEntry => !previousEntries.some(prev => prev.id === newEntry.id)
-      );
-
-      // Call callback for each new entry
-      addedEntries.forEach(entry => callback(entry));
-
-      previousEntries = newEntries;
+      // Call callback for each entry that wasn't seen before
+      newEntries.forEach(entry => notifyIfNew(entry));
     } catch (error) {
       console.error('Error parsing storage event:', error);
     }
@@ -423,9 +647,8 @@ export function subscribeToNewEntries(
     const customEvent = event as CustomEvent<DocumentationEntry>;
     const entry = customEvent.detail;
 
-    if (entry && !previousEntries.some(prev => prev.id === entry.id)) {
-      callback(entry);
-      previousEntries.unshift(entry);
+    if (entry) {
+      notifyIfNew(entry);
     }
   };
 
@@ -451,44 +674,28 @@ export function subscribeToNewEntries(
  * Gets all entries for EHR Dashboard display
  * @returns Array of all entries, sorted by timestamp
  */
-export function getAllEHREntries(): StorageResult<DocumentationEntry[]> {
+export function getAllEHREntries(): Promise<StorageResult<DocumentationEntry[]>> {
   return getAllEntries();
 }
 
 /**
- * Gets entries filtered by patient ID
+ * Gets entries filtered by patient ID (uses the patientId index)
  */
-export function getEntriesByPatient(patientId: string): StorageResult<DocumentationEntry[]> {
-  const result = getAllEntries();
-
-  if (!result.success || !result.data) {
-    return result;
-  }
-
-  const filtered = result.data.filter(e => e.patientId === patientId);
-
-  return {
-    success: true,
-    data: filtered
-  };
+export function getEntriesByPatient(patientId: string): Promise<StorageResult<DocumentationEntry[]>> {
+  return runBackend(
+    storage => storage.getByPatient(patientId),
+    `Failed to read entries for patient ${patientId}`
+  );
 }
 
 /**
- * Gets entries filtered by workflow type
+ * Gets entries filtered by workflow type (uses the workflowType index)
  */
-export function getEntriesByWorkflow(workflowType: string): StorageResult<DocumentationEntry[]> {
-  const result = getAllEntries();
-
-  if (!result.success || !result.data) {
-    return result;
-  }
-
-  const filtered = result.data.filter(e => e.workflowType === workflowType);
-
-  return {
-    success: true,
-    data: filtered
-  };
+export function getEntriesByWorkflow(workflowType: string): Promise<StorageResult<DocumentationEntry[]>> {
+  return runBackend(
+    storage => storage.getByWorkflow(workflowType),
+    `Failed to read ${workflowType} entries`
+  );
 }
 
 // ============================================================================
@@ -499,8 +706,8 @@ export function getEntriesByWorkflow(workflowType: string): StorageResult<Docume
  * Exports all data for demo purposes
  * @returns JSON string of all entries
  */
-export function exportAllData(): StorageResult<string> {
-  const result = getAllEntries();
+export async function exportAllData(): Promise<StorageResult<string>> {
+  const result = await getAllEntries();
 
   if (!result.success || !result.data) {
     return {
@@ -528,27 +735,12 @@ export function exportAllData(): StorageResult<string> {
 }
 
 /**
- * Imports data from JSON string
+ * Imports data from JSON string, replacing all stored entries
  */
-export function importData(jsonString: string): StorageResult<void> {
+export async function importData(jsonString: string): Promise<StorageResult<void>> {
+  let entries: DocumentationEntry[];
   try {
-    const entries = JSON.parse(jsonString) as DocumentationEntry[];
-
-    // Validate each entry
-    for (const entry of entries) {
-      const validation = validateEntry(entry);
-      if (!validation.success) {
-        return {
-          success: false,
-          error: {
-            code: 'VALIDATION_ERROR',
-            message: `Invalid entry with id ${entry.id}: ${validation.error?.message}`
-          }
-        };
-      }
-    }
-
-    return storeEntries(entries);
+    entries = JSON.parse(jsonString) as DocumentationEntry[];
   } catch (error) {
     return {
       success: false,
@@ -559,57 +751,66 @@ export function importData(jsonString: string): StorageResult<void> {
       }
     };
   }
+
+  // Validate each entry
+  for (const entry of entries) {
+    const validation = validateEntry(entry);
+    if (!validation.success) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Invalid entry with id ${entry.id}: ${validation.error?.message}`
+        }
+      };
+    }
+  }
+
+  return runBackend(async storage => {
+    await storage.clear();
+    await storage.putMany(entries);
+  }, 'Failed to import entries');
 }
 
 /**
- * Clears all entries from localStorage
+ * Clears all entries from storage
  */
-export function clearAllEntries(): StorageResult<void> {
-  try {
-    localStorage.removeItem(STORAGE_KEY);
-    return { success: true };
-  } catch (error) {
-    return {
-      success: false,
-      error: {
-        code: 'UNKNOWN',
-        message: 'Failed to clear entries',
-        originalError: error
-      }
-    };
-  }
+export function clearAllEntries(): Promise<StorageResult<void>> {
+  return runBackend(storage => storage.clear(), 'Failed to clear entries');
 }
 
 /**
  * Gets storage statistics
  */
-export function getStorageStats(): {
+export async function getStorageStats(): Promise<{
   totalEntries: number;
   oldestEntry?: string;
   newestEntry?: string;
   storageSize: number;
-} {
-  const result = getAllEntries();
+  backend: string;
+}> {
+  const result = await getAllEntries();
+  const backendName = getStorageBackend().name;
 
   if (!result.success || !result.data || result.data.length === 0) {
     return {
       totalEntries: 0,
-      storageSize: 0
+      storageSize: 0,
+      backend: backendName
     };
   }
 
+  // Entries are newest first
   const entries = result.data;
-  const sorted = [...entries].sort((a, b) =>
-    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
 
   const json = JSON.stringify(entries);
   const storageSize = new Blob([json]).size;
 
   return {
     totalEntries: entries.length,
-    oldestEntry: sorted[0]?.timestamp,
-    newestEntry: sorted[sorted.length - 1]?.timestamp,
-    storageSize
+    oldestEntry: entries[entries.length - 1]?.timestamp,
+    newestEntry: entries[0]?.timestamp,
+    storageSize,
+    backend: backendName
   };
 }
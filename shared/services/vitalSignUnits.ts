@@ -0,0 +1,99 @@
+/**
+ * Vital Sign Units
+ *
+ * VitalSigns stores temperature in °F, weight in lb, height in in and glucose in mg/dL.
+ * Values measured in other units (°C, kg, oz, cm, mmol/L) are converted on the way in;
+ * the measured value and its UCUM unit are kept in `measuredAs` so exports can report
+ * what was actually documented.
+ */
+
+import type { UnitConvertedVitalSign, VitalSignMeasurement, VitalSignUnit, VitalSigns } from '../types';
+
+/**
+ * Unit each converted vital sign is stored in
+ */
+export const CANONICAL_VITAL_SIGN_UNITS: Record<UnitConvertedVitalSign, VitalSignUnit> = {
+  temperature: '[degF]',
+  weight: '[lb_av]',
+  height: '[in_i]',
+  bloodGlucose: 'mg/dL',
+};
+
+/**
+ * Whether a VitalSigns field is stored in a converted unit
+ */
+export function isUnitConvertedVitalSign(field: keyof VitalSigns): field is UnitConvertedVitalSign {
+  return field in CANONICAL_VITAL_SIGN_UNITS;
+}
+
+/**
+ * Display text for each UCUM unit
+ */
+export const VITAL_SIGN_UNIT_DISPLAY: Record<VitalSignUnit, string> = {
+  '[degF]': '°F',
+  Cel: '°C',
+  '[lb_av]': 'lb',
+  '[oz_av]': 'oz',
+  kg: 'kg',
+  '[in_i]': 'in',
+  cm: 'cm',
+  'mg/dL': 'mg/dL',
+  'mmol/L': 'mmol/L',
+};
+
+/** Glucose molar mass factor (mg/dL per mmol/L) */
+const GLUCOSE_MG_DL_PER_MMOL_L = 18.016;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Converts a value to VitalSigns units based on the UCUM/plain-text unit sent
+ */
+export function convertVitalSignUnits(field: keyof VitalSigns, value: number, units: string): number {
+  const unit = units.toLowerCase().replace(/[[\]]/g, '');
+  if (field === 'temperature' && (unit === 'cel' || unit === 'c' || unit === 'degc')) {
+    return round1(value * 9 / 5 + 32);
+  }
+  if (field === 'weight' && unit === 'kg') {
+    return round1(value * 2.20462);
+  }
+  if (field === 'weight' && unit === 'g') {
+    return round1(value / 453.592);
+  }
+  if (field === 'weight' && (unit === 'oz_av' || unit === 'oz')) {
+    return round1(value / 16);
+  }
+  if (field === 'height' && unit === 'cm') {
+    return round1(value / 2.54);
+  }
+  if (field === 'height' && unit === 'm') {
+    return round1(value * 39.3701);
+  }
+  if (field === 'bloodGlucose' && unit === 'mmol/l') {
+    return Math.round(value * GLUCOSE_MG_DL_PER_MMOL_L);
+  }
+  return value;
+}
+
+/**
+ * Value and UCUM unit to report for a vital sign: the measured value when one was
+ * recorded, else the stored value in its canonical unit
+ */
+export function getReportedVitalSign(
+  vitals: VitalSigns,
+  field: UnitConvertedVitalSign
+): VitalSignMeasurement | undefined {
+  const value = vitals[field];
+  if (typeof value !== 'number') return undefined;
+  return vitals.measuredAs?.[field] || { value, unit: CANONICAL_VITAL_SIGN_UNITS[field] };
+}
+
+/**
+ * "37.2 °C" style text for a vital sign
+ */
+export function formatVitalSign(vitals: VitalSigns, field: UnitConvertedVitalSign): string {
+  const reported = getReportedVitalSign(vitals, field);
+  if (!reported) return '';
+  const unit = VITAL_SIGN_UNIT_DISPLAY[reported.unit];
+  return reported.unit === '[degF]' || reported.unit === 'Cel' ? `${reported.value}${unit}` : `${reported.value} ${unit}`;
+}
@@ -0,0 +1,115 @@
+/**
+ * Vital Sign Trends
+ *
+ * Collects a patient's vital signs from their documentation entries into one series per
+ * vital sign, oldest first, with each point flagged when it falls outside the normal adult
+ * range. Temperature is charted in °F, the unit VitalSigns stores it in.
+ */
+
+import type {
+  DocumentationEntry,
+  Patient,
+  VitalNormalRange,
+  VitalSigns,
+  VitalTrendMetric,
+  VitalTrendSeries,
+  VitalTrendWindow,
+} from '../types';
+
+interface VitalTrendDefinition {
+  label: string;
+  unit: string;
+  field: keyof VitalSigns;
+  normalRange: VitalNormalRange;
+  secondaryField?: keyof VitalSigns;
+  secondaryNormalRange?: VitalNormalRange;
+}
+
+/**
+ * Charted vital signs with their normal adult ranges
+ */
+export const VITAL_TREND_DEFINITIONS: Record<VitalTrendMetric, VitalTrendDefinition> = {
+  bloodPressure: {
+    label: 'Blood Pressure',
+    unit: 'mmHg',
+    field: 'systolic',
+    normalRange: { min: 90, max: 140 },
+    secondaryField: 'diastolic',
+    secondaryNormalRange: { min: 60, max: 90 },
+  },
+  heartRate: { label: 'Heart Rate', unit: 'bpm', field: 'heartRate', normalRange: { min: 60, max: 100 } },
+  temperature: { label: 'Temperature', unit: '°F', field: 'temperature', normalRange: { min: 97, max: 99.5 } },
+  respiratoryRate: { label: 'Respiratory Rate', unit: '/min', field: 'respiratoryRate', normalRange: { min: 12, max: 20 } },
+  oxygenSaturation: { label: 'SpO2', unit: '%', field: 'oxygenSaturation', normalRange: { min: 95, max: 100 } },
+  painLevel: { label: 'Pain', unit: '/10', field: 'painLevel', normalRange: { min: 0, max: 3 } },
+};
+
+export const VITAL_TREND_WINDOW_LABELS: Record<VitalTrendWindow, string> = {
+  '8h': '8 h',
+  '24h': '24 h',
+  '72h': '72 h',
+  admission: 'Admission',
+};
+
+const WINDOW_HOURS: Record<Exclude<VitalTrendWindow, 'admission'>, number> = { '8h': 8, '24h': 24, '72h': 72 };
+
+const isOutside = (value: number | undefined, range: VitalNormalRange | undefined): boolean =>
+  value !== undefined && !!range && (value < range.min || value > range.max);
+
+/**
+ * Start of a trend window; 'admission' starts at the patient's admission date, or
+ * includes everything when it isn't known
+ */
+export function getTrendWindowStart(window: VitalTrendWindow, patient: Patient | null, now = new Date()): Date | null {
+  if (window === 'admission') {
+    return patient?.admissionDate ? new Date(patient.admissionDate) : null;
+  }
+  return new Date(now.getTime() - WINDOW_HOURS[window] * 60 * 60 * 1000);
+}
+
+/**
+ * One series per charted vital sign from a patient's entries, limited to entries at or after `since`
+ * Vitals without their own timestamp are placed at the entry's timestamp; drafts are left out.
+ */
+export function buildVitalTrends(entries: DocumentationEntry[], since: Date | null = null): VitalTrendSeries[] {
+  const measurements = entries
+    .filter((entry) => entry.status !== 'draft' && entry.structuredData.vitalSigns)
+    .map((entry) => ({
+      entryId: entry.id,
+      timestamp: entry.structuredData.vitalSigns!.timestamp || entry.timestamp,
+      vitals: entry.structuredData.vitalSigns!,
+    }))
+    .filter((measurement) => !Number.isNaN(Date.parse(measurement.timestamp)))
+    .filter((measurement) => !since || new Date(measurement.timestamp) >= since)
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+  return (Object.keys(VITAL_TREND_DEFINITIONS) as VitalTrendMetric[]).map((metric) => {
+    const definition = VITAL_TREND_DEFINITIONS[metric];
+    const points = measurements.flatMap(({ entryId, timestamp, vitals }) => {
+      const value = vitals[definition.field];
+      if (typeof value !== 'number') return [];
+
+      const secondary = definition.secondaryField ? vitals[definition.secondaryField] : undefined;
+      const secondaryValue = typeof secondary === 'number' ? secondary : undefined;
+      return [
+        {
+          timestamp,
+          entryId,
+          value,
+          secondaryValue,
+          outOfRange:
+            isOutside(value, definition.normalRange) || isOutside(secondaryValue, definition.secondaryNormalRange),
+        },
+      ];
+    });
+
+    return {
+      metric,
+      label: definition.label,
+      unit: definition.unit,
+      normalRange: definition.normalRange,
+      secondaryNormalRange: definition.secondaryNormalRange,
+      points,
+    };
+  });
+}
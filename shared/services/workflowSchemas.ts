@@ -0,0 +1,905 @@
+/**
+ * Workflow Schemas
+ *
+ * One declarative definition per workflow: each field's input type, unit, options, form
+ * section, starting value, spoken labels, validation, place in StructuredData and export code.
+ * Form state and inputs, transcript auto-fill, the field label matcher, validation rules and
+ * exports are all built from these, so adding a field to a workflow is a change here only.
+ * Workflow components hand-write just their summaries and special widgets.
+ */
+
+import type { StructuredData, WorkflowFieldCode, WorkflowFieldSchema, WorkflowSchema, WorkflowType } from '../types';
+
+const LOINC = 'http://loinc.org';
+
+export const WORKFLOW_SCHEMAS: WorkflowSchema[] = [
+  {
+    type: 'patient-assessment',
+    fields: [
+      {
+        key: 'patientId',
+        label: 'Patient ID',
+        type: 'text',
+        group: 'Patient Information',
+        required: true,
+        placeholder: 'e.g., PT12345',
+        spokenLabels: ['patient id'],
+      },
+      {
+        key: 'roomNumber',
+        label: 'Room Number',
+        type: 'text',
+        group: 'Patient Information',
+        required: true,
+        placeholder: 'e.g., 301A',
+      },
+      {
+        key: 'levelOfConsciousness',
+        label: 'Level of Consciousness',
+        type: 'select',
+        group: 'Physical Assessment',
+        required: true,
+        options: [
+          { value: 'alert', label: 'Alert' },
+          { value: 'confused', label: 'Confused' },
+          { value: 'drowsy', label: 'Drowsy' },
+          { value: 'lethargic', label: 'Lethargic' },
+          { value: 'responsive', label: 'Responsive' },
+          { value: 'unresponsive', label: 'Unresponsive' },
+        ],
+        spokenLabels: ['level of consciousness', 'consciousness'],
+        shortLabels: ['loc', 'mental status'],
+        autoFill: 'extract',
+      },
+      {
+        key: 'mobilityStatus',
+        label: 'Mobility Status',
+        type: 'select',
+        group: 'Physical Assessment',
+        required: true,
+        options: [
+          { value: 'ambulatory', label: 'Ambulatory' },
+          { value: 'assisted', label: 'Assisted' },
+          { value: 'bedbound', label: 'Bedbound' },
+          { value: 'wheelchair', label: 'Wheelchair' },
+        ],
+        spokenLabels: ['mobility status', 'mobility'],
+        shortLabels: ['ambulation', 'ambulatory status'],
+        autoFill: 'extract',
+      },
+      {
+        key: 'painLevel',
+        label: 'Pain Level (0-10)',
+        type: 'number',
+        group: 'Physical Assessment',
+        step: 1,
+        clinicalRange: 'painLevel',
+        spokenLabels: ['pain level', 'pain score'],
+        shortLabels: ['pain'],
+        autoFill: 'extract',
+        code: { system: LOINC, code: '72514-3', display: 'Pain severity', unit: '{score}' },
+      },
+      {
+        key: 'skinCondition',
+        label: 'Skin Condition',
+        type: 'textarea',
+        group: 'Physical Assessment',
+        placeholder: 'Describe skin integrity, color, temperature, moisture...',
+        spokenLabels: ['skin condition', 'skin'],
+        shortLabels: ['skin integrity', 'integument'],
+        aliases: ['skin cond'],
+        medicalTerms: ['dermatological', 'epidermis', 'skin assessment'],
+        autoFill: 'segment',
+      },
+      {
+        key: 'observations',
+        label: 'General Observations',
+        type: 'textarea',
+        group: 'Additional Notes',
+        placeholder: 'Additional observations and notes...',
+        spokenLabels: ['observations', 'general observations', 'notes'],
+        shortLabels: ['additional notes', 'obs'],
+        aliases: ['general obs', 'general notes'],
+        medicalTerms: ['clinical observations', 'assessment notes'],
+        autoFill: 'segment',
+      },
+    ],
+  },
+  {
+    type: 'vital-signs',
+    fields: [
+      {
+        key: 'systolic',
+        label: 'Systolic Blood Pressure',
+        unit: 'mmHg',
+        type: 'number',
+        group: 'Blood Pressure',
+        required: true,
+        placeholder: 'e.g., 120',
+        clinicalRange: 'systolic',
+        spokenLabels: ['blood pressure', 'bp'],
+        shortLabels: ['systolic', 'systolic pressure'],
+        autoFill: 'extract',
+        path: 'vitalSigns.systolic',
+        code: { system: LOINC, code: '8480-6', display: 'Systolic blood pressure', unit: 'mm[Hg]' },
+      },
+      {
+        key: 'diastolic',
+        label: 'Diastolic Blood Pressure',
+        unit: 'mmHg',
+        type: 'number',
+        group: 'Blood Pressure',
+        required: true,
+        placeholder: 'e.g., 80',
+        clinicalRange: 'diastolic',
+        shortLabels: ['diastolic', 'diastolic pressure'],
+        autoFill: 'extract',
+        path: 'vitalSigns.diastolic',
+        code: { system: LOINC, code: '8462-4', display: 'Diastolic blood pressure', unit: 'mm[Hg]' },
+      },
+      {
+        key: 'heartRate',
+        label: 'Heart Rate',
+        unit: 'BPM',
+        type: 'number',
+        group: 'Vital Measurements',
+        required: true,
+        placeholder: 'e.g., 72',
+        clinicalRange: 'heartRate',
+        spokenLabels: ['heart rate', 'pulse'],
+        shortLabels: ['hr'],
+        autoFill: 'extract',
+        path: 'vitalSigns.heartRate',
+        code: { system: LOINC, code: '8867-4', display: 'Heart rate', unit: '/min' },
+      },
+      {
+        key: 'respiratoryRate',
+        label: 'Respiratory Rate',
+        unit: 'breaths/min',
+        type: 'number',
+        group: 'Vital Measurements',
+        required: true,
+        placeholder: 'e.g., 16',
+        clinicalRange: 'respiratoryRate',
+        spokenLabels: ['respiratory rate', 'respiration'],
+        shortLabels: ['rr', 'respirations'],
+        autoFill: 'extract',
+        path: 'vitalSigns.respiratoryRate',
+        code: { system: LOINC, code: '9279-1', display: 'Respiratory rate', unit: '/min' },
+      },
+      {
+        key: 'temperature',
+        label: 'Temperature',
+        unit: '°F',
+        type: 'number',
+        group: 'Vital Measurements',
+        required: true,
+        placeholder: 'e.g., 98.6',
+        step: 0.1,
+        clinicalRange: 'temperature',
+        spokenLabels: ['temperature', 'temp'],
+        autoFill: 'extract',
+        path: 'vitalSigns.temperature',
+        code: { system: LOINC, code: '8310-5', display: 'Body temperature', unit: '[degF]' },
+      },
+      {
+        key: 'temperatureMethod',
+        label: 'Temperature Method',
+        type: 'select',
+        group: 'Vital Measurements',
+        defaultValue: 'oral',
+        required: true,
+        options: [
+          { value: 'oral', label: 'Oral' },
+          { value: 'tympanic', label: 'Tympanic (Ear)' },
+          { value: 'temporal', label: 'Temporal (Forehead)' },
+          { value: 'axillary', label: 'Axillary (Underarm)' },
+          { value: 'rectal', label: 'Rectal' },
+        ],
+        path: 'vitalSigns.temperatureMethod',
+      },
+      {
+        key: 'oxygenSaturation',
+        label: 'Oxygen Saturation',
+        unit: 'SpO2 %',
+        type: 'number',
+        group: 'Vital Measurements',
+        required: true,
+        placeholder: 'e.g., 98',
+        clinicalRange: 'oxygenSaturation',
+        spokenLabels: ['oxygen saturation', 'o2 sat', 'spo2'],
+        shortLabels: ['oxygen sat', 'o2'],
+        autoFill: 'extract',
+        path: 'vitalSigns.oxygenSaturation',
+        code: { system: LOINC, code: '59408-5', display: 'Oxygen saturation', unit: '%' },
+      },
+      {
+        key: 'oxygenDelivery',
+        label: 'Air or Oxygen',
+        type: 'select',
+        group: 'Vital Measurements',
+        options: [
+          { value: 'room-air', label: 'Room Air' },
+          { value: 'supplemental', label: 'Supplemental Oxygen' },
+        ],
+        autoFill: 'extract',
+        path: 'vitalSigns.supplementalOxygen',
+      },
+      {
+        key: 'levelOfConsciousness',
+        label: 'Level of Consciousness',
+        type: 'select',
+        group: 'Vital Measurements',
+        options: [
+          { value: 'alert', label: 'Alert' },
+          { value: 'confused', label: 'Confused (new)' },
+          { value: 'drowsy', label: 'Drowsy' },
+          { value: 'lethargic', label: 'Lethargic' },
+          { value: 'stuporous', label: 'Stuporous' },
+          { value: 'comatose', label: 'Comatose' },
+        ],
+        autoFill: 'extract',
+        path: 'vitalSigns.levelOfConsciousness',
+      },
+      {
+        key: 'weight',
+        label: 'Weight',
+        unit: 'lb',
+        type: 'number',
+        group: 'Body Measurements',
+        placeholder: 'e.g., 154',
+        step: 0.1,
+        min: 0.5,
+        max: 1000,
+        spokenLabels: ['weight'],
+        shortLabels: ['wt'],
+        autoFill: 'extract',
+        path: 'vitalSigns.weight',
+        code: { system: LOINC, code: '29463-7', display: 'Body weight', unit: '[lb_av]' },
+      },
+      {
+        key: 'height',
+        label: 'Height',
+        unit: 'in',
+        type: 'number',
+        group: 'Body Measurements',
+        placeholder: 'e.g., 68',
+        step: 0.1,
+        min: 10,
+        max: 96,
+        spokenLabels: ['height'],
+        shortLabels: ['ht'],
+        autoFill: 'extract',
+        path: 'vitalSigns.height',
+        code: { system: LOINC, code: '8302-2', display: 'Body height', unit: '[in_i]' },
+      },
+      {
+        key: 'bloodGlucose',
+        label: 'Blood Glucose',
+        unit: 'mg/dL',
+        type: 'number',
+        group: 'Body Measurements',
+        placeholder: 'e.g., 110',
+        clinicalRange: 'bloodGlucose',
+        spokenLabels: ['blood glucose', 'blood sugar'],
+        shortLabels: ['glucose'],
+        autoFill: 'extract',
+        path: 'vitalSigns.bloodGlucose',
+        code: { system: LOINC, code: '2339-0', display: 'Glucose', unit: 'mg/dL' },
+      },
+      {
+        key: 'painLevel',
+        label: 'Pain Level (0-10)',
+        type: 'number',
+        group: 'Additional Information',
+        step: 1,
+        clinicalRange: 'painLevel',
+        spokenLabels: ['pain level', 'pain score'],
+        shortLabels: ['pain'],
+        autoFill: 'extract',
+        path: 'vitalSigns.painLevel',
+        code: { system: LOINC, code: '72514-3', display: 'Pain severity', unit: '{score}' },
+      },
+      {
+        key: 'timestamp',
+        label: 'Time Recorded',
+        type: 'datetime-local',
+        group: 'Additional Information',
+        required: true,
+        path: 'vitalSigns.timestamp',
+      },
+    ],
+  },
+  {
+    type: 'medication-administration',
+    fields: [
+      {
+        key: 'patientId',
+        label: 'Patient ID',
+        type: 'text',
+        group: 'Patient Information',
+        required: true,
+        placeholder: 'e.g., PT12345',
+        spokenLabels: ['patient id'],
+      },
+      {
+        key: 'medicationName',
+        label: 'Medication Name',
+        type: 'text',
+        group: 'Medication Details',
+        required: true,
+        placeholder: 'e.g., Aspirin, Metformin',
+        spokenLabels: ['medication name'],
+        shortLabels: ['medication', 'med name', 'drug name'],
+        autoFill: 'extract',
+      },
+      {
+        key: 'dosage',
+        label: 'Dosage',
+        type: 'text',
+        group: 'Medication Details',
+        required: true,
+        placeholder: 'e.g., 500 mg, 10 units',
+        spokenLabels: ['dosage', 'dose'],
+        shortLabels: ['amount'],
+        autoFill: 'extract',
+      },
+      {
+        key: 'route',
+        label: 'Route of Administration',
+        type: 'select',
+        group: 'Medication Details',
+        required: true,
+        options: [
+          { value: 'PO', label: 'PO (Oral)' },
+          { value: 'IV', label: 'IV (Intravenous)' },
+          { value: 'IM', label: 'IM (Intramuscular)' },
+          { value: 'SQ', label: 'SQ (Subcutaneous)' },
+          { value: 'SL', label: 'SL (Sublingual)' },
+          { value: 'PR', label: 'PR (Rectal)' },
+          { value: 'TOP', label: 'TOP (Topical)' },
+          { value: 'INH', label: 'INH (Inhalation)' },
+          { value: 'OPH', label: 'OPH (Ophthalmic)' },
+          { value: 'OT', label: 'OT (Otic)' },
+          { value: 'NG', label: 'NG (Nasogastric)' },
+          { value: 'GT', label: 'GT (Gastrostomy)' },
+        ],
+        spokenLabels: ['route', 'route of administration'],
+        shortLabels: ['administration route', 'via'],
+        autoFill: 'extract',
+      },
+      {
+        key: 'timeAdministered',
+        label: 'Time Administered',
+        type: 'datetime-local',
+        group: 'Medication Details',
+        required: true,
+        spokenLabels: ['time administered'],
+        shortLabels: ['time given', 'administered at', 'given at'],
+      },
+      {
+        key: 'patientResponse',
+        label: 'Patient Response/Reaction',
+        type: 'textarea',
+        group: 'Patient Response',
+        placeholder: 'Describe patient response to medication...',
+        spokenLabels: ['patient response', 'patient reaction'],
+        shortLabels: ['response', 'reaction', 'effect'],
+        aliases: ['patient effect'],
+        medicalTerms: ['therapeutic response', 'medication response'],
+        autoFill: 'segment',
+      },
+      {
+        key: 'adverseReaction',
+        label: 'Adverse Reaction (if any)',
+        type: 'textarea',
+        group: 'Patient Response',
+        placeholder: 'Document any adverse reactions or side effects...',
+        spokenLabels: ['adverse reaction', 'adverse effects', 'side effects'],
+        shortLabels: ['adverse reactions', 'adverses reactions', 'adverse', 'side effect'],
+        aliases: ['adverse event'],
+        medicalTerms: ['adverse drug reaction', 'adr', 'medication adverse event'],
+        autoFill: 'segment',
+      },
+    ],
+  },
+  {
+    type: 'wound-care',
+    fields: [
+      {
+        key: 'woundLocation',
+        label: 'Wound Location',
+        type: 'text',
+        group: 'Wound Assessment',
+        required: true,
+        placeholder: 'e.g., Right heel, Sacrum, Left hip',
+        spokenLabels: ['wound location'],
+        shortLabels: ['location', 'wound site', 'site'],
+        autoFill: 'extract',
+      },
+      {
+        key: 'woundType',
+        label: 'Wound Type',
+        type: 'select',
+        group: 'Wound Assessment',
+        required: true,
+        options: [
+          { value: 'pressure-ulcer', label: 'Pressure Ulcer' },
+          { value: 'surgical', label: 'Surgical' },
+          { value: 'traumatic', label: 'Traumatic' },
+          { value: 'venous', label: 'Venous' },
+          { value: 'arterial', label: 'Arterial' },
+          { value: 'diabetic', label: 'Diabetic' },
+          { value: 'burn', label: 'Burn' },
+          { value: 'laceration', label: 'Laceration' },
+          { value: 'abrasion', label: 'Abrasion' },
+        ],
+        spokenLabels: ['wound type'],
+        shortLabels: ['type of wound', 'wound kind'],
+      },
+      {
+        key: 'length',
+        label: 'Length',
+        unit: 'cm',
+        type: 'number',
+        group: 'Wound Measurements',
+        required: true,
+        requiredMessage: 'Wound length must be greater than 0',
+        placeholder: 'e.g., 5.0',
+        min: 0,
+        step: 0.1,
+        spokenLabels: ['length'],
+        shortLabels: ['wound length'],
+        autoFill: 'extract',
+        code: { system: LOINC, code: '39126-8', display: 'Wound length', unit: 'cm' },
+      },
+      {
+        key: 'width',
+        label: 'Width',
+        unit: 'cm',
+        type: 'number',
+        group: 'Wound Measurements',
+        required: true,
+        requiredMessage: 'Wound width must be greater than 0',
+        placeholder: 'e.g., 3.5',
+        min: 0,
+        step: 0.1,
+        spokenLabels: ['width'],
+        shortLabels: ['wound width'],
+        autoFill: 'extract',
+        code: { system: LOINC, code: '39125-0', display: 'Wound width', unit: 'cm' },
+      },
+      {
+        key: 'depth',
+        label: 'Depth',
+        unit: 'cm',
+        type: 'number',
+        group: 'Wound Measurements',
+        placeholder: 'e.g., 1.5',
+        min: 0,
+        step: 0.1,
+        spokenLabels: ['depth'],
+        shortLabels: ['wound depth'],
+        autoFill: 'extract',
+        code: { system: LOINC, code: '39127-6', display: 'Wound depth', unit: 'cm' },
+      },
+      {
+        key: 'drainageAmount',
+        label: 'Drainage Amount',
+        type: 'select',
+        group: 'Drainage Characteristics',
+        defaultValue: 'none',
+        required: true,
+        options: [
+          { value: 'none', label: 'None' },
+          { value: 'scant', label: 'Scant' },
+          { value: 'small', label: 'Small' },
+          { value: 'moderate', label: 'Moderate' },
+          { value: 'large', label: 'Large' },
+          { value: 'copious', label: 'Copious' },
+        ],
+        spokenLabels: ['drainage amount'],
+        shortLabels: ['drainage', 'amount of drainage'],
+      },
+      {
+        key: 'drainageType',
+        label: 'Drainage Type',
+        type: 'select',
+        group: 'Drainage Characteristics',
+        defaultValue: 'none',
+        required: true,
+        options: [
+          { value: 'none', label: 'None' },
+          { value: 'serous', label: 'Serous (Clear/Yellow)' },
+          { value: 'serosanguineous', label: 'Serosanguineous (Pink/Red)' },
+          { value: 'sanguineous', label: 'Sanguineous (Blood)' },
+          { value: 'purulent', label: 'Purulent (Pus)' },
+        ],
+        spokenLabels: ['drainage type'],
+        shortLabels: ['type of drainage'],
+      },
+      {
+        key: 'treatmentProvided',
+        label: 'Treatment Provided',
+        type: 'textarea',
+        group: 'Treatment',
+        required: true,
+        placeholder: 'Describe wound care treatment, dressing type, cleansing method...',
+        spokenLabels: ['treatment provided', 'treatment'],
+        shortLabels: ['care provided', 'tx', 'intervention', 'wound care', 'dressing'],
+        aliases: ['treatment given'],
+        medicalTerms: ['wound treatment', 'dressing change'],
+        autoFill: 'segment',
+      },
+    ],
+  },
+  {
+    type: 'shift-handoff',
+    fields: [
+      {
+        key: 'outgoingNurse',
+        label: 'Outgoing Nurse',
+        type: 'text',
+        group: 'Handoff Information',
+        required: true,
+        placeholder: 'e.g., Sarah Johnson, RN',
+        spokenLabels: ['outgoing nurse'],
+        shortLabels: ['outgoing', 'outgoing nurse name', 'leaving nurse', 'off going nurse', 'departing nurse'],
+        aliases: ['off-going nurse'],
+        medicalTerms: ['nurse leaving', 'nurse going off'],
+        autoFill: 'segment',
+      },
+      {
+        key: 'incomingNurse',
+        label: 'Incoming Nurse',
+        type: 'text',
+        group: 'Handoff Information',
+        required: true,
+        placeholder: 'e.g., Michael Chen, RN',
+        spokenLabels: ['incoming nurse'],
+        shortLabels: ['incoming', 'incoming nurse name', 'arriving nurse', 'oncoming nurse', 'relieving nurse'],
+        aliases: ['on-coming nurse'],
+        medicalTerms: ['nurse arriving', 'nurse coming on'],
+        autoFill: 'segment',
+      },
+      {
+        key: 'shiftTime',
+        label: 'Shift Handoff Time',
+        type: 'datetime-local',
+        group: 'Handoff Information',
+        required: true,
+      },
+      {
+        key: 'situation',
+        label: 'Situation (Current Status & Issues)',
+        type: 'textarea',
+        group: 'S - Situation',
+        required: true,
+        placeholder: 'What is happening with the patient right now? Current problems, concerns, symptoms...',
+        spokenLabels: ['situation'],
+        shortLabels: ['current status', 'current situation', 'sit', 'status'],
+        aliases: ['s'],
+        medicalTerms: ['sbar s', 'sbar situation'],
+        autoFill: 'segment',
+      },
+      {
+        key: 'background',
+        label: 'Background (Relevant History & Context)',
+        type: 'textarea',
+        group: 'B - Background',
+        required: true,
+        placeholder: 'Medical history, admission diagnosis, relevant procedures, medications...',
+        spokenLabels: ['background'],
+        shortLabels: ['history', 'patient background', 'bg', 'back', 'medical history'],
+        aliases: ['b'],
+        medicalTerms: ['sbar b', 'sbar background'],
+        autoFill: 'segment',
+      },
+      {
+        key: 'assessment',
+        label: 'Assessment (Clinical Findings)',
+        type: 'textarea',
+        group: 'A - Assessment',
+        required: true,
+        placeholder: 'Current vital signs, lab results, physical assessment findings, trends...',
+        spokenLabels: ['assessment'],
+        shortLabels: ['findings', 'clinical findings', 'assess'],
+        aliases: ['a'],
+        medicalTerms: ['sbar a', 'sbar assessment', 'clinical assessment'],
+        autoFill: 'segment',
+      },
+      {
+        key: 'recommendation',
+        label: 'Recommendation (Continuing Care)',
+        type: 'textarea',
+        group: 'R - Recommendation',
+        required: true,
+        placeholder: 'What needs to be done? Upcoming tasks, monitoring needs, anticipated changes...',
+        spokenLabels: ['recommendation'],
+        shortLabels: ['plan', 'recommendations', 'rec', 'care plan'],
+        aliases: ['r'],
+        medicalTerms: ['sbar r', 'sbar recommendation'],
+        autoFill: 'segment',
+      },
+      {
+        key: 'pendingTasks',
+        label: 'Pending Tasks',
+        type: 'textarea',
+        group: 'Additional Information',
+        placeholder: 'Outstanding orders, scheduled medications, pending tests or procedures...',
+        spokenLabels: ['pending tasks'],
+        shortLabels: ['pending', 'tasks', 'pending items', 'to do'],
+        aliases: ['to-do', 'todos'],
+        autoFill: 'segment',
+      },
+      {
+        key: 'criticalAlerts',
+        label: 'Critical Alerts',
+        type: 'textarea',
+        group: 'Additional Information',
+        placeholder: 'Fall risk, isolation precautions, allergies, code status, special needs...',
+        spokenLabels: ['critical alerts'],
+        shortLabels: ['alerts', 'critical', 'warnings'],
+        aliases: ['critical items'],
+        autoFill: 'segment',
+      },
+    ],
+  },
+  {
+    type: 'admission',
+    fields: [
+      {
+        key: 'admittingDiagnosis',
+        label: 'Admitting Diagnosis',
+        type: 'text',
+        group: 'Reason for Admission',
+        required: true,
+        placeholder: 'e.g., Community-acquired pneumonia',
+        spokenLabels: ['admitting diagnosis'],
+        shortLabels: ['admission diagnosis', 'diagnosis', 'dx'],
+        aliases: ['admit dx', 'working diagnosis'],
+        medicalTerms: ['primary diagnosis', 'provisional diagnosis'],
+        autoFill: 'segment',
+        path: 'admissionData.admittingDiagnosis',
+      },
+      {
+        key: 'admissionSource',
+        label: 'Admission Source',
+        type: 'select',
+        group: 'Reason for Admission',
+        required: true,
+        options: [
+          { value: 'emergency-department', label: 'Emergency Department' },
+          { value: 'direct-admission', label: 'Direct Admission' },
+          { value: 'transfer-hospital', label: 'Transfer from Another Hospital' },
+          { value: 'transfer-snf', label: 'Transfer from SNF / Nursing Facility' },
+          { value: 'clinic', label: 'Clinic / Physician Office' },
+          { value: 'other', label: 'Other' },
+        ],
+        spokenLabels: ['admission source', 'admitted from'],
+        shortLabels: ['source of admission', 'arrived from'],
+        autoFill: 'extract',
+        path: 'admissionData.admissionSource',
+      },
+      {
+        key: 'chiefComplaint',
+        label: 'Chief Complaint',
+        type: 'textarea',
+        group: 'Reason for Admission',
+        required: true,
+        placeholder: "Reason for admission in the patient's words...",
+        spokenLabels: ['chief complaint'],
+        shortLabels: ['presenting complaint', 'reason for admission', 'complaint', 'cc'],
+        aliases: ['reason for visit'],
+        medicalTerms: ['presenting problem', 'presenting symptoms'],
+        autoFill: 'segment',
+        path: 'admissionData.chiefComplaint',
+      },
+      {
+        key: 'allergies',
+        label: 'Allergies',
+        type: 'textarea',
+        group: 'Allergies',
+        required: true,
+        requiredMessage: 'Allergies are required (say "no known drug allergies" if none)',
+        placeholder: 'e.g., Penicillin, sulfa, latex - or NKDA',
+        spokenLabels: ['allergies'],
+        shortLabels: ['allergy', 'allergic to', 'known allergies'],
+        aliases: ['allergy list'],
+        medicalTerms: ['drug allergies', 'medication allergies', 'adverse drug reactions'],
+        autoFill: 'segment',
+        path: 'admissionData.allergies',
+      },
+      {
+        key: 'currentMedications',
+        label: 'Current Home Medications',
+        type: 'textarea',
+        group: 'Home Medications',
+        placeholder: 'e.g., Metoprolol 25 mg twice daily, lisinopril 10 mg daily, aspirin 81 mg daily',
+        spokenLabels: ['current medications', 'home medications', 'home meds'],
+        shortLabels: ['medication list', 'medications', 'meds'],
+        medicalTerms: ['outpatient medications', 'prior to admission medications', 'pta meds'],
+        autoFill: 'segment',
+        path: 'admissionData.currentMedications',
+      },
+      {
+        key: 'medicalHistory',
+        label: 'Past Medical History',
+        type: 'textarea',
+        group: 'Medical History',
+        placeholder: 'e.g., Hypertension, type 2 diabetes, COPD',
+        spokenLabels: ['past medical history', 'medical history'],
+        shortLabels: ['pmh', 'history', 'past history'],
+        aliases: ['history of'],
+        medicalTerms: ['past medical and surgical history', 'comorbidities'],
+        autoFill: 'segment',
+        path: 'admissionData.medicalHistory',
+      },
+    ],
+  },
+  {
+    type: 'discharge',
+    fields: [
+      {
+        key: 'dischargeDisposition',
+        label: 'Discharge Disposition',
+        type: 'select',
+        group: 'Disposition',
+        required: true,
+        options: [
+          { value: 'home', label: 'Home / Self Care' },
+          { value: 'home-health', label: 'Home with Home Health' },
+          { value: 'snf', label: 'Skilled Nursing Facility' },
+          { value: 'rehab', label: 'Inpatient Rehabilitation' },
+          { value: 'hospice', label: 'Hospice' },
+          { value: 'transfer-hospital', label: 'Transfer to Another Hospital' },
+          { value: 'ama', label: 'Left Against Medical Advice' },
+        ],
+        spokenLabels: ['discharge disposition'],
+        shortLabels: ['disposition', 'discharge status'],
+        autoFill: 'extract',
+        path: 'dischargeData.dischargeDisposition',
+      },
+      {
+        key: 'dischargeDestination',
+        label: 'Discharge Destination',
+        type: 'text',
+        group: 'Disposition',
+        placeholder: 'e.g., Home with daughter, Sunrise SNF',
+        spokenLabels: ['discharge destination', 'discharged to'],
+        shortLabels: ['destination', 'going to'],
+        aliases: ['discharge address', 'discharge location'],
+        medicalTerms: ['discharge facility', 'receiving facility'],
+        autoFill: 'segment',
+        path: 'dischargeData.dischargeDestination',
+      },
+      {
+        key: 'dischargeMedications',
+        label: 'Discharge Medications',
+        type: 'textarea',
+        group: 'Medication Reconciliation',
+        placeholder: 'e.g., Metoprolol 50 mg twice daily, amoxicillin 500 mg three times daily',
+        spokenLabels: ['discharge medications'],
+        shortLabels: ['discharge meds', 'medications', 'meds', 'prescriptions'],
+        aliases: ['medication list'],
+        medicalTerms: ['discharge prescriptions', 'medication reconciliation', 'med rec'],
+        autoFill: 'segment',
+        path: 'dischargeData.medications',
+      },
+      {
+        key: 'followUpAppointments',
+        label: 'Follow-up Appointments',
+        type: 'textarea',
+        group: 'Follow-up',
+        placeholder: 'e.g., Cardiology in one week; primary care in 3 days',
+        spokenLabels: ['follow up appointments'],
+        shortLabels: ['follow-up appointments', 'follow up', 'follow-up', 'appointments'],
+        aliases: ['followup', 'see doctor'],
+        medicalTerms: ['outpatient follow up', 'post discharge follow up'],
+        autoFill: 'segment',
+        path: 'dischargeData.followUpAppointments',
+      },
+      {
+        key: 'patientEducation',
+        label: 'Patient Education',
+        type: 'textarea',
+        group: 'Patient Education',
+        placeholder: 'e.g., Medications, low sodium diet, warning signs - patient verbalized understanding',
+        spokenLabels: ['patient education'],
+        shortLabels: ['education provided', 'education', 'teaching', 'taught'],
+        aliases: ['teach back'],
+        medicalTerms: ['discharge teaching', 'patient teaching'],
+        autoFill: 'segment',
+        path: 'dischargeData.patientEducation',
+      },
+      {
+        key: 'dischargeInstructions',
+        label: 'Discharge Instructions',
+        type: 'textarea',
+        group: 'Instructions',
+        required: true,
+        placeholder: 'Activity, diet, wound care and when to seek care...',
+        spokenLabels: ['discharge instructions'],
+        shortLabels: ['instructions', 'home instructions'],
+        aliases: ['after visit instructions', 'care instructions'],
+        medicalTerms: ['after visit summary', 'avs'],
+        autoFill: 'segment',
+        path: 'dischargeData.dischargeInstructions',
+      },
+    ],
+  },
+];
+
+// Schemas of the custom workflow templates saved on this device
+let customSchemas: WorkflowSchema[] = [];
+
+/**
+ * Sets the custom workflow schemas looked up after the built-in ones (replacing any set before)
+ */
+export function setCustomWorkflowSchemas(schemas: WorkflowSchema[]): void {
+  customSchemas = [...schemas];
+}
+
+export function getWorkflowSchema(workflowType: WorkflowType): WorkflowSchema | undefined {
+  return (
+    WORKFLOW_SCHEMAS.find((schema) => schema.type === workflowType) ||
+    customSchemas.find((schema) => schema.type === workflowType)
+  );
+}
+
+export function getWorkflowField(workflowType: WorkflowType, key: string): WorkflowFieldSchema | undefined {
+  return getWorkflowSchema(workflowType)?.fields.find((field) => field.key === key);
+}
+
+/**
+ * Field stored at a StructuredData path (e.g., "admissionData.allergies")
+ */
+export function findFieldByPath(workflowType: WorkflowType, path: string): WorkflowFieldSchema | undefined {
+  return getWorkflowSchema(workflowType)?.fields.find((field) => (field.path || field.key) === path);
+}
+
+/**
+ * Spoken labels of every built-in workflow (each one ends the content of the field before it).
+ * Custom templates' labels only apply within their own form.
+ */
+export function getAllSpokenLabels(): string[] {
+  return [...new Set(WORKFLOW_SCHEMAS.flatMap((schema) => schema.fields.flatMap((field) => field.spokenLabels || [])))];
+}
+
+/**
+ * Export codes of a workflow's fields, by field key, in form order
+ */
+export function getFieldCodes(workflowType: WorkflowType): Record<string, WorkflowFieldCode> {
+  const codes: Record<string, WorkflowFieldCode> = {};
+  for (const field of getWorkflowSchema(workflowType)?.fields || []) {
+    if (field.code) codes[field.key] = field.code;
+  }
+  return codes;
+}
+
+/**
+ * Form values placed at their StructuredData paths. `values` replaces a field's form value
+ * (e.g., a spoken list already parsed into items); strings are trimmed and unset values left out.
+ */
+export function toStructuredData<T extends object>(
+  workflowType: WorkflowType,
+  formData: T,
+  values: Partial<Record<keyof T, unknown>> = {}
+): StructuredData {
+  const structuredData: Record<string, unknown> = {};
+
+  for (const field of getWorkflowSchema(workflowType)?.fields || []) {
+    const key = field.key as keyof T;
+    const value = key in values ? values[key] : formData[key];
+    if (value === undefined) continue;
+
+    const path = (field.path || field.key).split('.');
+    let target = structuredData;
+    for (const part of path.slice(0, -1)) {
+      target = (target[part] ??= {}) as Record<string, unknown>;
+    }
+    target[path[path.length - 1]] = typeof value === 'string' ? value.trim() : value;
+  }
+
+  return structuredData as StructuredData;
+}
@@ -16,7 +16,13 @@ export type WorkflowType =
   | 'shift-handoff'
   | 'admission'
   | 'discharge'
-  | 'general-note';
+  | 'general-note'
+  | CustomWorkflowType;
+
+/**
+ * Workflow defined in the app from a CustomWorkflowTemplate ("custom-" and the template's slug)
+ */
+export type CustomWorkflowType = `custom-${string}`;
 
 /**
  * Status of a documentation entry
@@ -52,6 +58,9 @@ export interface Patient {
   /** Admission date in ISO format */
   admissionDate?: string;
 
+  /** Discharge date in ISO format (set when an ADT^A03 is received) */
+  dischargeDate?: string;
+
   /** Primary diagnosis */
   primaryDiagnosis?: string;
 
@@ -66,6 +75,33 @@ export interface Patient {
 // VITAL SIGNS
 // ============================================================================
 
+/**
+ * UCUM units a measured vital sign can be spoken or received in
+ */
+export type VitalSignUnit =
+  | '[degF]' // Fahrenheit
+  | 'Cel' // Celsius
+  | '[lb_av]' // Pounds
+  | '[oz_av]' // Ounces
+  | 'kg' // Kilograms
+  | '[in_i]' // Inches
+  | 'cm' // Centimeters
+  | 'mg/dL' // Glucose, US units
+  | 'mmol/L'; // Glucose, SI units
+
+/**
+ * Vital signs that are stored in one unit but may be measured in another
+ */
+export type UnitConvertedVitalSign = 'temperature' | 'weight' | 'height' | 'bloodGlucose';
+
+/**
+ * A value as it was measured, before conversion to the VitalSigns unit
+ */
+export interface VitalSignMeasurement {
+  value: number;
+  unit: VitalSignUnit;
+}
+
 /**
  * Patient vital signs with LOINC codes for standardization
  * LOINC (Logical Observation Identifiers Names and Codes) is a standard for lab and clinical observations
@@ -109,6 +145,176 @@ export interface VitalSigns {
 
   /** Blood glucose level in mg/dL - LOINC: 2339-0 */
   bloodGlucose?: number;
+
+  /** Values as originally spoken (e.g., 37.2 Cel), kept for export alongside the converted value */
+  measuredAs?: Partial<Record<UnitConvertedVitalSign, VitalSignMeasurement>>;
+
+  /** Level of consciousness when vitals were taken (scored by NEWS2/MEWS) */
+  levelOfConsciousness?: LevelOfConsciousness;
+
+  /** Whether the patient was on supplemental oxygen (false: room air) */
+  supplementalOxygen?: boolean;
+}
+
+// ============================================================================
+// EARLY WARNING SCORES
+// ============================================================================
+
+/**
+ * Vital sign parameters scored by NEWS2 and MEWS
+ */
+export type EarlyWarningParameter =
+  | 'respiratoryRate'
+  | 'oxygenSaturation'
+  | 'supplementalOxygen'
+  | 'systolic'
+  | 'heartRate'
+  | 'levelOfConsciousness'
+  | 'temperature';
+
+/**
+ * Clinical risk band for an early warning score
+ */
+export type EarlyWarningRisk = 'low' | 'low-medium' | 'medium' | 'high';
+
+/**
+ * Points one parameter contributed to a score
+ */
+export interface EarlyWarningScoreItem {
+  parameter: EarlyWarningParameter;
+
+  /** Value as scored (temperature in °C) */
+  value: number | string | boolean;
+
+  points: number;
+}
+
+/**
+ * NEWS2 or MEWS result with its breakdown
+ */
+export interface EarlyWarningScore {
+  type: 'NEWS2' | 'MEWS';
+  total: number;
+  risk: EarlyWarningRisk;
+
+  /** Whether the score reached the escalation threshold */
+  escalate: boolean;
+
+  breakdown: EarlyWarningScoreItem[];
+
+  /** Parameters not recorded - they score 0, so the total may understate risk */
+  missing: EarlyWarningParameter[];
+}
+
+/**
+ * Early warning scores calculated from an entry's vital signs
+ */
+export interface EarlyWarningScores {
+  news2: EarlyWarningScore;
+  mews: EarlyWarningScore;
+  calculatedAt: string;
+}
+
+// ============================================================================
+// CLINICAL RANGES
+// ============================================================================
+
+/**
+ * Numeric fields with physiological limits (temperature in °F, glucose in mg/dL)
+ */
+export type ClinicalRangeField =
+  | 'systolic'
+  | 'diastolic'
+  | 'heartRate'
+  | 'temperature'
+  | 'respiratoryRate'
+  | 'oxygenSaturation'
+  | 'painLevel'
+  | 'bloodGlucose';
+
+/**
+ * Limits for one field
+ */
+export interface ClinicalLimits {
+  label: string;
+  unit: string;
+
+  /** Values outside this range can't be real measurements and are rejected */
+  plausible: { min: number; max: number };
+
+  /** Values below `low` or above `high` are critical and need confirmation */
+  critical: { low?: number; high?: number };
+}
+
+/**
+ * Value outside a field's plausible or critical limits
+ */
+export interface ClinicalRangeFinding {
+  field: ClinicalRangeField;
+  value: number;
+  level: 'implausible' | 'critical';
+  message: string;
+}
+
+// ============================================================================
+// VITAL SIGN TRENDS
+// ============================================================================
+
+/**
+ * Vital signs charted over time (bloodPressure charts systolic and diastolic together)
+ */
+export type VitalTrendMetric =
+  | 'bloodPressure'
+  | 'heartRate'
+  | 'temperature'
+  | 'respiratoryRate'
+  | 'oxygenSaturation'
+  | 'painLevel';
+
+/**
+ * Time window for a trend: the last 8/24/72 hours, or everything since admission
+ */
+export type VitalTrendWindow = '8h' | '24h' | '72h' | 'admission';
+
+/**
+ * Normal adult range for a charted value
+ */
+export interface VitalNormalRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * One charted measurement
+ */
+export interface VitalTrendPoint {
+  timestamp: string;
+
+  /** Entry the measurement was documented in */
+  entryId: string;
+
+  value: number;
+
+  /** Diastolic, for blood pressure points */
+  secondaryValue?: number;
+
+  /** Whether the value (or diastolic) is outside the normal range */
+  outOfRange: boolean;
+}
+
+/**
+ * Measurements of one vital sign for a patient, oldest first
+ */
+export interface VitalTrendSeries {
+  metric: VitalTrendMetric;
+  label: string;
+  unit: string;
+  normalRange: VitalNormalRange;
+
+  /** Normal diastolic range, for blood pressure */
+  secondaryNormalRange?: VitalNormalRange;
+
+  points: VitalTrendPoint[];
 }
 
 // ============================================================================
@@ -171,6 +377,97 @@ export interface Medication {
 
   /** NDC (National Drug Code) if available */
   ndc?: string;
+
+  /** RxNorm concept (RxCUI) if available */
+  rxnormCode?: string;
+}
+
+/**
+ * One strength of a formulary drug, with its package code
+ */
+export interface FormularyStrength {
+  /** Strength as doses are written (e.g., "25mg", "5000units") */
+  dose: string;
+
+  /** Dose form (e.g., "tablet", "injection") */
+  form: string;
+
+  /** NDC in 5-4-2 format */
+  ndc: string;
+}
+
+/**
+ * Drug in the local formulary
+ */
+export interface FormularyDrug {
+  /** Generic name as documented (e.g., "Metoprolol") */
+  genericName: string;
+
+  /** Brand names nurses may say instead */
+  brandNames: string[];
+
+  /** RxNorm ingredient concept (RxCUI) */
+  rxnormCode: string;
+
+  /** Routes this drug may be given by */
+  routes: MedicationRoute[];
+
+  strengths: FormularyStrength[];
+
+  /** Drug classes, for allergy cross-checks (e.g., "penicillin", "nsaid") */
+  drugClasses: string[];
+
+  /** Usual single adult dose range */
+  doseRange?: { min: number; max: number; unit: string };
+
+  /** Shortest usual time between doses, when no frequency is documented */
+  minIntervalHours?: number;
+}
+
+/**
+ * Formulary drug matched to a spoken or typed name
+ */
+export interface FormularyMatch {
+  drug: FormularyDrug;
+
+  /** Generic or brand name the input matched */
+  matchedName: string;
+
+  /** 0-1, 1 for an exact name match */
+  score: number;
+
+  /** How the name matched */
+  matchType: 'exact' | 'phonetic' | 'fuzzy';
+}
+
+/**
+ * Medication safety rule that raised a warning
+ */
+export type MedicationSafetyRule = 'allergy' | 'dose-range' | 'route' | 'duplicate';
+
+/**
+ * Warning from the medication safety checks run before an entry is saved
+ */
+export interface MedicationSafetyWarning {
+  rule: MedicationSafetyRule;
+
+  /** high: likely harm (documented allergy, above max dose); moderate: needs a second look */
+  severity: 'high' | 'moderate';
+
+  /** Medication the warning is about, as documented */
+  medication: string;
+
+  message: string;
+}
+
+/**
+ * Nurse's override of medication safety warnings
+ */
+export interface SafetyOverride {
+  reason: string;
+  overriddenBy: string;
+  overriddenAt: string;
+  warnings: MedicationSafetyWarning[];
 }
 
 // ============================================================================
@@ -308,6 +605,11 @@ export type WoundStage =
   | 'unstageable'
   | 'deep-tissue-injury';
 
+/**
+ * Tissue types documented as a share of the wound bed
+ */
+export type WoundTissueType = 'granulation' | 'slough' | 'eschar' | 'epithelial' | 'necrotic';
+
 /**
  * Detailed wound assessment and care documentation
  */
@@ -333,12 +635,15 @@ export interface WoundDetails {
     color?: string;
     tissuetype?: string;
     granulation?: string;
+    /** Percent of the wound bed covered by each tissue type */
+    composition?: Partial<Record<WoundTissueType, number>>;
   };
 
   /** Drainage characteristics */
   drainage?: {
     amount: 'none' | 'scant' | 'small' | 'moderate' | 'large' | 'copious';
-    type: 'serous' | 'serosanguineous' | 'sanguineous' | 'purulent';
+    /** Not documented when there is no drainage */
+    type?: 'serous' | 'serosanguineous' | 'sanguineous' | 'purulent';
     odor?: 'none' | 'foul' | 'sweet';
   };
 
@@ -410,6 +715,57 @@ export interface ShiftHandoff {
   familyConcerns?: string;
 }
 
+// ============================================================================
+// DISCHARGE
+// ============================================================================
+
+/**
+ * Outcome of comparing a discharge medication against the admission
+ * home medication list and medications given during the stay (MAR)
+ */
+export type MedicationReconciliationStatus =
+  | 'continued' // On home list and discharge list, unchanged
+  | 'changed' // On home list and discharge list, dose/route/frequency differs
+  | 'new' // Started during stay or at discharge
+  | 'discontinued' // On home list, not on discharge list
+  | 'inpatient-only'; // Given during stay only, not continued at discharge
+
+/**
+ * Single line of the discharge medication reconciliation
+ */
+export interface MedicationReconciliationItem {
+  /** Medication name as shown to the patient */
+  medicationName: string;
+
+  status: MedicationReconciliationStatus;
+
+  /** Matching entry from the admission home medication list */
+  homeMedication?: Medication;
+
+  /** Matching entry from the dictated discharge medication list */
+  dischargeMedication?: Medication;
+
+  /** Whether the medication was administered during the stay (MAR) */
+  givenDuringStay: boolean;
+}
+
+/**
+ * Teach-back result for a patient education topic
+ */
+export type TeachBackStatus =
+  | 'verbalized' // Patient restated the information
+  | 'demonstrated' // Patient performed the skill (e.g., inhaler, dressing change)
+  | 'needs-reinforcement'
+  | 'not-assessed';
+
+/**
+ * Patient education topic with teach-back confirmation
+ */
+export interface PatientEducationItem {
+  topic: string;
+  teachBack: TeachBackStatus;
+}
+
 // ============================================================================
 // STRUCTURED DATA
 // ============================================================================
@@ -452,16 +808,118 @@ export interface StructuredData {
     followUpAppointments: string[];
     patientEducation: string[];
     dischargeDestination: string;
+    medicationReconciliation?: MedicationReconciliationItem[];
+    educationItems?: PatientEducationItem[];
   };
 
+  /** Form documented with a custom workflow template */
+  customForm?: CustomFormData;
+
   /** Additional free-text notes */
   additionalNotes?: string;
 }
 
+// ============================================================================
+// AUDIO RECORDINGS
+// ============================================================================
+
+/**
+ * When a recognized word was spoken (offsets from the start of the recording)
+ */
+export interface TranscriptWordTiming {
+  word: string;
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * A finished segment of the transcript and when it was spoken
+ */
+export interface TranscriptSegment {
+  text: string;
+  startMs: number;
+  endMs: number;
+
+  /** Word-level timings, when the speech engine reports them */
+  words?: TranscriptWordTiming[];
+}
+
+/**
+ * Audio recorded while an entry was dictated
+ * The audio itself is kept on the device (audioStorage) and purged after the retention period
+ */
+export interface AudioRecording {
+  mimeType: string;
+  durationMs: number;
+  recordedAt: string;
+
+  /** Transcript segments with their offsets into the audio */
+  segments: TranscriptSegment[];
+}
+
 // ============================================================================
 // DOCUMENTATION ENTRY (Main)
 // ============================================================================
 
+/**
+ * One field that differs between two versions of an entry's structuredData
+ */
+export interface StructuredDataChange {
+  /** Path into structuredData, e.g., "vitalSigns.heartRate" or "medications[0].dose" */
+  path: string;
+
+  /** Value in the previous version (undefined if the field was added) */
+  before?: unknown;
+
+  /** Value in this version (undefined if the field was removed) */
+  after?: unknown;
+}
+
+/**
+ * Electronic signature: the signer re-authenticated with their PIN and attested to the content
+ */
+export interface EntrySignature {
+  signerId: string;
+  signerName: string;
+  signerRole?: Nurse['role'];
+  signerCredentials?: string;
+  signedAt: string;
+
+  /** SHA-256 (hex) of the signed content - it no longer matches once the content changes */
+  contentHash: string;
+
+  /** Statement the signer attested to */
+  attestation: string;
+}
+
+/**
+ * A recorded version of a documentation entry's content
+ */
+export interface EntryVersion {
+  /** Version number, starting at 1 */
+  version: number;
+
+  /** When this version was recorded (ISO format) */
+  recordedAt: string;
+
+  /** Who made the change */
+  authorId: string;
+  authorName?: string;
+
+  /** Why the entry was changed (required for amendments) */
+  reason?: string;
+
+  /** Whether this version corrects an entry that had already been signed or sent to the EHR */
+  isAmendment: boolean;
+
+  /** Content of this version */
+  voiceTranscript: string;
+  structuredData: StructuredData;
+
+  /** structuredData changes from the previous version (empty for version 1) */
+  changes: StructuredDataChange[];
+}
+
 /**
  * Primary documentation entry created from voice-to-text input
  * This is the core data structure for all nursing documentation
@@ -503,18 +961,54 @@ export interface DocumentationEntry {
   /** When this was last modified */
   lastModified?: string;
 
+  /** Current version number (1 until the documented content changes) */
+  version?: number;
+
+  /** Version history, oldest first (append-only; the last version matches the current content) */
+  versions?: EntryVersion[];
+
+  /** When the entry was last amended after being sent to the EHR */
+  amendedAt?: string;
+
   /** When this was sent to EHR (if applicable) */
   sentToEHRAt?: string;
 
+  /** Resource ids assigned by the FHIR server (e.g., "Observation/123") */
+  ehrResourceIds?: string[];
+
+  /** HL7 v2 (MLLP) delivery state and acknowledgment */
+  hl7Delivery?: HL7DeliveryRecord;
+
+  /** Originating system, for entries received from other systems instead of documented in Voize */
+  externalSource?: ExternalSource;
+
   /** Confidence score from speech recognition (0-1) */
   transcriptConfidence?: number;
 
+  /** Dictation audio (the audio is stored separately, keyed by entry id) */
+  audioRecording?: AudioRecording;
+
   /** Any flags or alerts */
   flags?: string[];
 
+  /** Medication safety warnings the nurse overrode to save this entry */
+  safetyOverride?: SafetyOverride;
+
+  /** NEWS2 and MEWS, calculated from the vital signs when the entry is saved */
+  earlyWarningScores?: EarlyWarningScores;
+
   /** Signature status */
   signed?: boolean;
   signedAt?: string;
+
+  /** Author's electronic signature over the current content */
+  signature?: EntrySignature;
+
+  /** Whether the author's role needs an RN co-signature (LPN, LVN, CNA) */
+  coSignatureRequired?: boolean;
+
+  /** RN co-signature, over the same content as `signature` */
+  coSignature?: EntrySignature;
 }
 
 // ============================================================================
@@ -545,6 +1039,137 @@ export interface WorkflowTemplate {
   color?: string;
 }
 
+// ============================================================================
+// WORKFLOW SCHEMAS
+// ============================================================================
+
+/**
+ * Input used for a workflow field
+ */
+export type WorkflowFieldType = 'text' | 'number' | 'select' | 'textarea' | 'date' | 'time' | 'datetime-local';
+
+/**
+ * Code a field's value is exported under (e.g., LOINC 8867-4 for heart rate)
+ */
+export interface WorkflowFieldCode {
+  /** Code system URI */
+  system: string;
+  code: string;
+  display: string;
+
+  /** UCUM unit for numeric values */
+  unit?: string;
+}
+
+/**
+ * One field of a workflow: how it's shown, spoken, validated, stored and exported
+ */
+export interface WorkflowFieldSchema {
+  /** Key in the form data */
+  key: string;
+  label: string;
+  type: WorkflowFieldType;
+
+  /** Unit shown after the label (e.g., "mmHg") */
+  unit?: string;
+
+  required?: boolean;
+
+  /** Value the form starts with (date-time fields without one start at the current time) */
+  defaultValue?: string;
+
+  /** Form section the field is shown in; sections appear in the order of their first field */
+  group?: string;
+
+  /** Message when a required field is empty (defaults to "<label> is required") */
+  requiredMessage?: string;
+
+  placeholder?: string;
+  options?: { value: string; label: string }[];
+  min?: number;
+  max?: number;
+  step?: number;
+
+  /** Validated against this field's clinical limits (also used for min/max when not set) */
+  clinicalRange?: ClinicalRangeField;
+
+  /**
+   * Phrases said before the field's content. They also end the previous field's content
+   * in every workflow, so they should be unambiguous.
+   */
+  spokenLabels?: string[];
+
+  /** Short or ambiguous labels only recognized in this workflow (e.g., "bp", "via") */
+  shortLabels?: string[];
+
+  /** Other names the field is recognized by when named on its own; never used to split dictation */
+  aliases?: string[];
+
+  /** Clinical terms that refer to the field */
+  medicalTerms?: string[];
+
+  /**
+   * How dictation fills the field: 'segment' takes what is said after its label,
+   * 'extract' lets the transcript parser pick the value out
+   */
+  autoFill?: 'segment' | 'extract';
+
+  /** Dot path of the value in StructuredData (e.g., "admissionData.allergies"); `key` at the top level if not set */
+  path?: string;
+
+  code?: WorkflowFieldCode;
+}
+
+/**
+ * Declarative definition of a workflow's fields
+ */
+export interface WorkflowSchema {
+  type: WorkflowType;
+
+  /** Fields in form order */
+  fields: WorkflowFieldSchema[];
+}
+
+/**
+ * Documentation form defined in the app by a charge nurse (e.g., Morse fall risk, restraint
+ * checks). Stored on the device with every saved version, and shared as JSON.
+ */
+export interface CustomWorkflowTemplate extends WorkflowSchema {
+  type: CustomWorkflowType;
+  name: string;
+  description: string;
+
+  /** Guided prompts shown while documenting */
+  promptGuide: string[];
+
+  icon?: string;
+  color?: string;
+
+  /** Starts at 1 and goes up on every save */
+  version: number;
+
+  updatedAt: string;
+
+  /** Nurse who saved this version */
+  updatedBy?: string;
+}
+
+/**
+ * Values documented on a custom form, with the labels and template version they were
+ * documented with (so the entry reads the same after the template changes)
+ */
+export interface CustomFormData {
+  templateType: CustomWorkflowType;
+  templateName: string;
+  templateVersion: number;
+  fields: {
+    key: string;
+    label: string;
+    value: string | number;
+    unit?: string;
+  }[];
+}
+
 // ============================================================================
 // EHR INTEGRATION TYPES
 // ============================================================================
@@ -654,6 +1279,16 @@ export interface FHIRObservation {
 
   valueString?: string;
   valueBoolean?: boolean;
+  valueInteger?: number;
+
+  /** Observed body part (e.g., wound location) */
+  bodySite?: FHIRCodeableConcept;
+
+  /** Related resource that belongs to this panel */
+  hasMember?: FHIRReference[];
+
+  /** Component results (assessment findings, wound dimensions) */
+  component?: FHIRObservationComponent[];
 
   /** High, low, normal, etc. */
   interpretation?: Array<{
@@ -674,6 +1309,322 @@ export interface FHIRObservation {
   }>;
 }
 
+/**
+ * FHIR Observation component - a result reported together with others in one Observation
+ */
+export interface FHIRObservationComponent {
+  code: FHIRCodeableConcept;
+  valueQuantity?: FHIRQuantity;
+  valueString?: string;
+  valueBoolean?: boolean;
+  valueInteger?: number;
+}
+
+/**
+ * FHIR CodeableConcept - a set of codes plus display text
+ */
+export interface FHIRCodeableConcept {
+  coding?: Array<{
+    system?: string;
+    code?: string;
+    display?: string;
+  }>;
+  text?: string;
+}
+
+/**
+ * FHIR Quantity - a measured amount, UCUM-coded when system is "http://unitsofmeasure.org"
+ */
+export interface FHIRQuantity {
+  value: number;
+  unit: string;
+  system?: string;
+  code?: string;
+}
+
+/**
+ * FHIR Reference to another resource
+ */
+export interface FHIRReference {
+  reference: string; // e.g., "Patient/12345"
+  display?: string;
+}
+
+/**
+ * FHIR Encounter
+ * Simplified representation of FHIR R4 Encounter resource (used for admissions)
+ */
+export interface FHIREncounter {
+  resourceType: 'Encounter';
+  id?: string;
+  status: 'planned' | 'arrived' | 'in-progress' | 'finished' | 'cancelled';
+
+  /** Inpatient, emergency, ambulatory, etc. (v3 ActCode) */
+  class: {
+    system: string;
+    code: string;
+    display?: string;
+  };
+
+  subject: FHIRReference;
+  period?: {
+    start?: string;
+    end?: string;
+  };
+
+  /** Coded reason the encounter takes place (chief complaint) */
+  reasonCode?: FHIRCodeableConcept[];
+
+  /** Details about the admission to a healthcare service */
+  hospitalization?: {
+    admitSource?: FHIRCodeableConcept;
+    dischargeDisposition?: FHIRCodeableConcept;
+  };
+
+  participant?: Array<{
+    individual: FHIRReference;
+  }>;
+}
+
+/**
+ * FHIR Condition
+ * Simplified representation of FHIR R4 Condition resource (diagnoses, history)
+ */
+export interface FHIRCondition {
+  resourceType: 'Condition';
+  id?: string;
+  clinicalStatus?: FHIRCodeableConcept;
+
+  /** encounter-diagnosis | problem-list-item */
+  category?: FHIRCodeableConcept[];
+
+  code: FHIRCodeableConcept;
+  subject: FHIRReference;
+  encounter?: FHIRReference;
+  recordedDate?: string;
+  recorder?: FHIRReference;
+}
+
+/**
+ * FHIR AllergyIntolerance
+ * Simplified representation of FHIR R4 AllergyIntolerance resource
+ */
+export interface FHIRAllergyIntolerance {
+  resourceType: 'AllergyIntolerance';
+  id?: string;
+  clinicalStatus?: FHIRCodeableConcept;
+  verificationStatus?: FHIRCodeableConcept;
+  code: FHIRCodeableConcept;
+  patient: FHIRReference;
+  recordedDate?: string;
+  recorder?: FHIRReference;
+}
+
+/**
+ * FHIR Dosage instructions (shared by medication resources)
+ */
+export interface FHIRDosage {
+  text?: string;
+  timing?: {
+    code?: FHIRCodeableConcept;
+  };
+  route?: FHIRCodeableConcept;
+  doseAndRate?: Array<{
+    doseQuantity?: {
+      value: number;
+      unit: string;
+      system?: string;
+      code?: string;
+    };
+  }>;
+}
+
+/**
+ * FHIR MedicationStatement
+ * Simplified representation of FHIR R4 MedicationStatement resource (home medications)
+ */
+export interface FHIRMedicationStatement {
+  resourceType: 'MedicationStatement';
+  id?: string;
+  status: 'active' | 'completed' | 'entered-in-error' | 'intended' | 'stopped' | 'on-hold' | 'unknown' | 'not-taken';
+  medicationCodeableConcept: FHIRCodeableConcept;
+  subject: FHIRReference;
+  dateAsserted?: string;
+  informationSource?: FHIRReference;
+  dosage?: FHIRDosage[];
+}
+
+/**
+ * FHIR Patient
+ * Simplified representation of FHIR R4 Patient resource
+ */
+export interface FHIRPatient {
+  resourceType: 'Patient';
+  id?: string;
+
+  /** MRN and other business identifiers */
+  identifier?: Array<{
+    system?: string;
+    value?: string;
+  }>;
+
+  name?: Array<{
+    family?: string;
+    given?: string[];
+    text?: string;
+  }>;
+
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  birthDate?: string;
+}
+
+/**
+ * FHIR MedicationAdministration
+ * Simplified representation of FHIR R4 MedicationAdministration resource
+ */
+export interface FHIRMedicationAdministration {
+  resourceType: 'MedicationAdministration';
+  id?: string;
+  status: 'in-progress' | 'not-done' | 'on-hold' | 'completed' | 'entered-in-error' | 'stopped' | 'unknown';
+  medicationCodeableConcept: FHIRCodeableConcept;
+  subject: FHIRReference;
+  effectiveDateTime: string;
+  performer?: Array<{
+    actor: FHIRReference;
+  }>;
+  reasonCode?: FHIRCodeableConcept[];
+  note?: Array<{
+    text: string;
+  }>;
+  dosage?: {
+    text?: string;
+    site?: FHIRCodeableConcept;
+    route?: FHIRCodeableConcept;
+    dose?: FHIRQuantity;
+  };
+}
+
+/**
+ * FHIR DocumentReference
+ * Simplified representation of FHIR R4 DocumentReference resource (voice transcript / note text)
+ */
+export interface FHIRDocumentReference {
+  resourceType: 'DocumentReference';
+  id?: string;
+  status: 'current' | 'superseded' | 'entered-in-error';
+  type?: FHIRCodeableConcept;
+  subject: FHIRReference;
+  date?: string;
+  author?: FHIRReference[];
+  description?: string;
+  content: Array<{
+    attachment: {
+      contentType: string;
+      language?: string;
+      /** Base64-encoded content */
+      data?: string;
+      title?: string;
+      creation?: string;
+    };
+  }>;
+}
+
+/**
+ * FHIR Composition
+ * Simplified representation of FHIR R4 Composition resource (SBAR shift handoff)
+ */
+export interface FHIRComposition {
+  resourceType: 'Composition';
+  id?: string;
+  status: 'preliminary' | 'final' | 'amended' | 'entered-in-error';
+  type: FHIRCodeableConcept;
+  subject: FHIRReference;
+  date: string;
+  author: FHIRReference[];
+  title: string;
+  section?: Array<{
+    title?: string;
+    code?: FHIRCodeableConcept;
+    text?: {
+      status: 'generated' | 'extensions' | 'additional' | 'empty';
+      /** Limited XHTML, e.g., <div xmlns="http://www.w3.org/1999/xhtml">...</div> */
+      div: string;
+    };
+  }>;
+}
+
+/**
+ * FHIR OperationOutcome
+ * Returned by the FHIR server for errors and warnings
+ */
+export interface FHIROperationOutcome {
+  resourceType: 'OperationOutcome';
+  id?: string;
+  issue: Array<{
+    severity: 'fatal' | 'error' | 'warning' | 'information';
+    code: string;
+    diagnostics?: string;
+    expression?: string[];
+  }>;
+}
+
+/**
+ * Any FHIR resource produced by the export utilities
+ */
+export type FHIRResource =
+  | FHIRPatient
+  | FHIRObservation
+  | FHIREncounter
+  | FHIRCondition
+  | FHIRAllergyIntolerance
+  | FHIRMedicationStatement
+  | FHIRMedicationAdministration
+  | FHIRDocumentReference
+  | FHIRComposition;
+
+/**
+ * FHIR Bundle entry (request/response fields are used by transaction bundles)
+ */
+export interface FHIRBundleEntry<R = FHIRResource> {
+  fullUrl?: string;
+  resource?: R;
+  request?: {
+    method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+    url: string;
+  };
+  response?: {
+    /** HTTP status with reason, e.g., "201 Created" */
+    status: string;
+    /** Location of the created/updated resource, e.g., "Observation/123/_history/1" */
+    location?: string;
+    etag?: string;
+    lastModified?: string;
+    outcome?: FHIROperationOutcome;
+  };
+}
+
+/**
+ * FHIR Bundle
+ * Simplified representation of FHIR R4 Bundle resource
+ */
+export interface FHIRBundle<R = FHIRResource> {
+  resourceType: 'Bundle';
+  id?: string;
+  type: 'collection' | 'transaction' | 'transaction-response' | 'batch' | 'batch-response' | 'searchset' | 'document';
+  timestamp?: string;
+  total?: number;
+  entry?: FHIRBundleEntry<R>[];
+  meta?: {
+    source?: string;
+    lastUpdated?: string;
+    tag?: Array<{
+      system?: string;
+      code?: string;
+      display?: string;
+    }>;
+  };
+}
+
 /**
  * HL7 v2 Message Segment
  * Represents a segment in an HL7 v2.x message
@@ -719,6 +1670,90 @@ export interface HL7Message {
   rawMessage?: string;
 }
 
+/**
+ * Origin of a record received from another system (e.g., an inbound HL7 v2 ORU^R01)
+ */
+export interface ExternalSource {
+  format: 'HL7v2' | 'FHIR';
+
+  /** Sending application (MSH-3) */
+  sendingApplication: string;
+
+  /** Sending facility (MSH-4) */
+  sendingFacility: string;
+
+  /** Message type, e.g., ORU^R01 */
+  messageType?: string;
+
+  /** Control ID of the message the record came from */
+  messageControlId?: string;
+
+  /** When the message was received */
+  receivedAt: string;
+}
+
+/**
+ * HL7 v2 acknowledgment codes (MSA-1, original mode)
+ * AA = accepted, AE = application error (may be resent), AR = rejected (do not resend)
+ */
+export type HL7AcknowledgmentCode = 'AA' | 'AE' | 'AR';
+
+/**
+ * Parsed ACK returned by the receiving system
+ */
+export interface HL7Acknowledgment {
+  /** MSA-1 acknowledgment code */
+  code: HL7AcknowledgmentCode;
+
+  /** MSA-2 control ID of the message being acknowledged */
+  messageControlId: string;
+
+  /** MSA-3 text message / ERR details, if any */
+  textMessage?: string;
+
+  /** When the ACK was received */
+  receivedAt: string;
+}
+
+/**
+ * Delivery state of an HL7 v2 message sent over MLLP
+ * - queued: waiting for (re)send after a network error, timeout or AE
+ * - acknowledged: receiver returned AA
+ * - rejected: receiver returned AR
+ * - failed: gave up after the maximum number of attempts
+ */
+export type HL7DeliveryStatus = 'queued' | 'acknowledged' | 'rejected' | 'failed';
+
+/**
+ * HL7 v2 delivery record kept on a DocumentationEntry (also serves as the resend queue item)
+ */
+export interface HL7DeliveryRecord {
+  status: HL7DeliveryStatus;
+
+  /** MSH-9 message type (e.g., ORU^R01) */
+  messageType: string;
+
+  /** MSH-10 control ID (kept across resends so the receiver can detect duplicates) */
+  messageControlId: string;
+
+  /** The message as sent, reused for resends */
+  rawMessage: string;
+
+  /** Number of send attempts so far */
+  attempts: number;
+
+  lastAttemptAt?: string;
+
+  /** Earliest time the queue will resend (status 'queued' only) */
+  nextAttemptAt?: string;
+
+  /** Last ACK received */
+  acknowledgment?: HL7Acknowledgment;
+
+  /** Last transport error (connection refused, timeout, etc.) */
+  error?: string;
+}
+
 /**
  * HL7 CDA (Clinical Document Architecture) Header
  * Simplified representation for nursing documentation
@@ -746,6 +1781,8 @@ export interface CDADocument {
   /** Patient information */
   patient: {
     id: string;
+    /** Medical Record Number (recordTarget/patientRole/id) */
+    mrn?: string;
     name: string;
     birthTime: string;
     gender: string;
@@ -756,6 +1793,14 @@ export interface CDADocument {
     time: string;
     id: string;
     name: string;
+    /** Credentials (RN, LPN, etc.) */
+    credentials?: string;
+  };
+
+  /** Organization maintaining the document */
+  custodian?: {
+    id: string;
+    name: string;
   };
 
   /** Document content */
@@ -790,6 +1835,9 @@ export interface Nurse {
 
   /** Role */
   role?: 'RN' | 'LPN' | 'LVN' | 'CNA' | 'NP' | 'CNS';
+
+  /** Charge nurses can define custom workflow templates */
+  chargeNurse?: boolean;
 }
 
 // ============================================================================